@@ -1,5 +1,6 @@
 import 'dotenv/config';
 import { Pool } from 'pg';
+import { BUILTIN_ROLES } from '../services/permissions.js';
 
 const pool = new Pool({
   connectionString: process.env.DATABASE_URL,
@@ -34,6 +35,10 @@ async function migrate() {
         id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
         name VARCHAR(255) NOT NULL,
         slug VARCHAR(100) NOT NULL UNIQUE,
+        timezone VARCHAR(64) DEFAULT 'UTC' NOT NULL,
+        require_admin_mfa BOOLEAN DEFAULT false NOT NULL,
+        password_policy JSONB DEFAULT '{}' NOT NULL,
+        pii_policy JSONB DEFAULT '{}' NOT NULL,
         is_active BOOLEAN DEFAULT true NOT NULL,
         created_at TIMESTAMP DEFAULT NOW() NOT NULL,
         updated_at TIMESTAMP DEFAULT NOW() NOT NULL
@@ -48,6 +53,15 @@ async function migrate() {
         role VARCHAR(50) NOT NULL DEFAULT 'user',
         is_approved BOOLEAN DEFAULT false NOT NULL,
         is_active BOOLEAN DEFAULT true NOT NULL,
+        invitation_id UUID,
+        mfa_enabled BOOLEAN DEFAULT false NOT NULL,
+        mfa_secret_encrypted TEXT,
+        mfa_last_step BIGINT,
+        failed_login_attempts INTEGER DEFAULT 0 NOT NULL,
+        locked_until TIMESTAMP,
+        custom_role_id UUID,
+        sso_issuer TEXT,
+        sso_subject VARCHAR(255),
         created_at TIMESTAMP DEFAULT NOW() NOT NULL,
         updated_at TIMESTAMP DEFAULT NOW() NOT NULL
       );
@@ -68,8 +82,16 @@ async function migrate() {
         forbidden_topics JSONB DEFAULT '[]' NOT NULL,
         cost_limit_daily REAL DEFAULT 10.0 NOT NULL,
         cost_used_today REAL DEFAULT 0 NOT NULL,
+        cost_period_date DATE DEFAULT CURRENT_DATE NOT NULL,
         kill_switch BOOLEAN DEFAULT false NOT NULL,
         enable_rag BOOLEAN DEFAULT true NOT NULL,
+        memory_token_budget INTEGER DEFAULT 4000 NOT NULL,
+        access_mode VARCHAR(20) DEFAULT 'tenant' NOT NULL,
+        output_guardrails JSONB DEFAULT '{}' NOT NULL,
+        injection_guard JSONB DEFAULT '{}' NOT NULL,
+        review_mode VARCHAR(20) DEFAULT 'off' NOT NULL,
+        active_version_id UUID,
+        draft_config JSONB,
         is_active BOOLEAN DEFAULT true NOT NULL,
         created_at TIMESTAMP DEFAULT NOW() NOT NULL,
         updated_at TIMESTAMP DEFAULT NOW() NOT NULL
@@ -83,6 +105,7 @@ async function migrate() {
         name VARCHAR(255) NOT NULL,
         description TEXT,
         is_global BOOLEAN DEFAULT false NOT NULL,
+        access_mode VARCHAR(20) DEFAULT 'tenant' NOT NULL,
         created_at TIMESTAMP DEFAULT NOW() NOT NULL,
         updated_at TIMESTAMP DEFAULT NOW() NOT NULL
       );
@@ -114,6 +137,8 @@ async function migrate() {
         chunk_index INTEGER NOT NULL,
         chunk_text TEXT NOT NULL,
         embedding JSONB NOT NULL,
+        quarantined_at TIMESTAMP,
+        quarantine_reason TEXT,
         created_at TIMESTAMP DEFAULT NOW() NOT NULL
       );
       CREATE INDEX IF NOT EXISTS embeddings_document_idx ON embeddings(document_id);
@@ -151,6 +176,8 @@ async function migrate() {
         user_id UUID NOT NULL REFERENCES users(id),
         agent_id UUID NOT NULL REFERENCES agents(id),
         title VARCHAR(255),
+        summary TEXT,
+        summarized_until TIMESTAMP,
         is_active BOOLEAN DEFAULT true NOT NULL,
         created_at TIMESTAMP DEFAULT NOW() NOT NULL,
         updated_at TIMESTAMP DEFAULT NOW() NOT NULL
@@ -170,6 +197,7 @@ async function migrate() {
         tokens_used INTEGER DEFAULT 0 NOT NULL,
         latency_ms INTEGER DEFAULT 0 NOT NULL,
         evidence JSONB,
+        agent_version_id UUID,
         created_at TIMESTAMP DEFAULT NOW() NOT NULL
       );
       CREATE INDEX IF NOT EXISTS chat_messages_tenant_idx ON chat_messages(tenant_id);
@@ -188,6 +216,8 @@ async function migrate() {
         input_preview TEXT NOT NULL,
         output_preview TEXT,
         metadata JSONB DEFAULT '{}' NOT NULL,
+        api_key_id UUID,
+        agent_version_id UUID,
         created_at TIMESTAMP DEFAULT NOW() NOT NULL
       );
       CREATE INDEX IF NOT EXISTS decision_logs_tenant_idx ON decision_logs(tenant_id);
@@ -211,8 +241,352 @@ async function migrate() {
       CREATE INDEX IF NOT EXISTS admin_action_logs_tenant_idx ON admin_action_logs(tenant_id);
       CREATE INDEX IF NOT EXISTS admin_action_logs_admin_idx ON admin_action_logs(admin_id);
       CREATE INDEX IF NOT EXISTS admin_action_logs_created_idx ON admin_action_logs(created_at);
+
+      -- Model Pricing Table (USD per 1M tokens)
+      CREATE TABLE IF NOT EXISTS model_pricing (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        tenant_id UUID NOT NULL REFERENCES tenants(id),
+        provider VARCHAR(100) NOT NULL,
+        model VARCHAR(100) NOT NULL,
+        input_cost_per_million REAL NOT NULL,
+        output_cost_per_million REAL DEFAULT 0 NOT NULL,
+        is_active BOOLEAN DEFAULT true NOT NULL,
+        created_at TIMESTAMP DEFAULT NOW() NOT NULL,
+        updated_at TIMESTAMP DEFAULT NOW() NOT NULL,
+        UNIQUE(tenant_id, provider, model)
+      );
+      CREATE INDEX IF NOT EXISTS model_pricing_tenant_idx ON model_pricing(tenant_id);
+
+      -- Usage Events Table (Append-Only)
+      CREATE TABLE IF NOT EXISTS usage_events (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        tenant_id UUID NOT NULL REFERENCES tenants(id),
+        agent_id UUID REFERENCES agents(id),
+        user_id UUID REFERENCES users(id) ON DELETE SET NULL,
+        operation VARCHAR(50) NOT NULL,
+        provider VARCHAR(100) NOT NULL,
+        model VARCHAR(100) NOT NULL,
+        input_tokens INTEGER DEFAULT 0 NOT NULL,
+        output_tokens INTEGER DEFAULT 0 NOT NULL,
+        cost REAL DEFAULT 0 NOT NULL,
+        created_at TIMESTAMP DEFAULT NOW() NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS usage_events_tenant_idx ON usage_events(tenant_id);
+      CREATE INDEX IF NOT EXISTS usage_events_agent_idx ON usage_events(agent_id);
+      CREATE INDEX IF NOT EXISTS usage_events_created_idx ON usage_events(created_at);
+
+      -- Agent Daily Usage Table (one row per agent per tenant-local day)
+      CREATE TABLE IF NOT EXISTS agent_daily_usage (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        tenant_id UUID NOT NULL REFERENCES tenants(id),
+        agent_id UUID NOT NULL REFERENCES agents(id) ON DELETE CASCADE,
+        usage_date DATE NOT NULL,
+        cost REAL DEFAULT 0 NOT NULL,
+        cost_limit REAL NOT NULL,
+        created_at TIMESTAMP DEFAULT NOW() NOT NULL,
+        updated_at TIMESTAMP DEFAULT NOW() NOT NULL,
+        UNIQUE(agent_id, usage_date)
+      );
+      CREATE INDEX IF NOT EXISTS agent_daily_usage_tenant_idx ON agent_daily_usage(tenant_id);
+
+      -- Budgets Table (tenant/user/group spending limits; user budgets without subject apply to every user)
+      CREATE TABLE IF NOT EXISTS budgets (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        tenant_id UUID NOT NULL REFERENCES tenants(id),
+        scope VARCHAR(20) NOT NULL,
+        subject_id UUID,
+        period VARCHAR(20) NOT NULL,
+        soft_limit REAL,
+        hard_limit REAL,
+        is_active BOOLEAN DEFAULT true NOT NULL,
+        created_at TIMESTAMP DEFAULT NOW() NOT NULL,
+        updated_at TIMESTAMP DEFAULT NOW() NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS budgets_tenant_idx ON budgets(tenant_id);
+      CREATE INDEX IF NOT EXISTS usage_events_user_idx ON usage_events(user_id);
+
+      -- Invitations Table (only the SHA-256 of the token is stored)
+      CREATE TABLE IF NOT EXISTS invitations (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        tenant_id UUID NOT NULL REFERENCES tenants(id),
+        token_hash VARCHAR(64) NOT NULL UNIQUE,
+        email VARCHAR(255),
+        role VARCHAR(50) NOT NULL DEFAULT 'user',
+        auto_approve BOOLEAN DEFAULT true NOT NULL,
+        max_uses INTEGER DEFAULT 1 NOT NULL,
+        use_count INTEGER DEFAULT 0 NOT NULL,
+        expires_at TIMESTAMP NOT NULL,
+        revoked_at TIMESTAMP,
+        created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+        created_at TIMESTAMP DEFAULT NOW() NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS invitations_tenant_idx ON invitations(tenant_id);
+
+      -- Sessions Table (refresh tokens are stored hashed and rotate on every use)
+      CREATE TABLE IF NOT EXISTS sessions (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        tenant_id UUID NOT NULL REFERENCES tenants(id),
+        user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+        refresh_token_hash VARCHAR(64) NOT NULL UNIQUE,
+        previous_token_hash VARCHAR(64),
+        user_agent TEXT,
+        ip_address VARCHAR(45),
+        expires_at TIMESTAMP NOT NULL,
+        last_used_at TIMESTAMP,
+        revoked_at TIMESTAMP,
+        revoked_reason VARCHAR(50),
+        created_at TIMESTAMP DEFAULT NOW() NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS sessions_user_idx ON sessions(user_id);
+      CREATE INDEX IF NOT EXISTS sessions_previous_token_idx ON sessions(previous_token_hash);
+
+      -- API Keys Table (machine access on behalf of the creating admin; only the hash is stored)
+      CREATE TABLE IF NOT EXISTS api_keys (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        tenant_id UUID NOT NULL REFERENCES tenants(id),
+        name VARCHAR(255) NOT NULL,
+        key_prefix VARCHAR(20) NOT NULL,
+        key_hash VARCHAR(64) NOT NULL UNIQUE,
+        scopes JSONB DEFAULT '[]' NOT NULL,
+        agent_ids JSONB DEFAULT '[]' NOT NULL,
+        created_by UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+        expires_at TIMESTAMP,
+        last_used_at TIMESTAMP,
+        revoked_at TIMESTAMP,
+        created_at TIMESTAMP DEFAULT NOW() NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS api_keys_tenant_idx ON api_keys(tenant_id);
+
+      -- MFA Recovery Codes Table (hashed, single use)
+      CREATE TABLE IF NOT EXISTS mfa_recovery_codes (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+        code_hash VARCHAR(64) NOT NULL,
+        used_at TIMESTAMP,
+        created_at TIMESTAMP DEFAULT NOW() NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS mfa_recovery_codes_user_idx ON mfa_recovery_codes(user_id);
+
+      -- SSO Providers Table (one OpenID Connect configuration per tenant)
+      CREATE TABLE IF NOT EXISTS sso_providers (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        tenant_id UUID NOT NULL UNIQUE REFERENCES tenants(id),
+        issuer TEXT NOT NULL,
+        client_id VARCHAR(255) NOT NULL,
+        client_secret_encrypted TEXT NOT NULL,
+        redirect_uri TEXT NOT NULL,
+        scopes VARCHAR(255) DEFAULT 'openid email profile' NOT NULL,
+        allowed_domains JSONB DEFAULT '[]' NOT NULL,
+        role_claim VARCHAR(100),
+        role_mapping JSONB DEFAULT '{}' NOT NULL,
+        default_role VARCHAR(50) DEFAULT 'user' NOT NULL,
+        auto_provision BOOLEAN DEFAULT true NOT NULL,
+        is_active BOOLEAN DEFAULT true NOT NULL,
+        created_at TIMESTAMP DEFAULT NOW() NOT NULL,
+        updated_at TIMESTAMP DEFAULT NOW() NOT NULL
+      );
+
+      -- SSO Login States Table (pending authorization requests, consumed on callback)
+      CREATE TABLE IF NOT EXISTS sso_login_states (
+        state VARCHAR(64) PRIMARY KEY,
+        tenant_id UUID NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+        nonce VARCHAR(64) NOT NULL,
+        code_verifier VARCHAR(128) NOT NULL,
+        expires_at TIMESTAMP NOT NULL,
+        created_at TIMESTAMP DEFAULT NOW() NOT NULL
+      );
+
+      -- Password Reset Tokens Table (single-use, only the hash is stored)
+      CREATE TABLE IF NOT EXISTS password_reset_tokens (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+        token_hash VARCHAR(64) NOT NULL UNIQUE,
+        expires_at TIMESTAMP NOT NULL,
+        used_at TIMESTAMP,
+        created_at TIMESTAMP DEFAULT NOW() NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS password_reset_tokens_user_idx ON password_reset_tokens(user_id);
+
+      -- Roles Table (built-in roles have no tenant; custom roles belong to one)
+      CREATE TABLE IF NOT EXISTS roles (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        tenant_id UUID REFERENCES tenants(id) ON DELETE CASCADE,
+        name VARCHAR(100) NOT NULL,
+        description TEXT,
+        permissions JSONB DEFAULT '[]' NOT NULL,
+        is_builtin BOOLEAN DEFAULT false NOT NULL,
+        created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+        created_at TIMESTAMP DEFAULT NOW() NOT NULL,
+        updated_at TIMESTAMP DEFAULT NOW() NOT NULL
+      );
+      CREATE UNIQUE INDEX IF NOT EXISTS roles_builtin_name_idx ON roles(name) WHERE tenant_id IS NULL;
+      CREATE UNIQUE INDEX IF NOT EXISTS roles_tenant_name_idx ON roles(tenant_id, name) WHERE tenant_id IS NOT NULL;
+
+      -- Agent Access Table (allow-list used when an agent's access_mode is 'restricted')
+      CREATE TABLE IF NOT EXISTS agent_access (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        agent_id UUID NOT NULL REFERENCES agents(id) ON DELETE CASCADE,
+        subject_type VARCHAR(20) NOT NULL,
+        subject_id UUID NOT NULL,
+        created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+        created_at TIMESTAMP DEFAULT NOW() NOT NULL,
+        UNIQUE(agent_id, subject_type, subject_id)
+      );
+      CREATE INDEX IF NOT EXISTS agent_access_subject_idx ON agent_access(subject_type, subject_id);
+
+      -- User Groups Table
+      CREATE TABLE IF NOT EXISTS user_groups (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        tenant_id UUID NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+        name VARCHAR(255) NOT NULL,
+        description TEXT,
+        created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+        created_at TIMESTAMP DEFAULT NOW() NOT NULL,
+        updated_at TIMESTAMP DEFAULT NOW() NOT NULL,
+        UNIQUE(tenant_id, name)
+      );
+
+      -- User Group Members Table
+      CREATE TABLE IF NOT EXISTS user_group_members (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        group_id UUID NOT NULL REFERENCES user_groups(id) ON DELETE CASCADE,
+        user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+        added_by UUID REFERENCES users(id) ON DELETE SET NULL,
+        created_at TIMESTAMP DEFAULT NOW() NOT NULL,
+        UNIQUE(group_id, user_id)
+      );
+      CREATE INDEX IF NOT EXISTS user_group_members_user_idx ON user_group_members(user_id);
+
+      -- Collection Access Table (allow-list used when a collection's access_mode is 'restricted')
+      CREATE TABLE IF NOT EXISTS collection_access (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        collection_id UUID NOT NULL REFERENCES collections(id) ON DELETE CASCADE,
+        subject_type VARCHAR(20) NOT NULL,
+        subject_id UUID NOT NULL,
+        created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+        created_at TIMESTAMP DEFAULT NOW() NOT NULL,
+        UNIQUE(collection_id, subject_type, subject_id)
+      );
+      CREATE INDEX IF NOT EXISTS collection_access_subject_idx ON collection_access(subject_type, subject_id);
+
+      -- Policies Table (versioned governance documents; agent_id NULL means tenant-wide)
+      CREATE TABLE IF NOT EXISTS policies (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        tenant_id UUID NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+        agent_id UUID REFERENCES agents(id) ON DELETE CASCADE,
+        version INTEGER NOT NULL,
+        document JSONB NOT NULL,
+        is_active BOOLEAN DEFAULT false NOT NULL,
+        created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+        created_at TIMESTAMP DEFAULT NOW() NOT NULL
+      );
+      CREATE UNIQUE INDEX IF NOT EXISTS policies_tenant_version_idx ON policies(tenant_id, version) WHERE agent_id IS NULL;
+      CREATE UNIQUE INDEX IF NOT EXISTS policies_agent_version_idx ON policies(agent_id, version) WHERE agent_id IS NOT NULL;
+      CREATE UNIQUE INDEX IF NOT EXISTS policies_tenant_active_idx ON policies(tenant_id) WHERE agent_id IS NULL AND is_active = true;
+      CREATE UNIQUE INDEX IF NOT EXISTS policies_agent_active_idx ON policies(agent_id) WHERE agent_id IS NOT NULL AND is_active = true;
+
+      -- Review Items Table (drafted answers held for human review)
+      CREATE TABLE IF NOT EXISTS review_items (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        tenant_id UUID NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+        agent_id UUID NOT NULL REFERENCES agents(id),
+        user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+        conversation_id UUID NOT NULL,
+        message TEXT NOT NULL,
+        draft_response TEXT NOT NULL,
+        reason TEXT NOT NULL,
+        evidence JSONB DEFAULT '[]' NOT NULL,
+        findings JSONB DEFAULT '[]' NOT NULL,
+        tokens_used INTEGER DEFAULT 0 NOT NULL,
+        agent_version_id UUID,
+        message_id UUID NOT NULL,
+        status VARCHAR(20) DEFAULT 'pending' NOT NULL,
+        final_response TEXT,
+        edited BOOLEAN DEFAULT false NOT NULL,
+        review_note TEXT,
+        reviewed_by UUID REFERENCES users(id) ON DELETE SET NULL,
+        reviewed_at TIMESTAMP,
+        created_at TIMESTAMP DEFAULT NOW() NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS review_items_tenant_status_idx ON review_items(tenant_id, status);
+
+      -- Agent Versions Table (immutable snapshots of an agent's configuration)
+      CREATE TABLE IF NOT EXISTS agent_versions (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        agent_id UUID NOT NULL REFERENCES agents(id) ON DELETE CASCADE,
+        tenant_id UUID NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+        version INTEGER NOT NULL,
+        config JSONB NOT NULL,
+        note TEXT,
+        created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+        created_at TIMESTAMP DEFAULT NOW() NOT NULL,
+        UNIQUE(agent_id, version)
+      );
+
+      -- Column additions for databases created by earlier versions
+      ALTER TABLE agents ADD COLUMN IF NOT EXISTS memory_token_budget INTEGER DEFAULT 4000 NOT NULL;
+      ALTER TABLE conversations ADD COLUMN IF NOT EXISTS summary TEXT;
+      ALTER TABLE conversations ADD COLUMN IF NOT EXISTS summarized_until TIMESTAMP;
+      ALTER TABLE tenants ADD COLUMN IF NOT EXISTS timezone VARCHAR(64) DEFAULT 'UTC' NOT NULL;
+      ALTER TABLE agents ADD COLUMN IF NOT EXISTS cost_period_date DATE DEFAULT CURRENT_DATE NOT NULL;
+      ALTER TABLE users ADD COLUMN IF NOT EXISTS invitation_id UUID;
+      ALTER TABLE decision_logs ADD COLUMN IF NOT EXISTS api_key_id UUID;
+      ALTER TABLE users ADD COLUMN IF NOT EXISTS mfa_enabled BOOLEAN DEFAULT false NOT NULL;
+      ALTER TABLE users ADD COLUMN IF NOT EXISTS mfa_secret_encrypted TEXT;
+      ALTER TABLE users ADD COLUMN IF NOT EXISTS mfa_last_step BIGINT;
+      ALTER TABLE tenants ADD COLUMN IF NOT EXISTS require_admin_mfa BOOLEAN DEFAULT false NOT NULL;
+      ALTER TABLE tenants ADD COLUMN IF NOT EXISTS password_policy JSONB DEFAULT '{}' NOT NULL;
+      ALTER TABLE users ADD COLUMN IF NOT EXISTS failed_login_attempts INTEGER DEFAULT 0 NOT NULL;
+      ALTER TABLE users ADD COLUMN IF NOT EXISTS locked_until TIMESTAMP;
+      ALTER TABLE users ADD COLUMN IF NOT EXISTS custom_role_id UUID;
+      ALTER TABLE agents ADD COLUMN IF NOT EXISTS access_mode VARCHAR(20) DEFAULT 'tenant' NOT NULL;
+      ALTER TABLE collections ADD COLUMN IF NOT EXISTS access_mode VARCHAR(20) DEFAULT 'tenant' NOT NULL;
+      ALTER TABLE agents ADD COLUMN IF NOT EXISTS output_guardrails JSONB DEFAULT '{}' NOT NULL;
+      ALTER TABLE tenants ADD COLUMN IF NOT EXISTS pii_policy JSONB DEFAULT '{}' NOT NULL;
+      ALTER TABLE agents ADD COLUMN IF NOT EXISTS injection_guard JSONB DEFAULT '{}' NOT NULL;
+      ALTER TABLE embeddings ADD COLUMN IF NOT EXISTS quarantined_at TIMESTAMP;
+      ALTER TABLE embeddings ADD COLUMN IF NOT EXISTS quarantine_reason TEXT;
+      ALTER TABLE agents ADD COLUMN IF NOT EXISTS review_mode VARCHAR(20) DEFAULT 'off' NOT NULL;
+      ALTER TABLE agents ADD COLUMN IF NOT EXISTS active_version_id UUID;
+      ALTER TABLE agents ADD COLUMN IF NOT EXISTS draft_config JSONB;
+      ALTER TABLE chat_messages ADD COLUMN IF NOT EXISTS agent_version_id UUID;
+      ALTER TABLE decision_logs ADD COLUMN IF NOT EXISTS agent_version_id UUID;
+      ALTER TABLE review_items ADD COLUMN IF NOT EXISTS agent_version_id UUID;
+      ALTER TABLE users ADD COLUMN IF NOT EXISTS sso_issuer TEXT;
+      ALTER TABLE users ADD COLUMN IF NOT EXISTS sso_subject VARCHAR(255);
+      CREATE UNIQUE INDEX IF NOT EXISTS users_sso_identity_idx ON users(sso_issuer, sso_subject) WHERE sso_subject IS NOT NULL;
+
+      -- Agents created before versioning get their current configuration as version 1
+      INSERT INTO agent_versions (agent_id, tenant_id, version, config, note)
+      SELECT a.id, a.tenant_id, 1, jsonb_build_object(
+          'name', a.name, 'description', a.description, 'system_prompt', a.system_prompt,
+          'model', a.model, 'temperature', a.temperature, 'mode', a.mode,
+          'allowed_topics', a.allowed_topics, 'forbidden_topics', a.forbidden_topics,
+          'enable_rag', a.enable_rag, 'memory_token_budget', a.memory_token_budget,
+          'output_guardrails', a.output_guardrails, 'injection_guard', a.injection_guard,
+          'review_mode', a.review_mode,
+          'collection_ids', COALESCE((SELECT jsonb_agg(ac.collection_id ORDER BY ac.collection_id) FROM agent_collections ac WHERE ac.agent_id = a.id), '[]'::jsonb)
+        ), 'Initial version'
+      FROM agents a
+      WHERE a.active_version_id IS NULL
+        AND NOT EXISTS (SELECT 1 FROM agent_versions v WHERE v.agent_id = a.id);
+      UPDATE agents a SET active_version_id = v.id
+      FROM agent_versions v
+      WHERE v.agent_id = a.id AND v.version = 1 AND a.active_version_id IS NULL;
     `);
 
+    // Keep the built-in role definitions in sync with the permission catalog
+    for (const [name, role] of Object.entries(BUILTIN_ROLES)) {
+      await client.query(
+        `INSERT INTO roles (name, description, permissions, is_builtin)
+         VALUES ($1, $2, $3, true)
+         ON CONFLICT (name) WHERE tenant_id IS NULL
+         DO UPDATE SET description = EXCLUDED.description, permissions = EXCLUDED.permissions, updated_at = NOW()`,
+        [name, role.description, JSON.stringify(role.permissions)]
+      );
+    }
+    console.log('✓ Built-in roles seeded');
+
     console.log('✓ All tables created successfully');
     
   } catch (error) {
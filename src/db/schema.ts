@@ -1,10 +1,14 @@
-import { pgTable, text, timestamp, boolean, integer, real, jsonb, uuid, varchar, index } from 'drizzle-orm/pg-core';
+import { pgTable, text, timestamp, boolean, integer, bigint, real, jsonb, uuid, varchar, index, date } from 'drizzle-orm/pg-core';
 
 // Tenants Table
 export const tenants = pgTable('tenants', {
   id: uuid('id').primaryKey().defaultRandom(),
   name: varchar('name', { length: 255 }).notNull(),
   slug: varchar('slug', { length: 100 }).notNull().unique(),
+  timezone: varchar('timezone', { length: 64 }).default('UTC').notNull(),
+  require_admin_mfa: boolean('require_admin_mfa').default(false).notNull(),
+  password_policy: jsonb('password_policy').default({}).notNull(),
+  pii_policy: jsonb('pii_policy').default({}).notNull(),
   is_active: boolean('is_active').default(true).notNull(),
   created_at: timestamp('created_at').defaultNow().notNull(),
   updated_at: timestamp('updated_at').defaultNow().notNull(),
@@ -19,6 +23,15 @@ export const users = pgTable('users', {
   role: varchar('role', { length: 50 }).notNull().default('user'),
   is_approved: boolean('is_approved').default(false).notNull(),
   is_active: boolean('is_active').default(true).notNull(),
+  invitation_id: uuid('invitation_id'),
+  mfa_enabled: boolean('mfa_enabled').default(false).notNull(),
+  mfa_secret_encrypted: text('mfa_secret_encrypted'),
+  mfa_last_step: bigint('mfa_last_step', { mode: 'number' }),
+  failed_login_attempts: integer('failed_login_attempts').default(0).notNull(),
+  locked_until: timestamp('locked_until'),
+  custom_role_id: uuid('custom_role_id'),
+  sso_issuer: text('sso_issuer'),
+  sso_subject: varchar('sso_subject', { length: 255 }),
   created_at: timestamp('created_at').defaultNow().notNull(),
   updated_at: timestamp('updated_at').defaultNow().notNull(),
 }, (table) => ({
@@ -40,8 +53,16 @@ export const agents = pgTable('agents', {
   forbidden_topics: jsonb('forbidden_topics').default([]).notNull(),
   cost_limit_daily: real('cost_limit_daily').default(10.0).notNull(),
   cost_used_today: real('cost_used_today').default(0).notNull(),
+  cost_period_date: date('cost_period_date').defaultNow().notNull(),
   kill_switch: boolean('kill_switch').default(false).notNull(),
   enable_rag: boolean('enable_rag').default(true).notNull(),
+  memory_token_budget: integer('memory_token_budget').default(4000).notNull(),
+  access_mode: varchar('access_mode', { length: 20 }).default('tenant').notNull(),
+  output_guardrails: jsonb('output_guardrails').default({}).notNull(),
+  injection_guard: jsonb('injection_guard').default({}).notNull(),
+  review_mode: varchar('review_mode', { length: 20 }).default('off').notNull(),
+  active_version_id: uuid('active_version_id'),
+  draft_config: jsonb('draft_config'),
   is_active: boolean('is_active').default(true).notNull(),
   created_at: timestamp('created_at').defaultNow().notNull(),
   updated_at: timestamp('updated_at').defaultNow().notNull(),
@@ -56,6 +77,7 @@ export const collections = pgTable('collections', {
   name: varchar('name', { length: 255 }).notNull(),
   description: text('description'),
   is_global: boolean('is_global').default(false).notNull(),
+  access_mode: varchar('access_mode', { length: 20 }).default('tenant').notNull(),
   created_at: timestamp('created_at').defaultNow().notNull(),
   updated_at: timestamp('updated_at').defaultNow().notNull(),
 }, (table) => ({
@@ -89,6 +111,8 @@ export const embeddings = pgTable('embeddings', {
   chunk_index: integer('chunk_index').notNull(),
   chunk_text: text('chunk_text').notNull(),
   embedding: jsonb('embedding').notNull(), // Store as JSON array, convert to pgvector if available
+  quarantined_at: timestamp('quarantined_at'),
+  quarantine_reason: text('quarantine_reason'),
   created_at: timestamp('created_at').defaultNow().notNull(),
 }, (table) => ({
   documentIdx: index('embeddings_document_idx').on(table.document_id),
@@ -105,6 +129,103 @@ export const agentCollections = pgTable('agent_collections', {
   collectionIdx: index('agent_collections_collection_idx').on(table.collection_id),
 }));
 
+// Agent Access Table
+export const agentAccess = pgTable('agent_access', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  agent_id: uuid('agent_id').references(() => agents.id, { onDelete: 'cascade' }).notNull(),
+  subject_type: varchar('subject_type', { length: 20 }).notNull(),
+  subject_id: uuid('subject_id').notNull(),
+  created_by: uuid('created_by').references(() => users.id, { onDelete: 'set null' }),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+}, (table) => ({
+  subjectIdx: index('agent_access_subject_idx').on(table.subject_type, table.subject_id),
+}));
+
+// User Groups Table
+export const userGroups = pgTable('user_groups', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  tenant_id: uuid('tenant_id').references(() => tenants.id, { onDelete: 'cascade' }).notNull(),
+  name: varchar('name', { length: 255 }).notNull(),
+  description: text('description'),
+  created_by: uuid('created_by').references(() => users.id, { onDelete: 'set null' }),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+  updated_at: timestamp('updated_at').defaultNow().notNull(),
+});
+
+// User Group Members Table
+export const userGroupMembers = pgTable('user_group_members', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  group_id: uuid('group_id').references(() => userGroups.id, { onDelete: 'cascade' }).notNull(),
+  user_id: uuid('user_id').references(() => users.id, { onDelete: 'cascade' }).notNull(),
+  added_by: uuid('added_by').references(() => users.id, { onDelete: 'set null' }),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+}, (table) => ({
+  userIdx: index('user_group_members_user_idx').on(table.user_id),
+}));
+
+// Collection Access Table
+export const collectionAccess = pgTable('collection_access', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  collection_id: uuid('collection_id').references(() => collections.id, { onDelete: 'cascade' }).notNull(),
+  subject_type: varchar('subject_type', { length: 20 }).notNull(),
+  subject_id: uuid('subject_id').notNull(),
+  created_by: uuid('created_by').references(() => users.id, { onDelete: 'set null' }),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+}, (table) => ({
+  subjectIdx: index('collection_access_subject_idx').on(table.subject_type, table.subject_id),
+}));
+
+// Policies Table (versioned; agent_id null means tenant-wide)
+export const policies = pgTable('policies', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  tenant_id: uuid('tenant_id').references(() => tenants.id, { onDelete: 'cascade' }).notNull(),
+  agent_id: uuid('agent_id').references(() => agents.id, { onDelete: 'cascade' }),
+  version: integer('version').notNull(),
+  document: jsonb('document').notNull(),
+  is_active: boolean('is_active').default(false).notNull(),
+  created_by: uuid('created_by').references(() => users.id, { onDelete: 'set null' }),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+});
+
+// Review Items Table (drafted answers held for human review)
+export const reviewItems = pgTable('review_items', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  tenant_id: uuid('tenant_id').references(() => tenants.id, { onDelete: 'cascade' }).notNull(),
+  agent_id: uuid('agent_id').references(() => agents.id).notNull(),
+  user_id: uuid('user_id').references(() => users.id, { onDelete: 'cascade' }).notNull(),
+  conversation_id: uuid('conversation_id').notNull(),
+  message: text('message').notNull(),
+  draft_response: text('draft_response').notNull(),
+  reason: text('reason').notNull(),
+  evidence: jsonb('evidence').default([]).notNull(),
+  findings: jsonb('findings').default([]).notNull(),
+  tokens_used: integer('tokens_used').default(0).notNull(),
+  agent_version_id: uuid('agent_version_id'),
+  message_id: uuid('message_id').notNull(),
+  status: varchar('status', { length: 20 }).default('pending').notNull(),
+  final_response: text('final_response'),
+  edited: boolean('edited').default(false).notNull(),
+  review_note: text('review_note'),
+  reviewed_by: uuid('reviewed_by').references(() => users.id, { onDelete: 'set null' }),
+  reviewed_at: timestamp('reviewed_at'),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+}, (table) => ({
+  tenantStatusIdx: index('review_items_tenant_status_idx').on(table.tenant_id, table.status),
+}));
+
+// Agent Versions Table (immutable snapshots of an agent's configuration)
+export const agentVersions = pgTable('agent_versions', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  agent_id: uuid('agent_id').references(() => agents.id, { onDelete: 'cascade' }).notNull(),
+  tenant_id: uuid('tenant_id').references(() => tenants.id, { onDelete: 'cascade' }).notNull(),
+  version: integer('version').notNull(),
+  config: jsonb('config').notNull(),
+  note: text('note'),
+  created_by: uuid('created_by').references(() => users.id, { onDelete: 'set null' }),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+});
+
+
 // LLM Providers Table
 export const llmProviders = pgTable('llm_providers', {
   id: uuid('id').primaryKey().defaultRandom(),
@@ -133,6 +254,7 @@ export const chatMessages = pgTable('chat_messages', {
   tokens_used: integer('tokens_used').default(0).notNull(),
   latency_ms: integer('latency_ms').default(0).notNull(),
   evidence: jsonb('evidence'),
+  agent_version_id: uuid('agent_version_id'),
   created_at: timestamp('created_at').defaultNow().notNull(),
 }, (table) => ({
   tenantIdx: index('chat_messages_tenant_idx').on(table.tenant_id),
@@ -152,6 +274,8 @@ export const decisionLogs = pgTable('decision_logs', {
   input_preview: text('input_preview').notNull(),
   output_preview: text('output_preview'),
   metadata: jsonb('metadata').default({}).notNull(),
+  api_key_id: uuid('api_key_id'),
+  agent_version_id: uuid('agent_version_id'),
   created_at: timestamp('created_at').defaultNow().notNull(),
 }, (table) => ({
   tenantIdx: index('decision_logs_tenant_idx').on(table.tenant_id),
@@ -178,6 +302,191 @@ export const adminActionLogs = pgTable('admin_action_logs', {
   createdIdx: index('admin_action_logs_created_idx').on(table.created_at),
 }));
 
+// Model Pricing Table (USD per 1M tokens)
+export const modelPricing = pgTable('model_pricing', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  tenant_id: uuid('tenant_id').references(() => tenants.id).notNull(),
+  provider: varchar('provider', { length: 100 }).notNull(),
+  model: varchar('model', { length: 100 }).notNull(),
+  input_cost_per_million: real('input_cost_per_million').notNull(),
+  output_cost_per_million: real('output_cost_per_million').default(0).notNull(),
+  is_active: boolean('is_active').default(true).notNull(),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+  updated_at: timestamp('updated_at').defaultNow().notNull(),
+}, (table) => ({
+  tenantIdx: index('model_pricing_tenant_idx').on(table.tenant_id),
+}));
+
+// Usage Events Table (Append-Only)
+export const usageEvents = pgTable('usage_events', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  tenant_id: uuid('tenant_id').references(() => tenants.id).notNull(),
+  agent_id: uuid('agent_id').references(() => agents.id),
+  user_id: uuid('user_id').references(() => users.id, { onDelete: 'set null' }),
+  operation: varchar('operation', { length: 50 }).notNull(),
+  provider: varchar('provider', { length: 100 }).notNull(),
+  model: varchar('model', { length: 100 }).notNull(),
+  input_tokens: integer('input_tokens').default(0).notNull(),
+  output_tokens: integer('output_tokens').default(0).notNull(),
+  cost: real('cost').default(0).notNull(),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+}, (table) => ({
+  tenantIdx: index('usage_events_tenant_idx').on(table.tenant_id),
+  agentIdx: index('usage_events_agent_idx').on(table.agent_id),
+  userIdx: index('usage_events_user_idx').on(table.user_id),
+  createdIdx: index('usage_events_created_idx').on(table.created_at),
+}));
+
+// Agent Daily Usage Table (one row per agent per tenant-local day)
+export const agentDailyUsage = pgTable('agent_daily_usage', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  tenant_id: uuid('tenant_id').references(() => tenants.id).notNull(),
+  agent_id: uuid('agent_id').references(() => agents.id, { onDelete: 'cascade' }).notNull(),
+  usage_date: date('usage_date').notNull(),
+  cost: real('cost').default(0).notNull(),
+  cost_limit: real('cost_limit').notNull(),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+  updated_at: timestamp('updated_at').defaultNow().notNull(),
+}, (table) => ({
+  tenantIdx: index('agent_daily_usage_tenant_idx').on(table.tenant_id),
+}));
+
+// Budgets Table (tenant/user/group spending limits; user budgets without subject apply to every user)
+export const budgets = pgTable('budgets', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  tenant_id: uuid('tenant_id').references(() => tenants.id).notNull(),
+  scope: varchar('scope', { length: 20 }).notNull(),
+  subject_id: uuid('subject_id'),
+  period: varchar('period', { length: 20 }).notNull(),
+  soft_limit: real('soft_limit'),
+  hard_limit: real('hard_limit'),
+  is_active: boolean('is_active').default(true).notNull(),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+  updated_at: timestamp('updated_at').defaultNow().notNull(),
+}, (table) => ({
+  tenantIdx: index('budgets_tenant_idx').on(table.tenant_id),
+}));
+
+// Invitations Table
+export const invitations = pgTable('invitations', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  tenant_id: uuid('tenant_id').references(() => tenants.id).notNull(),
+  token_hash: varchar('token_hash', { length: 64 }).notNull().unique(),
+  email: varchar('email', { length: 255 }),
+  role: varchar('role', { length: 50 }).notNull().default('user'),
+  auto_approve: boolean('auto_approve').default(true).notNull(),
+  max_uses: integer('max_uses').default(1).notNull(),
+  use_count: integer('use_count').default(0).notNull(),
+  expires_at: timestamp('expires_at').notNull(),
+  revoked_at: timestamp('revoked_at'),
+  created_by: uuid('created_by').references(() => users.id),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+}, (table) => ({
+  tenantIdx: index('invitations_tenant_idx').on(table.tenant_id),
+}));
+
+// Sessions Table
+export const sessions = pgTable('sessions', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  tenant_id: uuid('tenant_id').references(() => tenants.id).notNull(),
+  user_id: uuid('user_id').references(() => users.id, { onDelete: 'cascade' }).notNull(),
+  refresh_token_hash: varchar('refresh_token_hash', { length: 64 }).notNull().unique(),
+  previous_token_hash: varchar('previous_token_hash', { length: 64 }),
+  user_agent: text('user_agent'),
+  ip_address: varchar('ip_address', { length: 45 }),
+  expires_at: timestamp('expires_at').notNull(),
+  last_used_at: timestamp('last_used_at'),
+  revoked_at: timestamp('revoked_at'),
+  revoked_reason: varchar('revoked_reason', { length: 50 }),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+}, (table) => ({
+  userIdx: index('sessions_user_idx').on(table.user_id),
+  previousTokenIdx: index('sessions_previous_token_idx').on(table.previous_token_hash),
+}));
+
+// API Keys Table
+export const apiKeys = pgTable('api_keys', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  tenant_id: uuid('tenant_id').references(() => tenants.id).notNull(),
+  name: varchar('name', { length: 255 }).notNull(),
+  key_prefix: varchar('key_prefix', { length: 20 }).notNull(),
+  key_hash: varchar('key_hash', { length: 64 }).notNull().unique(),
+  scopes: jsonb('scopes').default([]).notNull(),
+  agent_ids: jsonb('agent_ids').default([]).notNull(),
+  created_by: uuid('created_by').references(() => users.id, { onDelete: 'cascade' }).notNull(),
+  expires_at: timestamp('expires_at'),
+  last_used_at: timestamp('last_used_at'),
+  revoked_at: timestamp('revoked_at'),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+}, (table) => ({
+  tenantIdx: index('api_keys_tenant_idx').on(table.tenant_id),
+}));
+
+// MFA Recovery Codes Table
+export const mfaRecoveryCodes = pgTable('mfa_recovery_codes', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  user_id: uuid('user_id').references(() => users.id, { onDelete: 'cascade' }).notNull(),
+  code_hash: varchar('code_hash', { length: 64 }).notNull(),
+  used_at: timestamp('used_at'),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+}, (table) => ({
+  userIdx: index('mfa_recovery_codes_user_idx').on(table.user_id),
+}));
+
+// SSO Providers Table
+export const ssoProviders = pgTable('sso_providers', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  tenant_id: uuid('tenant_id').references(() => tenants.id).notNull().unique(),
+  issuer: text('issuer').notNull(),
+  client_id: varchar('client_id', { length: 255 }).notNull(),
+  client_secret_encrypted: text('client_secret_encrypted').notNull(),
+  redirect_uri: text('redirect_uri').notNull(),
+  scopes: varchar('scopes', { length: 255 }).notNull().default('openid email profile'),
+  allowed_domains: jsonb('allowed_domains').default([]).notNull(),
+  role_claim: varchar('role_claim', { length: 100 }),
+  role_mapping: jsonb('role_mapping').default({}).notNull(),
+  default_role: varchar('default_role', { length: 50 }).notNull().default('user'),
+  auto_provision: boolean('auto_provision').default(true).notNull(),
+  is_active: boolean('is_active').default(true).notNull(),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+  updated_at: timestamp('updated_at').defaultNow().notNull(),
+});
+
+// SSO Login States Table
+export const ssoLoginStates = pgTable('sso_login_states', {
+  state: varchar('state', { length: 64 }).primaryKey(),
+  tenant_id: uuid('tenant_id').references(() => tenants.id, { onDelete: 'cascade' }).notNull(),
+  nonce: varchar('nonce', { length: 64 }).notNull(),
+  code_verifier: varchar('code_verifier', { length: 128 }).notNull(),
+  expires_at: timestamp('expires_at').notNull(),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+});
+
+// Password Reset Tokens Table
+export const passwordResetTokens = pgTable('password_reset_tokens', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  user_id: uuid('user_id').references(() => users.id, { onDelete: 'cascade' }).notNull(),
+  token_hash: varchar('token_hash', { length: 64 }).notNull().unique(),
+  expires_at: timestamp('expires_at').notNull(),
+  used_at: timestamp('used_at'),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+}, (table) => ({
+  userIdx: index('password_reset_tokens_user_idx').on(table.user_id),
+}));
+
+// Roles Table
+export const roles = pgTable('roles', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  tenant_id: uuid('tenant_id').references(() => tenants.id, { onDelete: 'cascade' }),
+  name: varchar('name', { length: 100 }).notNull(),
+  description: text('description'),
+  permissions: jsonb('permissions').default([]).notNull(),
+  is_builtin: boolean('is_builtin').default(false).notNull(),
+  created_by: uuid('created_by').references(() => users.id, { onDelete: 'set null' }),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+  updated_at: timestamp('updated_at').defaultNow().notNull(),
+});
+
 // Conversations Table
 export const conversations = pgTable('conversations', {
   id: uuid('id').primaryKey().defaultRandom(),
@@ -185,6 +494,8 @@ export const conversations = pgTable('conversations', {
   user_id: uuid('user_id').references(() => users.id).notNull(),
   agent_id: uuid('agent_id').references(() => agents.id).notNull(),
   title: varchar('title', { length: 255 }),
+  summary: text('summary'),
+  summarized_until: timestamp('summarized_until'),
   is_active: boolean('is_active').default(true).notNull(),
   created_at: timestamp('created_at').defaultNow().notNull(),
   updated_at: timestamp('updated_at').defaultNow().notNull(),
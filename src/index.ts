@@ -5,6 +5,8 @@ import helmet from 'helmet';
 import compression from 'compression';
 import rateLimit from 'express-rate-limit';
 import { checkConnection, checkPgVector } from './db/index.js';
+import { startCostRolloverScheduler } from './services/usage.js';
+import { getNotifier } from './services/notifier.js';
 
 // Import routes
 import authRoutes from './routes/auth.js';
@@ -15,6 +17,17 @@ import documentsRoutes from './routes/documents.js';
 import chatRoutes from './routes/chat.js';
 import logsRoutes from './routes/logs.js';
 import llmProvidersRoutes from './routes/llm-providers.js';
+import pricingRoutes from './routes/pricing.js';
+import budgetsRoutes from './routes/budgets.js';
+import tenantsRoutes from './routes/tenants.js';
+import invitationsRoutes from './routes/invitations.js';
+import apiKeysRoutes from './routes/api-keys.js';
+import ssoRoutes from './routes/sso.js';
+import securityRoutes from './routes/security.js';
+import rolesRoutes from './routes/roles.js';
+import groupsRoutes from './routes/groups.js';
+import policiesRoutes from './routes/policies.js';
+import reviewsRoutes from './routes/reviews.js';
 
 const app = express();
 const PORT = process.env.PORT || 3000;
@@ -58,6 +71,23 @@ const loginLimiter = rateLimit({
   legacyHeaders: false,
 });
 
+// Registration and password reset get their own budgets so they can't lock an IP out of login
+const registerLimiter = rateLimit({
+  windowMs: 15 * 60 * 1000, // 15 minutes
+  max: parseInt(process.env.REGISTER_RATE_LIMIT_MAX || '5'),
+  message: { success: false, error: 'Too many registration attempts, please try again later.' },
+  standardHeaders: true,
+  legacyHeaders: false,
+});
+
+const passwordResetLimiter = rateLimit({
+  windowMs: 15 * 60 * 1000, // 15 minutes
+  max: parseInt(process.env.PASSWORD_RESET_RATE_LIMIT_MAX || '5'),
+  message: { success: false, error: 'Too many password reset requests, please try again later.' },
+  standardHeaders: true,
+  legacyHeaders: false,
+});
+
 // Chat rate limiter
 const chatLimiter = rateLimit({
   windowMs: 60 * 1000, // 1 minute
@@ -96,7 +126,12 @@ app.get('/api/health', async (req, res) => {
 
 // API Routes
 app.use('/api/auth/login', loginLimiter);
+app.use('/api/auth/register', registerLimiter);
+app.use('/api/auth/forgot-password', passwordResetLimiter);
+app.use('/api/auth/reset-password', passwordResetLimiter);
 app.use('/api/auth', authRoutes);
+// Mounted before the users router so /groups isn't taken for a user id
+app.use('/api/users/groups', groupsRoutes);
 app.use('/api/users', usersRoutes);
 app.use('/api/agents', agentsRoutes);
 app.use('/api/collections', collectionsRoutes);
@@ -104,6 +139,16 @@ app.use('/api/documents', documentsRoutes);
 app.use('/api/chat', chatLimiter, chatRoutes);
 app.use('/api/logs', logsRoutes);
 app.use('/api/llm-providers', llmProvidersRoutes);
+app.use('/api/pricing', pricingRoutes);
+app.use('/api/budgets', budgetsRoutes);
+app.use('/api/tenants', tenantsRoutes);
+app.use('/api/invitations', invitationsRoutes);
+app.use('/api/api-keys', apiKeysRoutes);
+app.use('/api/sso', ssoRoutes);
+app.use('/api/security', securityRoutes);
+app.use('/api/roles', rolesRoutes);
+app.use('/api/policies', policiesRoutes);
+app.use('/api/reviews', reviewsRoutes);
 
 // 404 handler
 app.use('/api/*', (req, res) => {
@@ -133,6 +178,9 @@ app.use((err: Error, req: express.Request, res: express.Response, next: express.
 // Start server
 async function start() {
   try {
+    // Refuse to start without a delivery channel for password reset links
+    getNotifier();
+    
     // Check database connection
     const dbConnected = await checkConnection();
     if (!dbConnected) {
@@ -149,6 +197,9 @@ async function start() {
       console.log('⚠️  pgvector not available, using JavaScript fallback for similarity search');
     }
     
+    // Archive and reset agent daily costs at each tenant's local midnight
+    startCostRolloverScheduler();
+    
     app.listen(PORT, () => {
       console.log(`
 🚀 Orkio Backend v6.0.0
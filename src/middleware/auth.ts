@@ -1,9 +1,92 @@
 import { Request, Response, NextFunction } from 'express';
 import jwt from 'jsonwebtoken';
-import { JWTPayload, UserRole } from '../types/index.js';
+import { pool } from '../db/index.js';
+import { hashToken } from '../utils/index.js';
+import { getUserPermissions } from '../services/permissions.js';
+import { ApiKeyScope, JWTPayload, Permission, UserRole } from '../types/index.js';
 
-export function authenticate(req: Request, res: Response, next: NextFunction) {
+export const API_KEY_PREFIX = 'ork_';
+
+// Mark a route as reachable with an API key holding the given scope.
+// Must run before authenticate; API keys are rejected everywhere else.
+export function allowApiKey(scope: ApiKeyScope) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    req.apiKeyScope = scope;
+    next();
+  };
+}
+
+// An API key restricted to specific agents may only be used with those
+export function apiKeyAllowsAgent(req: Request, agentId: string): boolean {
+  return !req.apiKey || req.apiKey.agentIds.length === 0 || req.apiKey.agentIds.includes(agentId);
+}
+
+async function authenticateApiKey(req: Request, res: Response, next: NextFunction, key: string) {
+  if (!req.apiKeyScope) {
+    return res.status(403).json({ success: false, error: 'API keys are not accepted for this endpoint' });
+  }
+  
+  try {
+    const result = await pool.query(
+      `SELECT k.*, u.email, u.role, u.is_active as user_active, t.is_active as tenant_active
+       FROM api_keys k
+       JOIN users u ON k.created_by = u.id
+       JOIN tenants t ON k.tenant_id = t.id
+       WHERE k.key_hash = $1`,
+      [hashToken(key)]
+    );
+    
+    const apiKey = result.rows[0];
+    if (
+      !apiKey ||
+      apiKey.revoked_at ||
+      (apiKey.expires_at && new Date(apiKey.expires_at) <= new Date()) ||
+      !apiKey.user_active
+    ) {
+      return res.status(401).json({ success: false, error: 'Invalid or expired API key' });
+    }
+    
+    if (!apiKey.tenant_active) {
+      return res.status(403).json({ success: false, error: 'Tenant is suspended' });
+    }
+    
+    if (!apiKey.scopes.includes(req.apiKeyScope)) {
+      return res.status(403).json({ success: false, error: 'API key does not have the required scope' });
+    }
+    
+    pool.query('UPDATE api_keys SET last_used_at = NOW() WHERE id = $1', [apiKey.id]).catch(error => {
+      console.error('Error updating API key last use:', error);
+    });
+    
+    // The key acts on behalf of the admin who created it
+    req.user = {
+      userId: apiKey.created_by,
+      email: apiKey.email,
+      role: apiKey.role,
+      tenantId: apiKey.tenant_id,
+    };
+    req.tenantId = apiKey.tenant_id;
+    req.apiKey = {
+      id: apiKey.id,
+      name: apiKey.name,
+      scopes: apiKey.scopes,
+      agentIds: apiKey.agent_ids,
+    };
+    next();
+  } catch (error) {
+    console.error('Authenticate error:', error);
+    return res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+}
+
+// Accepts a user access token (Bearer JWT) or an API key (X-API-Key header or Bearer ork_...)
+export async function authenticate(req: Request, res: Response, next: NextFunction) {
   const authHeader = req.headers.authorization;
+  const apiKeyHeader = req.headers['x-api-key'];
+  
+  if (typeof apiKeyHeader === 'string' && apiKeyHeader) {
+    return authenticateApiKey(req, res, next, apiKeyHeader);
+  }
   
   if (!authHeader || !authHeader.startsWith('Bearer ')) {
     return res.status(401).json({ success: false, error: 'No token provided' });
@@ -11,23 +94,67 @@ export function authenticate(req: Request, res: Response, next: NextFunction) {
   
   const token = authHeader.split(' ')[1];
   
+  if (token.startsWith(API_KEY_PREFIX)) {
+    return authenticateApiKey(req, res, next, token);
+  }
+  
+  let decoded: JWTPayload;
   try {
-    const decoded = jwt.verify(token, process.env.JWT_SECRET!) as JWTPayload;
-    req.user = decoded;
-    req.tenantId = decoded.tenantId;
-    next();
+    decoded = jwt.verify(token, process.env.JWT_SECRET!) as JWTPayload;
   } catch (error) {
     return res.status(401).json({ success: false, error: 'Invalid or expired token' });
   }
+  
+  // Tokens issued before server-side sessions existed carry no session id
+  if (!decoded.sessionId) {
+    return res.status(401).json({ success: false, error: 'Invalid or expired token' });
+  }
+  
+  try {
+    // Access tokens are only valid while their session is; deactivation, role and password changes revoke it
+    const sessionResult = await pool.query(
+      `SELECT s.revoked_at, s.expires_at, u.is_active as user_active, t.is_active as tenant_active
+       FROM sessions s
+       JOIN users u ON s.user_id = u.id
+       JOIN tenants t ON s.tenant_id = t.id
+       WHERE s.id = $1 AND s.user_id = $2`,
+      [decoded.sessionId, decoded.userId]
+    );
+    
+    const session = sessionResult.rows[0];
+    if (!session || session.revoked_at || new Date(session.expires_at) <= new Date() || !session.user_active) {
+      return res.status(401).json({ success: false, error: 'Session has been revoked' });
+    }
+    
+    // Suspended tenants lock out all of their users, even with a valid token
+    if (!session.tenant_active) {
+      return res.status(403).json({ success: false, error: 'Tenant is suspended' });
+    }
+  } catch (error) {
+    console.error('Authenticate error:', error);
+    return res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+  
+  req.user = decoded;
+  req.tenantId = decoded.tenantId;
+  next();
 }
 
-export function authorize(...allowedRoles: UserRole[]) {
-  return (req: Request, res: Response, next: NextFunction) => {
+// Require every listed permission; the resolved set is left on req.permissions for handlers
+export function requirePermission(...required: Permission[]) {
+  return async (req: Request, res: Response, next: NextFunction) => {
     if (!req.user) {
       return res.status(401).json({ success: false, error: 'Not authenticated' });
     }
     
-    if (!allowedRoles.includes(req.user.role as UserRole)) {
+    try {
+      req.permissions = await getUserPermissions(req.user.userId, req.user.role as UserRole, req.tenantId!);
+    } catch (error) {
+      console.error('Permission lookup error:', error);
+      return res.status(500).json({ success: false, error: 'Internal server error' });
+    }
+    
+    if (!required.every(p => req.permissions!.includes(p))) {
       return res.status(403).json({ success: false, error: 'Insufficient permissions' });
     }
     
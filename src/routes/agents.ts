@@ -1,29 +1,61 @@
 import { Router, Request, Response } from 'express';
 import { v4 as uuidv4 } from 'uuid';
 import { pool } from '../db/index.js';
-import { authenticate, authorize } from '../middleware/auth.js';
-import { agentSchema } from '../utils/index.js';
+import { authenticate, requirePermission, allowApiKey, apiKeyAllowsAgent } from '../middleware/auth.js';
+import { agentSchema, accessListSchema, simulateSchema, agentDraftSchema, agentPublishSchema } from '../utils/index.js';
 import { logAdminAction } from '../services/logging.js';
+import { getAgentDailyUsage, resetAgentCost } from '../services/usage.js';
+import { getOutputGuardrails } from '../services/guardrails.js';
+import { getInjectionGuard } from '../services/injection.js';
+import { simulateChat } from '../services/chat.js';
+import {
+  VERSIONED_AGENT_FIELDS,
+  AgentVersionError,
+  recordAgentVersion,
+  getAgentDraft,
+  saveAgentDraft,
+  discardAgentDraft,
+  publishAgentDraft,
+  rollbackAgentVersion,
+  getAgentVersion,
+  diffAgentConfigs,
+} from '../services/agentVersions.js';
+import { AgentConfig } from '../types/index.js';
+import {
+  agentAccessCondition,
+  canManageAgents,
+  setAgentAccess,
+  getAccessList,
+  validateAccessSubjects,
+} from '../services/acl.js';
 
 const router = Router();
 
-// Get all agents
-router.get('/', authenticate, async (req: Request, res: Response) => {
+// Get all agents the user may use
+router.get('/', allowApiKey('agents:read'), authenticate, async (req: Request, res: Response) => {
   try {
+    const params: any[] = [req.tenantId];
+    let accessFilter = '';
+    
+    if (!(await canManageAgents(req.user!.userId, req.user!.role, req.tenantId!))) {
+      params.push(req.user!.userId);
+      accessFilter = ` AND ${agentAccessCondition(`$${params.length}`)}`;
+    }
+    
     const result = await pool.query(
       `SELECT a.*, 
               COALESCE(json_agg(DISTINCT ac.collection_id) FILTER (WHERE ac.collection_id IS NOT NULL), '[]') as collection_ids
        FROM agents a
        LEFT JOIN agent_collections ac ON a.id = ac.agent_id
-       WHERE a.tenant_id = $1 AND a.is_active = true
+       WHERE a.tenant_id = $1 AND a.is_active = true${accessFilter}
        GROUP BY a.id
        ORDER BY a.created_at DESC`,
-      [req.tenantId]
+      params
     );
     
     res.json({
       success: true,
-      data: result.rows.map(a => ({
+      data: result.rows.filter(a => apiKeyAllowsAgent(req, a.id)).map(a => ({
         id: a.id,
         name: a.name,
         description: a.description,
@@ -37,6 +69,13 @@ router.get('/', authenticate, async (req: Request, res: Response) => {
         costUsedToday: a.cost_used_today,
         killSwitch: a.kill_switch,
         enableRag: a.enable_rag,
+        memoryTokenBudget: a.memory_token_budget,
+        accessMode: a.access_mode,
+        outputGuardrails: getOutputGuardrails(a),
+        injectionGuard: getInjectionGuard(a),
+        reviewMode: a.review_mode,
+        activeVersionId: a.active_version_id,
+        hasDraft: a.draft_config !== null,
         collectionIds: a.collection_ids,
         createdAt: a.created_at,
         updatedAt: a.updated_at,
@@ -49,19 +88,28 @@ router.get('/', authenticate, async (req: Request, res: Response) => {
 });
 
 // Get single agent
-router.get('/:id', authenticate, async (req: Request, res: Response) => {
+router.get('/:id', allowApiKey('agents:read'), authenticate, async (req: Request, res: Response) => {
   try {
+    const params: any[] = [req.params.id, req.tenantId];
+    let accessFilter = '';
+    
+    // Agents outside the user's allow-list look like they don't exist
+    if (!(await canManageAgents(req.user!.userId, req.user!.role, req.tenantId!))) {
+      params.push(req.user!.userId);
+      accessFilter = ` AND ${agentAccessCondition(`$${params.length}`)}`;
+    }
+    
     const result = await pool.query(
       `SELECT a.*, 
               COALESCE(json_agg(DISTINCT ac.collection_id) FILTER (WHERE ac.collection_id IS NOT NULL), '[]') as collection_ids
        FROM agents a
        LEFT JOIN agent_collections ac ON a.id = ac.agent_id
-       WHERE a.id = $1 AND a.tenant_id = $2
+       WHERE a.id = $1 AND a.tenant_id = $2${accessFilter}
        GROUP BY a.id`,
-      [req.params.id, req.tenantId]
+      params
     );
     
-    if (result.rows.length === 0) {
+    if (result.rows.length === 0 || !apiKeyAllowsAgent(req, req.params.id)) {
       return res.status(404).json({ success: false, error: 'Agent not found' });
     }
     
@@ -82,6 +130,13 @@ router.get('/:id', authenticate, async (req: Request, res: Response) => {
         costUsedToday: a.cost_used_today,
         killSwitch: a.kill_switch,
         enableRag: a.enable_rag,
+        memoryTokenBudget: a.memory_token_budget,
+        accessMode: a.access_mode,
+        outputGuardrails: getOutputGuardrails(a),
+        injectionGuard: getInjectionGuard(a),
+        reviewMode: a.review_mode,
+        activeVersionId: a.active_version_id,
+        hasDraft: a.draft_config !== null,
         collectionIds: a.collection_ids,
         createdAt: a.created_at,
         updatedAt: a.updated_at,
@@ -93,8 +148,8 @@ router.get('/:id', authenticate, async (req: Request, res: Response) => {
   }
 });
 
-// Create agent (admin only)
-router.post('/', authenticate, authorize('master_admin', 'tenant_admin'), async (req: Request, res: Response) => {
+// Create agent
+router.post('/', authenticate, requirePermission('agents:write'), async (req: Request, res: Response) => {
   try {
     const validation = agentSchema.safeParse(req.body);
     if (!validation.success) {
@@ -106,13 +161,16 @@ router.post('/', authenticate, authorize('master_admin', 'tenant_admin'), async
     
     await pool.query(
       `INSERT INTO agents (id, tenant_id, name, description, system_prompt, model, temperature, mode, 
-                           allowed_topics, forbidden_topics, cost_limit_daily, kill_switch, enable_rag)
-       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13)`,
+                           allowed_topics, forbidden_topics, cost_limit_daily, kill_switch, enable_rag, memory_token_budget,
+                           output_guardrails, injection_guard, review_mode, cost_period_date)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17,
+               (SELECT (NOW() AT TIME ZONE timezone)::date FROM tenants WHERE id = $2))`,
       [
         agentId, req.tenantId, data.name, data.description || null, data.system_prompt || null,
         data.model, data.temperature, data.mode,
         JSON.stringify(data.allowed_topics), JSON.stringify(data.forbidden_topics),
-        data.cost_limit_daily, data.kill_switch, data.enable_rag
+        data.cost_limit_daily, data.kill_switch, data.enable_rag, data.memory_token_budget,
+        JSON.stringify(data.output_guardrails), JSON.stringify(data.injection_guard), data.review_mode
       ]
     );
     
@@ -126,11 +184,13 @@ router.post('/', authenticate, authorize('master_admin', 'tenant_admin'), async
       }
     }
     
+    const version = await recordAgentVersion(agentId, req.tenantId!, req.user!.userId, 'Initial version');
+    
     await logAdminAction(req, 'create_agent', 'agent', agentId, { name: data.name, mode: data.mode });
     
     res.status(201).json({
       success: true,
-      data: { id: agentId, name: data.name },
+      data: { id: agentId, name: data.name, versionId: version.id },
     });
   } catch (error) {
     console.error('Create agent error:', error);
@@ -138,8 +198,8 @@ router.post('/', authenticate, authorize('master_admin', 'tenant_admin'), async
   }
 });
 
-// Update agent (admin only)
-router.put('/:id', authenticate, authorize('master_admin', 'tenant_admin'), async (req: Request, res: Response) => {
+// Update agent
+router.put('/:id', authenticate, requirePermission('agents:write'), async (req: Request, res: Response) => {
   try {
     const validation = agentSchema.partial().safeParse(req.body);
     if (!validation.success) {
@@ -148,6 +208,15 @@ router.put('/:id', authenticate, authorize('master_admin', 'tenant_admin'), asyn
     
     const data = validation.data;
     
+    let collectionIds: string[] | undefined;
+    if (req.body.collectionIds !== undefined) {
+      const parsed = agentDraftSchema.shape.collection_ids.safeParse(req.body.collectionIds ?? []);
+      if (!parsed.success) {
+        return res.status(400).json({ success: false, error: parsed.error.errors[0].message });
+      }
+      collectionIds = parsed.data;
+    }
+    
     // Build dynamic update query
     const updates: string[] = [];
     const values: any[] = [];
@@ -164,6 +233,10 @@ router.put('/:id', authenticate, authorize('master_admin', 'tenant_admin'), asyn
     if (data.cost_limit_daily !== undefined) { updates.push(`cost_limit_daily = $${paramIndex++}`); values.push(data.cost_limit_daily); }
     if (data.kill_switch !== undefined) { updates.push(`kill_switch = $${paramIndex++}`); values.push(data.kill_switch); }
     if (data.enable_rag !== undefined) { updates.push(`enable_rag = $${paramIndex++}`); values.push(data.enable_rag); }
+    if (data.memory_token_budget !== undefined) { updates.push(`memory_token_budget = $${paramIndex++}`); values.push(data.memory_token_budget); }
+    if (data.output_guardrails !== undefined) { updates.push(`output_guardrails = $${paramIndex++}`); values.push(JSON.stringify(data.output_guardrails)); }
+    if (data.injection_guard !== undefined) { updates.push(`injection_guard = $${paramIndex++}`); values.push(JSON.stringify(data.injection_guard)); }
+    if (data.review_mode !== undefined) { updates.push(`review_mode = $${paramIndex++}`); values.push(data.review_mode); }
     
     updates.push(`updated_at = NOW()`);
     
@@ -178,31 +251,103 @@ router.put('/:id', authenticate, authorize('master_admin', 'tenant_admin'), asyn
       return res.status(404).json({ success: false, error: 'Agent not found' });
     }
     
-    // Update collections if provided
-    if (req.body.collectionIds !== undefined) {
+    // Update collections if provided (only the tenant's own are linked)
+    if (collectionIds !== undefined) {
       await pool.query('DELETE FROM agent_collections WHERE agent_id = $1', [req.params.id]);
-      
-      if (Array.isArray(req.body.collectionIds)) {
-        for (const collectionId of req.body.collectionIds) {
-          await pool.query(
-            'INSERT INTO agent_collections (agent_id, collection_id) VALUES ($1, $2) ON CONFLICT DO NOTHING',
-            [req.params.id, collectionId]
-          );
-        }
-      }
+      await pool.query(
+        `INSERT INTO agent_collections (agent_id, collection_id)
+         SELECT $1, id FROM collections WHERE id = ANY($2) AND tenant_id = $3
+         ON CONFLICT DO NOTHING`,
+        [req.params.id, collectionIds, req.tenantId]
+      );
+    }
+    
+    // Direct updates to versioned settings are published as a new version straight away; a pending
+    // draft only stores its own changes, so it keeps these when it is published later
+    if (VERSIONED_AGENT_FIELDS.some(f => f in data) || collectionIds !== undefined) {
+      await recordAgentVersion(req.params.id, req.tenantId!, req.user!.userId, 'Updated directly');
     }
     
     await logAdminAction(req, 'update_agent', 'agent', req.params.id, data);
     
     res.json({ success: true, message: 'Agent updated successfully' });
   } catch (error) {
+    if (error instanceof AgentVersionError) {
+      return res.status(error.status).json({ success: false, error: error.message });
+    }
     console.error('Update agent error:', error);
     res.status(500).json({ success: false, error: 'Internal server error' });
   }
 });
 
+// Get an agent's access mode and allow-list
+router.get('/:id/access', authenticate, requirePermission('agents:write'), async (req: Request, res: Response) => {
+  try {
+    const agentResult = await pool.query(
+      'SELECT access_mode FROM agents WHERE id = $1 AND tenant_id = $2',
+      [req.params.id, req.tenantId]
+    );
+    
+    if (agentResult.rows.length === 0) {
+      return res.status(404).json({ success: false, error: 'Agent not found' });
+    }
+    
+    res.json({
+      success: true,
+      data: {
+        accessMode: agentResult.rows[0].access_mode,
+        entries: await getAccessList('agent_access', 'agent_id', req.params.id),
+      },
+    });
+  } catch (error) {
+    console.error('Get agent access error:', error);
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+// Replace an agent's access mode and allow-list
+router.put('/:id/access', authenticate, requirePermission('agents:write'), async (req: Request, res: Response) => {
+  try {
+    const validation = accessListSchema.safeParse(req.body);
+    if (!validation.success) {
+      return res.status(400).json({ success: false, error: validation.error.errors[0].message });
+    }
+    
+    const data = validation.data;
+    const userIds = [...new Set(data.user_ids)];
+    const groupIds = [...new Set(data.group_ids)];
+    
+    const agentResult = await pool.query(
+      'SELECT id FROM agents WHERE id = $1 AND tenant_id = $2',
+      [req.params.id, req.tenantId]
+    );
+    
+    if (agentResult.rows.length === 0) {
+      return res.status(404).json({ success: false, error: 'Agent not found' });
+    }
+    
+    const invalid = await validateAccessSubjects(req.tenantId!, userIds, groupIds);
+    if (invalid) {
+      return res.status(404).json({ success: false, error: invalid });
+    }
+    
+    await setAgentAccess(req.params.id, data.access_mode, userIds, groupIds, req.user!.userId);
+    
+    await logAdminAction(req, 'update_agent_access', 'agent', req.params.id, {
+      accessMode: data.access_mode,
+      userIds,
+      groupIds,
+    });
+    
+    res.json({ success: true, message: 'Agent access updated successfully' });
+  } catch (error) {
+    console.error('Update agent access error:', error);
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
 // Toggle kill switch
-router.post('/:id/kill-switch', authenticate, authorize('master_admin', 'tenant_admin'), async (req: Request, res: Response) => {
+router.post('/:id/kill-switch', authenticate, requirePermission('agents:write'), async (req: Request, res: Response) => {
   try {
     const { enabled } = req.body;
     
@@ -225,14 +370,11 @@ router.post('/:id/kill-switch', authenticate, authorize('master_admin', 'tenant_
 });
 
 // Reset daily cost
-router.post('/:id/reset-cost', authenticate, authorize('master_admin', 'tenant_admin'), async (req: Request, res: Response) => {
+router.post('/:id/reset-cost', authenticate, requirePermission('agents:write'), async (req: Request, res: Response) => {
   try {
-    const result = await pool.query(
-      'UPDATE agents SET cost_used_today = 0, updated_at = NOW() WHERE id = $1 AND tenant_id = $2 RETURNING *',
-      [req.params.id, req.tenantId]
-    );
+    const found = await resetAgentCost(req.params.id, req.tenantId!);
     
-    if (result.rows.length === 0) {
+    if (!found) {
       return res.status(404).json({ success: false, error: 'Agent not found' });
     }
     
@@ -245,8 +387,325 @@ router.post('/:id/reset-cost', authenticate, authorize('master_admin', 'tenant_a
   }
 });
 
+// Dry-run sample messages through the agent's governance checks (no completion, no cost)
+router.post('/:id/simulate', authenticate, requirePermission('agents:write'), async (req: Request, res: Response) => {
+  try {
+    const validation = simulateSchema.safeParse(req.body);
+    if (!validation.success) {
+      return res.status(400).json({ success: false, error: validation.error.errors[0].message });
+    }
+    
+    const data = validation.data;
+    
+    const agentResult = await pool.query(
+      'SELECT id FROM agents WHERE id = $1 AND tenant_id = $2 AND is_active = true',
+      [req.params.id, req.tenantId]
+    );
+    
+    if (agentResult.rows.length === 0) {
+      return res.status(404).json({ success: false, error: 'Agent not found' });
+    }
+    
+    // Simulate as another user to see their access, budgets and policies
+    if (data.user_id) {
+      const userResult = await pool.query(
+        'SELECT id FROM users WHERE id = $1 AND tenant_id = $2',
+        [data.user_id, req.tenantId]
+      );
+      if (userResult.rows.length === 0) {
+        return res.status(404).json({ success: false, error: 'User not found' });
+      }
+    }
+    
+    const results = await simulateChat(data.messages, req.params.id, data.user_id || req.user!.userId, req.tenantId!);
+    
+    res.json({
+      success: true,
+      data: {
+        allowed: results.filter(r => r.decision === 'allowed').length,
+        blocked: results.filter(r => r.decision === 'blocked').length,
+        review: results.filter(r => r.decision === 'review').length,
+        results,
+      },
+    });
+  } catch (error) {
+    console.error('Simulate agent error:', error);
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+function formatVersion(v: any) {
+  return {
+    id: v.id,
+    version: v.version,
+    note: v.note,
+    createdBy: v.created_by,
+    createdByEmail: v.created_by_email,
+    createdAt: v.created_at,
+  };
+}
+
+// List an agent's versions, newest first
+router.get('/:id/versions', authenticate, requirePermission('agents:write'), async (req: Request, res: Response) => {
+  try {
+    const agentResult = await pool.query(
+      'SELECT active_version_id FROM agents WHERE id = $1 AND tenant_id = $2',
+      [req.params.id, req.tenantId]
+    );
+    
+    if (agentResult.rows.length === 0) {
+      return res.status(404).json({ success: false, error: 'Agent not found' });
+    }
+    
+    const result = await pool.query(
+      `SELECT v.id, v.version, v.note, v.created_by, v.created_at, u.email as created_by_email
+       FROM agent_versions v
+       LEFT JOIN users u ON v.created_by = u.id
+       WHERE v.agent_id = $1
+       ORDER BY v.version DESC`,
+      [req.params.id]
+    );
+    
+    const activeVersionId = agentResult.rows[0].active_version_id;
+    res.json({
+      success: true,
+      data: result.rows.map(v => ({ ...formatVersion(v), isActive: v.id === activeVersionId })),
+    });
+  } catch (error) {
+    console.error('Get agent versions error:', error);
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+// Compare two versions: ?from=<version>&to=<version|draft>, where to defaults to the active version
+router.get('/:id/versions/diff', authenticate, requirePermission('agents:write'), async (req: Request, res: Response) => {
+  try {
+    const from = parseInt(req.query.from as string);
+    const toParam = (req.query.to as string | undefined) || 'active';
+    
+    if (Number.isNaN(from)) {
+      return res.status(400).json({ success: false, error: 'from must be a version number' });
+    }
+    
+    const agentResult = await pool.query(
+      `SELECT v.version as active_version
+       FROM agents a LEFT JOIN agent_versions v ON a.active_version_id = v.id
+       WHERE a.id = $1 AND a.tenant_id = $2`,
+      [req.params.id, req.tenantId]
+    );
+    
+    if (agentResult.rows.length === 0) {
+      return res.status(404).json({ success: false, error: 'Agent not found' });
+    }
+    
+    const agent = agentResult.rows[0];
+    const fromVersion = await getAgentVersion(req.params.id, req.tenantId!, from);
+    if (!fromVersion) {
+      return res.status(404).json({ success: false, error: `Version ${from} not found` });
+    }
+    
+    let to: number | 'draft';
+    let toConfig: AgentConfig;
+    
+    if (toParam === 'draft') {
+      const draft = await getAgentDraft(req.params.id, req.tenantId!);
+      if (!draft) {
+        return res.status(404).json({ success: false, error: 'Agent has no draft' });
+      }
+      to = 'draft';
+      toConfig = draft.config;
+    } else {
+      const toNumber: number = toParam === 'active' ? agent.active_version : parseInt(toParam);
+      const toVersion = Number.isNaN(toNumber) ? null : await getAgentVersion(req.params.id, req.tenantId!, toNumber);
+      if (!toVersion) {
+        return res.status(404).json({ success: false, error: `Version ${toParam} not found` });
+      }
+      to = toNumber;
+      toConfig = toVersion.config;
+    }
+    
+    res.json({
+      success: true,
+      data: {
+        from,
+        to,
+        changes: diffAgentConfigs(fromVersion.config, toConfig),
+      },
+    });
+  } catch (error) {
+    console.error('Diff agent versions error:', error);
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+// Get one version with its full configuration
+router.get('/:id/versions/:version', authenticate, requirePermission('agents:write'), async (req: Request, res: Response) => {
+  try {
+    const versionNumber = parseInt(req.params.version);
+    const version = Number.isNaN(versionNumber) ? null : await getAgentVersion(req.params.id, req.tenantId!, versionNumber);
+    
+    if (!version) {
+      return res.status(404).json({ success: false, error: 'Version not found' });
+    }
+    
+    res.json({ success: true, data: { ...formatVersion(version), config: version.config } });
+  } catch (error) {
+    console.error('Get agent version error:', error);
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+// Restore an earlier version's configuration
+router.post('/:id/versions/:version/rollback', authenticate, requirePermission('agents:write'), async (req: Request, res: Response) => {
+  try {
+    const versionNumber = parseInt(req.params.version);
+    if (Number.isNaN(versionNumber)) {
+      return res.status(400).json({ success: false, error: 'Invalid version number' });
+    }
+    
+    const version = await rollbackAgentVersion(req.params.id, req.tenantId!, versionNumber);
+    
+    await logAdminAction(req, 'rollback_agent', 'agent', req.params.id, {
+      versionId: version.id,
+      version: version.version,
+    });
+    
+    res.json({ success: true, message: `Agent rolled back to version ${version.version}` });
+  } catch (error) {
+    if (error instanceof AgentVersionError) {
+      return res.status(error.status).json({ success: false, error: error.message });
+    }
+    console.error('Rollback agent error:', error);
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+// Get the unpublished draft (its changes and the resulting configuration), if any
+router.get('/:id/draft', authenticate, requirePermission('agents:write'), async (req: Request, res: Response) => {
+  try {
+    res.json({ success: true, data: await getAgentDraft(req.params.id, req.tenantId!) });
+  } catch (error) {
+    if (error instanceof AgentVersionError) {
+      return res.status(error.status).json({ success: false, error: error.message });
+    }
+    console.error('Get agent draft error:', error);
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+// Stage changes in the draft without affecting live chats
+router.put('/:id/draft', authenticate, requirePermission('agents:write'), async (req: Request, res: Response) => {
+  try {
+    const validation = agentDraftSchema.safeParse(req.body);
+    if (!validation.success) {
+      return res.status(400).json({ success: false, error: validation.error.errors[0].message });
+    }
+    
+    const draft = await saveAgentDraft(req.params.id, req.tenantId!, validation.data);
+    
+    await logAdminAction(req, 'update_agent_draft', 'agent', req.params.id, validation.data);
+    
+    res.json({ success: true, data: draft });
+  } catch (error) {
+    if (error instanceof AgentVersionError) {
+      return res.status(error.status).json({ success: false, error: error.message });
+    }
+    console.error('Update agent draft error:', error);
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+// Throw the draft away
+router.delete('/:id/draft', authenticate, requirePermission('agents:write'), async (req: Request, res: Response) => {
+  try {
+    const found = await discardAgentDraft(req.params.id, req.tenantId!);
+    
+    if (!found) {
+      return res.status(404).json({ success: false, error: 'Draft not found' });
+    }
+    
+    await logAdminAction(req, 'discard_agent_draft', 'agent', req.params.id, {});
+    
+    res.json({ success: true, message: 'Draft discarded successfully' });
+  } catch (error) {
+    console.error('Discard agent draft error:', error);
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+// Publish the draft as a new version and make it live
+router.post('/:id/publish', authenticate, requirePermission('agents:write'), async (req: Request, res: Response) => {
+  try {
+    const validation = agentPublishSchema.safeParse(req.body);
+    if (!validation.success) {
+      return res.status(400).json({ success: false, error: validation.error.errors[0].message });
+    }
+    
+    const version = await publishAgentDraft(req.params.id, req.tenantId!, req.user!.userId, validation.data.note);
+    
+    await logAdminAction(req, 'publish_agent', 'agent', req.params.id, {
+      versionId: version.id,
+      version: version.version,
+      note: validation.data.note,
+    });
+    
+    res.status(201).json({ success: true, data: formatVersion(version) });
+  } catch (error) {
+    if (error instanceof AgentVersionError) {
+      return res.status(error.status).json({ success: false, error: error.message });
+    }
+    console.error('Publish agent error:', error);
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+// Get daily spend history
+router.get('/:id/usage', authenticate, requirePermission('usage:read'), async (req: Request, res: Response) => {
+  try {
+    const { startDate, endDate, limit = '90' } = req.query;
+    
+    const agentResult = await pool.query(
+      `SELECT a.cost_used_today, a.cost_limit_daily, a.cost_period_date::text AS cost_period_date, t.timezone
+       FROM agents a JOIN tenants t ON a.tenant_id = t.id
+       WHERE a.id = $1 AND a.tenant_id = $2`,
+      [req.params.id, req.tenantId]
+    );
+    
+    if (agentResult.rows.length === 0) {
+      return res.status(404).json({ success: false, error: 'Agent not found' });
+    }
+    
+    const history = await getAgentDailyUsage(req.params.id, req.tenantId!, {
+      startDate: startDate as string,
+      endDate: endDate as string,
+      limit: parseInt(limit as string),
+    });
+    
+    const a = agentResult.rows[0];
+    res.json({
+      success: true,
+      data: {
+        timezone: a.timezone,
+        current: {
+          date: a.cost_period_date,
+          cost: a.cost_used_today,
+          costLimit: a.cost_limit_daily,
+        },
+        history: history.map(h => ({
+          date: h.usage_date,
+          cost: h.cost,
+          costLimit: h.cost_limit,
+        })),
+      },
+    });
+  } catch (error) {
+    console.error('Get agent usage error:', error);
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
 // Delete agent (soft delete)
-router.delete('/:id', authenticate, authorize('master_admin', 'tenant_admin'), async (req: Request, res: Response) => {
+router.delete('/:id', authenticate, requirePermission('agents:write'), async (req: Request, res: Response) => {
   try {
     const result = await pool.query(
       'UPDATE agents SET is_active = false, updated_at = NOW() WHERE id = $1 AND tenant_id = $2 RETURNING name',
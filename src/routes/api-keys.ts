@@ -0,0 +1,139 @@
+import { Router, Request, Response } from 'express';
+import { v4 as uuidv4 } from 'uuid';
+import { pool } from '../db/index.js';
+import { authenticate, requirePermission, API_KEY_PREFIX } from '../middleware/auth.js';
+import { apiKeySchema, generateToken, hashToken } from '../utils/index.js';
+import { logAdminAction } from '../services/logging.js';
+
+const router = Router();
+
+function apiKeyStatus(k: any): string {
+  if (k.revoked_at) return 'revoked';
+  if (k.expires_at && new Date(k.expires_at) <= new Date()) return 'expired';
+  return 'active';
+}
+
+// Get all API keys for the tenant
+router.get('/', authenticate, requirePermission('api_keys:manage'), async (req: Request, res: Response) => {
+  try {
+    const result = await pool.query(
+      `SELECT k.*, u.email as created_by_email
+       FROM api_keys k
+       JOIN users u ON k.created_by = u.id
+       WHERE k.tenant_id = $1
+       ORDER BY k.created_at DESC`,
+      [req.tenantId]
+    );
+    
+    res.json({
+      success: true,
+      data: result.rows.map(k => ({
+        id: k.id,
+        name: k.name,
+        keyPrefix: k.key_prefix,
+        scopes: k.scopes,
+        agentIds: k.agent_ids,
+        status: apiKeyStatus(k),
+        expiresAt: k.expires_at,
+        lastUsedAt: k.last_used_at,
+        revokedAt: k.revoked_at,
+        createdBy: k.created_by_email,
+        createdAt: k.created_at,
+      })),
+    });
+  } catch (error) {
+    console.error('Get API keys error:', error);
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+// Create API key (the key is only returned once)
+router.post('/', authenticate, requirePermission('api_keys:manage'), async (req: Request, res: Response) => {
+  try {
+    const validation = apiKeySchema.safeParse(req.body);
+    if (!validation.success) {
+      return res.status(400).json({ success: false, error: validation.error.errors[0].message });
+    }
+    
+    const data = validation.data;
+    const agentIds = [...new Set(data.agent_ids)];
+    
+    if (agentIds.length > 0) {
+      const agentResult = await pool.query(
+        'SELECT id FROM agents WHERE id = ANY($1) AND tenant_id = $2',
+        [agentIds, req.tenantId]
+      );
+      if (agentResult.rows.length !== agentIds.length) {
+        return res.status(404).json({ success: false, error: 'Agent not found' });
+      }
+    }
+    
+    const apiKeyId = uuidv4();
+    const key = `${API_KEY_PREFIX}${generateToken(24)}`;
+    const keyPrefix = key.slice(0, 12);
+    const expiresAt = data.expires_in_days
+      ? new Date(Date.now() + data.expires_in_days * 24 * 60 * 60 * 1000)
+      : null;
+    
+    await pool.query(
+      `INSERT INTO api_keys (id, tenant_id, name, key_prefix, key_hash, scopes, agent_ids, created_by, expires_at)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)`,
+      [
+        apiKeyId, req.tenantId, data.name, keyPrefix, hashToken(key),
+        JSON.stringify(data.scopes), JSON.stringify(agentIds), req.user!.userId, expiresAt
+      ]
+    );
+    
+    await logAdminAction(req, 'create_api_key', 'api_key', apiKeyId, {
+      name: data.name,
+      keyPrefix,
+      scopes: data.scopes,
+      agentIds,
+      expiresAt,
+    });
+    
+    res.status(201).json({
+      success: true,
+      data: {
+        id: apiKeyId,
+        name: data.name,
+        key,
+        keyPrefix,
+        scopes: data.scopes,
+        agentIds,
+        expiresAt,
+      },
+    });
+  } catch (error) {
+    console.error('Create API key error:', error);
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+// Revoke API key
+router.post('/:id/revoke', authenticate, requirePermission('api_keys:manage'), async (req: Request, res: Response) => {
+  try {
+    const result = await pool.query(
+      `UPDATE api_keys SET revoked_at = NOW()
+       WHERE id = $1 AND tenant_id = $2 AND revoked_at IS NULL
+       RETURNING name, key_prefix`,
+      [req.params.id, req.tenantId]
+    );
+    
+    if (result.rows.length === 0) {
+      return res.status(404).json({ success: false, error: 'API key not found' });
+    }
+    
+    await logAdminAction(req, 'revoke_api_key', 'api_key', req.params.id, {
+      name: result.rows[0].name,
+      keyPrefix: result.rows[0].key_prefix,
+    });
+    
+    res.json({ success: true, message: 'API key revoked successfully' });
+  } catch (error) {
+    console.error('Revoke API key error:', error);
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+export default router;
@@ -1,14 +1,116 @@
-import { Router, Request, Response } from 'express';
+import { Router, Request, Response, NextFunction } from 'express';
 import bcrypt from 'bcrypt';
-import jwt from 'jsonwebtoken';
 import { v4 as uuidv4 } from 'uuid';
 import { pool } from '../db/index.js';
-import { loginSchema, registerSchema } from '../utils/index.js';
-import { authenticate, authorize } from '../middleware/auth.js';
-import { JWTPayload } from '../types/index.js';
+import { loginSchema, registerSchema, forgotPasswordSchema, resetPasswordSchema } from '../utils/index.js';
+import { authenticate } from '../middleware/auth.js';
+import { redeemInvitation, getInvitationTenantId, InvitationError } from '../services/invitations.js';
+import {
+  createSession,
+  rotateSession,
+  revokeSession,
+  revokeUserSessions,
+  listUserSessions,
+  SessionError,
+} from '../services/sessions.js';
+import { startSsoLogin, completeSsoLogin, SsoError } from '../services/sso.js';
+import {
+  signMfaToken,
+  verifyMfaToken,
+  isMfaRequired,
+  startMfaEnrollment,
+  verifyUserTotp,
+  generateRecoveryCodes,
+  useRecoveryCode,
+  countRecoveryCodes,
+  disableMfa,
+} from '../services/mfa.js';
+import {
+  checkPassword,
+  isLockedOut,
+  recordFailedLogin,
+  clearFailedLogins,
+  sendPasswordReset,
+  resetPassword,
+} from '../services/passwords.js';
+import { getUserPermissions } from '../services/permissions.js';
+import { UserRole } from '../types/index.js';
+import { logAdminAction } from '../services/logging.js';
 
 const router = Router();
 
+const LOCKED_MESSAGE = 'Account is temporarily locked after too many failed attempts. Try again later or reset your password.';
+
+// Start a session and build the response body shared by every login flow
+async function issueLogin(req: Request, user: any) {
+  const session = await createSession(user, {
+    userAgent: req.headers['user-agent'],
+    ipAddress: req.ip,
+  });
+  
+  return {
+    token: session.token,
+    refreshToken: session.refreshToken,
+    expiresIn: session.expiresIn,
+    user: {
+      id: user.id,
+      email: user.email,
+      role: user.role,
+      tenantId: user.tenant_id,
+      tenantSlug: user.tenant_slug,
+      isApproved: user.is_approved,
+    },
+  };
+}
+
+// The second step a login must finish before a session is issued: a code at /login/mfa for accounts
+// with 2FA, enrollment for roles the tenant requires it of. Applies to password and SSO logins alike.
+async function pendingSecondFactor(user: { id: string; tenant_id: string; role: UserRole; mfa_enabled: boolean }) {
+  if (user.mfa_enabled) {
+    return { mfaRequired: true, mfaToken: signMfaToken(user.id, 'mfa_verify') };
+  }
+  
+  if (await isMfaRequired(user.tenant_id, user.role)) {
+    return { mfaEnrollmentRequired: true, mfaToken: signMfaToken(user.id, 'mfa_enroll') };
+  }
+  
+  return null;
+}
+
+// 2FA enrollment accepts a normal session, or the enrollment token handed out when
+// login was refused because the tenant requires 2FA for the user's role
+async function authenticateMfaEnrollment(req: Request, res: Response, next: NextFunction) {
+  const mfaToken = req.body?.mfaToken;
+  if (!mfaToken) {
+    return authenticate(req, res, next);
+  }
+  
+  const userId = verifyMfaToken(mfaToken, 'mfa_enroll');
+  if (!userId) {
+    return res.status(401).json({ success: false, error: 'Invalid or expired MFA token' });
+  }
+  
+  try {
+    const result = await pool.query(
+      `SELECT u.id, u.email, u.role, u.tenant_id FROM users u JOIN tenants t ON u.tenant_id = t.id
+       WHERE u.id = $1 AND u.is_active = true AND t.is_active = true`,
+      [userId]
+    );
+    
+    if (result.rows.length === 0) {
+      return res.status(401).json({ success: false, error: 'Invalid or expired MFA token' });
+    }
+    
+    const user = result.rows[0];
+    req.user = { userId: user.id, email: user.email, role: user.role, tenantId: user.tenant_id };
+    req.tenantId = user.tenant_id;
+    next();
+  } catch (error) {
+    console.error('MFA enrollment auth error:', error);
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+}
+
 // Login
 router.post('/login', async (req: Request, res: Response) => {
   try {
@@ -20,7 +122,7 @@ router.post('/login', async (req: Request, res: Response) => {
     const { email, password } = validation.data;
     
     const result = await pool.query(
-      'SELECT u.*, t.slug as tenant_slug FROM users u JOIN tenants t ON u.tenant_id = t.id WHERE u.email = $1 AND u.is_active = true',
+      'SELECT u.*, t.slug as tenant_slug, t.is_active as tenant_active FROM users u JOIN tenants t ON u.tenant_id = t.id WHERE u.email = $1 AND u.is_active = true',
       [email]
     );
     
@@ -30,42 +132,88 @@ router.post('/login', async (req: Request, res: Response) => {
     
     const user = result.rows[0];
     
+    // Refuse before comparing so a locked account can't be used as a password oracle
+    if (isLockedOut(user)) {
+      return res.status(423).json({ success: false, error: LOCKED_MESSAGE });
+    }
+    
     const validPassword = await bcrypt.compare(password, user.password_hash);
     if (!validPassword) {
+      await recordFailedLogin(user.id);
       return res.status(401).json({ success: false, error: 'Invalid credentials' });
     }
     
-    const payload: JWTPayload = {
-      userId: user.id,
-      email: user.email,
-      role: user.role,
-      tenantId: user.tenant_id,
-    };
+    if (!user.tenant_active) {
+      return res.status(403).json({ success: false, error: 'Tenant is suspended' });
+    }
     
-    const expiresIn = process.env.JWT_EXPIRES_IN || '24h';
-    const token = jwt.sign(payload, process.env.JWT_SECRET!, { expiresIn } as jwt.SignOptions);
+    const secondFactor = await pendingSecondFactor(user);
+    if (secondFactor) {
+      return res.json({ success: true, data: secondFactor });
+    }
     
-    res.json({
-      success: true,
-      data: {
-        token,
-        user: {
-          id: user.id,
-          email: user.email,
-          role: user.role,
-          tenantId: user.tenant_id,
-          tenantSlug: user.tenant_slug,
-          isApproved: user.is_approved,
-        },
-      },
-    });
+    await clearFailedLogins(user.id);
+    res.json({ success: true, data: await issueLogin(req, user) });
   } catch (error) {
     console.error('Login error:', error);
     res.status(500).json({ success: false, error: 'Internal server error' });
   }
 });
 
-// Register (creates pending user)
+// Login second step: TOTP code or a recovery code
+router.post('/login/mfa', async (req: Request, res: Response) => {
+  try {
+    const { mfaToken, code, recoveryCode } = req.body;
+    
+    if (!mfaToken || (!code && !recoveryCode)) {
+      return res.status(400).json({ success: false, error: 'MFA token and a code are required' });
+    }
+    
+    const userId = verifyMfaToken(mfaToken, 'mfa_verify');
+    if (!userId) {
+      return res.status(401).json({ success: false, error: 'Invalid or expired MFA token' });
+    }
+    
+    const result = await pool.query(
+      `SELECT u.*, t.slug as tenant_slug, t.is_active as tenant_active
+       FROM users u JOIN tenants t ON u.tenant_id = t.id
+       WHERE u.id = $1 AND u.is_active = true AND u.mfa_enabled = true`,
+      [userId]
+    );
+    
+    if (result.rows.length === 0) {
+      return res.status(401).json({ success: false, error: 'Invalid or expired MFA token' });
+    }
+    
+    const user = result.rows[0];
+    
+    if (!user.tenant_active) {
+      return res.status(403).json({ success: false, error: 'Tenant is suspended' });
+    }
+    
+    if (isLockedOut(user)) {
+      return res.status(423).json({ success: false, error: LOCKED_MESSAGE });
+    }
+    
+    const valid = code
+      ? await verifyUserTotp(user.id, String(code))
+      : await useRecoveryCode(user.id, String(recoveryCode));
+    
+    if (!valid) {
+      await recordFailedLogin(user.id);
+      return res.status(401).json({ success: false, error: 'Invalid verification code' });
+    }
+    
+    await clearFailedLogins(user.id);
+    res.json({ success: true, data: await issueLogin(req, user) });
+  } catch (error) {
+    console.error('MFA login error:', error);
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+// Register: with an invitation token (role and approval come from the invitation),
+// or as a pending user of the tenant given by slug (default tenant if omitted)
 router.post('/register', async (req: Request, res: Response) => {
   try {
     const validation = registerSchema.safeParse(req.body);
@@ -73,7 +221,7 @@ router.post('/register', async (req: Request, res: Response) => {
       return res.status(400).json({ success: false, error: validation.error.errors[0].message });
     }
     
-    const { email, password } = validation.data;
+    const { email, password, inviteToken, tenantSlug } = validation.data;
     
     // Check if email already exists
     const existing = await pool.query('SELECT id FROM users WHERE email = $1', [email]);
@@ -81,16 +229,57 @@ router.post('/register', async (req: Request, res: Response) => {
       return res.status(400).json({ success: false, error: 'Email already registered' });
     }
     
-    // Get default tenant
-    const tenantResult = await pool.query("SELECT id FROM tenants WHERE slug = 'default'");
-    if (tenantResult.rows.length === 0) {
-      return res.status(500).json({ success: false, error: 'Default tenant not found. Please run migrations.' });
+    // The tenant decides which password policy applies
+    let tenantId: string | null;
+    if (inviteToken) {
+      tenantId = await getInvitationTenantId(inviteToken);
+      if (!tenantId) {
+        return res.status(400).json({ success: false, error: 'Invalid or expired invitation' });
+      }
+    } else {
+      const slug = tenantSlug || process.env.DEFAULT_TENANT_SLUG || 'default';
+      const tenantResult = await pool.query('SELECT id FROM tenants WHERE slug = $1 AND is_active = true', [slug]);
+      if (tenantResult.rows.length === 0) {
+        if (tenantSlug) {
+          return res.status(404).json({ success: false, error: 'Tenant not found' });
+        }
+        return res.status(500).json({ success: false, error: 'Default tenant not found. Please run migrations.' });
+      }
+      tenantId = tenantResult.rows[0].id as string;
+    }
+    
+    const policyError = await checkPassword(tenantId, password, email);
+    if (policyError) {
+      return res.status(400).json({ success: false, error: policyError });
     }
-    const tenantId = tenantResult.rows[0].id;
     
     // Hash password with bcrypt (cost factor 12)
     const passwordHash = await bcrypt.hash(password, 12);
     
+    if (inviteToken) {
+      try {
+        const invited = await redeemInvitation(inviteToken, email, passwordHash);
+        
+        return res.status(201).json({
+          success: true,
+          message: invited.isApproved
+            ? 'Registration successful. You can now log in.'
+            : 'Registration successful. Please wait for admin approval.',
+          data: {
+            userId: invited.userId,
+            email,
+            role: invited.role,
+            status: invited.isApproved ? 'approved' : 'pending_approval',
+          },
+        });
+      } catch (error) {
+        if (error instanceof InvitationError) {
+          return res.status(400).json({ success: false, error: error.message });
+        }
+        throw error;
+      }
+    }
+    
     // Create user (pending approval)
     const userId = uuidv4();
     await pool.query(
@@ -110,11 +299,289 @@ router.post('/register', async (req: Request, res: Response) => {
   }
 });
 
+// Start SSO login: returns the identity provider URL to send the browser to
+router.get('/sso/:tenantSlug/authorize', async (req: Request, res: Response) => {
+  try {
+    const data = await startSsoLogin(req.params.tenantSlug);
+    
+    res.json({ success: true, data });
+  } catch (error) {
+    if (error instanceof SsoError) {
+      return res.status(error.status).json({ success: false, error: error.message });
+    }
+    console.error('SSO authorize error:', error);
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+// Complete SSO login with the code and state the identity provider redirected back with
+router.post('/sso/callback', async (req: Request, res: Response) => {
+  try {
+    const { code, state } = req.body;
+    
+    if (!code || !state || typeof code !== 'string' || typeof state !== 'string') {
+      return res.status(400).json({ success: false, error: 'Code and state are required' });
+    }
+    
+    const user = await completeSsoLogin(code, state);
+    
+    // The IdP's own checks don't replace the account's 2FA or the tenant's admin 2FA policy
+    const secondFactor = await pendingSecondFactor(user);
+    if (secondFactor) {
+      return res.json({ success: true, data: secondFactor });
+    }
+    
+    res.json({ success: true, data: await issueLogin(req, user) });
+  } catch (error) {
+    if (error instanceof SsoError) {
+      return res.status(error.status).json({ success: false, error: error.message });
+    }
+    console.error('SSO callback error:', error);
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+// Exchange a refresh token for a new access/refresh token pair
+router.post('/refresh', async (req: Request, res: Response) => {
+  try {
+    const { refreshToken } = req.body;
+    
+    if (!refreshToken || typeof refreshToken !== 'string') {
+      return res.status(400).json({ success: false, error: 'Refresh token required' });
+    }
+    
+    const session = await rotateSession(refreshToken);
+    
+    res.json({
+      success: true,
+      data: {
+        token: session.token,
+        refreshToken: session.refreshToken,
+        expiresIn: session.expiresIn,
+      },
+    });
+  } catch (error) {
+    if (error instanceof SessionError) {
+      return res.status(error.status).json({ success: false, error: error.message });
+    }
+    console.error('Refresh token error:', error);
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+// Logout (revokes the current session)
+router.post('/logout', authenticate, async (req: Request, res: Response) => {
+  try {
+    await revokeSession(req.user!.sessionId!, 'logout');
+    
+    res.json({ success: true, message: 'Logged out successfully' });
+  } catch (error) {
+    console.error('Logout error:', error);
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+// Logout from all devices
+router.post('/logout-all', authenticate, async (req: Request, res: Response) => {
+  try {
+    const count = await revokeUserSessions(req.user!.userId, 'logout_all');
+    
+    res.json({ success: true, message: 'All sessions revoked', data: { revoked: count } });
+  } catch (error) {
+    console.error('Logout all error:', error);
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+// List own active sessions
+router.get('/sessions', authenticate, async (req: Request, res: Response) => {
+  try {
+    const sessions = await listUserSessions(req.user!.userId);
+    
+    res.json({
+      success: true,
+      data: sessions.map(s => ({
+        id: s.id,
+        userAgent: s.user_agent,
+        ipAddress: s.ip_address,
+        current: s.id === req.user!.sessionId,
+        createdAt: s.created_at,
+        lastUsedAt: s.last_used_at,
+        expiresAt: s.expires_at,
+      })),
+    });
+  } catch (error) {
+    console.error('Get sessions error:', error);
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+// Revoke one of own sessions
+router.delete('/sessions/:id', authenticate, async (req: Request, res: Response) => {
+  try {
+    const result = await pool.query(
+      `UPDATE sessions SET revoked_at = NOW(), revoked_reason = 'logout'
+       WHERE id = $1 AND user_id = $2 AND revoked_at IS NULL`,
+      [req.params.id, req.user!.userId]
+    );
+    
+    if (result.rowCount === 0) {
+      return res.status(404).json({ success: false, error: 'Session not found' });
+    }
+    
+    res.json({ success: true, message: 'Session revoked successfully' });
+  } catch (error) {
+    console.error('Revoke session error:', error);
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+// Get own 2FA status
+router.get('/mfa', authenticate, async (req: Request, res: Response) => {
+  try {
+    const result = await pool.query('SELECT mfa_enabled FROM users WHERE id = $1', [req.user!.userId]);
+    if (result.rows.length === 0) {
+      return res.status(404).json({ success: false, error: 'User not found' });
+    }
+    
+    res.json({
+      success: true,
+      data: {
+        enabled: result.rows[0].mfa_enabled,
+        required: await isMfaRequired(req.tenantId!, req.user!.role),
+        recoveryCodesRemaining: await countRecoveryCodes(req.user!.userId),
+      },
+    });
+  } catch (error) {
+    console.error('Get MFA status error:', error);
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+// Begin 2FA enrollment: returns the secret to add to an authenticator app
+router.post('/mfa/setup', authenticateMfaEnrollment, async (req: Request, res: Response) => {
+  try {
+    const result = await pool.query('SELECT mfa_enabled FROM users WHERE id = $1', [req.user!.userId]);
+    if (result.rows[0]?.mfa_enabled) {
+      return res.status(400).json({ success: false, error: 'Two-factor authentication is already enabled' });
+    }
+    
+    const data = await startMfaEnrollment(req.user!.userId, req.user!.email);
+    
+    res.json({ success: true, data });
+  } catch (error) {
+    console.error('MFA setup error:', error);
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+// Confirm enrollment with a code from the new secret; returns recovery codes once
+router.post('/mfa/activate', authenticateMfaEnrollment, async (req: Request, res: Response) => {
+  try {
+    const { code } = req.body;
+    
+    if (!code) {
+      return res.status(400).json({ success: false, error: 'Verification code required' });
+    }
+    
+    const result = await pool.query(
+      `SELECT u.*, t.slug as tenant_slug FROM users u JOIN tenants t ON u.tenant_id = t.id WHERE u.id = $1`,
+      [req.user!.userId]
+    );
+    const user = result.rows[0];
+    
+    if (!user || user.mfa_enabled || !user.mfa_secret_encrypted) {
+      return res.status(400).json({ success: false, error: 'No pending two-factor enrollment' });
+    }
+    
+    if (!(await verifyUserTotp(user.id, String(code)))) {
+      return res.status(401).json({ success: false, error: 'Invalid verification code' });
+    }
+    
+    await pool.query('UPDATE users SET mfa_enabled = true, updated_at = NOW() WHERE id = $1', [user.id]);
+    const recoveryCodes = await generateRecoveryCodes(user.id);
+    
+    await logAdminAction(req, 'enable_mfa', 'user', user.id, { method: 'totp' });
+    
+    // Enrollment forced at login completes that login
+    const login = req.user!.sessionId ? undefined : await issueLogin(req, user);
+    
+    res.json({
+      success: true,
+      message: 'Two-factor authentication enabled',
+      data: { recoveryCodes, ...login },
+    });
+  } catch (error) {
+    console.error('MFA activate error:', error);
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+// Turn 2FA off (requires the password and a current code)
+router.post('/mfa/disable', authenticate, async (req: Request, res: Response) => {
+  try {
+    const { password, code } = req.body;
+    
+    if (!password || !code) {
+      return res.status(400).json({ success: false, error: 'Password and verification code required' });
+    }
+    
+    if (await isMfaRequired(req.tenantId!, req.user!.role)) {
+      return res.status(403).json({ success: false, error: 'Two-factor authentication is required for your role' });
+    }
+    
+    const result = await pool.query('SELECT password_hash, mfa_enabled FROM users WHERE id = $1', [req.user!.userId]);
+    const user = result.rows[0];
+    
+    if (!user?.mfa_enabled) {
+      return res.status(400).json({ success: false, error: 'Two-factor authentication is not enabled' });
+    }
+    
+    const validPassword = await bcrypt.compare(password, user.password_hash);
+    if (!validPassword || !(await verifyUserTotp(req.user!.userId, String(code)))) {
+      return res.status(401).json({ success: false, error: 'Invalid credentials' });
+    }
+    
+    await disableMfa(req.user!.userId);
+    
+    await logAdminAction(req, 'disable_mfa', 'user', req.user!.userId, { method: 'totp' });
+    
+    res.json({ success: true, message: 'Two-factor authentication disabled' });
+  } catch (error) {
+    console.error('MFA disable error:', error);
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+// Replace recovery codes (requires a current code)
+router.post('/mfa/recovery-codes', authenticate, async (req: Request, res: Response) => {
+  try {
+    const { code } = req.body;
+    
+    if (!code) {
+      return res.status(400).json({ success: false, error: 'Verification code required' });
+    }
+    
+    if (!(await verifyUserTotp(req.user!.userId, String(code)))) {
+      return res.status(401).json({ success: false, error: 'Invalid verification code' });
+    }
+    
+    const recoveryCodes = await generateRecoveryCodes(req.user!.userId);
+    
+    await logAdminAction(req, 'regenerate_recovery_codes', 'user', req.user!.userId, { count: recoveryCodes.length });
+    
+    res.json({ success: true, data: { recoveryCodes } });
+  } catch (error) {
+    console.error('Regenerate recovery codes error:', error);
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
 // Get current user
 router.get('/me', authenticate, async (req: Request, res: Response) => {
   try {
     const result = await pool.query(
-      `SELECT u.id, u.email, u.role, u.is_approved, u.is_active, u.tenant_id, t.name as tenant_name, t.slug as tenant_slug
+      `SELECT u.id, u.email, u.role, u.is_approved, u.is_active, u.mfa_enabled, u.tenant_id, t.name as tenant_name, t.slug as tenant_slug
        FROM users u JOIN tenants t ON u.tenant_id = t.id
        WHERE u.id = $1`,
       [req.user!.userId]
@@ -133,6 +600,8 @@ router.get('/me', authenticate, async (req: Request, res: Response) => {
         role: user.role,
         isApproved: user.is_approved,
         isActive: user.is_active,
+        mfaEnabled: user.mfa_enabled,
+        permissions: await getUserPermissions(user.id, user.role, user.tenant_id),
         tenantId: user.tenant_id,
         tenantName: user.tenant_name,
         tenantSlug: user.tenant_slug,
@@ -153,11 +622,7 @@ router.post('/change-password', authenticate, async (req: Request, res: Response
       return res.status(400).json({ success: false, error: 'Current and new password required' });
     }
     
-    if (newPassword.length < 8) {
-      return res.status(400).json({ success: false, error: 'New password must be at least 8 characters' });
-    }
-    
-    const result = await pool.query('SELECT password_hash FROM users WHERE id = $1', [req.user!.userId]);
+    const result = await pool.query('SELECT email, password_hash FROM users WHERE id = $1', [req.user!.userId]);
     if (result.rows.length === 0) {
       return res.status(404).json({ success: false, error: 'User not found' });
     }
@@ -167,9 +632,17 @@ router.post('/change-password', authenticate, async (req: Request, res: Response
       return res.status(401).json({ success: false, error: 'Current password is incorrect' });
     }
     
+    const policyError = await checkPassword(req.tenantId!, newPassword, result.rows[0].email);
+    if (policyError) {
+      return res.status(400).json({ success: false, error: policyError });
+    }
+    
     const newHash = await bcrypt.hash(newPassword, 12);
     await pool.query('UPDATE users SET password_hash = $1, updated_at = NOW() WHERE id = $2', [newHash, req.user!.userId]);
     
+    // Sign out every other device; the current session stays valid
+    await revokeUserSessions(req.user!.userId, 'password_change', req.user!.sessionId);
+    
     res.json({ success: true, message: 'Password changed successfully' });
   } catch (error) {
     console.error('Change password error:', error);
@@ -177,4 +650,49 @@ router.post('/change-password', authenticate, async (req: Request, res: Response
   }
 });
 
+// Request a reset link; the response never reveals whether the email exists
+router.post('/forgot-password', async (req: Request, res: Response) => {
+  try {
+    const validation = forgotPasswordSchema.safeParse(req.body);
+    if (!validation.success) {
+      return res.status(400).json({ success: false, error: validation.error.errors[0].message });
+    }
+    
+    const result = await pool.query(
+      `SELECT u.id, u.email FROM users u JOIN tenants t ON u.tenant_id = t.id
+       WHERE u.email = $1 AND u.is_active = true AND t.is_active = true`,
+      [validation.data.email]
+    );
+    
+    if (result.rows.length > 0) {
+      await sendPasswordReset(result.rows[0]);
+    }
+    
+    res.json({ success: true, message: 'If an account exists for this email, a reset link has been sent.' });
+  } catch (error) {
+    console.error('Forgot password error:', error);
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+// Set a new password with a reset token; signs out every session and clears any lockout
+router.post('/reset-password', async (req: Request, res: Response) => {
+  try {
+    const validation = resetPasswordSchema.safeParse(req.body);
+    if (!validation.success) {
+      return res.status(400).json({ success: false, error: validation.error.errors[0].message });
+    }
+    
+    const resetError = await resetPassword(validation.data.token, validation.data.password);
+    if (resetError) {
+      return res.status(400).json({ success: false, error: resetError });
+    }
+    
+    res.json({ success: true, message: 'Password reset successfully. You can now log in.' });
+  } catch (error) {
+    console.error('Reset password error:', error);
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
 export default router;
@@ -0,0 +1,212 @@
+import { Router, Request, Response } from 'express';
+import { v4 as uuidv4 } from 'uuid';
+import { pool } from '../db/index.js';
+import { authenticate, requirePermission } from '../middleware/auth.js';
+import { budgetSchema } from '../utils/index.js';
+import { logAdminAction } from '../services/logging.js';
+import { getPeriodSpend } from '../services/budget.js';
+
+const router = Router();
+
+// Cross-field rules that zod partial updates can't express on their own
+function validateBudget(budget: {
+  scope?: string;
+  subject_id?: string | null;
+  soft_limit?: number | null;
+  hard_limit?: number | null;
+}): string | null {
+  if (budget.scope === 'tenant' && budget.subject_id) {
+    return 'Tenant budgets cannot have a subject';
+  }
+  
+  if (budget.scope === 'group' && !budget.subject_id) {
+    return 'Group budgets require a group';
+  }
+  
+  if (budget.soft_limit == null && budget.hard_limit == null) {
+    return 'A soft or hard limit is required';
+  }
+  
+  if (budget.soft_limit != null && budget.hard_limit != null && budget.soft_limit > budget.hard_limit) {
+    return 'Soft limit cannot exceed hard limit';
+  }
+  
+  return null;
+}
+
+// Get all budgets with current spend
+router.get('/', authenticate, requirePermission('budgets:manage'), async (req: Request, res: Response) => {
+  try {
+    const result = await pool.query(
+      `SELECT b.*, u.email as subject_email, g.name as subject_group_name
+       FROM budgets b
+       LEFT JOIN users u ON b.scope = 'user' AND b.subject_id = u.id
+       LEFT JOIN user_groups g ON b.scope = 'group' AND b.subject_id = g.id
+       WHERE b.tenant_id = $1
+       ORDER BY b.scope, b.period, b.created_at`,
+      [req.tenantId]
+    );
+    
+    const data = [];
+    for (const b of result.rows) {
+      // Default user budgets apply per user, so there is no single spend figure for them
+      const currentSpend = b.scope === 'tenant' || b.subject_id
+        ? await getPeriodSpend(
+            req.tenantId!,
+            b.period,
+            b.scope === 'user' ? b.subject_id || undefined : undefined,
+            b.scope === 'group' ? b.subject_id : undefined
+          )
+        : null;
+      
+      data.push({
+        id: b.id,
+        scope: b.scope,
+        subjectId: b.subject_id,
+        subjectEmail: b.subject_email,
+        subjectGroupName: b.subject_group_name,
+        period: b.period,
+        softLimit: b.soft_limit,
+        hardLimit: b.hard_limit,
+        currentSpend,
+        isActive: b.is_active,
+        createdAt: b.created_at,
+        updatedAt: b.updated_at,
+      });
+    }
+    
+    res.json({ success: true, data });
+  } catch (error) {
+    console.error('Get budgets error:', error);
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+// Create budget
+router.post('/', authenticate, requirePermission('budgets:manage'), async (req: Request, res: Response) => {
+  try {
+    const validation = budgetSchema.safeParse(req.body);
+    if (!validation.success) {
+      return res.status(400).json({ success: false, error: validation.error.errors[0].message });
+    }
+    
+    const data = validation.data;
+    
+    const invalid = validateBudget(data);
+    if (invalid) {
+      return res.status(400).json({ success: false, error: invalid });
+    }
+    
+    if (data.subject_id && data.scope === 'user') {
+      const userResult = await pool.query(
+        'SELECT id FROM users WHERE id = $1 AND tenant_id = $2',
+        [data.subject_id, req.tenantId]
+      );
+      if (userResult.rows.length === 0) {
+        return res.status(404).json({ success: false, error: 'User not found' });
+      }
+    }
+    
+    if (data.subject_id && data.scope === 'group') {
+      const groupResult = await pool.query(
+        'SELECT id FROM user_groups WHERE id = $1 AND tenant_id = $2',
+        [data.subject_id, req.tenantId]
+      );
+      if (groupResult.rows.length === 0) {
+        return res.status(404).json({ success: false, error: 'Group not found' });
+      }
+    }
+    
+    const existing = await pool.query(
+      `SELECT id FROM budgets
+       WHERE tenant_id = $1 AND scope = $2 AND period = $3 AND subject_id IS NOT DISTINCT FROM $4`,
+      [req.tenantId, data.scope, data.period, data.subject_id || null]
+    );
+    if (existing.rows.length > 0) {
+      return res.status(400).json({ success: false, error: 'A budget for this scope, subject and period already exists' });
+    }
+    
+    const budgetId = uuidv4();
+    
+    await pool.query(
+      `INSERT INTO budgets (id, tenant_id, scope, subject_id, period, soft_limit, hard_limit, is_active)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8)`,
+      [
+        budgetId, req.tenantId, data.scope, data.subject_id || null, data.period,
+        data.soft_limit ?? null, data.hard_limit ?? null, data.is_active
+      ]
+    );
+    
+    await logAdminAction(req, 'create_budget', 'budget', budgetId, data);
+    
+    res.status(201).json({
+      success: true,
+      data: { id: budgetId, scope: data.scope, period: data.period },
+    });
+  } catch (error) {
+    console.error('Create budget error:', error);
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+// Update budget limits
+router.put('/:id', authenticate, requirePermission('budgets:manage'), async (req: Request, res: Response) => {
+  try {
+    const validation = budgetSchema.pick({ soft_limit: true, hard_limit: true, is_active: true }).partial().safeParse(req.body);
+    if (!validation.success) {
+      return res.status(400).json({ success: false, error: validation.error.errors[0].message });
+    }
+    
+    const data = validation.data;
+    
+    const current = await pool.query(
+      'SELECT * FROM budgets WHERE id = $1 AND tenant_id = $2',
+      [req.params.id, req.tenantId]
+    );
+    
+    if (current.rows.length === 0) {
+      return res.status(404).json({ success: false, error: 'Budget not found' });
+    }
+    
+    const merged = { ...current.rows[0], ...data };
+    const invalid = validateBudget(merged);
+    if (invalid) {
+      return res.status(400).json({ success: false, error: invalid });
+    }
+    
+    await pool.query(
+      'UPDATE budgets SET soft_limit = $1, hard_limit = $2, is_active = $3, updated_at = NOW() WHERE id = $4',
+      [merged.soft_limit, merged.hard_limit, merged.is_active, req.params.id]
+    );
+    
+    await logAdminAction(req, 'update_budget', 'budget', req.params.id, data);
+    
+    res.json({ success: true, message: 'Budget updated successfully' });
+  } catch (error) {
+    console.error('Update budget error:', error);
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+// Delete budget
+router.delete('/:id', authenticate, requirePermission('budgets:manage'), async (req: Request, res: Response) => {
+  try {
+    const result = await pool.query(
+      'DELETE FROM budgets WHERE id = $1 AND tenant_id = $2 RETURNING scope, subject_id, period',
+      [req.params.id, req.tenantId]
+    );
+    
+    if (result.rows.length === 0) {
+      return res.status(404).json({ success: false, error: 'Budget not found' });
+    }
+    
+    await logAdminAction(req, 'delete_budget', 'budget', req.params.id, result.rows[0]);
+    
+    res.json({ success: true, message: 'Budget deleted successfully' });
+  } catch (error) {
+    console.error('Delete budget error:', error);
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+export default router;
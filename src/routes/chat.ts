@@ -5,9 +5,10 @@ import fs from 'fs';
 import mammoth from 'mammoth';
 import pdfParse from 'pdf-parse';
 import { pool } from '../db/index.js';
-import { authenticate } from '../middleware/auth.js';
-import { chat, chatWithDocument } from '../services/chat.js';
-import { chatSchema } from '../utils/index.js';
+import { authenticate, allowApiKey, apiKeyAllowsAgent } from '../middleware/auth.js';
+import { chat, chatStream, chatWithDocument } from '../services/chat.js';
+import { ConversationAccessError } from '../services/conversations.js';
+import { chatSchema, conversationUpdateSchema } from '../utils/index.js';
 
 const router = Router();
 
@@ -32,7 +33,7 @@ const upload = multer({
 });
 
 // Send chat message
-router.post('/', authenticate, async (req: Request, res: Response) => {
+router.post('/', allowApiKey('chat'), authenticate, async (req: Request, res: Response) => {
   try {
     // Check if user is approved
     const userResult = await pool.query(
@@ -54,12 +55,17 @@ router.post('/', authenticate, async (req: Request, res: Response) => {
     
     const { message, agentId, conversationId } = validation.data;
     
+    if (!apiKeyAllowsAgent(req, agentId)) {
+      return res.status(403).json({ success: false, error: 'API key is not allowed to use this agent' });
+    }
+    
     const result = await chat(
       message,
       agentId,
       req.user!.userId,
       req.tenantId!,
-      conversationId
+      conversationId,
+      req.apiKey?.id
     );
     
     res.json({
@@ -67,11 +73,81 @@ router.post('/', authenticate, async (req: Request, res: Response) => {
       data: result,
     });
   } catch (error) {
+    if (error instanceof ConversationAccessError) {
+      return res.status(error.status).json({ success: false, error: error.message });
+    }
     console.error('Chat error:', error);
     res.status(500).json({ success: false, error: (error as Error).message });
   }
 });
 
+// Send chat message and stream the response over Server-Sent Events
+router.post('/stream', allowApiKey('chat'), authenticate, async (req: Request, res: Response) => {
+  try {
+    // Check if user is approved
+    const userResult = await pool.query(
+      'SELECT is_approved FROM users WHERE id = $1',
+      [req.user!.userId]
+    );
+    
+    if (userResult.rows.length === 0 || !userResult.rows[0].is_approved) {
+      return res.status(403).json({ 
+        success: false, 
+        error: 'Your account is pending approval. Please wait for an administrator to approve your access.' 
+      });
+    }
+    
+    const validation = chatSchema.safeParse(req.body);
+    if (!validation.success) {
+      return res.status(400).json({ success: false, error: validation.error.errors[0].message });
+    }
+    
+    const { message, agentId, conversationId } = validation.data;
+    
+    if (!apiKeyAllowsAgent(req, agentId)) {
+      return res.status(403).json({ success: false, error: 'API key is not allowed to use this agent' });
+    }
+    
+    // Headers are written with the first event, so pre-flight failures still get a JSON status
+    const send = (event: string, data: unknown) => {
+      if (res.writableEnded) return;
+      if (!res.headersSent) {
+        res.writeHead(200, {
+          'Content-Type': 'text/event-stream',
+          'Cache-Control': 'no-cache',
+          'Connection': 'keep-alive',
+          'X-Accel-Buffering': 'no',
+        });
+      }
+      res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+      // compression buffers output; push each event to the client immediately
+      res.flush();
+    };
+    
+    await chatStream(
+      message,
+      agentId,
+      req.user!.userId,
+      req.tenantId!,
+      ({ type, ...data }) => send(type, data),
+      conversationId,
+      req.apiKey?.id
+    );
+    
+    res.end();
+  } catch (error) {
+    console.error('Chat stream error:', error);
+    if (res.headersSent) {
+      res.write(`event: error\ndata: ${JSON.stringify({ error: (error as Error).message })}\n\n`);
+      return res.end();
+    }
+    if (error instanceof ConversationAccessError) {
+      return res.status(error.status).json({ success: false, error: error.message });
+    }
+    res.status(500).json({ success: false, error: (error as Error).message });
+  }
+});
+
 // Chat with uploaded document
 router.post('/upload', authenticate, upload.single('file'), async (req: Request, res: Response) => {
   try {
@@ -155,16 +231,25 @@ router.post('/upload', authenticate, upload.single('file'), async (req: Request,
 // Get conversations
 router.get('/conversations', authenticate, async (req: Request, res: Response) => {
   try {
-    const result = await pool.query(
-      `SELECT c.*, a.name as agent_name,
-              (SELECT content FROM chat_messages WHERE conversation_id = c.id ORDER BY created_at DESC LIMIT 1) as last_message
-       FROM conversations c
-       JOIN agents a ON c.agent_id = a.id
-       WHERE c.user_id = $1 AND c.tenant_id = $2
-       ORDER BY c.updated_at DESC
-       LIMIT 50`,
-      [req.user!.userId, req.tenantId]
-    );
+    const { status = 'active' } = req.query;
+    
+    let query = `
+      SELECT c.*, a.name as agent_name,
+             (SELECT content FROM chat_messages WHERE conversation_id = c.id ORDER BY created_at DESC LIMIT 1) as last_message
+      FROM conversations c
+      JOIN agents a ON c.agent_id = a.id
+      WHERE c.user_id = $1 AND c.tenant_id = $2
+    `;
+    
+    if (status === 'active') {
+      query += ' AND c.is_active = true';
+    } else if (status === 'archived') {
+      query += ' AND c.is_active = false';
+    }
+    
+    query += ' ORDER BY c.updated_at DESC LIMIT 50';
+    
+    const result = await pool.query(query, [req.user!.userId, req.tenantId]);
     
     res.json({
       success: true,
@@ -204,6 +289,7 @@ router.get('/conversations/:id/messages', authenticate, async (req: Request, res
         tokensUsed: m.tokens_used,
         latencyMs: m.latency_ms,
         evidence: m.evidence,
+        agentVersionId: m.agent_version_id,
         createdAt: m.created_at,
       })),
     });
@@ -213,19 +299,84 @@ router.get('/conversations/:id/messages', authenticate, async (req: Request, res
   }
 });
 
+// Rename conversation
+router.patch('/conversations/:id', authenticate, async (req: Request, res: Response) => {
+  try {
+    const validation = conversationUpdateSchema.safeParse(req.body);
+    if (!validation.success) {
+      return res.status(400).json({ success: false, error: validation.error.errors[0].message });
+    }
+    
+    const result = await pool.query(
+      `UPDATE conversations SET title = $1, updated_at = NOW()
+       WHERE id = $2 AND user_id = $3 AND tenant_id = $4 RETURNING id`,
+      [validation.data.title, req.params.id, req.user!.userId, req.tenantId]
+    );
+    
+    if (result.rows.length === 0) {
+      return res.status(404).json({ success: false, error: 'Conversation not found' });
+    }
+    
+    res.json({ success: true, message: 'Conversation renamed' });
+  } catch (error) {
+    console.error('Rename conversation error:', error);
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+// Archive conversation
+router.post('/conversations/:id/archive', authenticate, async (req: Request, res: Response) => {
+  try {
+    const result = await pool.query(
+      `UPDATE conversations SET is_active = false, updated_at = NOW()
+       WHERE id = $1 AND user_id = $2 AND tenant_id = $3 RETURNING id`,
+      [req.params.id, req.user!.userId, req.tenantId]
+    );
+    
+    if (result.rows.length === 0) {
+      return res.status(404).json({ success: false, error: 'Conversation not found' });
+    }
+    
+    res.json({ success: true, message: 'Conversation archived' });
+  } catch (error) {
+    console.error('Archive conversation error:', error);
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+// Unarchive conversation
+router.post('/conversations/:id/unarchive', authenticate, async (req: Request, res: Response) => {
+  try {
+    const result = await pool.query(
+      `UPDATE conversations SET is_active = true, updated_at = NOW()
+       WHERE id = $1 AND user_id = $2 AND tenant_id = $3 RETURNING id`,
+      [req.params.id, req.user!.userId, req.tenantId]
+    );
+    
+    if (result.rows.length === 0) {
+      return res.status(404).json({ success: false, error: 'Conversation not found' });
+    }
+    
+    res.json({ success: true, message: 'Conversation unarchived' });
+  } catch (error) {
+    console.error('Unarchive conversation error:', error);
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
 // Delete conversation
 router.delete('/conversations/:id', authenticate, async (req: Request, res: Response) => {
   try {
     // Delete messages
     await pool.query(
-      'DELETE FROM chat_messages WHERE conversation_id = $1 AND user_id = $2',
-      [req.params.id, req.user!.userId]
+      'DELETE FROM chat_messages WHERE conversation_id = $1 AND user_id = $2 AND tenant_id = $3',
+      [req.params.id, req.user!.userId, req.tenantId]
     );
     
     // Delete conversation
     await pool.query(
-      'DELETE FROM conversations WHERE id = $1 AND user_id = $2',
-      [req.params.id, req.user!.userId]
+      'DELETE FROM conversations WHERE id = $1 AND user_id = $2 AND tenant_id = $3',
+      [req.params.id, req.user!.userId, req.tenantId]
     );
     
     res.json({ success: true, message: 'Conversation deleted' });
@@ -1,25 +1,40 @@
 import { Router, Request, Response } from 'express';
 import { v4 as uuidv4 } from 'uuid';
 import { pool } from '../db/index.js';
-import { authenticate, authorize } from '../middleware/auth.js';
-import { collectionSchema } from '../utils/index.js';
+import { authenticate, requirePermission } from '../middleware/auth.js';
+import { collectionSchema, accessListSchema } from '../utils/index.js';
 import { logAdminAction } from '../services/logging.js';
+import {
+  collectionAccessCondition,
+  canManageCollections,
+  setCollectionAccess,
+  getAccessList,
+  validateAccessSubjects,
+} from '../services/acl.js';
 
 const router = Router();
 
-// Get all collections
+// Get all collections visible to the user
 router.get('/', authenticate, async (req: Request, res: Response) => {
   try {
+    const params: any[] = [req.tenantId];
+    let accessFilter = '';
+    
+    if (!(await canManageCollections(req.user!.userId, req.tenantId!))) {
+      params.push(req.user!.userId);
+      accessFilter = ` AND ${collectionAccessCondition(`$${params.length}`)}`;
+    }
+    
     const result = await pool.query(
       `SELECT c.*, 
               COUNT(d.id) as document_count,
               COALESCE(SUM(d.file_size), 0) as total_size
        FROM collections c
        LEFT JOIN documents d ON c.id = d.collection_id AND d.status = 'completed'
-       WHERE c.tenant_id = $1
+       WHERE c.tenant_id = $1${accessFilter}
        GROUP BY c.id
        ORDER BY c.is_global DESC, c.created_at DESC`,
-      [req.tenantId]
+      params
     );
     
     res.json({
@@ -29,6 +44,7 @@ router.get('/', authenticate, async (req: Request, res: Response) => {
         name: c.name,
         description: c.description,
         isGlobal: c.is_global,
+        accessMode: c.access_mode,
         documentCount: parseInt(c.document_count),
         totalSize: parseInt(c.total_size),
         createdAt: c.created_at,
@@ -44,9 +60,17 @@ router.get('/', authenticate, async (req: Request, res: Response) => {
 // Get single collection with documents
 router.get('/:id', authenticate, async (req: Request, res: Response) => {
   try {
+    const params: any[] = [req.params.id, req.tenantId];
+    let accessFilter = '';
+    
+    if (!(await canManageCollections(req.user!.userId, req.tenantId!))) {
+      params.push(req.user!.userId);
+      accessFilter = ` AND ${collectionAccessCondition(`$${params.length}`)}`;
+    }
+    
     const collectionResult = await pool.query(
-      'SELECT * FROM collections WHERE id = $1 AND tenant_id = $2',
-      [req.params.id, req.tenantId]
+      `SELECT c.* FROM collections c WHERE c.id = $1 AND c.tenant_id = $2${accessFilter}`,
+      params
     );
     
     if (collectionResult.rows.length === 0) {
@@ -67,6 +91,7 @@ router.get('/:id', authenticate, async (req: Request, res: Response) => {
         name: c.name,
         description: c.description,
         isGlobal: c.is_global,
+        accessMode: c.access_mode,
         createdAt: c.created_at,
         updatedAt: c.updated_at,
         documents: documentsResult.rows.map(d => ({
@@ -87,8 +112,8 @@ router.get('/:id', authenticate, async (req: Request, res: Response) => {
   }
 });
 
-// Create collection (admin only)
-router.post('/', authenticate, authorize('master_admin', 'tenant_admin'), async (req: Request, res: Response) => {
+// Create collection
+router.post('/', authenticate, requirePermission('collections:write'), async (req: Request, res: Response) => {
   try {
     const validation = collectionSchema.safeParse(req.body);
     if (!validation.success) {
@@ -116,8 +141,8 @@ router.post('/', authenticate, authorize('master_admin', 'tenant_admin'), async
   }
 });
 
-// Update collection (admin only)
-router.put('/:id', authenticate, authorize('master_admin', 'tenant_admin'), async (req: Request, res: Response) => {
+// Update collection
+router.put('/:id', authenticate, requirePermission('collections:write'), async (req: Request, res: Response) => {
   try {
     const validation = collectionSchema.partial().safeParse(req.body);
     if (!validation.success) {
@@ -156,8 +181,74 @@ router.put('/:id', authenticate, authorize('master_admin', 'tenant_admin'), asyn
   }
 });
 
-// Delete collection (admin only)
-router.delete('/:id', authenticate, authorize('master_admin', 'tenant_admin'), async (req: Request, res: Response) => {
+// Get a collection's access mode and allow-list
+router.get('/:id/access', authenticate, requirePermission('collections:write'), async (req: Request, res: Response) => {
+  try {
+    const collectionResult = await pool.query(
+      'SELECT access_mode FROM collections WHERE id = $1 AND tenant_id = $2',
+      [req.params.id, req.tenantId]
+    );
+    
+    if (collectionResult.rows.length === 0) {
+      return res.status(404).json({ success: false, error: 'Collection not found' });
+    }
+    
+    res.json({
+      success: true,
+      data: {
+        accessMode: collectionResult.rows[0].access_mode,
+        entries: await getAccessList('collection_access', 'collection_id', req.params.id),
+      },
+    });
+  } catch (error) {
+    console.error('Get collection access error:', error);
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+// Replace a collection's access mode and allow-list
+router.put('/:id/access', authenticate, requirePermission('collections:write'), async (req: Request, res: Response) => {
+  try {
+    const validation = accessListSchema.safeParse(req.body);
+    if (!validation.success) {
+      return res.status(400).json({ success: false, error: validation.error.errors[0].message });
+    }
+    
+    const data = validation.data;
+    const userIds = [...new Set(data.user_ids)];
+    const groupIds = [...new Set(data.group_ids)];
+    
+    const collectionResult = await pool.query(
+      'SELECT id FROM collections WHERE id = $1 AND tenant_id = $2',
+      [req.params.id, req.tenantId]
+    );
+    
+    if (collectionResult.rows.length === 0) {
+      return res.status(404).json({ success: false, error: 'Collection not found' });
+    }
+    
+    const invalid = await validateAccessSubjects(req.tenantId!, userIds, groupIds);
+    if (invalid) {
+      return res.status(404).json({ success: false, error: invalid });
+    }
+    
+    await setCollectionAccess(req.params.id, data.access_mode, userIds, groupIds, req.user!.userId);
+    
+    await logAdminAction(req, 'update_collection_access', 'collection', req.params.id, {
+      accessMode: data.access_mode,
+      userIds,
+      groupIds,
+    });
+    
+    res.json({ success: true, message: 'Collection access updated successfully' });
+  } catch (error) {
+    console.error('Update collection access error:', error);
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+// Delete collection
+router.delete('/:id', authenticate, requirePermission('collections:write'), async (req: Request, res: Response) => {
   try {
     // Check if collection has documents
     const docsResult = await pool.query(
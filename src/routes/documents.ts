@@ -4,9 +4,10 @@ import path from 'path';
 import fs from 'fs';
 import { v4 as uuidv4 } from 'uuid';
 import { pool } from '../db/index.js';
-import { authenticate, authorize } from '../middleware/auth.js';
+import { authenticate, requirePermission, allowApiKey } from '../middleware/auth.js';
 import { processDocument } from '../services/rag.js';
 import { logAdminAction } from '../services/logging.js';
+import { collectionAccessCondition, canManageCollections } from '../services/acl.js';
 import { sanitizeFilename, formatBytes } from '../utils/index.js';
 
 const router = Router();
@@ -66,6 +67,12 @@ router.get('/', authenticate, async (req: Request, res: Response) => {
     `;
     const params: any[] = [req.tenantId];
     
+    // Documents follow the visibility of their collection
+    if (!(await canManageCollections(req.user!.userId, req.tenantId!))) {
+      params.push(req.user!.userId);
+      query += ` AND ${collectionAccessCondition(`$${params.length}`)}`;
+    }
+    
     if (collectionId) {
       params.push(collectionId);
       query += ` AND d.collection_id = $${params.length}`;
@@ -103,16 +110,55 @@ router.get('/', authenticate, async (req: Request, res: Response) => {
   }
 });
 
+// Chunks quarantined as suspected prompt injection
+router.get('/quarantine', authenticate, requirePermission('documents:manage'), async (req: Request, res: Response) => {
+  try {
+    const result = await pool.query(
+      `SELECT e.id, e.document_id, d.name as document_name, e.chunk_index, e.chunk_text,
+              e.quarantined_at, e.quarantine_reason
+       FROM embeddings e
+       JOIN documents d ON e.document_id = d.id
+       WHERE d.tenant_id = $1 AND e.quarantined_at IS NOT NULL
+       ORDER BY e.quarantined_at DESC`,
+      [req.tenantId]
+    );
+    
+    res.json({
+      success: true,
+      data: result.rows.map(c => ({
+        id: c.id,
+        documentId: c.document_id,
+        documentName: c.document_name,
+        index: c.chunk_index,
+        text: c.chunk_text,
+        quarantinedAt: c.quarantined_at,
+        quarantineReason: c.quarantine_reason,
+      })),
+    });
+  } catch (error) {
+    console.error('Get quarantined chunks error:', error);
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
 // Get single document
 router.get('/:id', authenticate, async (req: Request, res: Response) => {
   try {
+    const params: any[] = [req.params.id, req.tenantId];
+    let accessFilter = '';
+    
+    if (!(await canManageCollections(req.user!.userId, req.tenantId!))) {
+      params.push(req.user!.userId);
+      accessFilter = ` AND ${collectionAccessCondition(`$${params.length}`)}`;
+    }
+    
     const result = await pool.query(
       `SELECT d.*, c.name as collection_name,
               (SELECT COUNT(*) FROM embeddings WHERE document_id = d.id) as chunk_count
        FROM documents d
        JOIN collections c ON d.collection_id = c.id
-       WHERE d.id = $1 AND d.tenant_id = $2`,
-      [req.params.id, req.tenantId]
+       WHERE d.id = $1 AND d.tenant_id = $2${accessFilter}`,
+      params
     );
     
     if (result.rows.length === 0) {
@@ -144,8 +190,8 @@ router.get('/:id', authenticate, async (req: Request, res: Response) => {
   }
 });
 
-// Upload document (admin only)
-router.post('/upload', authenticate, authorize('master_admin', 'tenant_admin'), upload.single('file'), async (req: Request, res: Response) => {
+// Upload document
+router.post('/upload', allowApiKey('documents:upload'), authenticate, requirePermission('documents:upload'), upload.single('file'), async (req: Request, res: Response) => {
   try {
     if (!req.file) {
       return res.status(400).json({ success: false, error: 'No file uploaded' });
@@ -190,6 +236,7 @@ router.post('/upload', authenticate, authorize('master_admin', 'tenant_admin'),
       name: req.file.originalname,
       size: req.file.size,
       collectionId,
+      apiKeyId: req.apiKey?.id,
     });
     
     // Process document asynchronously
@@ -219,7 +266,7 @@ router.post('/upload', authenticate, authorize('master_admin', 'tenant_admin'),
 });
 
 // Reprocess document
-router.post('/:id/reprocess', authenticate, authorize('master_admin', 'tenant_admin'), async (req: Request, res: Response) => {
+router.post('/:id/reprocess', authenticate, requirePermission('documents:manage'), async (req: Request, res: Response) => {
   try {
     const result = await pool.query(
       'SELECT * FROM documents WHERE id = $1 AND tenant_id = $2',
@@ -261,7 +308,7 @@ router.post('/:id/reprocess', authenticate, authorize('master_admin', 'tenant_ad
 });
 
 // Delete document
-router.delete('/:id', authenticate, authorize('master_admin', 'tenant_admin'), async (req: Request, res: Response) => {
+router.delete('/:id', authenticate, requirePermission('documents:manage'), async (req: Request, res: Response) => {
   try {
     const result = await pool.query(
       'SELECT * FROM documents WHERE id = $1 AND tenant_id = $2',
@@ -295,7 +342,7 @@ router.delete('/:id', authenticate, authorize('master_admin', 'tenant_admin'), a
 });
 
 // Get document chunks (for debugging/admin)
-router.get('/:id/chunks', authenticate, authorize('master_admin', 'tenant_admin'), async (req: Request, res: Response) => {
+router.get('/:id/chunks', authenticate, requirePermission('documents:manage'), async (req: Request, res: Response) => {
   try {
     const docResult = await pool.query(
       'SELECT id FROM documents WHERE id = $1 AND tenant_id = $2',
@@ -307,7 +354,8 @@ router.get('/:id/chunks', authenticate, authorize('master_admin', 'tenant_admin'
     }
     
     const chunksResult = await pool.query(
-      'SELECT id, chunk_index, chunk_text, created_at FROM embeddings WHERE document_id = $1 ORDER BY chunk_index',
+      `SELECT id, chunk_index, chunk_text, quarantined_at, quarantine_reason, created_at
+       FROM embeddings WHERE document_id = $1 ORDER BY chunk_index`,
       [req.params.id]
     );
     
@@ -317,6 +365,8 @@ router.get('/:id/chunks', authenticate, authorize('master_admin', 'tenant_admin'
         id: c.id,
         index: c.chunk_index,
         text: c.chunk_text,
+        quarantinedAt: c.quarantined_at,
+        quarantineReason: c.quarantine_reason,
         createdAt: c.created_at,
       })),
     });
@@ -326,4 +376,32 @@ router.get('/:id/chunks', authenticate, authorize('master_admin', 'tenant_admin'
   }
 });
 
+// Release a quarantined chunk back into retrieval
+router.post('/:id/chunks/:chunkId/release', authenticate, requirePermission('documents:manage'), async (req: Request, res: Response) => {
+  try {
+    const result = await pool.query(
+      `UPDATE embeddings e SET quarantined_at = NULL, quarantine_reason = NULL
+       FROM documents d
+       WHERE e.document_id = d.id AND e.id = $1 AND e.document_id = $2 AND d.tenant_id = $3
+         AND e.quarantined_at IS NOT NULL
+       RETURNING e.chunk_index, d.name`,
+      [req.params.chunkId, req.params.id, req.tenantId]
+    );
+    
+    if (result.rows.length === 0) {
+      return res.status(404).json({ success: false, error: 'Quarantined chunk not found' });
+    }
+    
+    await logAdminAction(req, 'release_chunk', 'document', req.params.id, {
+      name: result.rows[0].name,
+      chunkIndex: result.rows[0].chunk_index,
+    });
+    
+    res.json({ success: true, message: 'Chunk released successfully' });
+  } catch (error) {
+    console.error('Release chunk error:', error);
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
 export default router;
@@ -0,0 +1,276 @@
+import { Router, Request, Response } from 'express';
+import { v4 as uuidv4 } from 'uuid';
+import { pool } from '../db/index.js';
+import { authenticate, requirePermission } from '../middleware/auth.js';
+import { groupSchema, groupMembersSchema } from '../utils/index.js';
+import { logAdminAction } from '../services/logging.js';
+
+const router = Router();
+
+// Get all groups with member counts
+router.get('/', authenticate, requirePermission('users:read'), async (req: Request, res: Response) => {
+  try {
+    const result = await pool.query(
+      `SELECT g.*, (SELECT COUNT(*) FROM user_group_members gm WHERE gm.group_id = g.id) as member_count
+       FROM user_groups g
+       WHERE g.tenant_id = $1
+       ORDER BY g.name`,
+      [req.tenantId]
+    );
+    
+    res.json({
+      success: true,
+      data: result.rows.map(g => ({
+        id: g.id,
+        name: g.name,
+        description: g.description,
+        memberCount: parseInt(g.member_count),
+        createdAt: g.created_at,
+        updatedAt: g.updated_at,
+      })),
+    });
+  } catch (error) {
+    console.error('Get groups error:', error);
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+// Get single group with its members
+router.get('/:groupId', authenticate, requirePermission('users:read'), async (req: Request, res: Response) => {
+  try {
+    const groupResult = await pool.query(
+      'SELECT * FROM user_groups WHERE id = $1 AND tenant_id = $2',
+      [req.params.groupId, req.tenantId]
+    );
+    
+    if (groupResult.rows.length === 0) {
+      return res.status(404).json({ success: false, error: 'Group not found' });
+    }
+    
+    const membersResult = await pool.query(
+      `SELECT u.id, u.email, u.role, u.is_active, gm.created_at as added_at
+       FROM user_group_members gm
+       JOIN users u ON gm.user_id = u.id
+       WHERE gm.group_id = $1
+       ORDER BY u.email`,
+      [req.params.groupId]
+    );
+    
+    const g = groupResult.rows[0];
+    res.json({
+      success: true,
+      data: {
+        id: g.id,
+        name: g.name,
+        description: g.description,
+        createdAt: g.created_at,
+        updatedAt: g.updated_at,
+        members: membersResult.rows.map(m => ({
+          id: m.id,
+          email: m.email,
+          role: m.role,
+          isActive: m.is_active,
+          addedAt: m.added_at,
+        })),
+      },
+    });
+  } catch (error) {
+    console.error('Get group error:', error);
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+// Create group
+router.post('/', authenticate, requirePermission('users:manage'), async (req: Request, res: Response) => {
+  try {
+    const validation = groupSchema.safeParse(req.body);
+    if (!validation.success) {
+      return res.status(400).json({ success: false, error: validation.error.errors[0].message });
+    }
+    
+    const data = validation.data;
+    
+    const existing = await pool.query('SELECT id FROM user_groups WHERE tenant_id = $1 AND name = $2', [req.tenantId, data.name]);
+    if (existing.rows.length > 0) {
+      return res.status(400).json({ success: false, error: 'A group with this name already exists' });
+    }
+    
+    const groupId = uuidv4();
+    
+    await pool.query(
+      `INSERT INTO user_groups (id, tenant_id, name, description, created_by)
+       VALUES ($1, $2, $3, $4, $5)`,
+      [groupId, req.tenantId, data.name, data.description || null, req.user!.userId]
+    );
+    
+    await logAdminAction(req, 'create_group', 'group', groupId, data);
+    
+    res.status(201).json({
+      success: true,
+      data: { id: groupId, name: data.name },
+    });
+  } catch (error) {
+    console.error('Create group error:', error);
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+// Update group
+router.put('/:groupId', authenticate, requirePermission('users:manage'), async (req: Request, res: Response) => {
+  try {
+    const validation = groupSchema.partial().safeParse(req.body);
+    if (!validation.success) {
+      return res.status(400).json({ success: false, error: validation.error.errors[0].message });
+    }
+    
+    const data = validation.data;
+    
+    if (data.name !== undefined) {
+      const existing = await pool.query(
+        'SELECT id FROM user_groups WHERE tenant_id = $1 AND name = $2 AND id <> $3',
+        [req.tenantId, data.name, req.params.groupId]
+      );
+      if (existing.rows.length > 0) {
+        return res.status(400).json({ success: false, error: 'A group with this name already exists' });
+      }
+    }
+    
+    const updates: string[] = [];
+    const values: any[] = [];
+    let paramIndex = 1;
+    
+    if (data.name !== undefined) { updates.push(`name = $${paramIndex++}`); values.push(data.name); }
+    if (data.description !== undefined) { updates.push(`description = $${paramIndex++}`); values.push(data.description); }
+    
+    updates.push(`updated_at = NOW()`);
+    
+    values.push(req.params.groupId, req.tenantId);
+    
+    const result = await pool.query(
+      `UPDATE user_groups SET ${updates.join(', ')} WHERE id = $${paramIndex++} AND tenant_id = $${paramIndex} RETURNING id`,
+      values
+    );
+    
+    if (result.rows.length === 0) {
+      return res.status(404).json({ success: false, error: 'Group not found' });
+    }
+    
+    await logAdminAction(req, 'update_group', 'group', req.params.groupId, data);
+    
+    res.json({ success: true, message: 'Group updated successfully' });
+  } catch (error) {
+    console.error('Update group error:', error);
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+// Delete group, along with the access grants and budgets that referred to it
+router.delete('/:groupId', authenticate, requirePermission('users:manage'), async (req: Request, res: Response) => {
+  try {
+    const result = await pool.query(
+      'DELETE FROM user_groups WHERE id = $1 AND tenant_id = $2 RETURNING name',
+      [req.params.groupId, req.tenantId]
+    );
+    
+    if (result.rows.length === 0) {
+      return res.status(404).json({ success: false, error: 'Group not found' });
+    }
+    
+    await pool.query("DELETE FROM agent_access WHERE subject_type = 'group' AND subject_id = $1", [req.params.groupId]);
+    await pool.query("DELETE FROM collection_access WHERE subject_type = 'group' AND subject_id = $1", [req.params.groupId]);
+    const budgets = await pool.query(
+      "DELETE FROM budgets WHERE tenant_id = $1 AND scope = 'group' AND subject_id = $2",
+      [req.tenantId, req.params.groupId]
+    );
+    
+    await logAdminAction(req, 'delete_group', 'group', req.params.groupId, {
+      name: result.rows[0].name,
+      deletedBudgets: budgets.rowCount,
+    });
+    
+    res.json({ success: true, message: 'Group deleted successfully' });
+  } catch (error) {
+    console.error('Delete group error:', error);
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+// Add members
+router.post('/:groupId/members', authenticate, requirePermission('users:manage'), async (req: Request, res: Response) => {
+  try {
+    const validation = groupMembersSchema.safeParse(req.body);
+    if (!validation.success) {
+      return res.status(400).json({ success: false, error: validation.error.errors[0].message });
+    }
+    
+    const userIds = [...new Set(validation.data.user_ids)];
+    
+    const groupResult = await pool.query(
+      'SELECT name FROM user_groups WHERE id = $1 AND tenant_id = $2',
+      [req.params.groupId, req.tenantId]
+    );
+    
+    if (groupResult.rows.length === 0) {
+      return res.status(404).json({ success: false, error: 'Group not found' });
+    }
+    
+    const usersResult = await pool.query(
+      'SELECT id FROM users WHERE id = ANY($1) AND tenant_id = $2',
+      [userIds, req.tenantId]
+    );
+    if (usersResult.rows.length !== userIds.length) {
+      return res.status(404).json({ success: false, error: 'User not found' });
+    }
+    
+    const added: string[] = [];
+    for (const userId of userIds) {
+      const inserted = await pool.query(
+        `INSERT INTO user_group_members (group_id, user_id, added_by)
+         VALUES ($1, $2, $3) ON CONFLICT DO NOTHING`,
+        [req.params.groupId, userId, req.user!.userId]
+      );
+      if (inserted.rowCount) {
+        added.push(userId);
+      }
+    }
+    
+    await logAdminAction(req, 'add_group_members', 'group', req.params.groupId, {
+      name: groupResult.rows[0].name,
+      userIds: added,
+    });
+    
+    res.json({ success: true, message: 'Members added successfully', data: { added: added.length } });
+  } catch (error) {
+    console.error('Add group members error:', error);
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+// Remove a member
+router.delete('/:groupId/members/:userId', authenticate, requirePermission('users:manage'), async (req: Request, res: Response) => {
+  try {
+    const result = await pool.query(
+      `DELETE FROM user_group_members gm
+       USING user_groups g
+       WHERE gm.group_id = g.id AND g.id = $1 AND g.tenant_id = $2 AND gm.user_id = $3
+       RETURNING g.name`,
+      [req.params.groupId, req.tenantId, req.params.userId]
+    );
+    
+    if (result.rows.length === 0) {
+      return res.status(404).json({ success: false, error: 'Member not found' });
+    }
+    
+    await logAdminAction(req, 'remove_group_member', 'group', req.params.groupId, {
+      name: result.rows[0].name,
+      userId: req.params.userId,
+    });
+    
+    res.json({ success: true, message: 'Member removed successfully' });
+  } catch (error) {
+    console.error('Remove group member error:', error);
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+export default router;
@@ -0,0 +1,132 @@
+import { Router, Request, Response } from 'express';
+import { v4 as uuidv4 } from 'uuid';
+import { pool } from '../db/index.js';
+import { authenticate, requirePermission } from '../middleware/auth.js';
+import { invitationSchema, generateToken, hashToken } from '../utils/index.js';
+import { logAdminAction } from '../services/logging.js';
+
+const router = Router();
+
+function invitationStatus(i: any): string {
+  if (i.revoked_at) return 'revoked';
+  if (i.use_count >= i.max_uses) return 'used';
+  if (new Date(i.expires_at) <= new Date()) return 'expired';
+  return 'active';
+}
+
+// Get all invitations for the tenant
+router.get('/', authenticate, requirePermission('invitations:manage'), async (req: Request, res: Response) => {
+  try {
+    const { status } = req.query;
+    
+    const result = await pool.query(
+      `SELECT i.*, u.email as created_by_email
+       FROM invitations i
+       LEFT JOIN users u ON i.created_by = u.id
+       WHERE i.tenant_id = $1
+       ORDER BY i.created_at DESC`,
+      [req.tenantId]
+    );
+    
+    const data = result.rows
+      .map(i => ({
+        id: i.id,
+        email: i.email,
+        role: i.role,
+        autoApprove: i.auto_approve,
+        maxUses: i.max_uses,
+        useCount: i.use_count,
+        status: invitationStatus(i),
+        expiresAt: i.expires_at,
+        revokedAt: i.revoked_at,
+        createdBy: i.created_by_email,
+        createdAt: i.created_at,
+      }))
+      .filter(i => !status || i.status === status);
+    
+    res.json({ success: true, data });
+  } catch (error) {
+    console.error('Get invitations error:', error);
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+// Create invitation (the token is only returned once)
+router.post('/', authenticate, requirePermission('invitations:manage'), async (req: Request, res: Response) => {
+  try {
+    const validation = invitationSchema.safeParse(req.body);
+    if (!validation.success) {
+      return res.status(400).json({ success: false, error: validation.error.errors[0].message });
+    }
+    
+    const data = validation.data;
+    
+    // Only master admins can invite other admins
+    if (req.user!.role !== 'master_admin' && data.role !== 'user') {
+      return res.status(403).json({ success: false, error: 'Only master admins can invite admin users' });
+    }
+    
+    if (data.email) {
+      const existing = await pool.query('SELECT id FROM users WHERE email = $1', [data.email]);
+      if (existing.rows.length > 0) {
+        return res.status(400).json({ success: false, error: 'Email already registered' });
+      }
+    }
+    
+    const invitationId = uuidv4();
+    const token = generateToken();
+    const expiresAt = new Date(Date.now() + data.expires_in_hours * 60 * 60 * 1000);
+    
+    await pool.query(
+      `INSERT INTO invitations (id, tenant_id, token_hash, email, role, auto_approve, max_uses, expires_at, created_by)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)`,
+      [
+        invitationId, req.tenantId, hashToken(token), data.email || null, data.role,
+        data.auto_approve, data.max_uses, expiresAt, req.user!.userId
+      ]
+    );
+    
+    await logAdminAction(req, 'create_invitation', 'invitation', invitationId, data);
+    
+    res.status(201).json({
+      success: true,
+      data: {
+        id: invitationId,
+        token,
+        email: data.email,
+        role: data.role,
+        autoApprove: data.auto_approve,
+        maxUses: data.max_uses,
+        expiresAt,
+      },
+    });
+  } catch (error) {
+    console.error('Create invitation error:', error);
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+// Revoke invitation
+router.post('/:id/revoke', authenticate, requirePermission('invitations:manage'), async (req: Request, res: Response) => {
+  try {
+    const result = await pool.query(
+      `UPDATE invitations SET revoked_at = NOW()
+       WHERE id = $1 AND tenant_id = $2 AND revoked_at IS NULL
+       RETURNING email, role`,
+      [req.params.id, req.tenantId]
+    );
+    
+    if (result.rows.length === 0) {
+      return res.status(404).json({ success: false, error: 'Invitation not found' });
+    }
+    
+    await logAdminAction(req, 'revoke_invitation', 'invitation', req.params.id, result.rows[0]);
+    
+    res.json({ success: true, message: 'Invitation revoked successfully' });
+  } catch (error) {
+    console.error('Revoke invitation error:', error);
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+export default router;
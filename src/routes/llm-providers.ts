@@ -1,14 +1,14 @@
 import { Router, Request, Response } from 'express';
 import { v4 as uuidv4 } from 'uuid';
 import { pool } from '../db/index.js';
-import { authenticate, authorize } from '../middleware/auth.js';
+import { authenticate, requirePermission } from '../middleware/auth.js';
 import { encrypt, decrypt, llmProviderSchema } from '../utils/index.js';
 import { logAdminAction } from '../services/logging.js';
 
 const router = Router();
 
 // Get all LLM providers
-router.get('/', authenticate, authorize('master_admin', 'tenant_admin'), async (req: Request, res: Response) => {
+router.get('/', authenticate, requirePermission('providers:manage'), async (req: Request, res: Response) => {
   try {
     const result = await pool.query(
       'SELECT * FROM llm_providers WHERE tenant_id = $1 ORDER BY is_default DESC, created_at DESC',
@@ -36,7 +36,7 @@ router.get('/', authenticate, authorize('master_admin', 'tenant_admin'), async (
 });
 
 // Create LLM provider
-router.post('/', authenticate, authorize('master_admin', 'tenant_admin'), async (req: Request, res: Response) => {
+router.post('/', authenticate, requirePermission('providers:manage'), async (req: Request, res: Response) => {
   try {
     const validation = llmProviderSchema.safeParse(req.body);
     if (!validation.success) {
@@ -84,7 +84,7 @@ router.post('/', authenticate, authorize('master_admin', 'tenant_admin'), async
 });
 
 // Update LLM provider
-router.put('/:id', authenticate, authorize('master_admin', 'tenant_admin'), async (req: Request, res: Response) => {
+router.put('/:id', authenticate, requirePermission('providers:manage'), async (req: Request, res: Response) => {
   try {
     const { name, base_url, api_key, models, is_default, is_active } = req.body;
     
@@ -134,7 +134,7 @@ router.put('/:id', authenticate, authorize('master_admin', 'tenant_admin'), asyn
 });
 
 // Delete LLM provider
-router.delete('/:id', authenticate, authorize('master_admin', 'tenant_admin'), async (req: Request, res: Response) => {
+router.delete('/:id', authenticate, requirePermission('providers:manage'), async (req: Request, res: Response) => {
   try {
     const result = await pool.query(
       'DELETE FROM llm_providers WHERE id = $1 AND tenant_id = $2 RETURNING name',
@@ -155,7 +155,7 @@ router.delete('/:id', authenticate, authorize('master_admin', 'tenant_admin'), a
 });
 
 // Test LLM provider connection
-router.post('/:id/test', authenticate, authorize('master_admin', 'tenant_admin'), async (req: Request, res: Response) => {
+router.post('/:id/test', authenticate, requirePermission('providers:manage'), async (req: Request, res: Response) => {
   try {
     const result = await pool.query(
       'SELECT * FROM llm_providers WHERE id = $1 AND tenant_id = $2',
@@ -1,17 +1,19 @@
 import { Router, Request, Response } from 'express';
-import { authenticate, authorize } from '../middleware/auth.js';
+import { authenticate, requirePermission } from '../middleware/auth.js';
 import { getDecisionLogs, getAdminActionLogs } from '../services/logging.js';
 
 const router = Router();
 
-// Get decision logs (admin only)
-router.get('/decisions', authenticate, authorize('master_admin', 'tenant_admin'), async (req: Request, res: Response) => {
+// Get decision logs
+router.get('/decisions', authenticate, requirePermission('logs:read'), async (req: Request, res: Response) => {
   try {
-    const { userId, agentId, decision, startDate, endDate, limit = '100', offset = '0' } = req.query;
+    const { userId, agentId, apiKeyId, agentVersionId, decision, startDate, endDate, limit = '100', offset = '0' } = req.query;
     
     const logs = await getDecisionLogs(req.tenantId!, {
       userId: userId as string,
       agentId: agentId as string,
+      apiKeyId: apiKeyId as string,
+      agentVersionId: agentVersionId as string,
       decision: decision as string,
       startDate: startDate ? new Date(startDate as string) : undefined,
       endDate: endDate ? new Date(endDate as string) : undefined,
@@ -27,6 +29,10 @@ router.get('/decisions', authenticate, authorize('master_admin', 'tenant_admin')
         userEmail: l.user_email,
         agentId: l.agent_id,
         agentName: l.agent_name,
+        apiKeyId: l.api_key_id,
+        apiKeyName: l.api_key_name,
+        agentVersionId: l.agent_version_id,
+        agentVersion: l.agent_version,
         action: l.action,
         decision: l.decision,
         reason: l.reason,
@@ -42,8 +48,8 @@ router.get('/decisions', authenticate, authorize('master_admin', 'tenant_admin')
   }
 });
 
-// Get admin action logs (admin only)
-router.get('/admin-actions', authenticate, authorize('master_admin', 'tenant_admin'), async (req: Request, res: Response) => {
+// Get admin action logs
+router.get('/admin-actions', authenticate, requirePermission('audit:read'), async (req: Request, res: Response) => {
   try {
     const { adminId, action, targetType, startDate, endDate, limit = '100', offset = '0' } = req.query;
     
@@ -79,7 +85,7 @@ router.get('/admin-actions', authenticate, authorize('master_admin', 'tenant_adm
 });
 
 // Export decision logs as JSON
-router.get('/decisions/export', authenticate, authorize('master_admin', 'tenant_admin'), async (req: Request, res: Response) => {
+router.get('/decisions/export', authenticate, requirePermission('logs:read'), async (req: Request, res: Response) => {
   try {
     const { startDate, endDate } = req.query;
     
@@ -100,6 +106,10 @@ router.get('/decisions/export', authenticate, authorize('master_admin', 'tenant_
         userEmail: l.user_email,
         agentId: l.agent_id,
         agentName: l.agent_name,
+        apiKeyId: l.api_key_id,
+        apiKeyName: l.api_key_name,
+        agentVersionId: l.agent_version_id,
+        agentVersion: l.agent_version,
         action: l.action,
         decision: l.decision,
         reason: l.reason,
@@ -120,7 +130,7 @@ router.get('/decisions/export', authenticate, authorize('master_admin', 'tenant_
 });
 
 // Export admin action logs as JSON
-router.get('/admin-actions/export', authenticate, authorize('master_admin', 'tenant_admin'), async (req: Request, res: Response) => {
+router.get('/admin-actions/export', authenticate, requirePermission('audit:read'), async (req: Request, res: Response) => {
   try {
     const { startDate, endDate } = req.query;
     
@@ -159,7 +169,7 @@ router.get('/admin-actions/export', authenticate, authorize('master_admin', 'ten
 });
 
 // Get log statistics
-router.get('/stats', authenticate, authorize('master_admin', 'tenant_admin'), async (req: Request, res: Response) => {
+router.get('/stats', authenticate, requirePermission('logs:read'), async (req: Request, res: Response) => {
   try {
     const { pool } = await import('../db/index.js');
     
@@ -0,0 +1,162 @@
+import { Router, Request, Response } from 'express';
+import { pool } from '../db/index.js';
+import { authenticate, requirePermission } from '../middleware/auth.js';
+import { policySchema } from '../utils/index.js';
+import { logAdminAction } from '../services/logging.js';
+import { createPolicyVersion, activatePolicyVersion, PolicyError } from '../services/policy.js';
+import { PolicyDocument } from '../types/index.js';
+
+const router = Router();
+
+function formatPolicy(p: any) {
+  return {
+    id: p.id,
+    agentId: p.agent_id,
+    agentName: p.agent_name,
+    version: p.version,
+    document: p.document,
+    isActive: p.is_active,
+    createdBy: p.created_by,
+    createdAt: p.created_at,
+  };
+}
+
+// List policy versions; ?agentId= for one agent, ?scope=tenant for the tenant-wide policy,
+// ?active=true for only the versions currently in force
+router.get('/', authenticate, requirePermission('policies:manage'), async (req: Request, res: Response) => {
+  try {
+    const { agentId, scope, active } = req.query;
+    
+    let query = `
+      SELECT p.*, a.name as agent_name
+      FROM policies p
+      LEFT JOIN agents a ON p.agent_id = a.id
+      WHERE p.tenant_id = $1
+    `;
+    const params: any[] = [req.tenantId];
+    
+    if (agentId) {
+      params.push(agentId);
+      query += ` AND p.agent_id = $${params.length}`;
+    } else if (scope === 'tenant') {
+      query += ' AND p.agent_id IS NULL';
+    }
+    
+    if (active === 'true') {
+      query += ' AND p.is_active = true';
+    }
+    
+    query += ' ORDER BY p.agent_id NULLS FIRST, p.version DESC';
+    
+    const result = await pool.query(query, params);
+    
+    res.json({
+      success: true,
+      data: result.rows.map(formatPolicy),
+    });
+  } catch (error) {
+    console.error('Get policies error:', error);
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+// Get one policy version
+router.get('/:id', authenticate, requirePermission('policies:manage'), async (req: Request, res: Response) => {
+  try {
+    const result = await pool.query(
+      `SELECT p.*, a.name as agent_name
+       FROM policies p
+       LEFT JOIN agents a ON p.agent_id = a.id
+       WHERE p.id = $1 AND p.tenant_id = $2`,
+      [req.params.id, req.tenantId]
+    );
+    
+    if (result.rows.length === 0) {
+      return res.status(404).json({ success: false, error: 'Policy not found' });
+    }
+    
+    res.json({ success: true, data: formatPolicy(result.rows[0]) });
+  } catch (error) {
+    console.error('Get policy error:', error);
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+// Publish a new version of the tenant-wide (agent_id null) or an agent's policy; it becomes active
+router.post('/', authenticate, requirePermission('policies:manage'), async (req: Request, res: Response) => {
+  try {
+    const validation = policySchema.safeParse(req.body);
+    if (!validation.success) {
+      return res.status(400).json({ success: false, error: validation.error.errors[0].message });
+    }
+    
+    const data = validation.data;
+    
+    const policy = await createPolicyVersion(
+      req.tenantId!,
+      data.agent_id,
+      data.document as PolicyDocument,
+      req.user!.userId
+    );
+    
+    await logAdminAction(req, 'create_policy_version', 'policy', policy.id, {
+      agentId: data.agent_id,
+      version: policy.version,
+      rules: data.document.rules.length,
+    });
+    
+    res.status(201).json({ success: true, data: formatPolicy(policy) });
+  } catch (error) {
+    if (error instanceof PolicyError) {
+      return res.status(error.status).json({ success: false, error: error.message });
+    }
+    console.error('Create policy error:', error);
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+// Make an earlier (or later) version the active one
+router.post('/:id/activate', authenticate, requirePermission('policies:manage'), async (req: Request, res: Response) => {
+  try {
+    const policy = await activatePolicyVersion(req.params.id, req.tenantId!);
+    
+    await logAdminAction(req, 'activate_policy_version', 'policy', policy.id, {
+      agentId: policy.agent_id,
+      version: policy.version,
+    });
+    
+    res.json({ success: true, message: 'Policy version activated successfully' });
+  } catch (error) {
+    if (error instanceof PolicyError) {
+      return res.status(error.status).json({ success: false, error: error.message });
+    }
+    console.error('Activate policy error:', error);
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+// Stop enforcing a policy without publishing a replacement
+router.post('/:id/deactivate', authenticate, requirePermission('policies:manage'), async (req: Request, res: Response) => {
+  try {
+    const result = await pool.query(
+      'UPDATE policies SET is_active = false WHERE id = $1 AND tenant_id = $2 AND is_active = true RETURNING agent_id, version',
+      [req.params.id, req.tenantId]
+    );
+    
+    if (result.rows.length === 0) {
+      return res.status(404).json({ success: false, error: 'Active policy not found' });
+    }
+    
+    await logAdminAction(req, 'deactivate_policy', 'policy', req.params.id, {
+      agentId: result.rows[0].agent_id,
+      version: result.rows[0].version,
+    });
+    
+    res.json({ success: true, message: 'Policy deactivated successfully' });
+  } catch (error) {
+    console.error('Deactivate policy error:', error);
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+export default router;
@@ -0,0 +1,208 @@
+import { Router, Request, Response } from 'express';
+import { v4 as uuidv4 } from 'uuid';
+import { pool } from '../db/index.js';
+import { authenticate, requirePermission } from '../middleware/auth.js';
+import { modelPricingSchema } from '../utils/index.js';
+import { logAdminAction } from '../services/logging.js';
+import { DEFAULT_MODEL_PRICING } from '../services/pricing.js';
+
+const router = Router();
+
+// Get pricing catalog (tenant entries plus built-in defaults)
+router.get('/', authenticate, requirePermission('pricing:manage'), async (req: Request, res: Response) => {
+  try {
+    const result = await pool.query(
+      'SELECT * FROM model_pricing WHERE tenant_id = $1 ORDER BY provider, model',
+      [req.tenantId]
+    );
+    
+    res.json({
+      success: true,
+      data: {
+        entries: result.rows.map(p => ({
+          id: p.id,
+          provider: p.provider,
+          model: p.model,
+          inputCostPerMillion: p.input_cost_per_million,
+          outputCostPerMillion: p.output_cost_per_million,
+          isActive: p.is_active,
+          createdAt: p.created_at,
+          updatedAt: p.updated_at,
+        })),
+        defaults: Object.entries(DEFAULT_MODEL_PRICING).map(([model, rates]) => ({
+          model,
+          inputCostPerMillion: rates.input_cost_per_million,
+          outputCostPerMillion: rates.output_cost_per_million,
+        })),
+      },
+    });
+  } catch (error) {
+    console.error('Get pricing error:', error);
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+// Create pricing entry
+router.post('/', authenticate, requirePermission('pricing:manage'), async (req: Request, res: Response) => {
+  try {
+    const validation = modelPricingSchema.safeParse(req.body);
+    if (!validation.success) {
+      return res.status(400).json({ success: false, error: validation.error.errors[0].message });
+    }
+    
+    const data = validation.data;
+    
+    const existing = await pool.query(
+      'SELECT id FROM model_pricing WHERE tenant_id = $1 AND provider = $2 AND model = $3',
+      [req.tenantId, data.provider, data.model]
+    );
+    if (existing.rows.length > 0) {
+      return res.status(400).json({ success: false, error: 'Pricing for this provider and model already exists' });
+    }
+    
+    const pricingId = uuidv4();
+    
+    await pool.query(
+      `INSERT INTO model_pricing (id, tenant_id, provider, model, input_cost_per_million, output_cost_per_million, is_active)
+       VALUES ($1, $2, $3, $4, $5, $6, $7)`,
+      [
+        pricingId, req.tenantId, data.provider, data.model,
+        data.input_cost_per_million, data.output_cost_per_million, data.is_active
+      ]
+    );
+    
+    await logAdminAction(req, 'create_model_pricing', 'model_pricing', pricingId, data);
+    
+    res.status(201).json({
+      success: true,
+      data: { id: pricingId, provider: data.provider, model: data.model },
+    });
+  } catch (error) {
+    console.error('Create pricing error:', error);
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+// Update pricing entry
+router.put('/:id', authenticate, requirePermission('pricing:manage'), async (req: Request, res: Response) => {
+  try {
+    const validation = modelPricingSchema.partial().safeParse(req.body);
+    if (!validation.success) {
+      return res.status(400).json({ success: false, error: validation.error.errors[0].message });
+    }
+    
+    const data = validation.data;
+    
+    const updates: string[] = [];
+    const values: any[] = [];
+    let paramIndex = 1;
+    
+    if (data.provider !== undefined) { updates.push(`provider = $${paramIndex++}`); values.push(data.provider); }
+    if (data.model !== undefined) { updates.push(`model = $${paramIndex++}`); values.push(data.model); }
+    if (data.input_cost_per_million !== undefined) { updates.push(`input_cost_per_million = $${paramIndex++}`); values.push(data.input_cost_per_million); }
+    if (data.output_cost_per_million !== undefined) { updates.push(`output_cost_per_million = $${paramIndex++}`); values.push(data.output_cost_per_million); }
+    if (data.is_active !== undefined) { updates.push(`is_active = $${paramIndex++}`); values.push(data.is_active); }
+    
+    updates.push(`updated_at = NOW()`);
+    
+    values.push(req.params.id, req.tenantId);
+    
+    const result = await pool.query(
+      `UPDATE model_pricing SET ${updates.join(', ')} WHERE id = $${paramIndex++} AND tenant_id = $${paramIndex} RETURNING *`,
+      values
+    );
+    
+    if (result.rows.length === 0) {
+      return res.status(404).json({ success: false, error: 'Pricing entry not found' });
+    }
+    
+    await logAdminAction(req, 'update_model_pricing', 'model_pricing', req.params.id, data);
+    
+    res.json({ success: true, message: 'Pricing updated successfully' });
+  } catch (error) {
+    console.error('Update pricing error:', error);
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+// Delete pricing entry (model falls back to built-in defaults)
+router.delete('/:id', authenticate, requirePermission('pricing:manage'), async (req: Request, res: Response) => {
+  try {
+    const result = await pool.query(
+      'DELETE FROM model_pricing WHERE id = $1 AND tenant_id = $2 RETURNING provider, model',
+      [req.params.id, req.tenantId]
+    );
+    
+    if (result.rows.length === 0) {
+      return res.status(404).json({ success: false, error: 'Pricing entry not found' });
+    }
+    
+    await logAdminAction(req, 'delete_model_pricing', 'model_pricing', req.params.id, result.rows[0]);
+    
+    res.json({ success: true, message: 'Pricing deleted successfully' });
+  } catch (error) {
+    console.error('Delete pricing error:', error);
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+// Get spend report from recorded usage
+router.get('/usage', authenticate, requirePermission('usage:read'), async (req: Request, res: Response) => {
+  try {
+    const { agentId, startDate, endDate } = req.query;
+    
+    let query = `
+      SELECT ue.agent_id, a.name as agent_name, ue.operation, ue.provider, ue.model,
+             COUNT(*) as calls,
+             SUM(ue.input_tokens) as input_tokens,
+             SUM(ue.output_tokens) as output_tokens,
+             SUM(ue.cost) as cost
+      FROM usage_events ue
+      LEFT JOIN agents a ON ue.agent_id = a.id
+      WHERE ue.tenant_id = $1
+    `;
+    const params: any[] = [req.tenantId];
+    
+    if (agentId) {
+      params.push(agentId);
+      query += ` AND ue.agent_id = $${params.length}`;
+    }
+    
+    params.push(startDate ? new Date(startDate as string) : new Date(Date.now() - 30 * 24 * 60 * 60 * 1000));
+    query += ` AND ue.created_at >= $${params.length}`;
+    
+    if (endDate) {
+      params.push(new Date(endDate as string));
+      query += ` AND ue.created_at <= $${params.length}`;
+    }
+    
+    query += ' GROUP BY ue.agent_id, a.name, ue.operation, ue.provider, ue.model ORDER BY cost DESC';
+    
+    const result = await pool.query(query, params);
+    
+    const rows = result.rows.map(r => ({
+      agentId: r.agent_id,
+      agentName: r.agent_name,
+      operation: r.operation,
+      provider: r.provider,
+      model: r.model,
+      calls: parseInt(r.calls),
+      inputTokens: parseInt(r.input_tokens),
+      outputTokens: parseInt(r.output_tokens),
+      cost: parseFloat(r.cost),
+    }));
+    
+    res.json({
+      success: true,
+      data: {
+        totalCost: rows.reduce((sum, r) => sum + r.cost, 0),
+        breakdown: rows,
+      },
+    });
+  } catch (error) {
+    console.error('Get usage error:', error);
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+export default router;
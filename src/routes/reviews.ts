@@ -0,0 +1,143 @@
+import { Router, Request, Response } from 'express';
+import { pool } from '../db/index.js';
+import { authenticate, requirePermission } from '../middleware/auth.js';
+import { reviewApproveSchema, reviewRejectSchema } from '../utils/index.js';
+import { logAdminAction } from '../services/logging.js';
+import { approveReview, rejectReview, ReviewError } from '../services/reviews.js';
+
+const router = Router();
+
+const REVIEW_QUERY = `
+  SELECT r.*, a.name as agent_name, u.email as user_email, rv.email as reviewer_email
+  FROM review_items r
+  JOIN agents a ON r.agent_id = a.id
+  JOIN users u ON r.user_id = u.id
+  LEFT JOIN users rv ON r.reviewed_by = rv.id
+`;
+
+function formatReview(r: any) {
+  return {
+    id: r.id,
+    agentId: r.agent_id,
+    agentName: r.agent_name,
+    userId: r.user_id,
+    userEmail: r.user_email,
+    conversationId: r.conversation_id,
+    messageId: r.message_id,
+    message: r.message,
+    draftResponse: r.draft_response,
+    reason: r.reason,
+    evidence: r.evidence,
+    findings: r.findings,
+    status: r.status,
+    finalResponse: r.final_response,
+    edited: r.edited,
+    reviewNote: r.review_note,
+    reviewedBy: r.reviewed_by,
+    reviewerEmail: r.reviewer_email,
+    reviewedAt: r.reviewed_at,
+    createdAt: r.created_at,
+  };
+}
+
+// List the review queue; ?status= defaults to pending, ?agentId= narrows to one agent
+router.get('/', authenticate, requirePermission('reviews:manage'), async (req: Request, res: Response) => {
+  try {
+    const { status = 'pending', agentId, limit = '100', offset = '0' } = req.query;
+    
+    let query = `${REVIEW_QUERY} WHERE r.tenant_id = $1`;
+    const params: any[] = [req.tenantId];
+    
+    if (status !== 'all') {
+      params.push(status);
+      query += ` AND r.status = $${params.length}`;
+    }
+    
+    if (agentId) {
+      params.push(agentId);
+      query += ` AND r.agent_id = $${params.length}`;
+    }
+    
+    params.push(parseInt(limit as string), parseInt(offset as string));
+    query += ` ORDER BY r.created_at ASC LIMIT $${params.length - 1} OFFSET $${params.length}`;
+    
+    const result = await pool.query(query, params);
+    
+    res.json({
+      success: true,
+      data: result.rows.map(formatReview),
+    });
+  } catch (error) {
+    console.error('Get reviews error:', error);
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+// Get one review item
+router.get('/:id', authenticate, requirePermission('reviews:manage'), async (req: Request, res: Response) => {
+  try {
+    const result = await pool.query(`${REVIEW_QUERY} WHERE r.id = $1 AND r.tenant_id = $2`, [req.params.id, req.tenantId]);
+    
+    if (result.rows.length === 0) {
+      return res.status(404).json({ success: false, error: 'Review item not found' });
+    }
+    
+    res.json({ success: true, data: formatReview(result.rows[0]) });
+  } catch (error) {
+    console.error('Get review error:', error);
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+// Approve the draft, optionally replacing it with an edited answer
+router.post('/:id/approve', authenticate, requirePermission('reviews:manage'), async (req: Request, res: Response) => {
+  try {
+    const validation = reviewApproveSchema.safeParse(req.body);
+    if (!validation.success) {
+      return res.status(400).json({ success: false, error: validation.error.errors[0].message });
+    }
+    
+    const item = await approveReview(req.params.id, req.tenantId!, req.user!.userId, validation.data);
+    
+    await logAdminAction(req, 'approve_review', 'review_item', item.id, {
+      agentId: item.agent_id,
+      edited: item.edited,
+      note: item.review_note,
+    });
+    
+    res.json({ success: true, message: item.edited ? 'Edited answer approved and delivered' : 'Answer approved and delivered' });
+  } catch (error) {
+    if (error instanceof ReviewError) {
+      return res.status(error.status).json({ success: false, error: error.message });
+    }
+    console.error('Approve review error:', error);
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+// Reject the draft; the user's conversation gets a notice instead
+router.post('/:id/reject', authenticate, requirePermission('reviews:manage'), async (req: Request, res: Response) => {
+  try {
+    const validation = reviewRejectSchema.safeParse(req.body);
+    if (!validation.success) {
+      return res.status(400).json({ success: false, error: validation.error.errors[0].message });
+    }
+    
+    const item = await rejectReview(req.params.id, req.tenantId!, req.user!.userId, validation.data.note);
+    
+    await logAdminAction(req, 'reject_review', 'review_item', item.id, {
+      agentId: item.agent_id,
+      note: item.review_note,
+    });
+    
+    res.json({ success: true, message: 'Answer rejected' });
+  } catch (error) {
+    if (error instanceof ReviewError) {
+      return res.status(error.status).json({ success: false, error: error.message });
+    }
+    console.error('Reject review error:', error);
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+export default router;
@@ -0,0 +1,211 @@
+import { Router, Request, Response } from 'express';
+import { v4 as uuidv4 } from 'uuid';
+import { pool } from '../db/index.js';
+import { authenticate, requirePermission } from '../middleware/auth.js';
+import { roleSchema } from '../utils/index.js';
+import { logAdminAction } from '../services/logging.js';
+import { BUILTIN_ROLES, NON_GRANTABLE_PERMISSIONS, PERMISSION_CATALOG, validateRolePermissions } from '../services/permissions.js';
+import { Permission } from '../types/index.js';
+
+const router = Router();
+
+function formatRole(r: any) {
+  return {
+    id: r.id,
+    name: r.name,
+    description: r.description,
+    permissions: r.permissions,
+    isBuiltin: r.is_builtin,
+    userCount: parseInt(r.user_count),
+    createdAt: r.created_at,
+    updatedAt: r.updated_at,
+  };
+}
+
+// Get the permission catalog
+router.get('/permissions', authenticate, requirePermission('roles:manage'), async (req: Request, res: Response) => {
+  res.json({
+    success: true,
+    data: Object.entries(PERMISSION_CATALOG).map(([key, description]) => ({
+      key,
+      description,
+      grantable: !NON_GRANTABLE_PERMISSIONS.includes(key as Permission),
+    })),
+  });
+});
+
+// Get built-in roles and the tenant's custom roles
+router.get('/', authenticate, requirePermission('roles:manage'), async (req: Request, res: Response) => {
+  try {
+    const result = await pool.query(
+      `SELECT r.*,
+              (SELECT COUNT(*) FROM users u
+               WHERE u.tenant_id = $1 AND ((r.is_builtin AND u.role = r.name) OR u.custom_role_id = r.id)) as user_count
+       FROM roles r
+       WHERE r.tenant_id IS NULL OR r.tenant_id = $1
+       ORDER BY r.is_builtin DESC, r.name`,
+      [req.tenantId]
+    );
+    
+    res.json({ success: true, data: result.rows.map(formatRole) });
+  } catch (error) {
+    console.error('Get roles error:', error);
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+// Create custom role
+router.post('/', authenticate, requirePermission('roles:manage'), async (req: Request, res: Response) => {
+  try {
+    const validation = roleSchema.safeParse(req.body);
+    if (!validation.success) {
+      return res.status(400).json({ success: false, error: validation.error.errors[0].message });
+    }
+    
+    const data = validation.data;
+    const permissions = [...new Set(data.permissions)];
+    
+    const invalid = validateRolePermissions(permissions, req.permissions!);
+    if (invalid) {
+      return res.status(400).json({ success: false, error: invalid });
+    }
+    
+    if (data.name in BUILTIN_ROLES) {
+      return res.status(400).json({ success: false, error: 'Name is reserved for a built-in role' });
+    }
+    
+    const existing = await pool.query('SELECT id FROM roles WHERE tenant_id = $1 AND name = $2', [req.tenantId, data.name]);
+    if (existing.rows.length > 0) {
+      return res.status(400).json({ success: false, error: 'A role with this name already exists' });
+    }
+    
+    const roleId = uuidv4();
+    
+    await pool.query(
+      `INSERT INTO roles (id, tenant_id, name, description, permissions, is_builtin, created_by)
+       VALUES ($1, $2, $3, $4, $5, false, $6)`,
+      [roleId, req.tenantId, data.name, data.description || null, JSON.stringify(permissions), req.user!.userId]
+    );
+    
+    await logAdminAction(req, 'create_role', 'role', roleId, { name: data.name, permissions });
+    
+    res.status(201).json({
+      success: true,
+      data: { id: roleId, name: data.name, permissions },
+    });
+  } catch (error) {
+    console.error('Create role error:', error);
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+// Update custom role (built-in roles are read-only)
+router.put('/:id', authenticate, requirePermission('roles:manage'), async (req: Request, res: Response) => {
+  try {
+    const validation = roleSchema.partial().safeParse(req.body);
+    if (!validation.success) {
+      return res.status(400).json({ success: false, error: validation.error.errors[0].message });
+    }
+    
+    const data = validation.data;
+    
+    const current = await pool.query(
+      'SELECT * FROM roles WHERE id = $1 AND tenant_id = $2',
+      [req.params.id, req.tenantId]
+    );
+    
+    if (current.rows.length === 0) {
+      return res.status(404).json({ success: false, error: 'Role not found' });
+    }
+    
+    // Editing a role can't be used to take away or hand out permissions the editor lacks
+    const invalid = validateRolePermissions(current.rows[0].permissions, req.permissions!);
+    if (invalid) {
+      return res.status(403).json({ success: false, error: invalid });
+    }
+    
+    const updates: string[] = [];
+    const values: any[] = [];
+    let paramIndex = 1;
+    
+    if (data.name !== undefined) {
+      if (data.name in BUILTIN_ROLES) {
+        return res.status(400).json({ success: false, error: 'Name is reserved for a built-in role' });
+      }
+      const existing = await pool.query(
+        'SELECT id FROM roles WHERE tenant_id = $1 AND name = $2 AND id <> $3',
+        [req.tenantId, data.name, req.params.id]
+      );
+      if (existing.rows.length > 0) {
+        return res.status(400).json({ success: false, error: 'A role with this name already exists' });
+      }
+      updates.push(`name = $${paramIndex++}`);
+      values.push(data.name);
+    }
+    
+    if (data.description !== undefined) { updates.push(`description = $${paramIndex++}`); values.push(data.description); }
+    
+    if (data.permissions !== undefined) {
+      const permissions = [...new Set(data.permissions)];
+      const invalidNew = validateRolePermissions(permissions, req.permissions!);
+      if (invalidNew) {
+        return res.status(400).json({ success: false, error: invalidNew });
+      }
+      updates.push(`permissions = $${paramIndex++}`);
+      values.push(JSON.stringify(permissions));
+    }
+    
+    updates.push(`updated_at = NOW()`);
+    
+    values.push(req.params.id);
+    
+    await pool.query(
+      `UPDATE roles SET ${updates.join(', ')} WHERE id = $${paramIndex}`,
+      values
+    );
+    
+    await logAdminAction(req, 'update_role', 'role', req.params.id, data);
+    
+    res.json({ success: true, message: 'Role updated successfully' });
+  } catch (error) {
+    console.error('Update role error:', error);
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+// Delete custom role; users holding it fall back to their built-in role
+router.delete('/:id', authenticate, requirePermission('roles:manage'), async (req: Request, res: Response) => {
+  try {
+    const current = await pool.query(
+      'SELECT name, permissions FROM roles WHERE id = $1 AND tenant_id = $2',
+      [req.params.id, req.tenantId]
+    );
+    
+    if (current.rows.length === 0) {
+      return res.status(404).json({ success: false, error: 'Role not found' });
+    }
+    
+    const invalid = validateRolePermissions(current.rows[0].permissions, req.permissions!);
+    if (invalid) {
+      return res.status(403).json({ success: false, error: invalid });
+    }
+    
+    const cleared = await pool.query(
+      'UPDATE users SET custom_role_id = NULL, updated_at = NOW() WHERE custom_role_id = $1',
+      [req.params.id]
+    );
+    await pool.query('DELETE FROM roles WHERE id = $1', [req.params.id]);
+    
+    await logAdminAction(req, 'delete_role', 'role', req.params.id, {
+      name: current.rows[0].name,
+      unassignedUsers: cleared.rowCount,
+    });
+    
+    res.json({ success: true, message: 'Role deleted successfully' });
+  } catch (error) {
+    console.error('Delete role error:', error);
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+export default router;
@@ -0,0 +1,75 @@
+import { Router, Request, Response } from 'express';
+import { pool } from '../db/index.js';
+import { authenticate, requirePermission } from '../middleware/auth.js';
+import { securityPolicySchema } from '../utils/index.js';
+import { logAdminAction } from '../services/logging.js';
+import { DEFAULT_PASSWORD_POLICY } from '../services/passwords.js';
+import { DEFAULT_PII_POLICY } from '../services/pii.js';
+
+const router = Router();
+
+// Get the tenant's security policy
+router.get('/policy', authenticate, requirePermission('security:manage'), async (req: Request, res: Response) => {
+  try {
+    const result = await pool.query(
+      'SELECT require_admin_mfa, password_policy, pii_policy FROM tenants WHERE id = $1',
+      [req.tenantId]
+    );
+    
+    if (result.rows.length === 0) {
+      return res.status(404).json({ success: false, error: 'Tenant not found' });
+    }
+    
+    const t = result.rows[0];
+    res.json({
+      success: true,
+      data: {
+        requireAdminMfa: t.require_admin_mfa,
+        passwordPolicy: { ...DEFAULT_PASSWORD_POLICY, ...t.password_policy },
+        piiPolicy: { ...DEFAULT_PII_POLICY, ...t.pii_policy },
+      },
+    });
+  } catch (error) {
+    console.error('Get security policy error:', error);
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+// Update the tenant's security policy
+router.put('/policy', authenticate, requirePermission('security:manage'), async (req: Request, res: Response) => {
+  try {
+    const validation = securityPolicySchema.safeParse(req.body);
+    if (!validation.success) {
+      return res.status(400).json({ success: false, error: validation.error.errors[0].message });
+    }
+    
+    const data = validation.data;
+    
+    const updates: string[] = [];
+    const values: any[] = [];
+    let paramIndex = 1;
+    
+    if (data.require_admin_mfa !== undefined) { updates.push(`require_admin_mfa = $${paramIndex++}`); values.push(data.require_admin_mfa); }
+    // Merge so a partial update only touches the rules it names
+    if (data.password_policy !== undefined) { updates.push(`password_policy = password_policy || $${paramIndex++}::jsonb`); values.push(JSON.stringify(data.password_policy)); }
+    if (data.pii_policy !== undefined) { updates.push(`pii_policy = pii_policy || $${paramIndex++}::jsonb`); values.push(JSON.stringify(data.pii_policy)); }
+    
+    updates.push(`updated_at = NOW()`);
+    
+    values.push(req.tenantId);
+    
+    await pool.query(
+      `UPDATE tenants SET ${updates.join(', ')} WHERE id = $${paramIndex}`,
+      values
+    );
+    
+    await logAdminAction(req, 'update_security_policy', 'tenant', req.tenantId!, data);
+    
+    res.json({ success: true, message: 'Security policy updated successfully' });
+  } catch (error) {
+    console.error('Update security policy error:', error);
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+export default router;
@@ -0,0 +1,124 @@
+import { Router, Request, Response } from 'express';
+import { v4 as uuidv4 } from 'uuid';
+import { pool } from '../db/index.js';
+import { authenticate, requirePermission } from '../middleware/auth.js';
+import { encrypt, ssoConfigSchema } from '../utils/index.js';
+import { logAdminAction } from '../services/logging.js';
+
+const router = Router();
+
+// Get the tenant's SSO configuration
+router.get('/', authenticate, requirePermission('sso:manage'), async (req: Request, res: Response) => {
+  try {
+    const result = await pool.query('SELECT * FROM sso_providers WHERE tenant_id = $1', [req.tenantId]);
+    
+    if (result.rows.length === 0) {
+      return res.json({ success: true, data: null });
+    }
+    
+    const p = result.rows[0];
+    res.json({
+      success: true,
+      data: {
+        id: p.id,
+        issuer: p.issuer,
+        clientId: p.client_id,
+        hasClientSecret: !!p.client_secret_encrypted,
+        redirectUri: p.redirect_uri,
+        scopes: p.scopes,
+        allowedDomains: p.allowed_domains,
+        roleClaim: p.role_claim,
+        roleMapping: p.role_mapping,
+        defaultRole: p.default_role,
+        autoProvision: p.auto_provision,
+        isActive: p.is_active,
+        createdAt: p.created_at,
+        updatedAt: p.updated_at,
+      },
+    });
+  } catch (error) {
+    console.error('Get SSO config error:', error);
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+// Create or replace the tenant's SSO configuration (the client secret may be omitted to keep the current one)
+router.put('/', authenticate, requirePermission('sso:manage'), async (req: Request, res: Response) => {
+  try {
+    const validation = ssoConfigSchema.safeParse(req.body);
+    if (!validation.success) {
+      return res.status(400).json({ success: false, error: validation.error.errors[0].message });
+    }
+    
+    const data = validation.data;
+    
+    const existing = await pool.query('SELECT id, client_secret_encrypted FROM sso_providers WHERE tenant_id = $1', [req.tenantId]);
+    if (existing.rows.length === 0 && !data.client_secret) {
+      return res.status(400).json({ success: false, error: 'Client secret is required' });
+    }
+    
+    const providerId = existing.rows[0]?.id || uuidv4();
+    const clientSecretEncrypted = data.client_secret
+      ? encrypt(data.client_secret)
+      : existing.rows[0].client_secret_encrypted;
+    const allowedDomains = data.allowed_domains.map(d => d.toLowerCase().replace(/^@/, ''));
+    
+    await pool.query(
+      `INSERT INTO sso_providers (id, tenant_id, issuer, client_id, client_secret_encrypted, redirect_uri, scopes,
+                                  allowed_domains, role_claim, role_mapping, default_role, auto_provision, is_active)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13)
+       ON CONFLICT (tenant_id) DO UPDATE SET
+         issuer = EXCLUDED.issuer,
+         client_id = EXCLUDED.client_id,
+         client_secret_encrypted = EXCLUDED.client_secret_encrypted,
+         redirect_uri = EXCLUDED.redirect_uri,
+         scopes = EXCLUDED.scopes,
+         allowed_domains = EXCLUDED.allowed_domains,
+         role_claim = EXCLUDED.role_claim,
+         role_mapping = EXCLUDED.role_mapping,
+         default_role = EXCLUDED.default_role,
+         auto_provision = EXCLUDED.auto_provision,
+         is_active = EXCLUDED.is_active,
+         updated_at = NOW()`,
+      [
+        providerId, req.tenantId, data.issuer, data.client_id, clientSecretEncrypted, data.redirect_uri, data.scopes,
+        JSON.stringify(allowedDomains), data.role_claim || null, JSON.stringify(data.role_mapping),
+        data.default_role, data.auto_provision, data.is_active
+      ]
+    );
+    
+    const { client_secret, ...changes } = data;
+    await logAdminAction(req, existing.rows.length > 0 ? 'update_sso_config' : 'create_sso_config', 'sso_provider', providerId, {
+      ...changes,
+      clientSecretChanged: !!client_secret,
+    });
+    
+    res.json({ success: true, message: 'SSO configuration saved', data: { id: providerId } });
+  } catch (error) {
+    console.error('Save SSO config error:', error);
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+// Remove the tenant's SSO configuration
+router.delete('/', authenticate, requirePermission('sso:manage'), async (req: Request, res: Response) => {
+  try {
+    const result = await pool.query(
+      'DELETE FROM sso_providers WHERE tenant_id = $1 RETURNING id, issuer',
+      [req.tenantId]
+    );
+    
+    if (result.rows.length === 0) {
+      return res.status(404).json({ success: false, error: 'SSO configuration not found' });
+    }
+    
+    await logAdminAction(req, 'delete_sso_config', 'sso_provider', result.rows[0].id, { issuer: result.rows[0].issuer });
+    
+    res.json({ success: true, message: 'SSO configuration deleted' });
+  } catch (error) {
+    console.error('Delete SSO config error:', error);
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+export default router;
@@ -0,0 +1,276 @@
+import { Router, Request, Response } from 'express';
+import bcrypt from 'bcrypt';
+import { v4 as uuidv4 } from 'uuid';
+import { pool } from '../db/index.js';
+import { authenticate, requirePermission } from '../middleware/auth.js';
+import { tenantSchema, tenantCreateSchema } from '../utils/index.js';
+import { logAdminAction } from '../services/logging.js';
+import { DEFAULT_PASSWORD_POLICY, validatePassword } from '../services/passwords.js';
+import { DEFAULT_PII_POLICY } from '../services/pii.js';
+
+const router = Router();
+
+// Per-tenant counts and spend (month-to-date in the tenant's timezone, and all time)
+const TENANT_STATS_QUERY = `
+  SELECT t.*,
+         (SELECT COUNT(*) FROM users u WHERE u.tenant_id = t.id) as user_count,
+         (SELECT COUNT(*) FROM users u WHERE u.tenant_id = t.id AND u.is_active = true) as active_user_count,
+         (SELECT COUNT(*) FROM agents a WHERE a.tenant_id = t.id AND a.is_active = true) as agent_count,
+         (SELECT COUNT(*) FROM documents d WHERE d.tenant_id = t.id) as document_count,
+         (SELECT COALESCE(SUM(ue.cost), 0) FROM usage_events ue
+          WHERE ue.tenant_id = t.id
+            AND ue.created_at::timestamptz >= date_trunc('month', NOW() AT TIME ZONE t.timezone) AT TIME ZONE t.timezone) as spend_month,
+         (SELECT COALESCE(SUM(ue.cost), 0) FROM usage_events ue WHERE ue.tenant_id = t.id) as spend_total
+  FROM tenants t
+`;
+
+function formatTenant(t: any) {
+  return {
+    id: t.id,
+    name: t.name,
+    slug: t.slug,
+    timezone: t.timezone,
+    requireAdminMfa: t.require_admin_mfa,
+    passwordPolicy: { ...DEFAULT_PASSWORD_POLICY, ...t.password_policy },
+    piiPolicy: { ...DEFAULT_PII_POLICY, ...t.pii_policy },
+    isActive: t.is_active,
+    stats: {
+      users: parseInt(t.user_count),
+      activeUsers: parseInt(t.active_user_count),
+      agents: parseInt(t.agent_count),
+      documents: parseInt(t.document_count),
+      spendMonthToDate: parseFloat(t.spend_month),
+      spendTotal: parseFloat(t.spend_total),
+    },
+    createdAt: t.created_at,
+    updatedAt: t.updated_at,
+  };
+}
+
+// Get all tenants
+router.get('/', authenticate, requirePermission('tenants:manage'), async (req: Request, res: Response) => {
+  try {
+    const { status } = req.query;
+    
+    let query = TENANT_STATS_QUERY;
+    
+    if (status === 'active') {
+      query += ' WHERE t.is_active = true';
+    } else if (status === 'inactive') {
+      query += ' WHERE t.is_active = false';
+    }
+    
+    query += ' ORDER BY t.created_at ASC';
+    
+    const result = await pool.query(query);
+    
+    res.json({
+      success: true,
+      data: result.rows.map(formatTenant),
+    });
+  } catch (error) {
+    console.error('Get tenants error:', error);
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+// Get single tenant with stats
+router.get('/:id', authenticate, requirePermission('tenants:manage'), async (req: Request, res: Response) => {
+  try {
+    const result = await pool.query(`${TENANT_STATS_QUERY} WHERE t.id = $1`, [req.params.id]);
+    
+    if (result.rows.length === 0) {
+      return res.status(404).json({ success: false, error: 'Tenant not found' });
+    }
+    
+    res.json({
+      success: true,
+      data: formatTenant(result.rows[0]),
+    });
+  } catch (error) {
+    console.error('Get tenant error:', error);
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+// Create tenant
+router.post('/', authenticate, requirePermission('tenants:manage'), async (req: Request, res: Response) => {
+  try {
+    const validation = tenantCreateSchema.safeParse(req.body);
+    if (!validation.success) {
+      return res.status(400).json({ success: false, error: validation.error.errors[0].message });
+    }
+    
+    const data = validation.data;
+    
+    const existing = await pool.query('SELECT id FROM tenants WHERE slug = $1', [data.slug]);
+    if (existing.rows.length > 0) {
+      return res.status(400).json({ success: false, error: 'Slug already in use' });
+    }
+    
+    if (data.admin) {
+      const existingUser = await pool.query('SELECT id FROM users WHERE email = $1', [data.admin.email]);
+      if (existingUser.rows.length > 0) {
+        return res.status(400).json({ success: false, error: 'Admin email already exists' });
+      }
+      
+      // A new tenant starts with the default policy
+      const policyError = validatePassword(data.admin.password, DEFAULT_PASSWORD_POLICY, data.admin.email);
+      if (policyError) {
+        return res.status(400).json({ success: false, error: policyError });
+      }
+    }
+    
+    const tenantId = uuidv4();
+    const adminId = data.admin ? uuidv4() : null;
+    const passwordHash = data.admin ? await bcrypt.hash(data.admin.password, 12) : null;
+    
+    // The tenant and its first admin are created together or not at all
+    const client = await pool.connect();
+    try {
+      await client.query('BEGIN');
+      
+      await client.query(
+        `INSERT INTO tenants (id, name, slug, timezone, is_active)
+         VALUES ($1, $2, $3, $4, true)`,
+        [tenantId, data.name, data.slug, data.timezone]
+      );
+      
+      if (data.admin) {
+        await client.query(
+          `INSERT INTO users (id, tenant_id, email, password_hash, role, is_approved, is_active)
+           VALUES ($1, $2, $3, $4, 'tenant_admin', true, true)`,
+          [adminId, tenantId, data.admin.email, passwordHash]
+        );
+      }
+      
+      await client.query('COMMIT');
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+    
+    await logAdminAction(req, 'create_tenant', 'tenant', tenantId, {
+      name: data.name,
+      slug: data.slug,
+      timezone: data.timezone,
+      adminEmail: data.admin?.email,
+    });
+    
+    res.status(201).json({
+      success: true,
+      data: { id: tenantId, name: data.name, slug: data.slug, adminId },
+    });
+  } catch (error) {
+    console.error('Create tenant error:', error);
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+// Update tenant (rename, change slug or timezone)
+router.put('/:id', authenticate, requirePermission('tenants:manage'), async (req: Request, res: Response) => {
+  try {
+    const validation = tenantSchema.partial().safeParse(req.body);
+    if (!validation.success) {
+      return res.status(400).json({ success: false, error: validation.error.errors[0].message });
+    }
+    
+    const data = validation.data;
+    
+    if (data.slug !== undefined) {
+      const existing = await pool.query('SELECT id FROM tenants WHERE slug = $1 AND id <> $2', [data.slug, req.params.id]);
+      if (existing.rows.length > 0) {
+        return res.status(400).json({ success: false, error: 'Slug already in use' });
+      }
+    }
+    
+    const updates: string[] = [];
+    const values: any[] = [];
+    let paramIndex = 1;
+    
+    if (data.name !== undefined) { updates.push(`name = $${paramIndex++}`); values.push(data.name); }
+    if (data.slug !== undefined) { updates.push(`slug = $${paramIndex++}`); values.push(data.slug); }
+    if (data.timezone !== undefined) { updates.push(`timezone = $${paramIndex++}`); values.push(data.timezone); }
+    
+    updates.push(`updated_at = NOW()`);
+    
+    values.push(req.params.id);
+    
+    const result = await pool.query(
+      `UPDATE tenants SET ${updates.join(', ')} WHERE id = $${paramIndex} RETURNING *`,
+      values
+    );
+    
+    if (result.rows.length === 0) {
+      return res.status(404).json({ success: false, error: 'Tenant not found' });
+    }
+    
+    if (data.timezone !== undefined) {
+      // A period left ahead of the new local date would keep charges off today's counter; an
+      // earlier one is archived by the next rollover as usual
+      await pool.query(
+        `UPDATE agents SET cost_period_date = (NOW() AT TIME ZONE $1)::date
+         WHERE tenant_id = $2 AND cost_period_date > (NOW() AT TIME ZONE $1)::date`,
+        [data.timezone, req.params.id]
+      );
+    }
+    
+    await logAdminAction(req, 'update_tenant', 'tenant', req.params.id, data);
+    
+    res.json({ success: true, message: 'Tenant updated successfully' });
+  } catch (error) {
+    console.error('Update tenant error:', error);
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+// Suspend tenant (locks out all of its users)
+router.post('/:id/deactivate', authenticate, requirePermission('tenants:manage'), async (req: Request, res: Response) => {
+  try {
+    // Prevent locking yourself out
+    if (req.params.id === req.tenantId) {
+      return res.status(400).json({ success: false, error: 'Cannot deactivate your own tenant' });
+    }
+    
+    const result = await pool.query(
+      'UPDATE tenants SET is_active = false, updated_at = NOW() WHERE id = $1 RETURNING name',
+      [req.params.id]
+    );
+    
+    if (result.rows.length === 0) {
+      return res.status(404).json({ success: false, error: 'Tenant not found' });
+    }
+    
+    await logAdminAction(req, 'deactivate_tenant', 'tenant', req.params.id, { name: result.rows[0].name, active: false });
+    
+    res.json({ success: true, message: 'Tenant deactivated successfully' });
+  } catch (error) {
+    console.error('Deactivate tenant error:', error);
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+// Reactivate tenant
+router.post('/:id/activate', authenticate, requirePermission('tenants:manage'), async (req: Request, res: Response) => {
+  try {
+    const result = await pool.query(
+      'UPDATE tenants SET is_active = true, updated_at = NOW() WHERE id = $1 RETURNING name',
+      [req.params.id]
+    );
+    
+    if (result.rows.length === 0) {
+      return res.status(404).json({ success: false, error: 'Tenant not found' });
+    }
+    
+    await logAdminAction(req, 'activate_tenant', 'tenant', req.params.id, { name: result.rows[0].name, active: true });
+    
+    res.json({ success: true, message: 'Tenant activated successfully' });
+  } catch (error) {
+    console.error('Activate tenant error:', error);
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+export default router;
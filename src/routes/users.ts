@@ -2,21 +2,26 @@ import { Router, Request, Response } from 'express';
 import bcrypt from 'bcrypt';
 import { v4 as uuidv4 } from 'uuid';
 import { pool } from '../db/index.js';
-import { authenticate, authorize } from '../middleware/auth.js';
+import { authenticate, requirePermission } from '../middleware/auth.js';
 import { logAdminAction } from '../services/logging.js';
+import { revokeUserSessions } from '../services/sessions.js';
+import { disableMfa } from '../services/mfa.js';
+import { checkPassword, clearFailedLogins, sendPasswordReset } from '../services/passwords.js';
+import { canManageRole, validateRolePermissions } from '../services/permissions.js';
 
 const router = Router();
 
-// Get all users (admin only)
-router.get('/', authenticate, authorize('master_admin', 'tenant_admin'), async (req: Request, res: Response) => {
+// Get all users
+router.get('/', authenticate, requirePermission('users:read'), async (req: Request, res: Response) => {
   try {
     const { status, role } = req.query;
     
     let query = `
-      SELECT u.id, u.email, u.role, u.is_approved, u.is_active, u.created_at, u.updated_at,
-             t.name as tenant_name, t.slug as tenant_slug
+      SELECT u.id, u.email, u.role, u.is_approved, u.is_active, u.mfa_enabled, u.locked_until, u.created_at, u.updated_at,
+             u.custom_role_id, r.name as custom_role_name, t.name as tenant_name, t.slug as tenant_slug
       FROM users u
       JOIN tenants t ON u.tenant_id = t.id
+      LEFT JOIN roles r ON u.custom_role_id = r.id
       WHERE u.tenant_id = $1
     `;
     const params: any[] = [req.tenantId];
@@ -44,6 +49,10 @@ router.get('/', authenticate, authorize('master_admin', 'tenant_admin'), async (
         role: u.role,
         isApproved: u.is_approved,
         isActive: u.is_active,
+        mfaEnabled: u.mfa_enabled,
+        lockedUntil: u.locked_until,
+        customRoleId: u.custom_role_id,
+        customRoleName: u.custom_role_name,
         tenantName: u.tenant_name,
         tenantSlug: u.tenant_slug,
         createdAt: u.created_at,
@@ -57,11 +66,12 @@ router.get('/', authenticate, authorize('master_admin', 'tenant_admin'), async (
 });
 
 // Get single user
-router.get('/:id', authenticate, authorize('master_admin', 'tenant_admin'), async (req: Request, res: Response) => {
+router.get('/:id', authenticate, requirePermission('users:read'), async (req: Request, res: Response) => {
   try {
     const result = await pool.query(
-      `SELECT u.*, t.name as tenant_name, t.slug as tenant_slug
+      `SELECT u.*, r.name as custom_role_name, t.name as tenant_name, t.slug as tenant_slug
        FROM users u JOIN tenants t ON u.tenant_id = t.id
+       LEFT JOIN roles r ON u.custom_role_id = r.id
        WHERE u.id = $1 AND u.tenant_id = $2`,
       [req.params.id, req.tenantId]
     );
@@ -70,6 +80,14 @@ router.get('/:id', authenticate, authorize('master_admin', 'tenant_admin'), asyn
       return res.status(404).json({ success: false, error: 'User not found' });
     }
     
+    const groupsResult = await pool.query(
+      `SELECT g.id, g.name FROM user_group_members gm
+       JOIN user_groups g ON gm.group_id = g.id
+       WHERE gm.user_id = $1
+       ORDER BY g.name`,
+      [req.params.id]
+    );
+    
     const u = result.rows[0];
     res.json({
       success: true,
@@ -79,6 +97,11 @@ router.get('/:id', authenticate, authorize('master_admin', 'tenant_admin'), asyn
         role: u.role,
         isApproved: u.is_approved,
         isActive: u.is_active,
+        mfaEnabled: u.mfa_enabled,
+        lockedUntil: u.locked_until,
+        customRoleId: u.custom_role_id,
+        customRoleName: u.custom_role_name,
+        groups: groupsResult.rows,
         tenantName: u.tenant_name,
         tenantSlug: u.tenant_slug,
         createdAt: u.created_at,
@@ -92,17 +115,26 @@ router.get('/:id', authenticate, authorize('master_admin', 'tenant_admin'), asyn
 });
 
 // Approve user
-router.post('/:id/approve', authenticate, authorize('master_admin', 'tenant_admin'), async (req: Request, res: Response) => {
+router.post('/:id/approve', authenticate, requirePermission('users:manage'), async (req: Request, res: Response) => {
   try {
-    const result = await pool.query(
-      'UPDATE users SET is_approved = true, updated_at = NOW() WHERE id = $1 AND tenant_id = $2 RETURNING *',
+    const userResult = await pool.query(
+      'SELECT role FROM users WHERE id = $1 AND tenant_id = $2',
       [req.params.id, req.tenantId]
     );
     
-    if (result.rows.length === 0) {
+    if (userResult.rows.length === 0) {
       return res.status(404).json({ success: false, error: 'User not found' });
     }
     
+    if (!canManageRole(req.user!.role, userResult.rows[0].role)) {
+      return res.status(403).json({ success: false, error: 'Insufficient permissions' });
+    }
+    
+    await pool.query(
+      'UPDATE users SET is_approved = true, updated_at = NOW() WHERE id = $1 AND tenant_id = $2',
+      [req.params.id, req.tenantId]
+    );
+    
     await logAdminAction(req, 'approve_user', 'user', req.params.id, { approved: true });
     
     res.json({ success: true, message: 'User approved successfully' });
@@ -113,13 +145,18 @@ router.post('/:id/approve', authenticate, authorize('master_admin', 'tenant_admi
 });
 
 // Reject/Deactivate user
-router.post('/:id/deactivate', authenticate, authorize('master_admin', 'tenant_admin'), async (req: Request, res: Response) => {
+router.post('/:id/deactivate', authenticate, requirePermission('users:manage'), async (req: Request, res: Response) => {
   try {
     // Prevent self-deactivation
     if (req.params.id === req.user!.userId) {
       return res.status(400).json({ success: false, error: 'Cannot deactivate yourself' });
     }
     
+    const target = await pool.query('SELECT role FROM users WHERE id = $1 AND tenant_id = $2', [req.params.id, req.tenantId]);
+    if (target.rows.length > 0 && !canManageRole(req.user!.role, target.rows[0].role)) {
+      return res.status(403).json({ success: false, error: 'Insufficient permissions' });
+    }
+    
     const result = await pool.query(
       'UPDATE users SET is_active = false, updated_at = NOW() WHERE id = $1 AND tenant_id = $2 RETURNING *',
       [req.params.id, req.tenantId]
@@ -129,6 +166,8 @@ router.post('/:id/deactivate', authenticate, authorize('master_admin', 'tenant_a
       return res.status(404).json({ success: false, error: 'User not found' });
     }
     
+    await revokeUserSessions(req.params.id, 'user_deactivated');
+    
     await logAdminAction(req, 'deactivate_user', 'user', req.params.id, { active: false });
     
     res.json({ success: true, message: 'User deactivated successfully' });
@@ -139,17 +178,26 @@ router.post('/:id/deactivate', authenticate, authorize('master_admin', 'tenant_a
 });
 
 // Reactivate user
-router.post('/:id/activate', authenticate, authorize('master_admin', 'tenant_admin'), async (req: Request, res: Response) => {
+router.post('/:id/activate', authenticate, requirePermission('users:manage'), async (req: Request, res: Response) => {
   try {
-    const result = await pool.query(
-      'UPDATE users SET is_active = true, updated_at = NOW() WHERE id = $1 AND tenant_id = $2 RETURNING *',
+    const userResult = await pool.query(
+      'SELECT role FROM users WHERE id = $1 AND tenant_id = $2',
       [req.params.id, req.tenantId]
     );
     
-    if (result.rows.length === 0) {
+    if (userResult.rows.length === 0) {
       return res.status(404).json({ success: false, error: 'User not found' });
     }
     
+    if (!canManageRole(req.user!.role, userResult.rows[0].role)) {
+      return res.status(403).json({ success: false, error: 'Insufficient permissions' });
+    }
+    
+    await pool.query(
+      'UPDATE users SET is_active = true, updated_at = NOW() WHERE id = $1 AND tenant_id = $2',
+      [req.params.id, req.tenantId]
+    );
+    
     await logAdminAction(req, 'activate_user', 'user', req.params.id, { active: true });
     
     res.json({ success: true, message: 'User activated successfully' });
@@ -159,8 +207,121 @@ router.post('/:id/activate', authenticate, authorize('master_admin', 'tenant_adm
   }
 });
 
-// Update user role (master_admin only)
-router.patch('/:id/role', authenticate, authorize('master_admin'), async (req: Request, res: Response) => {
+// Log a user out of all sessions
+router.post('/:id/logout-all', authenticate, requirePermission('users:manage'), async (req: Request, res: Response) => {
+  try {
+    const userResult = await pool.query(
+      'SELECT role FROM users WHERE id = $1 AND tenant_id = $2',
+      [req.params.id, req.tenantId]
+    );
+    
+    if (userResult.rows.length === 0) {
+      return res.status(404).json({ success: false, error: 'User not found' });
+    }
+    
+    if (!canManageRole(req.user!.role, userResult.rows[0].role)) {
+      return res.status(403).json({ success: false, error: 'Insufficient permissions' });
+    }
+    
+    const count = await revokeUserSessions(req.params.id, 'admin_logout');
+    
+    await logAdminAction(req, 'logout_user', 'user', req.params.id, { revokedSessions: count });
+    
+    res.json({ success: true, message: 'User sessions revoked', data: { revoked: count } });
+  } catch (error) {
+    console.error('Logout user error:', error);
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+// Reset a user's 2FA (lost authenticator); they must enroll again on next login if required
+router.post('/:id/mfa/reset', authenticate, requirePermission('users:manage'), async (req: Request, res: Response) => {
+  try {
+    if (req.params.id === req.user!.userId) {
+      return res.status(400).json({ success: false, error: 'Cannot reset your own two-factor authentication' });
+    }
+    
+    const userResult = await pool.query(
+      'SELECT role, mfa_enabled FROM users WHERE id = $1 AND tenant_id = $2',
+      [req.params.id, req.tenantId]
+    );
+    
+    if (userResult.rows.length === 0) {
+      return res.status(404).json({ success: false, error: 'User not found' });
+    }
+    
+    if (!canManageRole(req.user!.role, userResult.rows[0].role)) {
+      return res.status(403).json({ success: false, error: 'Insufficient permissions' });
+    }
+    
+    await disableMfa(req.params.id);
+    await revokeUserSessions(req.params.id, 'mfa_reset');
+    
+    await logAdminAction(req, 'reset_mfa', 'user', req.params.id, { wasEnabled: userResult.rows[0].mfa_enabled });
+    
+    res.json({ success: true, message: 'Two-factor authentication reset successfully' });
+  } catch (error) {
+    console.error('Reset MFA error:', error);
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+// Email the user a password reset link
+router.post('/:id/send-password-reset', authenticate, requirePermission('users:manage'), async (req: Request, res: Response) => {
+  try {
+    const userResult = await pool.query(
+      'SELECT id, email, role FROM users WHERE id = $1 AND tenant_id = $2 AND is_active = true',
+      [req.params.id, req.tenantId]
+    );
+    
+    if (userResult.rows.length === 0) {
+      return res.status(404).json({ success: false, error: 'User not found' });
+    }
+    
+    if (!canManageRole(req.user!.role, userResult.rows[0].role)) {
+      return res.status(403).json({ success: false, error: 'Insufficient permissions' });
+    }
+    
+    await sendPasswordReset(userResult.rows[0]);
+    
+    await logAdminAction(req, 'send_password_reset', 'user', req.params.id, { email: userResult.rows[0].email });
+    
+    res.json({ success: true, message: 'Password reset link sent' });
+  } catch (error) {
+    console.error('Send password reset error:', error);
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+// Clear a login lockout before it expires
+router.post('/:id/unlock', authenticate, requirePermission('users:manage'), async (req: Request, res: Response) => {
+  try {
+    const userResult = await pool.query(
+      'SELECT role, locked_until FROM users WHERE id = $1 AND tenant_id = $2',
+      [req.params.id, req.tenantId]
+    );
+    
+    if (userResult.rows.length === 0) {
+      return res.status(404).json({ success: false, error: 'User not found' });
+    }
+    
+    if (!canManageRole(req.user!.role, userResult.rows[0].role)) {
+      return res.status(403).json({ success: false, error: 'Insufficient permissions' });
+    }
+    
+    await clearFailedLogins(req.params.id);
+    
+    await logAdminAction(req, 'unlock_user', 'user', req.params.id, { lockedUntil: userResult.rows[0].locked_until });
+    
+    res.json({ success: true, message: 'User unlocked successfully' });
+  } catch (error) {
+    console.error('Unlock user error:', error);
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+// Update user role
+router.patch('/:id/role', authenticate, requirePermission('users:change_role'), async (req: Request, res: Response) => {
   try {
     const { role } = req.body;
     
@@ -182,6 +343,9 @@ router.patch('/:id/role', authenticate, authorize('master_admin'), async (req: R
       return res.status(404).json({ success: false, error: 'User not found' });
     }
     
+    // Tokens carry the role, so existing sessions must not outlive the change
+    await revokeUserSessions(req.params.id, 'role_change');
+    
     await logAdminAction(req, 'change_role', 'user', req.params.id, { newRole: role });
     
     res.json({ success: true, message: 'User role updated successfully' });
@@ -191,8 +355,67 @@ router.patch('/:id/role', authenticate, authorize('master_admin'), async (req: R
   }
 });
 
-// Create user (admin)
-router.post('/', authenticate, authorize('master_admin', 'tenant_admin'), async (req: Request, res: Response) => {
+// Assign a custom role (on top of the built-in role), or clear it with roleId null
+router.put('/:id/custom-role', authenticate, requirePermission('roles:manage'), async (req: Request, res: Response) => {
+  try {
+    const { roleId } = req.body;
+    
+    if (roleId !== null && typeof roleId !== 'string') {
+      return res.status(400).json({ success: false, error: 'roleId must be a role ID or null' });
+    }
+    
+    const userResult = await pool.query(
+      'SELECT role, custom_role_id FROM users WHERE id = $1 AND tenant_id = $2',
+      [req.params.id, req.tenantId]
+    );
+    
+    if (userResult.rows.length === 0) {
+      return res.status(404).json({ success: false, error: 'User not found' });
+    }
+    
+    if (!canManageRole(req.user!.role, userResult.rows[0].role)) {
+      return res.status(403).json({ success: false, error: 'Insufficient permissions' });
+    }
+    
+    let roleName: string | null = null;
+    if (roleId) {
+      const roleResult = await pool.query(
+        'SELECT name, permissions FROM roles WHERE id = $1 AND tenant_id = $2',
+        [roleId, req.tenantId]
+      );
+      
+      if (roleResult.rows.length === 0) {
+        return res.status(404).json({ success: false, error: 'Role not found' });
+      }
+      
+      const invalid = validateRolePermissions(roleResult.rows[0].permissions, req.permissions!);
+      if (invalid) {
+        return res.status(403).json({ success: false, error: invalid });
+      }
+      
+      roleName = roleResult.rows[0].name;
+    }
+    
+    await pool.query(
+      'UPDATE users SET custom_role_id = $1, updated_at = NOW() WHERE id = $2',
+      [roleId, req.params.id]
+    );
+    
+    await logAdminAction(req, 'assign_custom_role', 'user', req.params.id, {
+      previousRoleId: userResult.rows[0].custom_role_id,
+      roleId,
+      roleName,
+    });
+    
+    res.json({ success: true, message: 'Custom role updated successfully' });
+  } catch (error) {
+    console.error('Assign custom role error:', error);
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+// Create user
+router.post('/', authenticate, requirePermission('users:manage'), async (req: Request, res: Response) => {
   try {
     const { email, password, role = 'user' } = req.body;
     
@@ -200,9 +423,9 @@ router.post('/', authenticate, authorize('master_admin', 'tenant_admin'), async
       return res.status(400).json({ success: false, error: 'Email and password required' });
     }
     
-    // tenant_admin can only create users, not other admins
-    if (req.user!.role === 'tenant_admin' && role !== 'user') {
-      return res.status(403).json({ success: false, error: 'Tenant admins can only create regular users' });
+    // Only master admins can create other admins
+    if (req.user!.role !== 'master_admin' && role !== 'user') {
+      return res.status(403).json({ success: false, error: 'Only master admins can create admin users' });
     }
     
     // Check if email exists
@@ -211,6 +434,11 @@ router.post('/', authenticate, authorize('master_admin', 'tenant_admin'), async
       return res.status(400).json({ success: false, error: 'Email already exists' });
     }
     
+    const policyError = await checkPassword(req.tenantId!, password, email);
+    if (policyError) {
+      return res.status(400).json({ success: false, error: policyError });
+    }
+    
     const passwordHash = await bcrypt.hash(password, 12);
     const userId = uuidv4();
     
@@ -233,12 +461,17 @@ router.post('/', authenticate, authorize('master_admin', 'tenant_admin'), async
 });
 
 // Delete user
-router.delete('/:id', authenticate, authorize('master_admin'), async (req: Request, res: Response) => {
+router.delete('/:id', authenticate, requirePermission('users:delete'), async (req: Request, res: Response) => {
   try {
     if (req.params.id === req.user!.userId) {
       return res.status(400).json({ success: false, error: 'Cannot delete yourself' });
     }
     
+    const target = await pool.query('SELECT role FROM users WHERE id = $1 AND tenant_id = $2', [req.params.id, req.tenantId]);
+    if (target.rows.length > 0 && !canManageRole(req.user!.role, target.rows[0].role)) {
+      return res.status(403).json({ success: false, error: 'Insufficient permissions' });
+    }
+    
     const result = await pool.query(
       'DELETE FROM users WHERE id = $1 AND tenant_id = $2 RETURNING email',
       [req.params.id, req.tenantId]
@@ -248,6 +481,9 @@ router.delete('/:id', authenticate, authorize('master_admin'), async (req: Reque
       return res.status(404).json({ success: false, error: 'User not found' });
     }
     
+    await pool.query("DELETE FROM agent_access WHERE subject_type = 'user' AND subject_id = $1", [req.params.id]);
+    await pool.query("DELETE FROM collection_access WHERE subject_type = 'user' AND subject_id = $1", [req.params.id]);
+    
     await logAdminAction(req, 'delete_user', 'user', req.params.id, { email: result.rows[0].email });
     
     res.json({ success: true, message: 'User deleted successfully' });
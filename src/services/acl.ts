@@ -0,0 +1,156 @@
+import { pool } from '../db/index.js';
+import { getUserPermissions } from './permissions.js';
+import { AccessMode, Permission, UserRole } from '../types/index.js';
+
+// SQL condition for "access row x names the user, or a group the user belongs to"
+function subjectCondition(alias: string, userParam: string): string {
+  return `((${alias}.subject_type = 'user' AND ${alias}.subject_id = ${userParam})
+      OR (${alias}.subject_type = 'group' AND ${alias}.subject_id IN (
+        SELECT gm.group_id FROM user_group_members gm WHERE gm.user_id = ${userParam})))`;
+}
+
+// SQL condition for "the user given by userParam may use agent a": the agent is open
+// to the whole tenant, or the user (directly or through a group) is on its allow-list
+export function agentAccessCondition(userParam: string): string {
+  return `(a.access_mode = 'tenant' OR EXISTS (
+    SELECT 1 FROM agent_access aa
+    WHERE aa.agent_id = a.id AND ${subjectCondition('aa', userParam)}
+  ))`;
+}
+
+// Same for collection c
+export function collectionAccessCondition(userParam: string): string {
+  return `(c.access_mode = 'tenant' OR EXISTS (
+    SELECT 1 FROM collection_access ca
+    WHERE ca.collection_id = c.id AND ${subjectCondition('ca', userParam)}
+  ))`;
+}
+
+async function hasPermission(userId: string, tenantId: string, permission: Permission): Promise<boolean> {
+  const result = await pool.query('SELECT role FROM users WHERE id = $1 AND tenant_id = $2', [userId, tenantId]);
+  if (result.rows.length === 0) {
+    return false;
+  }
+  
+  const permissions = await getUserPermissions(userId, result.rows[0].role, tenantId);
+  return permissions.includes(permission);
+}
+
+// Agent managers see and use every agent, since they can edit the allow-lists anyway
+export async function canManageAgents(userId: string, role: UserRole, tenantId: string): Promise<boolean> {
+  const permissions = await getUserPermissions(userId, role, tenantId);
+  return permissions.includes('agents:write');
+}
+
+// Likewise collection managers see every collection
+export async function canManageCollections(userId: string, tenantId: string): Promise<boolean> {
+  return hasPermission(userId, tenantId, 'collections:write');
+}
+
+export async function canUseAgent(agentId: string, userId: string, tenantId: string): Promise<boolean> {
+  const result = await pool.query(
+    `SELECT ${agentAccessCondition('$2')} AS allowed
+     FROM agents a
+     WHERE a.id = $1 AND a.tenant_id = $3`,
+    [agentId, userId, tenantId]
+  );
+  
+  if (result.rows.length === 0) {
+    return false;
+  }
+  
+  return result.rows[0].allowed || hasPermission(userId, tenantId, 'agents:write');
+}
+
+// Replace the allow-list rows of one agent or collection
+async function replaceAccessList(
+  table: 'agent_access' | 'collection_access',
+  column: 'agent_id' | 'collection_id',
+  resourceId: string,
+  userIds: string[],
+  groupIds: string[],
+  createdBy: string
+): Promise<void> {
+  await pool.query(`DELETE FROM ${table} WHERE ${column} = $1`, [resourceId]);
+  
+  const entries = [
+    ...userIds.map(id => ['user', id]),
+    ...groupIds.map(id => ['group', id]),
+  ];
+  
+  for (const [subjectType, subjectId] of entries) {
+    await pool.query(
+      `INSERT INTO ${table} (${column}, subject_type, subject_id, created_by)
+       VALUES ($1, $2, $3, $4) ON CONFLICT DO NOTHING`,
+      [resourceId, subjectType, subjectId, createdBy]
+    );
+  }
+}
+
+// Replace an agent's access mode and allow-list
+export async function setAgentAccess(
+  agentId: string,
+  accessMode: AccessMode,
+  userIds: string[],
+  groupIds: string[],
+  createdBy: string
+): Promise<void> {
+  await pool.query('UPDATE agents SET access_mode = $1, updated_at = NOW() WHERE id = $2', [accessMode, agentId]);
+  await replaceAccessList('agent_access', 'agent_id', agentId, userIds, groupIds, createdBy);
+}
+
+// Replace a collection's access mode and allow-list
+export async function setCollectionAccess(
+  collectionId: string,
+  accessMode: AccessMode,
+  userIds: string[],
+  groupIds: string[],
+  createdBy: string
+): Promise<void> {
+  await pool.query('UPDATE collections SET access_mode = $1, updated_at = NOW() WHERE id = $2', [accessMode, collectionId]);
+  await replaceAccessList('collection_access', 'collection_id', collectionId, userIds, groupIds, createdBy);
+}
+
+// Check that every user and group id belongs to the tenant; returns an error message or null
+export async function validateAccessSubjects(tenantId: string, userIds: string[], groupIds: string[]): Promise<string | null> {
+  if (userIds.length > 0) {
+    const result = await pool.query('SELECT id FROM users WHERE id = ANY($1) AND tenant_id = $2', [userIds, tenantId]);
+    if (result.rows.length !== userIds.length) {
+      return 'User not found';
+    }
+  }
+  
+  if (groupIds.length > 0) {
+    const result = await pool.query('SELECT id FROM user_groups WHERE id = ANY($1) AND tenant_id = $2', [groupIds, tenantId]);
+    if (result.rows.length !== groupIds.length) {
+      return 'Group not found';
+    }
+  }
+  
+  return null;
+}
+
+// Allow-list entries of an agent or collection, with the user email or group name
+export async function getAccessList(
+  table: 'agent_access' | 'collection_access',
+  column: 'agent_id' | 'collection_id',
+  resourceId: string
+): Promise<{ subjectType: string; subjectId: string; email?: string; groupName?: string; createdAt: Date }[]> {
+  const result = await pool.query(
+    `SELECT x.subject_type, x.subject_id, x.created_at, u.email, g.name as group_name
+     FROM ${table} x
+     LEFT JOIN users u ON x.subject_type = 'user' AND x.subject_id = u.id
+     LEFT JOIN user_groups g ON x.subject_type = 'group' AND x.subject_id = g.id
+     WHERE x.${column} = $1
+     ORDER BY x.subject_type, x.created_at`,
+    [resourceId]
+  );
+  
+  return result.rows.map(e => ({
+    subjectType: e.subject_type,
+    subjectId: e.subject_id,
+    email: e.email || undefined,
+    groupName: e.group_name || undefined,
+    createdAt: e.created_at,
+  }));
+}
@@ -0,0 +1,269 @@
+import { PoolClient } from 'pg';
+import { pool } from '../db/index.js';
+import { Agent, AgentConfig, AgentVersion } from '../types/index.js';
+
+// Fields captured by a version, in the order diffs list them
+export const VERSIONED_AGENT_FIELDS: (keyof AgentConfig)[] = [
+  'name',
+  'description',
+  'system_prompt',
+  'model',
+  'temperature',
+  'mode',
+  'allowed_topics',
+  'forbidden_topics',
+  'enable_rag',
+  'memory_token_budget',
+  'output_guardrails',
+  'injection_guard',
+  'review_mode',
+  'collection_ids',
+];
+
+// Versioned fields stored on the agent row itself (collections live in agent_collections)
+const AGENT_ROW_FIELDS = VERSIONED_AGENT_FIELDS.filter(
+  (f): f is Exclude<keyof AgentConfig, 'collection_ids'> => f !== 'collection_ids'
+);
+
+function pickFields<T, K extends keyof T>(source: T, fields: K[]): Pick<T, K> {
+  const picked = {} as Pick<T, K>;
+  for (const field of fields) {
+    picked[field] = source[field];
+  }
+  return picked;
+}
+
+// Raised when a draft, version or rollback request cannot be carried out
+export class AgentVersionError extends Error {
+  constructor(message: string, public status: 400 | 404 = 400) {
+    super(message);
+    this.name = 'AgentVersionError';
+  }
+}
+
+async function withTransaction<T>(fn: (client: PoolClient) => Promise<T>): Promise<T> {
+  const client = await pool.connect();
+  
+  try {
+    await client.query('BEGIN');
+    const result = await fn(client);
+    await client.query('COMMIT');
+    return result;
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
+  }
+}
+
+// Lock the agent row and read its live configuration
+async function loadAgent(client: PoolClient, agentId: string, tenantId: string): Promise<{ agent: Agent; live: AgentConfig }> {
+  const agentResult = await client.query(
+    'SELECT * FROM agents WHERE id = $1 AND tenant_id = $2 AND is_active = true FOR UPDATE',
+    [agentId, tenantId]
+  );
+  
+  if (agentResult.rows.length === 0) {
+    throw new AgentVersionError('Agent not found', 404);
+  }
+  
+  const agent = agentResult.rows[0] as Agent;
+  const collections = await client.query(
+    'SELECT collection_id FROM agent_collections WHERE agent_id = $1 ORDER BY collection_id',
+    [agentId]
+  );
+  
+  return {
+    agent,
+    live: { ...pickFields(agent, AGENT_ROW_FIELDS), collection_ids: collections.rows.map(r => r.collection_id) },
+  };
+}
+
+// Write a configuration onto the agent row and its collection links
+async function applyConfig(client: PoolClient, agentId: string, tenantId: string, config: AgentConfig): Promise<void> {
+  await client.query(
+    `UPDATE agents SET name = $1, description = $2, system_prompt = $3, model = $4, temperature = $5, mode = $6,
+       allowed_topics = $7, forbidden_topics = $8, enable_rag = $9, memory_token_budget = $10,
+       output_guardrails = $11, injection_guard = $12, review_mode = $13, updated_at = NOW()
+     WHERE id = $14`,
+    [
+      config.name, config.description, config.system_prompt, config.model, config.temperature, config.mode,
+      JSON.stringify(config.allowed_topics), JSON.stringify(config.forbidden_topics),
+      config.enable_rag, config.memory_token_budget,
+      JSON.stringify(config.output_guardrails), JSON.stringify(config.injection_guard), config.review_mode,
+      agentId,
+    ]
+  );
+  
+  // Collections deleted since the version was published, or belonging to another tenant, are skipped
+  await client.query('DELETE FROM agent_collections WHERE agent_id = $1', [agentId]);
+  await client.query(
+    `INSERT INTO agent_collections (agent_id, collection_id)
+     SELECT $1, id FROM collections WHERE id = ANY($2) AND tenant_id = $3
+     ON CONFLICT DO NOTHING`,
+    [agentId, config.collection_ids, tenantId]
+  );
+}
+
+// Append the next version number for the agent and make it the active one
+async function insertVersion(
+  client: PoolClient,
+  agent: Agent,
+  config: AgentConfig,
+  createdBy: string,
+  note?: string
+): Promise<AgentVersion> {
+  await client.query('SELECT pg_advisory_xact_lock(hashtext($1))', [`agent_version:${agent.id}`]);
+  
+  const result = await client.query(
+    `INSERT INTO agent_versions (agent_id, tenant_id, version, config, note, created_by)
+     VALUES ($1, $2, (SELECT COALESCE(MAX(version), 0) + 1 FROM agent_versions WHERE agent_id = $1), $3, $4, $5)
+     RETURNING *`,
+    [agent.id, agent.tenant_id, JSON.stringify(config), note || null, createdBy]
+  );
+  
+  await client.query('UPDATE agents SET active_version_id = $1 WHERE id = $2', [result.rows[0].id, agent.id]);
+  
+  return result.rows[0];
+}
+
+// Snapshot the live configuration as a new version (after a create or a direct update)
+export async function recordAgentVersion(
+  agentId: string,
+  tenantId: string,
+  createdBy: string,
+  note?: string
+): Promise<AgentVersion> {
+  return withTransaction(async client => {
+    const { agent, live } = await loadAgent(client, agentId, tenantId);
+    return insertVersion(client, agent, live, createdBy, note);
+  });
+}
+
+// The draft's changed fields and the configuration publishing them would produce
+export interface AgentDraft {
+  changes: Partial<AgentConfig>;
+  config: AgentConfig;
+}
+
+export async function getAgentDraft(agentId: string, tenantId: string): Promise<AgentDraft | null> {
+  return withTransaction(async client => {
+    const { agent, live } = await loadAgent(client, agentId, tenantId);
+    return agent.draft_config ? { changes: agent.draft_config, config: { ...live, ...agent.draft_config } } : null;
+  });
+}
+
+// Merge changes into the agent's draft. Only changed fields are stored, so settings updated
+// on the live agent after the draft was started are kept when it is published.
+export async function saveAgentDraft(
+  agentId: string,
+  tenantId: string,
+  changes: Partial<AgentConfig>
+): Promise<AgentDraft> {
+  if (changes.collection_ids) {
+    // Same order as loadAgent so diffs don't report reordering
+    changes = { ...changes, collection_ids: [...new Set(changes.collection_ids)].sort() };
+    
+    const found = await pool.query(
+      'SELECT id FROM collections WHERE id = ANY($1) AND tenant_id = $2',
+      [changes.collection_ids, tenantId]
+    );
+    if (found.rows.length !== changes.collection_ids!.length) {
+      throw new AgentVersionError('Collection not found', 404);
+    }
+  }
+  
+  return withTransaction(async client => {
+    const { agent, live } = await loadAgent(client, agentId, tenantId);
+    const draft: Partial<AgentConfig> = { ...agent.draft_config, ...changes };
+    
+    await client.query('UPDATE agents SET draft_config = $1 WHERE id = $2', [JSON.stringify(draft), agentId]);
+    return { changes: draft, config: { ...live, ...draft } };
+  });
+}
+
+export async function discardAgentDraft(agentId: string, tenantId: string): Promise<boolean> {
+  const result = await pool.query(
+    'UPDATE agents SET draft_config = NULL WHERE id = $1 AND tenant_id = $2 AND draft_config IS NOT NULL',
+    [agentId, tenantId]
+  );
+  return (result.rowCount ?? 0) > 0;
+}
+
+// Make the draft's changes live as a new immutable version
+export async function publishAgentDraft(
+  agentId: string,
+  tenantId: string,
+  createdBy: string,
+  note?: string
+): Promise<AgentVersion> {
+  return withTransaction(async client => {
+    const { agent, live } = await loadAgent(client, agentId, tenantId);
+    if (!agent.draft_config) {
+      throw new AgentVersionError('Agent has no draft to publish');
+    }
+    
+    const config: AgentConfig = { ...live, ...agent.draft_config };
+    await applyConfig(client, agentId, tenantId, config);
+    const version = await insertVersion(client, agent, config, createdBy, note);
+    await client.query('UPDATE agents SET draft_config = NULL WHERE id = $1', [agentId]);
+    
+    return version;
+  });
+}
+
+// Restore an earlier version's configuration and make that version the active one (the draft is kept)
+export async function rollbackAgentVersion(
+  agentId: string,
+  tenantId: string,
+  versionNumber: number
+): Promise<AgentVersion> {
+  return withTransaction(async client => {
+    const { live } = await loadAgent(client, agentId, tenantId);
+    
+    const result = await client.query(
+      'SELECT * FROM agent_versions WHERE agent_id = $1 AND version = $2',
+      [agentId, versionNumber]
+    );
+    
+    if (result.rows.length === 0) {
+      throw new AgentVersionError('Version not found', 404);
+    }
+    
+    const version = result.rows[0] as AgentVersion;
+    
+    // Versions published before a field existed keep its current value
+    await applyConfig(client, agentId, tenantId, { ...live, ...version.config });
+    await client.query('UPDATE agents SET active_version_id = $1 WHERE id = $2', [version.id, agentId]);
+    
+    return version;
+  });
+}
+
+export async function getAgentVersion(agentId: string, tenantId: string, versionNumber: number): Promise<AgentVersion | null> {
+  const result = await pool.query(
+    'SELECT * FROM agent_versions WHERE agent_id = $1 AND tenant_id = $2 AND version = $3',
+    [agentId, tenantId, versionNumber]
+  );
+  return result.rows[0] || null;
+}
+
+// JSON with object keys sorted, so JSONB round-trips compare equal
+function canonicalJson(value: unknown): string {
+  return JSON.stringify(value ?? null, (_key, v) =>
+    v && typeof v === 'object' && !Array.isArray(v)
+      ? Object.fromEntries(Object.keys(v).sort().map(k => [k, v[k]]))
+      : v
+  );
+}
+
+// Field-level differences between two configurations
+export function diffAgentConfigs(
+  from: Partial<AgentConfig>,
+  to: Partial<AgentConfig>
+): { field: keyof AgentConfig; from: unknown; to: unknown }[] {
+  return VERSIONED_AGENT_FIELDS
+    .filter(field => canonicalJson(from[field]) !== canonicalJson(to[field]))
+    .map(field => ({ field, from: from[field] ?? null, to: to[field] ?? null }));
+}
@@ -0,0 +1,94 @@
+import { pool } from '../db/index.js';
+import { Budget, BudgetPeriod } from '../types/index.js';
+
+const PERIOD_UNITS: Record<BudgetPeriod, string> = { daily: 'day', monthly: 'month' };
+
+// Sum recorded spend for the current tenant-local day/month, optionally for one user or one group's members
+export async function getPeriodSpend(
+  tenantId: string,
+  period: BudgetPeriod,
+  userId?: string,
+  groupId?: string
+): Promise<number> {
+  const params: any[] = [tenantId, PERIOD_UNITS[period]];
+  let userFilter = '';
+  
+  if (userId) {
+    params.push(userId);
+    userFilter = ` AND ue.user_id = $${params.length}`;
+  } else if (groupId) {
+    params.push(groupId);
+    userFilter = ` AND ue.user_id IN (SELECT user_id FROM user_group_members WHERE group_id = $${params.length})`;
+  }
+  
+  // created_at is written by NOW() in the session timezone; period start is converted from tenant-local time
+  const result = await pool.query(
+    `SELECT COALESCE(SUM(ue.cost), 0) AS spend
+     FROM usage_events ue
+     JOIN tenants t ON ue.tenant_id = t.id
+     WHERE ue.tenant_id = $1${userFilter}
+       AND ue.created_at::timestamptz >= date_trunc($2, NOW() AT TIME ZONE t.timezone) AT TIME ZONE t.timezone`,
+    params
+  );
+  
+  return parseFloat(result.rows[0].spend);
+}
+
+// Budgets that apply to a user: tenant budgets, budgets of the user's groups, and user budgets
+// (a user-specific budget replaces the default for its period)
+export async function getApplicableBudgets(tenantId: string, userId: string): Promise<Budget[]> {
+  const result = await pool.query(
+    `SELECT * FROM budgets
+     WHERE tenant_id = $1 AND is_active = true
+       AND (scope = 'tenant'
+         OR (scope = 'user' AND (subject_id = $2 OR subject_id IS NULL))
+         OR (scope = 'group' AND subject_id IN (SELECT group_id FROM user_group_members WHERE user_id = $2)))`,
+    [tenantId, userId]
+  );
+  
+  const budgets = result.rows as Budget[];
+  
+  return budgets.filter(b =>
+    !(b.scope === 'user' && !b.subject_id &&
+      budgets.some(o => o.scope === 'user' && o.subject_id === userId && o.period === b.period))
+  );
+}
+
+const SCOPE_LABELS: Record<Budget['scope'], string> = { tenant: 'Tenant', user: 'User', group: 'Group' };
+
+function describeBudget(budget: Budget): string {
+  return `${SCOPE_LABELS[budget.scope]} ${budget.period} budget`;
+}
+
+// Pre-flight budget check: hard limits block, soft limits produce warnings
+export async function checkBudgets(
+  tenantId: string,
+  userId: string
+): Promise<{ allowed: boolean; reason?: string; warnings: string[] }> {
+  const budgets = await getApplicableBudgets(tenantId, userId);
+  const warnings: string[] = [];
+  
+  for (const budget of budgets) {
+    const spend = await getPeriodSpend(
+      tenantId,
+      budget.period,
+      budget.scope === 'user' ? userId : undefined,
+      budget.scope === 'group' ? budget.subject_id : undefined
+    );
+    const label = describeBudget(budget);
+    
+    if (budget.hard_limit !== null && budget.hard_limit !== undefined && spend >= budget.hard_limit) {
+      return {
+        allowed: false,
+        reason: `${label} exceeded ($${spend.toFixed(4)} of $${budget.hard_limit.toFixed(2)})`,
+        warnings,
+      };
+    }
+    
+    if (budget.soft_limit !== null && budget.soft_limit !== undefined && spend >= budget.soft_limit) {
+      warnings.push(`${label} soft limit reached ($${spend.toFixed(4)} of $${budget.soft_limit.toFixed(2)})`);
+    }
+  }
+  
+  return { allowed: true, warnings };
+}
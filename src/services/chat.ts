@@ -1,46 +1,32 @@
-import OpenAI from 'openai';
 import { v4 as uuidv4 } from 'uuid';
 import { pool } from '../db/index.js';
 import { retrieveContext } from './rag.js';
 import { logDecision } from './logging.js';
-import { decrypt, truncateText } from '../utils/index.js';
-import { Agent, ChatResponse, RAGEvidence, AgentMode } from '../types/index.js';
-
-// Check if message violates agent contract
-function checkContract(
-  message: string,
-  agent: Agent
-): { allowed: boolean; reason?: string } {
-  const messageLower = message.toLowerCase();
-  
-  // Check forbidden topics
-  const forbiddenTopics = agent.forbidden_topics as string[];
-  for (const topic of forbiddenTopics) {
-    if (messageLower.includes(topic.toLowerCase())) {
-      return {
-        allowed: false,
-        reason: `Message contains forbidden topic: "${topic}"`,
-      };
-    }
-  }
-  
-  // Check allowed topics (if specified, message must match at least one)
-  const allowedTopics = agent.allowed_topics as string[];
-  if (allowedTopics.length > 0) {
-    const matchesAllowed = allowedTopics.some(topic => 
-      messageLower.includes(topic.toLowerCase())
-    );
-    
-    if (!matchesAllowed) {
-      return {
-        allowed: false,
-        reason: 'Message does not match any allowed topics',
-      };
-    }
-  }
-  
-  return { allowed: true };
-}
+import { resolveLLMProvider } from './llm.js';
+import { recordUsage, withoutUsageRecording } from './pricing.js';
+import { checkBudgets } from './budget.js';
+import { getAgentCostToday } from './usage.js';
+import { assertConversationAccess, touchConversation } from './conversations.js';
+import { canUseAgent } from './acl.js';
+import { checkTopics } from './topics.js';
+import { canStreamOutput, checkOutput, OutputCheckResult } from './guardrails.js';
+import { formatUntrustedContext, scanInput, screenEvidence, UNTRUSTED_CONTEXT_NOTICE } from './injection.js';
+import { evaluatePolicies, getActivePolicies, getUserFacts } from './policy.js';
+import { createPiiRehydrator, createPiiVault, getPiiPolicy, maskPii, PiiVault, rehydratePii } from './pii.js';
+import { buildConversationMemory, updateConversationSummary } from './memory.js';
+import { createReviewItem } from './reviews.js';
+import { truncateText } from '../utils/index.js';
+import {
+  Agent,
+  ChatResponse,
+  ChatStreamEvent,
+  RAGEvidence,
+  AgentMode,
+  TopicMatch,
+  InjectionDetection,
+  PolicyOutcome,
+  SimulationResult,
+} from '../types/index.js';
 
 // Check if agent can respond based on mode and evidence
 function checkModeRequirements(
@@ -70,39 +56,65 @@ function checkModeRequirements(
   return { allowed: true };
 }
 
-// Get LLM client for tenant
-async function getLLMClient(tenantId: string): Promise<OpenAI> {
-  // Try to get tenant's default provider
-  const providerResult = await pool.query(
-    'SELECT * FROM llm_providers WHERE tenant_id = $1 AND is_default = true AND is_active = true LIMIT 1',
-    [tenantId]
-  );
+// Result of the governance pre-flight: either a blocked response or everything needed to call the LLM
+type PreparedChat =
+  | { blocked: true; result: ChatResponse; evidence?: RAGEvidence[] }
+  | {
+      blocked: false;
+      agent: Agent;
+      model: string;
+      convId: string;
+      messages: { role: 'system' | 'user' | 'assistant'; content: string }[];
+      evidence: RAGEvidence[];
+      budgetWarnings: string[];
+      topicMatch?: TopicMatch;
+      pii?: { vault: PiiVault; rehydrate: boolean };
+      injection: InjectionDetection[];
+      policy?: PolicyOutcome;
+      startTime: number;
+      apiKeyId?: string;
+    };
+
+// Dry runs swap in their own decision logger and leave retrieved chunks unquarantined
+type PrepareOptions = { log?: typeof logDecision; dryRun?: boolean };
+
+type SpendCheck = { allowed: true; warnings: string[] } | { allowed: false; reason: string; response: string };
+
+// The agent's daily cost limit, then tenant/user budgets (hard limits block, soft limits warn);
+// checked before every model call that is charged
+async function checkSpendLimits(agent: Agent, tenantId: string, userId: string): Promise<SpendCheck> {
+  if (await getAgentCostToday(agent.id) >= agent.cost_limit_daily) {
+    return {
+      allowed: false,
+      reason: 'Daily cost limit exceeded',
+      response: 'This agent has reached its daily usage limit. Please try again tomorrow.',
+    };
+  }
   
-  if (providerResult.rows.length > 0) {
-    const provider = providerResult.rows[0];
-    const apiKey = decrypt(provider.api_key_encrypted);
-    
-    return new OpenAI({
-      apiKey,
-      baseURL: provider.base_url || undefined,
-    });
+  const budgetCheck = await checkBudgets(tenantId, userId);
+  if (!budgetCheck.allowed) {
+    return {
+      allowed: false,
+      reason: budgetCheck.reason!,
+      response: 'The usage budget for your account or organization has been reached. Please contact an administrator.',
+    };
   }
   
-  // Fallback to environment variable
-  return new OpenAI({
-    apiKey: process.env.OPENAI_API_KEY,
-  });
+  return { allowed: true, warnings: budgetCheck.warnings };
 }
 
-// Main chat function
-export async function chat(
+// Run access, kill switch, cost limit, contract and mode checks, then build the prompt
+async function prepareChat(
   message: string,
   agentId: string,
   userId: string,
   tenantId: string,
-  conversationId?: string
-): Promise<ChatResponse> {
+  conversationId?: string,
+  apiKeyId?: string,
+  options: PrepareOptions = {}
+): Promise<PreparedChat> {
   const startTime = Date.now();
+  const log = options.log || logDecision;
   
   // Get agent
   const agentResult = await pool.query(
@@ -116,80 +128,204 @@ export async function chat(
   
   const agent = agentResult.rows[0] as Agent;
   
+  // Continuing a conversation requires ownership and the same agent
+  if (conversationId) {
+    await assertConversationAccess(conversationId, tenantId, userId, agentId);
+  }
+  
+  // Check the agent's allow-list
+  if (!(await canUseAgent(agentId, userId, tenantId))) {
+    await log(tenantId, userId, agentId, 'chat', 'blocked', 'User is not allowed to use this agent', message, undefined, {}, apiKeyId);
+    
+    return {
+      blocked: true,
+      result: {
+        response: 'You do not have access to this agent. Please contact an administrator.',
+        conversationId: conversationId || uuidv4(),
+        tokensUsed: 0,
+        latencyMs: Date.now() - startTime,
+        blocked: true,
+        blockReason: 'User is not allowed to use this agent',
+      },
+    };
+  }
+  
   // Check kill switch
   if (agent.kill_switch) {
-    await logDecision(tenantId, userId, agentId, 'chat', 'blocked', 'Agent kill switch is enabled', message);
+    await log(tenantId, userId, agentId, 'chat', 'blocked', 'Agent kill switch is enabled', message, undefined, {}, apiKeyId);
     
     return {
-      response: 'This agent is currently disabled. Please contact an administrator.',
-      conversationId: conversationId || uuidv4(),
-      tokensUsed: 0,
-      latencyMs: Date.now() - startTime,
       blocked: true,
-      blockReason: 'Agent kill switch is enabled',
+      result: {
+        response: 'This agent is currently disabled. Please contact an administrator.',
+        conversationId: conversationId || uuidv4(),
+        tokensUsed: 0,
+        latencyMs: Date.now() - startTime,
+        blocked: true,
+        blockReason: 'Agent kill switch is enabled',
+      },
     };
   }
   
-  // Check daily cost limit
-  if (agent.cost_used_today >= agent.cost_limit_daily) {
-    await logDecision(tenantId, userId, agentId, 'chat', 'blocked', 'Daily cost limit exceeded', message);
+  // Check the daily cost limit and tenant/user budgets
+  const budgetCheck = await checkSpendLimits(agent, tenantId, userId);
+  if (!budgetCheck.allowed) {
+    await log(tenantId, userId, agentId, 'chat', 'blocked', budgetCheck.reason, message, undefined, {}, apiKeyId);
     
     return {
-      response: 'This agent has reached its daily usage limit. Please try again tomorrow.',
-      conversationId: conversationId || uuidv4(),
-      tokensUsed: 0,
-      latencyMs: Date.now() - startTime,
       blocked: true,
-      blockReason: 'Daily cost limit exceeded',
+      result: {
+        response: budgetCheck.response,
+        conversationId: conversationId || uuidv4(),
+        tokensUsed: 0,
+        latencyMs: Date.now() - startTime,
+        blocked: true,
+        blockReason: budgetCheck.reason,
+      },
     };
   }
   
+  if (budgetCheck.warnings.length > 0) {
+    await log(
+      tenantId, userId, agentId, 'chat', 'modified',
+      budgetCheck.warnings.join('; '),
+      message,
+      undefined,
+      { budgetWarnings: budgetCheck.warnings },
+      apiKeyId
+    );
+  }
+  
+  // Mask PII in everything sent to the provider for this turn (one vault, so placeholders stay consistent)
+  const piiPolicy = await getPiiPolicy(tenantId);
+  const piiVault = piiPolicy.mask_prompts ? createPiiVault() : undefined;
+  const mask = (text: string) => (piiVault ? maskPii(text, piiVault, piiPolicy) : text);
+  const outboundMessage = mask(message);
+  
   // Check contract (allowed/forbidden topics)
-  const contractCheck = checkContract(message, agent);
+  const contractCheck = await checkTopics(outboundMessage, agent, userId);
   if (!contractCheck.allowed) {
-    await logDecision(tenantId, userId, agentId, 'chat', 'blocked', contractCheck.reason!, message);
+    await log(
+      tenantId, userId, agentId, 'chat', 'blocked', contractCheck.reason!, message, undefined,
+      { topicMatch: contractCheck.match },
+      apiKeyId
+    );
+    
+    return {
+      blocked: true,
+      result: {
+        response: 'I cannot respond to this request as it falls outside my allowed scope.',
+        conversationId: conversationId || uuidv4(),
+        tokensUsed: 0,
+        latencyMs: Date.now() - startTime,
+        blocked: true,
+        blockReason: contractCheck.reason,
+      },
+    };
+  }
+  
+  // Check the message for prompt injection
+  const injection: InjectionDetection[] = [];
+  const inputDetection = await scanInput(outboundMessage, agent, userId);
+  if (inputDetection) {
+    injection.push(inputDetection);
+  }
+  
+  if (inputDetection?.action === 'blocked') {
+    const reason = 'Message flagged as a prompt-injection attempt';
+    await log(tenantId, userId, agentId, 'chat', 'blocked', reason, message, undefined, { injection }, apiKeyId);
     
     return {
-      response: 'I cannot respond to this request as it falls outside my allowed scope.',
-      conversationId: conversationId || uuidv4(),
-      tokensUsed: 0,
-      latencyMs: Date.now() - startTime,
       blocked: true,
-      blockReason: contractCheck.reason,
+      result: {
+        response: 'I cannot process this request.',
+        conversationId: conversationId || uuidv4(),
+        tokensUsed: 0,
+        latencyMs: Date.now() - startTime,
+        blocked: true,
+        blockReason: reason,
+      },
     };
   }
   
-  // Retrieve RAG context if enabled
-  let context = '';
+  // Retrieve RAG context if enabled, screening each chunk for injected instructions
   let evidence: RAGEvidence[] = [];
   
   if (agent.enable_rag) {
-    const ragResult = await retrieveContext(message, agentId, tenantId);
-    context = ragResult.context;
-    evidence = ragResult.evidence;
+    const ragResult = await retrieveContext(outboundMessage, agentId, tenantId, 5, userId);
+    const screened = await screenEvidence(ragResult.evidence, agent, userId, !options.dryRun, mask);
+    evidence = screened.evidence;
+    injection.push(...screened.detections);
   }
   
+  const context = formatUntrustedContext(evidence);
+  
   // Check mode requirements
   const modeCheck = checkModeRequirements(agent.mode as AgentMode, evidence);
   if (!modeCheck.allowed) {
-    await logDecision(tenantId, userId, agentId, 'chat', 'blocked', modeCheck.reason!, message);
+    await log(
+      tenantId, userId, agentId, 'chat', 'blocked', modeCheck.reason!, message, undefined,
+      injection.length > 0 ? { injection } : {},
+      apiKeyId
+    );
     
     return {
-      response: 'I cannot answer this question as I don\'t have sufficient information in my knowledge base.',
-      conversationId: conversationId || uuidv4(),
-      tokensUsed: 0,
-      latencyMs: Date.now() - startTime,
       blocked: true,
-      blockReason: modeCheck.reason,
-      evidence: [],
+      result: {
+        response: 'I cannot answer this question as I don\'t have sufficient information in my knowledge base.',
+        conversationId: conversationId || uuidv4(),
+        tokensUsed: 0,
+        latencyMs: Date.now() - startTime,
+        blocked: true,
+        blockReason: modeCheck.reason,
+        evidence: [],
+      },
+      evidence,
     };
   }
   
+  // Evaluate the tenant and agent governance policies
+  let policy: PolicyOutcome | undefined;
+  const policies = await getActivePolicies(tenantId, agentId);
+  
+  if (policies.length > 0) {
+    policy = evaluatePolicies(policies, {
+      ...(await getUserFacts(userId, tenantId)),
+      now: new Date(),
+      topic: contractCheck.match?.list === 'allowed' ? contractCheck.match.topic : undefined,
+      evidenceScore: evidence.length > 0 ? Math.max(...evidence.map(e => e.similarity_score)) : null,
+      budgetState: budgetCheck.warnings.length > 0 ? 'soft_limit' : 'ok',
+    });
+    
+    // require_approval goes ahead; the drafted answer is held for review instead of being returned
+    if (policy.decision === 'block') {
+      const reason = `Blocked by policy rule ${policy.rule}`;
+      await log(
+        tenantId, userId, agentId, 'chat', 'blocked', reason, message, undefined,
+        { policy, injection: injection.length > 0 ? injection : undefined },
+        apiKeyId
+      );
+      
+      return {
+        blocked: true,
+        result: {
+          response: policy.message || 'This request is not permitted by your organization\'s policy.',
+          conversationId: conversationId || uuidv4(),
+          tokensUsed: 0,
+          latencyMs: Date.now() - startTime,
+          blocked: true,
+          blockReason: reason,
+        },
+        evidence,
+      };
+    }
+  }
+  
   // Build system prompt
   let systemPrompt = agent.system_prompt || 'You are a helpful AI assistant.';
   
   if (context) {
-    systemPrompt += `\n\n## Knowledge Base Context\nUse the following information to answer the user's question. Always cite your sources by mentioning the document name.\n\n${context}`;
+    systemPrompt += `\n\n## Knowledge Base Context\nUse the following information to answer the user's question. Always cite your sources by mentioning the document name.\n${UNTRUSTED_CONTEXT_NOTICE}\n\n${context}`;
   }
   
   if (agent.mode === 'INTERNAL') {
@@ -205,78 +341,400 @@ export async function chat(
   ];
   
   if (conversationId) {
-    const historyResult = await pool.query(
-      `SELECT role, content FROM chat_messages 
-       WHERE conversation_id = $1 
-       ORDER BY created_at ASC 
-       LIMIT 20`,
-      [conversationId]
-    );
+    const memory = await buildConversationMemory(conversationId, tenantId, userId, agent);
     
-    for (const msg of historyResult.rows) {
+    if (memory.summary) {
       messages.push({
-        role: msg.role as 'user' | 'assistant',
-        content: msg.content,
+        role: 'system',
+        content: `## Conversation Summary\nSummary of earlier turns in this conversation:\n\n${memory.summary}`,
       });
     }
+    
+    messages.push(...memory.messages);
   }
   
   messages.push({ role: 'user', content: message });
   
-  // Call LLM
-  const openai = await getLLMClient(tenantId);
+  if (piiVault) {
+    messages = messages.map(m => ({ ...m, content: mask(m.content) }));
+  }
   
-  const completion = await openai.chat.completions.create({
-    model: agent.model || 'gpt-4o',
+  return {
+    blocked: false,
+    agent,
+    model: policy?.model || agent.model || 'gpt-4o',
+    convId,
     messages,
-    temperature: agent.temperature || 0.7,
-    max_tokens: 2000,
+    evidence,
+    budgetWarnings: budgetCheck.warnings,
+    topicMatch: contractCheck.match,
+    pii: piiVault ? { vault: piiVault, rehydrate: piiPolicy.rehydrate_responses } : undefined,
+    injection,
+    policy,
+    startTime,
+    apiKeyId,
+  };
+}
+
+// Why the answer must be held for review regardless of its content (known before the completion)
+function getUpfrontReviewReason(prepared: Extract<PreparedChat, { blocked: false }>): string | undefined {
+  if (prepared.policy?.decision === 'require_approval') {
+    return `Policy rule ${prepared.policy.rule} requires approval`;
+  }
+  if (prepared.agent.review_mode === 'always') {
+    return 'Agent requires review of every answer';
+  }
+  return undefined;
+}
+
+// Upfront reasons, or output guardrails blocking/changing the answer of an agent that reviews flagged answers
+function getReviewReason(prepared: Extract<PreparedChat, { blocked: false }>, output: OutputCheckResult): string | undefined {
+  return getUpfrontReviewReason(prepared) ||
+    (prepared.agent.review_mode === 'flagged' && output.action !== 'allowed' ? output.reason : undefined);
+}
+
+// What the user sees while their answer waits in the review queue
+function pendingReviewResponse(policy?: PolicyOutcome): string {
+  if (policy?.decision === 'require_approval' && policy.message) {
+    return policy.message;
+  }
+  return 'Your request has been sent for review. The answer will appear in this conversation once a reviewer approves it.';
+}
+
+// How output guardrails put masked values back; without re-hydration the answer keeps its placeholders
+function outputRehydrator(pii?: { vault: PiiVault; rehydrate: boolean }): ((text: string) => string) | undefined {
+  return pii?.rehydrate ? text => rehydratePii(text, pii.vault) : undefined;
+}
+
+// The draft a reviewer sees: the answer as the user would get it, or the raw answer if the guardrails blocked it
+function reviewDraft(response: string, output: OutputCheckResult, pii?: { vault: PiiVault; rehydrate: boolean }): string {
+  if (output.action !== 'blocked') {
+    return output.response;
+  }
+  return pii?.rehydrate ? rehydratePii(response, pii.vault) : response;
+}
+
+// Policy disclaimers go after the answer unless the output guardrails blocked it
+function withDisclaimers(output: OutputCheckResult, policy?: PolicyOutcome): OutputCheckResult {
+  if (!policy || policy.disclaimers.length === 0 || output.action === 'blocked') {
+    return output;
+  }
+  return { ...output, response: `${output.response}\n\n${policy.disclaimers.join('\n')}` };
+}
+
+// Token usage reported by the provider for one completion
+type CompletionUsage = { provider: string; promptTokens: number; completionTokens: number };
+
+// Charge cost, persist both messages and log the decision (including any output guardrail outcome);
+// a held answer goes to the review queue and the conversation gets a placeholder the reviewer's decision replaces
+async function recordChatTurn(
+  prepared: Extract<PreparedChat, { blocked: false }>,
+  message: string,
+  output: OutputCheckResult,
+  usage: CompletionUsage,
+  userId: string,
+  tenantId: string,
+  review?: { reason: string; draft: string }
+): Promise<{ latencyMs: number; reviewId?: string }> {
+  const { agent, model, convId, evidence, topicMatch, pii, injection, policy, startTime, apiKeyId } = prepared;
+  const agentId = agent.id;
+  const response = output.response;
+  const tokensUsed = usage.promptTokens + usage.completionTokens;
+  
+  // Price the completion and charge the agent
+  const cost = await recordUsage({
+    tenantId,
+    agentId,
+    userId,
+    operation: 'chat',
+    provider: usage.provider,
+    model: model,
+    inputTokens: usage.promptTokens,
+    outputTokens: usage.completionTokens,
   });
   
-  const response = completion.choices[0]?.message?.content || 'No response generated.';
-  const tokensUsed = completion.usage?.total_tokens || 0;
-  
-  // Estimate cost (rough estimate: $0.01 per 1000 tokens for GPT-4)
-  const estimatedCost = (tokensUsed / 1000) * 0.01;
-  
-  // Update agent cost
-  await pool.query(
-    'UPDATE agents SET cost_used_today = cost_used_today + $1, updated_at = NOW() WHERE id = $2',
-    [estimatedCost, agentId]
-  );
-  
   // Save messages to database
   const latencyMs = Date.now() - startTime;
   
+  // Create or bump the conversation
+  await touchConversation(convId, tenantId, userId, agentId, model, message);
+  
   // Save user message
+  const agentVersionId = agent.active_version_id || null;
   await pool.query(
-    `INSERT INTO chat_messages (tenant_id, user_id, agent_id, conversation_id, role, content, tokens_used, latency_ms)
-     VALUES ($1, $2, $3, $4, 'user', $5, 0, 0)`,
-    [tenantId, userId, agentId, convId, message]
+    `INSERT INTO chat_messages (tenant_id, user_id, agent_id, conversation_id, role, content, tokens_used, latency_ms, agent_version_id)
+     VALUES ($1, $2, $3, $4, 'user', $5, 0, 0, $6)`,
+    [tenantId, userId, agentId, convId, message, agentVersionId]
   );
   
+  const metadata = {
+    tokensUsed,
+    promptTokens: usage.promptTokens,
+    completionTokens: usage.completionTokens,
+    cost,
+    evidenceCount: evidence.length,
+    mode: agent.mode,
+    topicMatch,
+    outputGuardrails: output.findings.length > 0 ? output.findings : undefined,
+    piiMasked: pii && Object.keys(pii.vault.counts).length > 0 ? pii.vault.counts : undefined,
+    injection: injection.length > 0 ? injection : undefined,
+    model,
+    policy,
+  };
+  
+  if (review) {
+    // Written now so the turn keeps its place in history, memory and the conversation list
+    const placeholder = await pool.query(
+      `INSERT INTO chat_messages (tenant_id, user_id, agent_id, conversation_id, role, content, tokens_used, latency_ms, agent_version_id)
+       VALUES ($1, $2, $3, $4, 'assistant', $5, 0, $6, $7)
+       RETURNING id`,
+      [tenantId, userId, agentId, convId, pendingReviewResponse(policy), latencyMs, agentVersionId]
+    );
+    
+    const reviewId = await createReviewItem({
+      tenantId,
+      agentId,
+      userId,
+      conversationId: convId,
+      message,
+      draftResponse: review.draft,
+      reason: review.reason,
+      evidence,
+      findings: output.findings,
+      tokensUsed,
+      agentVersionId,
+      messageId: placeholder.rows[0].id,
+    });
+    
+    await logDecision(
+      tenantId, userId, agentId, 'chat', 'blocked',
+      `Answer held for review: ${review.reason}`,
+      truncateText(message, 200),
+      truncateText(review.draft, 200),
+      { ...metadata, reviewId },
+      apiKeyId,
+      agentVersionId || undefined
+    );
+    
+    return { latencyMs, reviewId };
+  }
+  
   // Save assistant message with evidence
   await pool.query(
-    `INSERT INTO chat_messages (tenant_id, user_id, agent_id, conversation_id, role, content, tokens_used, latency_ms, evidence)
-     VALUES ($1, $2, $3, $4, 'assistant', $5, $6, $7, $8)`,
-    [tenantId, userId, agentId, convId, response, tokensUsed, latencyMs, JSON.stringify(evidence)]
+    `INSERT INTO chat_messages (tenant_id, user_id, agent_id, conversation_id, role, content, tokens_used, latency_ms, evidence, agent_version_id)
+     VALUES ($1, $2, $3, $4, 'assistant', $5, $6, $7, $8, $9)`,
+    [tenantId, userId, agentId, convId, response, tokensUsed, latencyMs, JSON.stringify(evidence), agentVersionId]
   );
   
+  // Fold older turns into the rolling summary in the background
+  updateConversationSummary(convId, tenantId, userId, agent).catch(error => {
+    console.error('Background conversation summary failed:', error);
+  });
+  
   // Log decision
   await logDecision(
-    tenantId, userId, agentId, 'chat', 'allowed', 
-    `Response generated with ${evidence.length} evidence sources`,
+    tenantId, userId, agentId, 'chat', output.action, 
+    output.reason || `Response generated with ${evidence.length} evidence sources`,
     truncateText(message, 200),
     truncateText(response, 200),
-    { tokensUsed, evidenceCount: evidence.length, mode: agent.mode }
+    metadata,
+    apiKeyId,
+    agentVersionId || undefined
   );
   
+  return { latencyMs };
+}
+
+// Main chat function
+export async function chat(
+  message: string,
+  agentId: string,
+  userId: string,
+  tenantId: string,
+  conversationId?: string,
+  apiKeyId?: string
+): Promise<ChatResponse> {
+  const prepared = await prepareChat(message, agentId, userId, tenantId, conversationId, apiKeyId);
+  if (prepared.blocked) {
+    return prepared.result;
+  }
+  
+  const { agent, model, convId, messages, evidence, budgetWarnings, policy } = prepared;
+  
+  // Call LLM
+  const { client: openai, provider } = await resolveLLMProvider(tenantId);
+  
+  const completion = await openai.chat.completions.create({
+    model: model,
+    messages,
+    temperature: agent.temperature || 0.7,
+    max_tokens: 2000,
+  });
+  
+  const response = completion.choices[0]?.message?.content || 'No response generated.';
+  const tokensUsed = completion.usage?.total_tokens || 0;
+  
+  // Output guardrails
+  const output = withDisclaimers(await checkOutput(response, agent, evidence, userId, outputRehydrator(prepared.pii)), policy);
+  
+  const reviewReason = getReviewReason(prepared, output);
+  const { latencyMs, reviewId } = await recordChatTurn(prepared, message, output, {
+    provider,
+    promptTokens: completion.usage?.prompt_tokens || 0,
+    completionTokens: completion.usage?.completion_tokens || 0,
+  }, userId, tenantId, reviewReason ? { reason: reviewReason, draft: reviewDraft(response, output, prepared.pii) } : undefined);
+  
+  if (reviewId) {
+    return {
+      response: pendingReviewResponse(policy),
+      conversationId: convId,
+      tokensUsed,
+      latencyMs,
+      budgetWarnings: budgetWarnings.length > 0 ? budgetWarnings : undefined,
+      reviewId,
+    };
+  }
+  
+  return {
+    response: output.response,
+    conversationId: convId,
+    tokensUsed,
+    latencyMs,
+    evidence,
+    blocked: output.action === 'blocked' || undefined,
+    blockReason: output.action === 'blocked' ? output.reason : undefined,
+    budgetWarnings: budgetWarnings.length > 0 ? budgetWarnings : undefined,
+    guardrails: output.findings.length > 0 ? output.findings : undefined,
+  };
+}
+
+// Streaming chat: same governance as chat(), but emits token deltas as they arrive
+export async function chatStream(
+  message: string,
+  agentId: string,
+  userId: string,
+  tenantId: string,
+  onEvent: (event: ChatStreamEvent) => void,
+  conversationId?: string,
+  apiKeyId?: string
+): Promise<ChatResponse> {
+  const prepared = await prepareChat(message, agentId, userId, tenantId, conversationId, apiKeyId);
+  if (prepared.blocked) {
+    onEvent({
+      type: 'blocked',
+      response: prepared.result.response,
+      conversationId: prepared.result.conversationId,
+      blockReason: prepared.result.blockReason,
+    });
+    return prepared.result;
+  }
+  
+  const { agent, model, convId, messages, evidence, budgetWarnings, policy } = prepared;
+  
+  // Call LLM
+  const { client: openai, provider } = await resolveLLMProvider(tenantId);
+  
+  const stream = await openai.chat.completions.create({
+    model: model,
+    messages,
+    temperature: agent.temperature || 0.7,
+    max_tokens: 2000,
+    stream: true,
+    stream_options: { include_usage: true },
+  });
+  
+  let response = '';
+  let promptTokens = 0;
+  let completionTokens = 0;
+  
+  // Answers that may be held for review, or that a guardrail may block or redact, are sent only after the checks
+  const bufferAnswer = getUpfrontReviewReason(prepared) !== undefined || agent.review_mode === 'flagged' || !canStreamOutput(agent);
+  let streamed = '';
+  
+  // Live answers cannot be blocked or redacted, so they are re-hydrated as they arrive
+  const rehydrator = !bufferAnswer && prepared.pii?.rehydrate ? createPiiRehydrator(prepared.pii.vault) : null;
+  
+  for await (const chunk of stream) {
+    const raw = chunk.choices[0]?.delta?.content;
+    if (raw) {
+      response += raw;
+      
+      const delta = rehydrator ? rehydrator.push(raw) : raw;
+      if (!bufferAnswer && delta) {
+        streamed += delta;
+        onEvent({ type: 'token', delta });
+      }
+    }
+    
+    // Usage arrives on the final chunk when include_usage is set
+    if (chunk.usage) {
+      promptTokens = chunk.usage.prompt_tokens;
+      completionTokens = chunk.usage.completion_tokens;
+    }
+  }
+  
+  const tail = rehydrator?.flush();
+  if (tail) {
+    streamed += tail;
+    onEvent({ type: 'token', delta: tail });
+  }
+  
+  if (!response) {
+    response = 'No response generated.';
+  }
+  
+  // Output guardrails run on the complete answer; a streamed answer can only gain notes or disclaimers
+  const output = withDisclaimers(await checkOutput(response, agent, evidence, userId, outputRehydrator(prepared.pii)), policy);
+  const reviewReason = getReviewReason(prepared, output);
+  
+  const tokensUsed = promptTokens + completionTokens;
+  const { latencyMs, reviewId } = await recordChatTurn(prepared, message, output, {
+    provider,
+    promptTokens,
+    completionTokens,
+  }, userId, tenantId, reviewReason ? { reason: reviewReason, draft: reviewDraft(response, output, prepared.pii) } : undefined);
+  
+  if (reviewId) {
+    onEvent({ type: 'review', response: pendingReviewResponse(policy), reviewId });
+  } else {
+    onEvent({ type: 'evidence', evidence });
+    
+    if (output.action !== 'allowed') {
+      onEvent({ type: 'guardrail', action: output.action, response: output.response, findings: output.findings });
+    } else if (output.response !== streamed) {
+      onEvent({ type: 'token', delta: output.response.slice(streamed.length) });
+    }
+  }
+  
+  onEvent({
+    type: 'done',
+    conversationId: convId,
+    tokensUsed,
+    latencyMs,
+    budgetWarnings: budgetWarnings.length > 0 ? budgetWarnings : undefined,
+  });
+  
+  if (reviewId) {
+    return {
+      response: pendingReviewResponse(policy),
+      conversationId: convId,
+      tokensUsed,
+      latencyMs,
+      budgetWarnings: budgetWarnings.length > 0 ? budgetWarnings : undefined,
+      reviewId,
+    };
+  }
+  
   return {
-    response,
+    response: output.response,
     conversationId: convId,
     tokensUsed,
     latencyMs,
     evidence,
+    blocked: output.action === 'blocked' || undefined,
+    blockReason: output.action === 'blocked' ? output.reason : undefined,
+    budgetWarnings: budgetWarnings.length > 0 ? budgetWarnings : undefined,
+    guardrails: output.findings.length > 0 ? output.findings : undefined,
   };
 }
 
@@ -302,6 +760,19 @@ export async function chatWithDocument(
   
   const agent = agentResult.rows[0] as Agent;
   
+  if (!(await canUseAgent(agentId, userId, tenantId))) {
+    await logDecision(tenantId, userId, agentId, 'chat_document', 'blocked', 'User is not allowed to use this agent', message);
+    
+    return {
+      response: 'You do not have access to this agent. Please contact an administrator.',
+      conversationId: uuidv4(),
+      tokensUsed: 0,
+      latencyMs: Date.now() - startTime,
+      blocked: true,
+      blockReason: 'User is not allowed to use this agent',
+    };
+  }
+  
   // Check kill switch
   if (agent.kill_switch) {
     return {
@@ -314,16 +785,51 @@ export async function chatWithDocument(
     };
   }
   
+  const budgetCheck = await checkSpendLimits(agent, tenantId, userId);
+  if (!budgetCheck.allowed) {
+    await logDecision(tenantId, userId, agentId, 'chat_document', 'blocked', budgetCheck.reason, message);
+    
+    return {
+      response: budgetCheck.response,
+      conversationId: uuidv4(),
+      tokensUsed: 0,
+      latencyMs: Date.now() - startTime,
+      blocked: true,
+      blockReason: budgetCheck.reason,
+    };
+  }
+  
+  if (budgetCheck.warnings.length > 0) {
+    await logDecision(
+      tenantId, userId, agentId, 'chat_document', 'modified',
+      budgetCheck.warnings.join('; '),
+      message,
+      undefined,
+      { budgetWarnings: budgetCheck.warnings }
+    );
+  }
+  
   // Build prompt with document content
-  const systemPrompt = `${agent.system_prompt || 'You are a helpful AI assistant.'}\n\n## Uploaded Document Content\n${documentContent.slice(0, 10000)}`;
+  const systemPrompt = `${agent.system_prompt || 'You are a helpful AI assistant.'}\n\n## Uploaded Document Content\n${UNTRUSTED_CONTEXT_NOTICE}\n\n${formatUntrustedContext([{
+    document_id: 'uploaded',
+    document_name: 'Uploaded Document',
+    document_version: 1,
+    chunk_text: documentContent.slice(0, 10000),
+    chunk_index: 0,
+    similarity_score: 1.0,
+  }])}`;
   
-  const openai = await getLLMClient(tenantId);
+  const piiPolicy = await getPiiPolicy(tenantId);
+  const piiVault = piiPolicy.mask_prompts ? createPiiVault() : undefined;
+  const mask = (text: string) => (piiVault ? maskPii(text, piiVault, piiPolicy) : text);
+  
+  const { client: openai, provider } = await resolveLLMProvider(tenantId);
   
   const completion = await openai.chat.completions.create({
     model: agent.model || 'gpt-4o',
     messages: [
-      { role: 'system', content: systemPrompt },
-      { role: 'user', content: message },
+      { role: 'system', content: mask(systemPrompt) },
+      { role: 'user', content: mask(message) },
     ],
     temperature: agent.temperature || 0.7,
     max_tokens: 2000,
@@ -332,11 +838,40 @@ export async function chatWithDocument(
   const response = completion.choices[0]?.message?.content || 'No response generated.';
   const tokensUsed = completion.usage?.total_tokens || 0;
   
+  await recordUsage({
+    tenantId,
+    agentId,
+    userId,
+    operation: 'chat_document',
+    provider,
+    model: agent.model || 'gpt-4o',
+    inputTokens: completion.usage?.prompt_tokens || 0,
+    outputTokens: completion.usage?.completion_tokens || 0,
+  });
+  
+  // Output guardrails (no knowledge-base evidence, so citations are not checked)
+  const output = await checkOutput(
+    response, agent, [], userId,
+    outputRehydrator(piiVault ? { vault: piiVault, rehydrate: piiPolicy.rehydrate_responses } : undefined)
+  );
+  if (output.action !== 'allowed') {
+    await logDecision(
+      tenantId, userId, agentId, 'chat_document', output.action, output.reason!,
+      truncateText(message, 200),
+      truncateText(output.response, 200),
+      { outputGuardrails: output.findings }
+    );
+  }
+  
   return {
-    response,
+    response: output.response,
     conversationId: uuidv4(),
     tokensUsed,
     latencyMs: Date.now() - startTime,
+    blocked: output.action === 'blocked' || undefined,
+    blockReason: output.action === 'blocked' ? output.reason : undefined,
+    budgetWarnings: budgetCheck.warnings.length > 0 ? budgetCheck.warnings : undefined,
+    guardrails: output.findings.length > 0 ? output.findings : undefined,
     evidence: [{
       document_id: 'uploaded',
       document_name: 'Uploaded Document',
@@ -347,3 +882,68 @@ export async function chatWithDocument(
     }],
   };
 }
+
+// Run sample messages through the same pre-flight checks as chat() without calling the model,
+// logging decisions, quarantining chunks or charging usage
+export async function simulateChat(
+  messages: string[],
+  agentId: string,
+  userId: string,
+  tenantId: string
+): Promise<SimulationResult[]> {
+  return withoutUsageRecording(async () => {
+    const results: SimulationResult[] = [];
+    
+    for (const message of messages) {
+      // The last blocked decision carries the reason and the check's metadata
+      let blockedMetadata: Record<string, any> = {};
+      let budgetWarnings: string[] = [];
+      const capture: typeof logDecision = async (_t, _u, _a, _action, decision, _reason, _input, _output, metadata = {}) => {
+        if (decision === 'blocked') {
+          blockedMetadata = metadata;
+        } else if (metadata.budgetWarnings) {
+          budgetWarnings = metadata.budgetWarnings;
+        }
+      };
+      
+      const prepared = await prepareChat(message, agentId, userId, tenantId, undefined, undefined, { log: capture, dryRun: true });
+      const evidence = prepared.evidence || [];
+      const scores = evidence.map(e => ({
+        documentId: e.document_id,
+        documentName: e.document_name,
+        chunkIndex: e.chunk_index,
+        similarity: e.similarity_score,
+      }));
+      
+      if (prepared.blocked) {
+        results.push({
+          message,
+          decision: 'blocked',
+          reason: prepared.result.blockReason,
+          response: prepared.result.response,
+          evidence: scores,
+          topicMatch: blockedMetadata.topicMatch,
+          injection: blockedMetadata.injection,
+          policy: blockedMetadata.policy,
+          budgetWarnings,
+        });
+        continue;
+      }
+      
+      const reviewReason = getUpfrontReviewReason(prepared);
+      results.push({
+        message,
+        decision: reviewReason ? 'review' : 'allowed',
+        reason: reviewReason,
+        evidence: scores,
+        topicMatch: prepared.topicMatch,
+        injection: prepared.injection.length > 0 ? prepared.injection : undefined,
+        policy: prepared.policy,
+        model: prepared.model,
+        budgetWarnings: prepared.budgetWarnings,
+      });
+    }
+    
+    return results;
+  });
+}
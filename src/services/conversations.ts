@@ -0,0 +1,142 @@
+import { pool } from '../db/index.js';
+import { resolveLLMProvider } from './llm.js';
+import { recordUsage } from './pricing.js';
+import { createPiiMasker } from './pii.js';
+import { truncateText } from '../utils/index.js';
+
+const TITLE_MAX_LENGTH = 80;
+
+// Raised when a conversation cannot be continued by the caller
+export class ConversationAccessError extends Error {
+  constructor(message: string, public status: 404 | 409) {
+    super(message);
+    this.name = 'ConversationAccessError';
+  }
+}
+
+// Verify the caller owns the conversation and that it is bound to the same agent.
+// Unknown ids are allowed so clients can start a conversation with their own UUID.
+export async function assertConversationAccess(
+  conversationId: string,
+  tenantId: string,
+  userId: string,
+  agentId: string
+): Promise<void> {
+  let result = await pool.query(
+    'SELECT tenant_id, user_id, agent_id FROM conversations WHERE id = $1',
+    [conversationId]
+  );
+  
+  // Conversations created before the conversations table was maintained only exist as messages
+  if (result.rows.length === 0) {
+    result = await pool.query(
+      'SELECT tenant_id, user_id, agent_id FROM chat_messages WHERE conversation_id = $1 ORDER BY created_at ASC LIMIT 1',
+      [conversationId]
+    );
+  }
+  
+  if (result.rows.length === 0) {
+    return;
+  }
+  
+  const owner = result.rows[0];
+  
+  // Same response for other tenants and other users so ids cannot be probed
+  if (owner.tenant_id !== tenantId || owner.user_id !== userId) {
+    throw new ConversationAccessError('Conversation not found', 404);
+  }
+  
+  if (owner.agent_id !== agentId) {
+    throw new ConversationAccessError('Conversation belongs to a different agent', 409);
+  }
+}
+
+// Derive a title from the first user message
+export function buildConversationTitle(message: string): string {
+  const firstLine = message.trim().split('\n')[0].replace(/\s+/g, ' ');
+  return truncateText(firstLine || 'New conversation', TITLE_MAX_LENGTH);
+}
+
+// Ask the LLM for a short title and replace the placeholder title
+async function summarizeConversationTitle(
+  conversationId: string,
+  tenantId: string,
+  userId: string,
+  agentId: string,
+  model: string,
+  message: string,
+  placeholderTitle: string
+): Promise<void> {
+  try {
+    const pii = await createPiiMasker(tenantId);
+    const { client: openai, provider } = await resolveLLMProvider(tenantId);
+    
+    const completion = await openai.chat.completions.create({
+      model,
+      messages: [
+        { role: 'system', content: 'Summarize the user message as a conversation title of at most 6 words. Reply with the title only, without quotes or punctuation at the end.' },
+        { role: 'user', content: pii.mask(message.slice(0, 2000)) },
+      ],
+      temperature: 0.2,
+      max_tokens: 20,
+    });
+    
+    await recordUsage({
+      tenantId,
+      agentId,
+      userId,
+      operation: 'title',
+      provider,
+      model,
+      inputTokens: completion.usage?.prompt_tokens || 0,
+      outputTokens: completion.usage?.completion_tokens || 0,
+    });
+    
+    const title = completion.choices[0]?.message?.content?.trim().replace(/^["']|["']$/g, '');
+    if (!title) return;
+    
+    // Only overwrite the placeholder, never a title the user already renamed
+    await pool.query(
+      'UPDATE conversations SET title = $1 WHERE id = $2 AND title = $3',
+      [truncateText(pii.unmask(title), TITLE_MAX_LENGTH), conversationId, placeholderTitle]
+    );
+  } catch (error) {
+    console.error('Error generating conversation title:', error);
+    // Keep the placeholder title
+  }
+}
+
+// Create the conversation on its first turn, otherwise bump updated_at
+export async function touchConversation(
+  conversationId: string,
+  tenantId: string,
+  userId: string,
+  agentId: string,
+  model: string,
+  message: string
+): Promise<void> {
+  const updated = await pool.query(
+    'UPDATE conversations SET updated_at = NOW() WHERE id = $1 AND tenant_id = $2 AND user_id = $3 RETURNING id',
+    [conversationId, tenantId, userId]
+  );
+  
+  if (updated.rows.length > 0) {
+    return;
+  }
+  
+  const title = buildConversationTitle(message);
+  
+  await pool.query(
+    `INSERT INTO conversations (id, tenant_id, user_id, agent_id, title)
+     VALUES ($1, $2, $3, $4, $5)
+     ON CONFLICT (id) DO NOTHING`,
+    [conversationId, tenantId, userId, agentId, title]
+  );
+  
+  // Optionally replace the title with an LLM summary in the background
+  if (process.env.CONVERSATION_TITLE_MODE === 'llm') {
+    summarizeConversationTitle(conversationId, tenantId, userId, agentId, model, message, title).catch(error => {
+      console.error('Background title generation failed:', error);
+    });
+  }
+}
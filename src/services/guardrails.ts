@@ -0,0 +1,134 @@
+import { checkForbiddenTopics } from './topics.js';
+import { ALL_PII_TYPES, detectPii, redactPii } from './pii.js';
+import { Agent, GuardrailFinding, OutputGuardrails, RAGEvidence } from '../types/index.js';
+
+// Every check is opt-in per agent
+export const DEFAULT_OUTPUT_GUARDRAILS: OutputGuardrails = {
+  forbidden_topics: 'off',
+  pii: 'off',
+  pii_types: ALL_PII_TYPES,
+  deny_patterns: [],
+  citations: 'off',
+};
+
+const BLOCKED_RESPONSE = 'I cannot provide this response as it does not meet this agent\'s output policy.';
+
+export interface OutputCheckResult {
+  action: 'allowed' | 'modified' | 'blocked';
+  response: string;
+  findings: GuardrailFinding[];
+  reason?: string;
+}
+
+export function getOutputGuardrails(agent: Agent): OutputGuardrails {
+  return { ...DEFAULT_OUTPUT_GUARDRAILS, ...agent.output_guardrails };
+}
+
+// Answers may be streamed as they are generated only when no check can block or redact them
+export function canStreamOutput(agent: Agent): boolean {
+  const config = getOutputGuardrails(agent);
+  const actions = [config.forbidden_topics, config.pii, config.citations, ...config.deny_patterns.map(d => d.action)];
+  return actions.every(action => action === 'off' || action === 'annotate');
+}
+
+function describeFinding(finding: GuardrailFinding): string {
+  switch (finding.check) {
+    case 'forbidden_topic':
+      return `Response matches forbidden topic: "${finding.detail}"`;
+    case 'pii':
+      return `Response contains personal data (${finding.detail})`;
+    case 'deny_pattern':
+      return `Response matches deny-list entry: "${finding.detail}"`;
+    case 'citation':
+      return 'Response does not cite any evidence document';
+  }
+}
+
+// A document counts as cited if the answer names it, with or without its file extension
+function citesEvidence(response: string, evidence: RAGEvidence[]): boolean {
+  const lower = response.toLowerCase();
+  return evidence.some(e => {
+    const name = e.document_name.toLowerCase();
+    return lower.includes(name) || lower.includes(name.replace(/\.[a-z0-9]+$/, ''));
+  });
+}
+
+// Post-generation checks: forbidden topics, deny-list patterns, PII and (INTERNAL mode) citations.
+// Any blocking finding replaces the whole answer; otherwise redactions and notes are applied.
+// For a PII-masked answer, rehydrate restores the original values: the topic check (which calls the
+// embedding provider) still sees placeholders, the local checks judge what the user would receive.
+export async function checkOutput(
+  response: string,
+  agent: Agent,
+  evidence: RAGEvidence[],
+  userId: string,
+  rehydrate: (text: string) => string = text => text
+): Promise<OutputCheckResult> {
+  const config = getOutputGuardrails(agent);
+  const findings: GuardrailFinding[] = [];
+  const notes: string[] = [];
+  
+  if (config.forbidden_topics !== 'off') {
+    const match = await checkForbiddenTopics(response, agent, userId);
+    if (match) {
+      findings.push({ check: 'forbidden_topic', action: config.forbidden_topics, detail: match.topic, score: match.score });
+      if (config.forbidden_topics === 'annotate') {
+        notes.push(`This answer touches on a restricted topic (${match.topic}).`);
+      }
+    }
+  }
+  
+  let text = rehydrate(response);
+  
+  for (const deny of config.deny_patterns) {
+    const regex = new RegExp(deny.pattern, 'gi');
+    const count = text.match(regex)?.length || 0;
+    if (count === 0) continue;
+    
+    const label = deny.label || deny.pattern;
+    findings.push({ check: 'deny_pattern', action: deny.action, detail: label, count });
+    
+    if (deny.action === 'redact') {
+      text = text.replace(regex, '[REDACTED]');
+    } else if (deny.action === 'annotate') {
+      notes.push(`This answer contains content flagged by policy (${label}).`);
+    }
+  }
+  
+  if (config.pii !== 'off') {
+    const matches = detectPii(text, config.pii_types);
+    if (matches.length > 0) {
+      const types = [...new Set(matches.map(m => m.type))];
+      findings.push({ check: 'pii', action: config.pii, detail: types.join(', '), count: matches.length });
+      
+      if (config.pii === 'redact') {
+        text = redactPii(text, config.pii_types).text;
+      } else if (config.pii === 'annotate') {
+        notes.push('This answer may contain personal data.');
+      }
+    }
+  }
+  
+  if (agent.mode === 'INTERNAL' && config.citations !== 'off' && evidence.length > 0 && !citesEvidence(response, evidence)) {
+    findings.push({ check: 'citation', action: config.citations, detail: 'no evidence document cited' });
+    if (config.citations === 'annotate') {
+      notes.push('This answer does not cite a source document; verify it against the knowledge base.');
+    }
+  }
+  
+  if (findings.length === 0) {
+    return { action: 'allowed', response: text, findings };
+  }
+  
+  const reason = findings.map(describeFinding).join('; ');
+  
+  if (findings.some(f => f.action === 'block')) {
+    return { action: 'blocked', response: BLOCKED_RESPONSE, findings, reason };
+  }
+  
+  if (notes.length > 0) {
+    text += `\n\n---\n${notes.map(note => `_Note: ${note}_`).join('\n')}`;
+  }
+  
+  return { action: 'modified', response: text, findings, reason };
+}
@@ -0,0 +1,85 @@
+import { v4 as uuidv4 } from 'uuid';
+import { pool } from '../db/index.js';
+import { hashToken } from '../utils/index.js';
+import { UserRole } from '../types/index.js';
+
+// Raised when an invitation token cannot be redeemed
+export class InvitationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'InvitationError';
+  }
+}
+
+// Tenant an invitation token belongs to, so its password policy can be applied before redeeming
+export async function getInvitationTenantId(token: string): Promise<string | null> {
+  const result = await pool.query('SELECT tenant_id FROM invitations WHERE token_hash = $1', [hashToken(token)]);
+  return result.rows[0]?.tenant_id || null;
+}
+
+// Create a user from an invitation token. The invitation row is locked so that
+// concurrent registrations cannot exceed max_uses.
+export async function redeemInvitation(
+  token: string,
+  email: string,
+  passwordHash: string
+): Promise<{ userId: string; tenantId: string; role: UserRole; isApproved: boolean }> {
+  const client = await pool.connect();
+  
+  try {
+    await client.query('BEGIN');
+    
+    const result = await client.query(
+      `SELECT i.*, t.is_active as tenant_active
+       FROM invitations i JOIN tenants t ON i.tenant_id = t.id
+       WHERE i.token_hash = $1
+       FOR UPDATE OF i`,
+      [hashToken(token)]
+    );
+    
+    const invitation = result.rows[0];
+    
+    if (
+      !invitation ||
+      invitation.revoked_at ||
+      new Date(invitation.expires_at) <= new Date() ||
+      invitation.use_count >= invitation.max_uses
+    ) {
+      throw new InvitationError('Invalid or expired invitation');
+    }
+    
+    if (!invitation.tenant_active) {
+      throw new InvitationError('Tenant is suspended');
+    }
+    
+    if (invitation.email && invitation.email.toLowerCase() !== email.toLowerCase()) {
+      throw new InvitationError('Invitation was issued for a different email address');
+    }
+    
+    const userId = uuidv4();
+    await client.query(
+      `INSERT INTO users (id, tenant_id, email, password_hash, role, is_approved, is_active, invitation_id)
+       VALUES ($1, $2, $3, $4, $5, $6, true, $7)`,
+      [userId, invitation.tenant_id, email, passwordHash, invitation.role, invitation.auto_approve, invitation.id]
+    );
+    
+    await client.query(
+      'UPDATE invitations SET use_count = use_count + 1 WHERE id = $1',
+      [invitation.id]
+    );
+    
+    await client.query('COMMIT');
+    
+    return {
+      userId,
+      tenantId: invitation.tenant_id,
+      role: invitation.role,
+      isApproved: invitation.auto_approve,
+    };
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
+  }
+}
@@ -0,0 +1,33 @@
+import OpenAI from 'openai';
+import { pool } from '../db/index.js';
+import { decrypt } from '../utils/index.js';
+
+// Resolve the tenant's LLM client together with the provider name used for pricing
+export async function resolveLLMProvider(tenantId: string): Promise<{ client: OpenAI; provider: string }> {
+  // Try to get tenant's default provider
+  const providerResult = await pool.query(
+    'SELECT * FROM llm_providers WHERE tenant_id = $1 AND is_default = true AND is_active = true LIMIT 1',
+    [tenantId]
+  );
+  
+  if (providerResult.rows.length > 0) {
+    const provider = providerResult.rows[0];
+    const apiKey = decrypt(provider.api_key_encrypted);
+    
+    return {
+      client: new OpenAI({
+        apiKey,
+        baseURL: provider.base_url || undefined,
+      }),
+      provider: provider.name,
+    };
+  }
+  
+  // Fallback to environment variable
+  return {
+    client: new OpenAI({
+      apiKey: process.env.OPENAI_API_KEY,
+    }),
+    provider: 'openai',
+  };
+}
@@ -1,5 +1,6 @@
 import { Request } from 'express';
 import { pool } from '../db/index.js';
+import { getPiiPolicy, redactPii } from './pii.js';
 
 // Log a decision (append-only)
 export async function logDecision(
@@ -11,13 +12,26 @@ export async function logDecision(
   reason: string,
   inputPreview: string,
   outputPreview?: string,
-  metadata: Record<string, any> = {}
+  metadata: Record<string, any> = {},
+  apiKeyId?: string,
+  agentVersionId?: string
 ): Promise<void> {
   try {
+    // Previews are masked unless the tenant's PII policy turns that off
+    const piiPolicy = await getPiiPolicy(tenantId);
+    if (piiPolicy.mask_logs) {
+      inputPreview = redactPii(inputPreview, piiPolicy.types, piiPolicy.custom_patterns).text;
+      outputPreview = outputPreview && redactPii(outputPreview, piiPolicy.types, piiPolicy.custom_patterns).text;
+    }
+    
+    // Without an explicit version the entry is stamped with the agent's active version
     await pool.query(
-      `INSERT INTO decision_logs (tenant_id, user_id, agent_id, action, decision, reason, input_preview, output_preview, metadata)
-       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)`,
-      [tenantId, userId, agentId, action, decision, reason, inputPreview, outputPreview || null, JSON.stringify(metadata)]
+      `INSERT INTO decision_logs (tenant_id, user_id, agent_id, action, decision, reason, input_preview, output_preview, metadata, api_key_id, agent_version_id)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, COALESCE($11, (SELECT active_version_id FROM agents WHERE id = $3)))`,
+      [
+        tenantId, userId, agentId, action, decision, reason, inputPreview, outputPreview || null,
+        JSON.stringify(metadata), apiKeyId || null, agentVersionId || null
+      ]
     );
   } catch (error) {
     console.error('Error logging decision:', error);
@@ -63,6 +77,8 @@ export async function getDecisionLogs(
   filters: {
     userId?: string;
     agentId?: string;
+    apiKeyId?: string;
+    agentVersionId?: string;
     decision?: string;
     startDate?: Date;
     endDate?: Date;
@@ -71,10 +87,12 @@ export async function getDecisionLogs(
   } = {}
 ): Promise<any[]> {
   let query = `
-    SELECT dl.*, u.email as user_email, a.name as agent_name
+    SELECT dl.*, u.email as user_email, a.name as agent_name, k.name as api_key_name, av.version as agent_version
     FROM decision_logs dl
     JOIN users u ON dl.user_id = u.id
     JOIN agents a ON dl.agent_id = a.id
+    LEFT JOIN api_keys k ON dl.api_key_id = k.id
+    LEFT JOIN agent_versions av ON dl.agent_version_id = av.id
     WHERE dl.tenant_id = $1
   `;
   const params: any[] = [tenantId];
@@ -90,6 +108,16 @@ export async function getDecisionLogs(
     params.push(filters.agentId);
   }
   
+  if (filters.apiKeyId) {
+    query += ` AND dl.api_key_id = $${paramIndex++}`;
+    params.push(filters.apiKeyId);
+  }
+  
+  if (filters.agentVersionId) {
+    query += ` AND dl.agent_version_id = $${paramIndex++}`;
+    params.push(filters.agentVersionId);
+  }
+  
   if (filters.decision) {
     query += ` AND dl.decision = $${paramIndex++}`;
     params.push(filters.decision);
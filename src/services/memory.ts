@@ -0,0 +1,149 @@
+import { pool } from '../db/index.js';
+import { resolveLLMProvider } from './llm.js';
+import { recordUsage } from './pricing.js';
+import { createPiiMasker } from './pii.js';
+import { Agent, Conversation } from '../types/index.js';
+
+type MemoryMessage = { role: 'user' | 'assistant'; content: string; created_at: Date };
+
+// Upper bound on messages loaded per request; older turns live in the summary
+const MAX_UNSUMMARIZED_MESSAGES = 200;
+
+// Share of the budget kept verbatim after summarizing, so we don't summarize on every turn
+const RETAIN_AFTER_SUMMARY = 0.5;
+
+// Rough token estimate (~4 characters per token for English text)
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+// Load the stored summary and all messages newer than it (oldest first)
+async function loadUnsummarized(
+  conversationId: string,
+  tenantId: string,
+  userId: string
+): Promise<{ summary: string | null; messages: MemoryMessage[] }> {
+  const convResult = await pool.query(
+    'SELECT summary, summarized_until FROM conversations WHERE id = $1 AND tenant_id = $2 AND user_id = $3',
+    [conversationId, tenantId, userId]
+  );
+  const conversation = convResult.rows[0] as Pick<Conversation, 'summary' | 'summarized_until'> | undefined;
+  
+  const historyResult = await pool.query(
+    `SELECT role, content, created_at FROM chat_messages
+     WHERE conversation_id = $1 AND tenant_id = $2 AND user_id = $3
+       AND ($4::timestamp IS NULL OR created_at > $4)
+     ORDER BY created_at DESC
+     LIMIT $5`,
+    [conversationId, tenantId, userId, conversation?.summarized_until || null, MAX_UNSUMMARIZED_MESSAGES]
+  );
+  
+  return {
+    summary: conversation?.summary || null,
+    messages: (historyResult.rows as MemoryMessage[]).reverse(),
+  };
+}
+
+// Split messages into the most recent ones that fit the budget and the older overflow
+function splitByBudget(
+  messages: MemoryMessage[],
+  budget: number
+): { recent: MemoryMessage[]; overflow: MemoryMessage[] } {
+  let used = 0;
+  let cut = messages.length;
+  
+  for (let i = messages.length - 1; i >= 0; i--) {
+    const tokens = estimateTokens(messages[i].content);
+    if (used + tokens > budget) break;
+    used += tokens;
+    cut = i;
+  }
+  
+  return { recent: messages.slice(cut), overflow: messages.slice(0, cut) };
+}
+
+// Build conversation memory for the prompt: summary of older turns plus the most recent turns within budget
+export async function buildConversationMemory(
+  conversationId: string,
+  tenantId: string,
+  userId: string,
+  agent: Agent
+): Promise<{ summary: string | null; messages: { role: 'user' | 'assistant'; content: string }[] }> {
+  const { summary, messages } = await loadUnsummarized(conversationId, tenantId, userId);
+  
+  const budget = agent.memory_token_budget - (summary ? estimateTokens(summary) : 0);
+  const { recent } = splitByBudget(messages, Math.max(budget, 0));
+  
+  return {
+    summary,
+    messages: recent.map(m => ({ role: m.role, content: m.content })),
+  };
+}
+
+// Fold turns that no longer fit the agent's budget into the stored rolling summary
+export async function updateConversationSummary(
+  conversationId: string,
+  tenantId: string,
+  userId: string,
+  agent: Agent
+): Promise<void> {
+  try {
+    const { summary, messages } = await loadUnsummarized(conversationId, tenantId, userId);
+    
+    const total = messages.reduce((sum, m) => sum + estimateTokens(m.content), 0);
+    if (total <= agent.memory_token_budget) {
+      return;
+    }
+    
+    const { overflow } = splitByBudget(messages, Math.floor(agent.memory_token_budget * RETAIN_AFTER_SUMMARY));
+    if (overflow.length === 0) {
+      return;
+    }
+    
+    const transcript = overflow
+      .map(m => `${m.role === 'user' ? 'User' : 'Assistant'}: ${m.content}`)
+      .join('\n\n');
+    
+    const pii = await createPiiMasker(tenantId);
+    const { client: openai, provider } = await resolveLLMProvider(tenantId);
+    
+    const completion = await openai.chat.completions.create({
+      model: agent.model || 'gpt-4o',
+      messages: [
+        {
+          role: 'system',
+          content: 'You maintain a running summary of a support conversation. Merge the existing summary with the new turns into a concise summary that keeps facts, decisions, open questions and user preferences. Reply with the summary only.',
+        },
+        {
+          role: 'user',
+          content: pii.mask(`## Existing Summary\n${summary || '(none)'}\n\n## New Turns\n${transcript}`),
+        },
+      ],
+      temperature: 0.2,
+      max_tokens: 500,
+    });
+    
+    await recordUsage({
+      tenantId,
+      agentId: agent.id,
+      userId,
+      operation: 'summary',
+      provider,
+      model: agent.model || 'gpt-4o',
+      inputTokens: completion.usage?.prompt_tokens || 0,
+      outputTokens: completion.usage?.completion_tokens || 0,
+    });
+    
+    const newSummary = completion.choices[0]?.message?.content?.trim();
+    if (!newSummary) return;
+    
+    // Stored with the original values; later prompts mask the summary again with their own placeholders
+    await pool.query(
+      'UPDATE conversations SET summary = $1, summarized_until = $2 WHERE id = $3 AND tenant_id = $4 AND user_id = $5',
+      [pii.unmask(newSummary), overflow[overflow.length - 1].created_at, conversationId, tenantId, userId]
+    );
+  } catch (error) {
+    console.error('Error updating conversation summary:', error);
+    // Older turns stay unsummarized and are retried on the next turn
+  }
+}
@@ -0,0 +1,203 @@
+import crypto from 'crypto';
+import jwt from 'jsonwebtoken';
+import { pool } from '../db/index.js';
+import { encrypt, decrypt, hashToken } from '../utils/index.js';
+import { UserRole } from '../types/index.js';
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+const TOTP_PERIOD_SECONDS = 30;
+const TOTP_DIGITS = 6;
+const TOTP_WINDOW = 1; // accept one step of clock drift either way
+const RECOVERY_CODE_COUNT = 10;
+
+export type MfaTokenPurpose = 'mfa_verify' | 'mfa_enroll';
+
+function base32Encode(buffer: Buffer): string {
+  let bits = 0;
+  let value = 0;
+  let output = '';
+  
+  for (const byte of buffer) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+  
+  return output;
+}
+
+function base32Decode(input: string): Buffer {
+  const clean = input.toUpperCase().replace(/=+$/, '').replace(/\s/g, '');
+  const bytes: number[] = [];
+  let bits = 0;
+  let value = 0;
+  
+  for (const char of clean) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) continue;
+    value = (value << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+  
+  return Buffer.from(bytes);
+}
+
+// RFC 4226 HOTP value for one counter
+function hotp(secret: Buffer, counter: number): string {
+  const buffer = Buffer.alloc(8);
+  buffer.writeBigUInt64BE(BigInt(counter));
+  
+  const hmac = crypto.createHmac('sha1', secret).update(buffer).digest();
+  const offset = hmac[hmac.length - 1] & 0xf;
+  const code = (hmac.readUInt32BE(offset) & 0x7fffffff) % 10 ** TOTP_DIGITS;
+  
+  return code.toString().padStart(TOTP_DIGITS, '0');
+}
+
+export function generateTotpSecret(): string {
+  return base32Encode(crypto.randomBytes(20));
+}
+
+export function buildOtpAuthUrl(secret: string, email: string): string {
+  const issuer = process.env.MFA_ISSUER || 'Orkio';
+  const label = encodeURIComponent(`${issuer}:${email}`);
+  return `otpauth://totp/${label}?secret=${secret}&issuer=${encodeURIComponent(issuer)}&algorithm=SHA1&digits=${TOTP_DIGITS}&period=${TOTP_PERIOD_SECONDS}`;
+}
+
+// Returns the matched time step, or null if the code is wrong
+export function verifyTotp(secret: string, code: string): number | null {
+  if (!/^\d{6}$/.test(code)) {
+    return null;
+  }
+  
+  const key = base32Decode(secret);
+  const currentStep = Math.floor(Date.now() / 1000 / TOTP_PERIOD_SECONDS);
+  
+  for (let drift = -TOTP_WINDOW; drift <= TOTP_WINDOW; drift++) {
+    const step = currentStep + drift;
+    const expected = hotp(key, step);
+    if (crypto.timingSafeEqual(Buffer.from(expected), Buffer.from(code))) {
+      return step;
+    }
+  }
+  
+  return null;
+}
+
+// Short-lived token that carries a half-finished login between the password and 2FA steps
+export function signMfaToken(userId: string, purpose: MfaTokenPurpose): string {
+  return jwt.sign({ userId, purpose }, process.env.JWT_SECRET!, { expiresIn: '5m' });
+}
+
+export function verifyMfaToken(token: string, purpose: MfaTokenPurpose): string | null {
+  try {
+    const decoded = jwt.verify(token, process.env.JWT_SECRET!) as { userId?: string; purpose?: string };
+    return decoded.purpose === purpose && decoded.userId ? decoded.userId : null;
+  } catch {
+    return null;
+  }
+}
+
+// Whether the tenant requires this role to have 2FA enabled
+export async function isMfaRequired(tenantId: string, role: UserRole): Promise<boolean> {
+  if (role !== 'master_admin' && role !== 'tenant_admin') {
+    return false;
+  }
+  
+  const result = await pool.query('SELECT require_admin_mfa FROM tenants WHERE id = $1', [tenantId]);
+  return result.rows[0]?.require_admin_mfa === true;
+}
+
+// Store a new secret that only becomes active once a code from it is confirmed
+export async function startMfaEnrollment(userId: string, email: string): Promise<{ secret: string; otpauthUrl: string }> {
+  const secret = generateTotpSecret();
+  
+  await pool.query(
+    'UPDATE users SET mfa_secret_encrypted = $1, mfa_enabled = false, mfa_last_step = NULL, updated_at = NOW() WHERE id = $2',
+    [encrypt(secret), userId]
+  );
+  
+  return { secret, otpauthUrl: buildOtpAuthUrl(secret, email) };
+}
+
+// Check a TOTP code against the user's secret, rejecting a code that was already used
+export async function verifyUserTotp(userId: string, code: string): Promise<boolean> {
+  const result = await pool.query(
+    'SELECT mfa_secret_encrypted FROM users WHERE id = $1',
+    [userId]
+  );
+  
+  const user = result.rows[0];
+  if (!user?.mfa_secret_encrypted) {
+    return false;
+  }
+  
+  const step = verifyTotp(decrypt(user.mfa_secret_encrypted), code);
+  if (step === null) {
+    return false;
+  }
+  
+  // Record the step only if it is newer than the last one used, so concurrent requests can't both accept a code
+  const updated = await pool.query(
+    `UPDATE users SET mfa_last_step = $1
+     WHERE id = $2 AND (mfa_last_step IS NULL OR mfa_last_step < $1)
+     RETURNING id`,
+    [step, userId]
+  );
+  return updated.rows.length > 0;
+}
+
+// Replace all recovery codes; the plain codes are only returned here
+export async function generateRecoveryCodes(userId: string): Promise<string[]> {
+  const codes = Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+    const hex = crypto.randomBytes(5).toString('hex');
+    return `${hex.slice(0, 5)}-${hex.slice(5)}`;
+  });
+  
+  await pool.query('DELETE FROM mfa_recovery_codes WHERE user_id = $1', [userId]);
+  for (const code of codes) {
+    await pool.query(
+      'INSERT INTO mfa_recovery_codes (user_id, code_hash) VALUES ($1, $2)',
+      [userId, hashToken(code)]
+    );
+  }
+  
+  return codes;
+}
+
+// Consume a recovery code (each works once)
+export async function useRecoveryCode(userId: string, code: string): Promise<boolean> {
+  const result = await pool.query(
+    `UPDATE mfa_recovery_codes SET used_at = NOW()
+     WHERE user_id = $1 AND code_hash = $2 AND used_at IS NULL`,
+    [userId, hashToken(code.trim().toLowerCase())]
+  );
+  return (result.rowCount ?? 0) > 0;
+}
+
+export async function countRecoveryCodes(userId: string): Promise<number> {
+  const result = await pool.query(
+    'SELECT COUNT(*) FROM mfa_recovery_codes WHERE user_id = $1 AND used_at IS NULL',
+    [userId]
+  );
+  return parseInt(result.rows[0].count);
+}
+
+export async function disableMfa(userId: string): Promise<void> {
+  await pool.query(
+    'UPDATE users SET mfa_enabled = false, mfa_secret_encrypted = NULL, mfa_last_step = NULL, updated_at = NOW() WHERE id = $1',
+    [userId]
+  );
+  await pool.query('DELETE FROM mfa_recovery_codes WHERE user_id = $1', [userId]);
+}
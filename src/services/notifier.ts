@@ -0,0 +1,89 @@
+import fs from 'fs';
+import path from 'path';
+
+export interface Notification {
+  to: string;
+  subject: string;
+  text: string;
+}
+
+// Anything that can deliver a message to a user (email, chat, webhook...)
+export interface Notifier {
+  send(notification: Notification): Promise<void>;
+}
+
+class ConsoleNotifier implements Notifier {
+  async send(notification: Notification): Promise<void> {
+    console.log(`[notification] to=${notification.to} subject="${notification.subject}"\n${notification.text}`);
+  }
+}
+
+// Appends one JSON line per message; handy for local development and tests
+class FileNotifier implements Notifier {
+  constructor(private filePath: string) {}
+  
+  async send(notification: Notification): Promise<void> {
+    await fs.promises.mkdir(path.dirname(this.filePath), { recursive: true });
+    await fs.promises.appendFile(
+      this.filePath,
+      JSON.stringify({ ...notification, sentAt: new Date().toISOString() }) + '\n'
+    );
+  }
+}
+
+// Posts each message as JSON to an HTTP endpoint (a mail relay, an automation hook...)
+class WebhookNotifier implements Notifier {
+  constructor(private url: string, private token?: string) {}
+  
+  async send(notification: Notification): Promise<void> {
+    const response = await fetch(this.url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(this.token ? { Authorization: `Bearer ${this.token}` } : {}),
+      },
+      body: JSON.stringify(notification),
+      signal: AbortSignal.timeout(10000),
+    });
+    
+    if (!response.ok) {
+      throw new Error(`Notification webhook responded with ${response.status}`);
+    }
+  }
+}
+
+// Both print or store message bodies (reset links included) in plain text
+const DEVELOPMENT_NOTIFIERS = ['console', 'file'];
+
+const notifiers = new Map<string, Notifier>([
+  ['console', new ConsoleNotifier()],
+  ['file', new FileNotifier(process.env.NOTIFIER_FILE || './notifications/outbox.jsonl')],
+]);
+
+if (process.env.NOTIFIER_WEBHOOK_URL) {
+  notifiers.set('webhook', new WebhookNotifier(process.env.NOTIFIER_WEBHOOK_URL, process.env.NOTIFIER_WEBHOOK_TOKEN));
+}
+
+// Register a delivery channel (e.g. an SMTP or SES implementation) selectable via NOTIFIER
+export function registerNotifier(name: string, notifier: Notifier): void {
+  notifiers.set(name, notifier);
+}
+
+export function getNotifier(): Notifier {
+  const production = process.env.NODE_ENV === 'production';
+  const name = process.env.NOTIFIER || (production ? undefined : 'console');
+  
+  if (!name) {
+    throw new Error('NOTIFIER must be set in production');
+  }
+  
+  if (production && DEVELOPMENT_NOTIFIERS.includes(name)) {
+    throw new Error(`The ${name} notifier is not allowed in production`);
+  }
+  
+  const notifier = notifiers.get(name);
+  if (!notifier) {
+    throw new Error(`Unknown notifier: ${name}`);
+  }
+  return notifier;
+}
@@ -0,0 +1,150 @@
+import bcrypt from 'bcrypt';
+import { pool } from '../db/index.js';
+import { generateToken, hashToken } from '../utils/index.js';
+import { getNotifier } from './notifier.js';
+import { revokeUserSessions } from './sessions.js';
+import { PasswordPolicy } from '../types/index.js';
+
+export const DEFAULT_PASSWORD_POLICY: PasswordPolicy = {
+  min_length: 8,
+  require_uppercase: false,
+  require_lowercase: false,
+  require_number: false,
+  require_symbol: false,
+  disallow_email: true,
+};
+
+const RESET_TOKEN_TTL_MS = 60 * 60 * 1000;
+const MAX_LOCKOUT_SECONDS = 60 * 60;
+
+// Tenant rules layered over the defaults
+export async function getPasswordPolicy(tenantId: string): Promise<PasswordPolicy> {
+  const result = await pool.query('SELECT password_policy FROM tenants WHERE id = $1', [tenantId]);
+  return { ...DEFAULT_PASSWORD_POLICY, ...(result.rows[0]?.password_policy || {}) };
+}
+
+// Returns an error message, or null if the password satisfies the policy
+export function validatePassword(password: string, policy: PasswordPolicy, email?: string): string | null {
+  if (password.length < policy.min_length) {
+    return `Password must be at least ${policy.min_length} characters`;
+  }
+  if (policy.require_uppercase && !/[A-Z]/.test(password)) {
+    return 'Password must contain an uppercase letter';
+  }
+  if (policy.require_lowercase && !/[a-z]/.test(password)) {
+    return 'Password must contain a lowercase letter';
+  }
+  if (policy.require_number && !/[0-9]/.test(password)) {
+    return 'Password must contain a number';
+  }
+  if (policy.require_symbol && !/[^A-Za-z0-9]/.test(password)) {
+    return 'Password must contain a symbol';
+  }
+  if (policy.disallow_email && email) {
+    const localPart = email.split('@')[0].toLowerCase();
+    if (localPart.length >= 3 && password.toLowerCase().includes(localPart)) {
+      return 'Password must not contain your email address';
+    }
+  }
+  return null;
+}
+
+export async function checkPassword(tenantId: string, password: string, email?: string): Promise<string | null> {
+  return validatePassword(password, await getPasswordPolicy(tenantId), email);
+}
+
+// Count a failed login; after the threshold each further failure doubles the lockout
+export async function recordFailedLogin(userId: string): Promise<void> {
+  const threshold = parseInt(process.env.LOGIN_LOCKOUT_THRESHOLD || '5');
+  const baseSeconds = parseInt(process.env.LOGIN_LOCKOUT_BASE_SECONDS || '60');
+  
+  const result = await pool.query(
+    'UPDATE users SET failed_login_attempts = failed_login_attempts + 1 WHERE id = $1 RETURNING failed_login_attempts',
+    [userId]
+  );
+  
+  const attempts = result.rows[0]?.failed_login_attempts || 0;
+  if (attempts >= threshold) {
+    const seconds = Math.min(baseSeconds * 2 ** (attempts - threshold), MAX_LOCKOUT_SECONDS);
+    await pool.query(
+      "UPDATE users SET locked_until = NOW() + make_interval(secs => $1) WHERE id = $2",
+      [seconds, userId]
+    );
+  }
+}
+
+export async function clearFailedLogins(userId: string): Promise<void> {
+  await pool.query(
+    'UPDATE users SET failed_login_attempts = 0, locked_until = NULL WHERE id = $1 AND (failed_login_attempts > 0 OR locked_until IS NOT NULL)',
+    [userId]
+  );
+}
+
+export function isLockedOut(user: { locked_until?: Date | null }): boolean {
+  return !!user.locked_until && new Date(user.locked_until) > new Date();
+}
+
+// Issue a single-use reset token and deliver the link through the configured notifier
+export async function sendPasswordReset(user: { id: string; email: string }): Promise<void> {
+  const token = generateToken();
+  
+  // Only the newest link stays valid
+  await pool.query(
+    'UPDATE password_reset_tokens SET used_at = NOW() WHERE user_id = $1 AND used_at IS NULL',
+    [user.id]
+  );
+  await pool.query(
+    'INSERT INTO password_reset_tokens (user_id, token_hash, expires_at) VALUES ($1, $2, $3)',
+    [user.id, hashToken(token), new Date(Date.now() + RESET_TOKEN_TTL_MS)]
+  );
+  
+  const baseUrl = process.env.PASSWORD_RESET_URL || `${process.env.CORS_ORIGIN || 'http://localhost:5173'}/reset-password`;
+  const link = `${baseUrl}?token=${encodeURIComponent(token)}`;
+  
+  await getNotifier().send({
+    to: user.email,
+    subject: 'Reset your password',
+    text: `A password reset was requested for your account.\n\nUse this link within one hour to choose a new password:\n${link}\n\nIf you did not request this, you can ignore this message.`,
+  });
+}
+
+// Consume a reset token and set the new password; returns an error message on failure
+export async function resetPassword(token: string, password: string): Promise<string | null> {
+  const result = await pool.query(
+    `SELECT r.id, r.user_id, u.email, u.tenant_id
+     FROM password_reset_tokens r
+     JOIN users u ON r.user_id = u.id
+     JOIN tenants t ON u.tenant_id = t.id
+     WHERE r.token_hash = $1 AND r.used_at IS NULL AND r.expires_at > NOW()
+       AND u.is_active = true AND t.is_active = true`,
+    [hashToken(token)]
+  );
+  
+  const reset = result.rows[0];
+  if (!reset) {
+    return 'Invalid or expired reset token';
+  }
+  
+  const policyError = await checkPassword(reset.tenant_id, password, reset.email);
+  if (policyError) {
+    return policyError;
+  }
+  
+  // Mark used first so the same token can't be redeemed twice concurrently
+  const claimed = await pool.query(
+    'UPDATE password_reset_tokens SET used_at = NOW() WHERE id = $1 AND used_at IS NULL',
+    [reset.id]
+  );
+  if (claimed.rowCount === 0) {
+    return 'Invalid or expired reset token';
+  }
+  
+  const passwordHash = await bcrypt.hash(password, 12);
+  await pool.query(
+    'UPDATE users SET password_hash = $1, failed_login_attempts = 0, locked_until = NULL, updated_at = NOW() WHERE id = $2',
+    [passwordHash, reset.user_id]
+  );
+  await revokeUserSessions(reset.user_id, 'password_reset');
+  
+  return null;
+}
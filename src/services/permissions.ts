@@ -0,0 +1,105 @@
+import { pool } from '../db/index.js';
+import { Permission, UserRole } from '../types/index.js';
+
+export const PERMISSION_CATALOG: Record<Permission, string> = {
+  'agents:write': 'Create, edit and delete agents, toggle the kill switch and reset costs',
+  'collections:write': 'Create, edit and delete collections',
+  'documents:upload': 'Upload documents',
+  'documents:manage': 'Reprocess and delete documents and inspect their chunks',
+  'users:read': 'View users',
+  'users:manage': 'Create, approve, deactivate and sign out users, reset their 2FA or password',
+  'users:change_role': 'Change a user\'s built-in role',
+  'users:delete': 'Delete users',
+  'invitations:manage': 'Create and revoke invitations',
+  'roles:manage': 'Define custom roles and assign them to users',
+  'logs:read': 'Read and export decision logs and statistics',
+  'audit:read': 'Read and export the admin action log',
+  'usage:read': 'View usage and cost reports',
+  'providers:manage': 'Configure LLM providers',
+  'pricing:manage': 'Configure model pricing',
+  'budgets:manage': 'Configure spend budgets',
+  'api_keys:manage': 'Create and revoke API keys',
+  'sso:manage': 'Configure single sign-on',
+  'security:manage': 'Configure the tenant security policy',
+  'policies:manage': 'Write, activate and roll back agent governance policies',
+  'reviews:manage': 'Approve, edit and reject answers held for human review',
+  'tenants:manage': 'Create, edit and suspend tenants (platform-wide)',
+};
+
+export const ALL_PERMISSIONS = Object.keys(PERMISSION_CATALOG) as Permission[];
+
+// Platform-level permissions that only built-in roles can hold
+export const PLATFORM_PERMISSIONS: Permission[] = ['tenants:manage', 'users:change_role'];
+
+// Tenant permissions that reach admin access (SSO role mapping can sign anyone in as tenant_admin),
+// so they stay with the built-in admin roles
+export const ADMIN_ONLY_PERMISSIONS: Permission[] = ['sso:manage'];
+
+// Permissions a custom role can never carry
+export const NON_GRANTABLE_PERMISSIONS: Permission[] = [...PLATFORM_PERMISSIONS, ...ADMIN_ONLY_PERMISSIONS];
+
+// Seeded into the roles table by the migration; the user role only gets the defaults every account has
+export const BUILTIN_ROLES: Record<UserRole, { description: string; permissions: Permission[] }> = {
+  master_admin: {
+    description: 'Full access, including platform-wide tenant management',
+    permissions: ALL_PERMISSIONS,
+  },
+  tenant_admin: {
+    description: 'Administers a single tenant',
+    permissions: ALL_PERMISSIONS.filter(p => !PLATFORM_PERMISSIONS.includes(p) && p !== 'users:delete'),
+  },
+  user: {
+    description: 'Chats with agents and reads shared knowledge',
+    permissions: [],
+  },
+};
+
+const ROLE_RANK: Record<UserRole, number> = { user: 0, tenant_admin: 1, master_admin: 2 };
+
+// Whether an actor may act on an account with the target's built-in role
+export function canManageRole(actorRole: UserRole, targetRole: UserRole): boolean {
+  return ROLE_RANK[actorRole] >= ROLE_RANK[targetRole];
+}
+
+export function isPermission(value: string): value is Permission {
+  return Object.prototype.hasOwnProperty.call(PERMISSION_CATALOG, value);
+}
+
+// Built-in role permissions plus those of the user's custom role, if any
+export async function getUserPermissions(userId: string, role: UserRole, tenantId: string): Promise<Permission[]> {
+  const result = await pool.query(
+    `SELECT r.permissions, r.is_builtin FROM roles r
+     WHERE (r.tenant_id IS NULL AND r.is_builtin = true AND r.name = $1)
+        OR r.id = (SELECT custom_role_id FROM users WHERE id = $2 AND tenant_id = $3)`,
+    [role, userId, tenantId]
+  );
+  
+  const permissions = new Set<Permission>();
+  for (const row of result.rows) {
+    for (const permission of row.permissions as string[]) {
+      // Custom roles saved before a permission became non-grantable don't keep it
+      if (isPermission(permission) && (row.is_builtin || !NON_GRANTABLE_PERMISSIONS.includes(permission))) {
+        permissions.add(permission);
+      }
+    }
+  }
+  
+  return [...permissions];
+}
+
+// Problem with a custom role's permission list, or null if the actor may grant it
+export function validateRolePermissions(permissions: string[], actorPermissions: Permission[]): string | null {
+  for (const permission of permissions) {
+    if (!isPermission(permission)) {
+      return `Unknown permission: ${permission}`;
+    }
+    if (NON_GRANTABLE_PERMISSIONS.includes(permission)) {
+      return `Permission cannot be granted to custom roles: ${permission}`;
+    }
+    // Nobody can hand out more than they hold
+    if (!actorPermissions.includes(permission)) {
+      return `You cannot grant a permission you do not have: ${permission}`;
+    }
+  }
+  return null;
+}
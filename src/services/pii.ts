@@ -0,0 +1,245 @@
+import { pool } from '../db/index.js';
+import { PiiCustomPattern, PiiPolicy, PiiType } from '../types/index.js';
+
+// Checked in this order; a span claimed by an earlier type is not reported again
+export const ALL_PII_TYPES: PiiType[] = ['email', 'iban', 'cnpj', 'cpf', 'credit_card', 'ssn', 'ip_address', 'phone'];
+
+export const DEFAULT_PII_POLICY: PiiPolicy = {
+  mask_prompts: false,
+  rehydrate_responses: true,
+  mask_logs: true,
+  types: ALL_PII_TYPES,
+  custom_patterns: [],
+};
+
+const PII_PATTERNS: Record<PiiType, RegExp> = {
+  email: /[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}/g,
+  iban: /\b[A-Z]{2}\d{2}(?: ?[A-Z0-9]{4}){2,7}(?: ?[A-Z0-9]{1,3})?\b/g,
+  cnpj: /\b\d{2}\.?\d{3}\.?\d{3}\/?\d{4}-?\d{2}\b/g,
+  cpf: /\b\d{3}\.?\d{3}\.?\d{3}-?\d{2}\b/g,
+  credit_card: /\b\d(?:[ -]?\d){12,18}\b/g,
+  ssn: /\b\d{3}-\d{2}-\d{4}\b/g,
+  ip_address: /\b(?:(?:25[0-5]|2[0-4]\d|1?\d?\d)\.){3}(?:25[0-5]|2[0-4]\d|1?\d?\d)\b/g,
+  phone: /(?:\+\d{1,3}[\s.-]?)?\(?\d{2,4}\)?[\s.-]?\d{3,5}[\s.-]?\d{4}\b/g,
+};
+
+export interface PiiMatch {
+  type: string;
+  value: string;
+  start: number;
+  end: number;
+}
+
+// Placeholders handed out while masking one chat turn, so the answer can be re-hydrated
+export interface PiiVault {
+  placeholders: Map<string, string>;
+  originals: Map<string, string>;
+  counts: Record<string, number>;
+}
+
+function digitsOf(value: string): number[] {
+  return value.replace(/\D/g, '').split('').map(Number);
+}
+
+function passesLuhn(value: string): boolean {
+  const digits = digitsOf(value).reverse();
+  let sum = 0;
+  
+  for (let i = 0; i < digits.length; i++) {
+    let digit = digits[i];
+    if (i % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  }
+  
+  return sum % 10 === 0;
+}
+
+function isValidCpf(value: string): boolean {
+  const d = digitsOf(value);
+  if (d.length !== 11 || d.every(n => n === d[0])) return false;
+  
+  const check = (length: number) => {
+    let sum = 0;
+    for (let i = 0; i < length; i++) sum += d[i] * (length + 1 - i);
+    return ((sum * 10) % 11) % 10;
+  };
+  
+  return check(9) === d[9] && check(10) === d[10];
+}
+
+function isValidCnpj(value: string): boolean {
+  const d = digitsOf(value);
+  if (d.length !== 14 || d.every(n => n === d[0])) return false;
+  
+  const check = (weights: number[]) => {
+    const sum = weights.reduce((acc, w, i) => acc + w * d[i], 0);
+    return sum % 11 < 2 ? 0 : 11 - (sum % 11);
+  };
+  
+  return check([5, 4, 3, 2, 9, 8, 7, 6, 5, 4, 3, 2]) === d[12]
+    && check([6, 5, 4, 3, 2, 9, 8, 7, 6, 5, 4, 3, 2]) === d[13];
+}
+
+// ISO 13616 mod-97 check
+function isValidIban(value: string): boolean {
+  const iban = value.replace(/\s/g, '');
+  const rearranged = iban.slice(4) + iban.slice(0, 4);
+  let remainder = 0;
+  
+  for (const char of rearranged) {
+    const code = /[A-Z]/.test(char) ? (char.charCodeAt(0) - 55).toString() : char;
+    for (const digit of code) {
+      remainder = (remainder * 10 + Number(digit)) % 97;
+    }
+  }
+  
+  return remainder === 1;
+}
+
+// Checksums and digit counts cut down false positives from order numbers, dates and the like
+function isPlausible(type: PiiType, value: string): boolean {
+  switch (type) {
+    case 'iban': return isValidIban(value);
+    case 'cnpj': return isValidCnpj(value);
+    case 'cpf': return isValidCpf(value);
+    case 'credit_card': return passesLuhn(value);
+    case 'phone': {
+      const digitCount = digitsOf(value).length;
+      return digitCount >= 10 && digitCount <= 15;
+    }
+    default: return true;
+  }
+}
+
+function labelFor(type: string): string {
+  return type.toUpperCase().replace(/[^A-Z0-9]+/g, '_');
+}
+
+// Find PII in text, sorted by position
+export function detectPii(
+  text: string,
+  types: PiiType[] = ALL_PII_TYPES,
+  customPatterns: PiiCustomPattern[] = []
+): PiiMatch[] {
+  const matches: PiiMatch[] = [];
+  
+  const add = (type: string, start: number, value: string) => {
+    const end = start + value.length;
+    if (value.length === 0 || matches.some(m => start < m.end && end > m.start)) return;
+    matches.push({ type, value, start, end });
+  };
+  
+  for (const type of ALL_PII_TYPES) {
+    if (!types.includes(type)) continue;
+    
+    for (const found of text.matchAll(PII_PATTERNS[type])) {
+      if (isPlausible(type, found[0])) {
+        add(type, found.index!, found[0]);
+      }
+    }
+  }
+  
+  for (const custom of customPatterns) {
+    try {
+      for (const found of text.matchAll(new RegExp(custom.pattern, 'gi'))) {
+        add(custom.name, found.index!, found[0]);
+      }
+    } catch {
+      // Patterns are validated on save; skip anything stored before that
+    }
+  }
+  
+  return matches.sort((a, b) => a.start - b.start);
+}
+
+function replaceMatches(text: string, matches: PiiMatch[], replacement: (match: PiiMatch) => string): string {
+  let result = '';
+  let cursor = 0;
+  
+  for (const match of matches) {
+    result += text.slice(cursor, match.start) + replacement(match);
+    cursor = match.end;
+  }
+  
+  return result + text.slice(cursor);
+}
+
+// Replace each PII span with a label such as [REDACTED_EMAIL]
+export function redactPii(
+  text: string,
+  types: PiiType[] = ALL_PII_TYPES,
+  customPatterns: PiiCustomPattern[] = []
+): { text: string; matches: PiiMatch[] } {
+  const matches = detectPii(text, types, customPatterns);
+  return { text: replaceMatches(text, matches, m => `[REDACTED_${labelFor(m.type)}]`), matches };
+}
+
+export function createPiiVault(): PiiVault {
+  return { placeholders: new Map(), originals: new Map(), counts: {} };
+}
+
+// Replace each PII span with a numbered placeholder such as [EMAIL_1]; equal values share one
+export function maskPii(text: string, vault: PiiVault, policy: PiiPolicy): string {
+  const matches = detectPii(text, policy.types, policy.custom_patterns);
+  
+  return replaceMatches(text, matches, match => {
+    let placeholder = vault.placeholders.get(match.value);
+    if (!placeholder) {
+      vault.counts[match.type] = (vault.counts[match.type] || 0) + 1;
+      placeholder = `[${labelFor(match.type)}_${vault.counts[match.type]}]`;
+      vault.placeholders.set(match.value, placeholder);
+      vault.originals.set(placeholder, match.value);
+    }
+    return placeholder;
+  });
+}
+
+// Put the original values back in place of placeholders the model repeated
+export function rehydratePii(text: string, vault: PiiVault): string {
+  if (vault.originals.size === 0) {
+    return text;
+  }
+  return text.replace(/\[[A-Z0-9_]+_\d+\]/g, placeholder => vault.originals.get(placeholder) ?? placeholder);
+}
+
+// Re-hydrate a token stream, holding back a trailing "[..." until the placeholder is complete
+export function createPiiRehydrator(vault: PiiVault): { push: (delta: string) => string; flush: () => string } {
+  let pending = '';
+  
+  return {
+    push(delta: string) {
+      pending += delta;
+      const open = pending.lastIndexOf('[');
+      const holdFrom = open !== -1 && !pending.includes(']', open) && pending.length - open <= 40 ? open : pending.length;
+      
+      const ready = pending.slice(0, holdFrom);
+      pending = pending.slice(holdFrom);
+      return rehydratePii(ready, vault);
+    },
+    flush() {
+      const rest = pending;
+      pending = '';
+      return rehydratePii(rest, vault);
+    },
+  };
+}
+
+export async function getPiiPolicy(tenantId: string): Promise<PiiPolicy> {
+  const result = await pool.query('SELECT pii_policy FROM tenants WHERE id = $1', [tenantId]);
+  return { ...DEFAULT_PII_POLICY, ...(result.rows[0]?.pii_policy || {}) };
+}
+
+// Masking for a provider call made outside a chat turn (summaries, titles): mask what is sent,
+// unmask the reply before it is stored. Both are no-ops unless the tenant masks prompts.
+export async function createPiiMasker(tenantId: string): Promise<{ mask: (text: string) => string; unmask: (text: string) => string }> {
+  const policy = await getPiiPolicy(tenantId);
+  if (!policy.mask_prompts) {
+    return { mask: text => text, unmask: text => text };
+  }
+  
+  const vault = createPiiVault();
+  return { mask: text => maskPii(text, vault, policy), unmask: text => rehydratePii(text, vault) };
+}
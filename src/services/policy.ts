@@ -0,0 +1,270 @@
+import { pool } from '../db/index.js';
+import {
+  Policy,
+  PolicyConditions,
+  PolicyDocument,
+  PolicyOutcome,
+  PolicyTraceEntry,
+  UserRole,
+} from '../types/index.js';
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+// What the engine knows about a request when it evaluates the rules
+export interface PolicyFacts {
+  role: UserRole;
+  groupIds: string[];
+  timezone: string;
+  now: Date;
+  topic?: string;
+  evidenceScore: number | null;
+  budgetState: 'ok' | 'soft_limit';
+}
+
+// Raised when a policy version cannot be written or activated
+export class PolicyError extends Error {
+  constructor(message: string, public status: 400 | 404 = 400) {
+    super(message);
+    this.name = 'PolicyError';
+  }
+}
+
+// Active tenant-wide policy first, then the agent's own
+export async function getActivePolicies(tenantId: string, agentId: string): Promise<Policy[]> {
+  const result = await pool.query(
+    `SELECT * FROM policies
+     WHERE tenant_id = $1 AND is_active = true AND (agent_id IS NULL OR agent_id = $2)
+     ORDER BY agent_id NULLS FIRST`,
+    [tenantId, agentId]
+  );
+  return result.rows;
+}
+
+// Role, group memberships and tenant timezone for the rule conditions
+export async function getUserFacts(
+  userId: string,
+  tenantId: string
+): Promise<Pick<PolicyFacts, 'role' | 'groupIds' | 'timezone'>> {
+  const result = await pool.query(
+    `SELECT u.role, t.timezone,
+            ARRAY(SELECT group_id FROM user_group_members WHERE user_id = u.id) as group_ids
+     FROM users u JOIN tenants t ON u.tenant_id = t.id
+     WHERE u.id = $1 AND u.tenant_id = $2`,
+    [userId, tenantId]
+  );
+  
+  const row = result.rows[0];
+  return {
+    role: row?.role || 'user',
+    groupIds: row?.group_ids || [],
+    timezone: row?.timezone || 'UTC',
+  };
+}
+
+function toMinutes(time: string): number {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+}
+
+// Weekday and minutes since midnight in the tenant's timezone
+function localClock(now: Date, timezone: string): { day: number; minutes: number } {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: timezone,
+    weekday: 'short',
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23',
+  }).formatToParts(now);
+  
+  const get = (type: string) => parts.find(p => p.type === type)?.value || '';
+  return { day: WEEKDAYS.indexOf(get('weekday')), minutes: parseInt(get('hour')) * 60 + parseInt(get('minute')) };
+}
+
+// Result of each condition the rule lists
+function evaluateConditions(when: PolicyConditions, facts: PolicyFacts): Record<string, boolean> {
+  const results: Record<string, boolean> = {};
+  
+  if (when.roles) {
+    results.roles = when.roles.includes(facts.role);
+  }
+  
+  if (when.groups) {
+    results.groups = when.groups.some(id => facts.groupIds.includes(id));
+  }
+  
+  if (when.time_window) {
+    const { day, minutes } = localClock(facts.now, facts.timezone);
+    const start = toMinutes(when.time_window.start);
+    const end = toMinutes(when.time_window.end);
+    // A window whose end is before its start runs past midnight
+    const inWindow = start <= end ? minutes >= start && minutes < end : minutes >= start || minutes < end;
+    results.time_window = inWindow && (!when.time_window.days || when.time_window.days.includes(day));
+  }
+  
+  if (when.topics) {
+    const topic = facts.topic?.toLowerCase();
+    results.topics = !!topic && when.topics.some(t => t.toLowerCase() === topic);
+  }
+  
+  if (when.evidence_score) {
+    const { min, max } = when.evidence_score;
+    const score = facts.evidenceScore;
+    results.evidence_score = score !== null && (min === undefined || score >= min) && (max === undefined || score <= max);
+  }
+  
+  if (when.budget_state) {
+    results.budget_state = when.budget_state.includes(facts.budgetState);
+  }
+  
+  return results;
+}
+
+// Evaluate one document: rules in order, stopping at the first allow/block/require_approval
+function evaluateDocument(
+  policy: Policy,
+  facts: PolicyFacts,
+  outcome: PolicyOutcome
+): void {
+  const document = policy.document as PolicyDocument;
+  const scope = policy.agent_id ? 'agent' : 'tenant';
+  
+  for (const rule of document.rules) {
+    if (!rule.enabled) continue;
+    
+    const conditions = evaluateConditions(rule.when, facts);
+    const matched = Object.values(conditions).every(Boolean);
+    const entry: PolicyTraceEntry = {
+      policy_id: policy.id,
+      scope,
+      version: policy.version,
+      rule: rule.id,
+      matched,
+      conditions,
+    };
+    outcome.trace.push(entry);
+    
+    if (!matched) continue;
+    entry.action = rule.action.type;
+    
+    switch (rule.action.type) {
+      case 'downgrade_model':
+        outcome.model = rule.action.model;
+        break;
+      case 'add_disclaimer':
+        outcome.disclaimers.push(rule.action.text);
+        break;
+      case 'allow':
+        return;
+      case 'block':
+      case 'require_approval':
+        // A block anywhere wins over an approval requirement
+        if (outcome.decision !== 'block') {
+          outcome.decision = rule.action.type;
+          outcome.rule = `${scope}:${rule.id}`;
+          outcome.message = rule.action.message;
+        }
+        return;
+    }
+  }
+  
+  if (document.default_action === 'block') {
+    outcome.trace.push({ policy_id: policy.id, scope, version: policy.version, rule: 'default', matched: true, conditions: {}, action: 'block' });
+    if (outcome.decision !== 'block') {
+      outcome.decision = 'block';
+      outcome.rule = `${scope}:default`;
+      outcome.message = undefined;
+    }
+  }
+}
+
+// Run the tenant policy, then the agent policy; every rule considered is recorded in the trace
+export function evaluatePolicies(policies: Policy[], facts: PolicyFacts): PolicyOutcome {
+  const outcome: PolicyOutcome = { decision: 'allow', disclaimers: [], trace: [] };
+  
+  for (const policy of policies) {
+    evaluateDocument(policy, facts, outcome);
+    if (outcome.decision === 'block') break;
+  }
+  
+  return outcome;
+}
+
+// Store a new version of the tenant or agent policy and make it the active one
+export async function createPolicyVersion(
+  tenantId: string,
+  agentId: string | null,
+  document: PolicyDocument,
+  createdBy: string
+): Promise<Policy> {
+  const client = await pool.connect();
+  
+  try {
+    await client.query('BEGIN');
+    
+    if (agentId) {
+      const agentResult = await client.query('SELECT id FROM agents WHERE id = $1 AND tenant_id = $2', [agentId, tenantId]);
+      if (agentResult.rows.length === 0) {
+        throw new PolicyError('Agent not found', 404);
+      }
+    }
+    
+    // Serialise version numbering per scope
+    await client.query('SELECT pg_advisory_xact_lock(hashtext($1))', [`policy:${tenantId}:${agentId || 'tenant'}`]);
+    
+    await client.query(
+      'UPDATE policies SET is_active = false WHERE tenant_id = $1 AND agent_id IS NOT DISTINCT FROM $2 AND is_active = true',
+      [tenantId, agentId]
+    );
+    
+    const result = await client.query(
+      `INSERT INTO policies (tenant_id, agent_id, version, document, is_active, created_by)
+       VALUES ($1, $2,
+         (SELECT COALESCE(MAX(version), 0) + 1 FROM policies WHERE tenant_id = $1 AND agent_id IS NOT DISTINCT FROM $2),
+         $3, true, $4)
+       RETURNING *`,
+      [tenantId, agentId, JSON.stringify(document), createdBy]
+    );
+    
+    await client.query('COMMIT');
+    return result.rows[0];
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
+  }
+}
+
+// Make an existing version the active one for its scope (used for rollback)
+export async function activatePolicyVersion(policyId: string, tenantId: string): Promise<Policy> {
+  const client = await pool.connect();
+  
+  try {
+    await client.query('BEGIN');
+    
+    const result = await client.query(
+      'SELECT * FROM policies WHERE id = $1 AND tenant_id = $2 FOR UPDATE',
+      [policyId, tenantId]
+    );
+    
+    if (result.rows.length === 0) {
+      throw new PolicyError('Policy not found', 404);
+    }
+    
+    const policy = result.rows[0] as Policy;
+    
+    await client.query(
+      'UPDATE policies SET is_active = false WHERE tenant_id = $1 AND agent_id IS NOT DISTINCT FROM $2 AND is_active = true',
+      [tenantId, policy.agent_id]
+    );
+    await client.query('UPDATE policies SET is_active = true WHERE id = $1', [policyId]);
+    
+    await client.query('COMMIT');
+    return { ...policy, is_active: true };
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
+  }
+}
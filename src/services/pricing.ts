@@ -0,0 +1,115 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { pool } from '../db/index.js';
+import { chargeAgentCost } from './usage.js';
+import { UsageOperation } from '../types/index.js';
+
+type Rates = { input_cost_per_million: number; output_cost_per_million: number };
+
+// Built-in list prices (USD per 1M tokens), used when the tenant has no catalog entry
+export const DEFAULT_MODEL_PRICING: Record<string, Rates> = {
+  'gpt-4o': { input_cost_per_million: 2.5, output_cost_per_million: 10 },
+  'gpt-4o-mini': { input_cost_per_million: 0.15, output_cost_per_million: 0.6 },
+  'gpt-4.1': { input_cost_per_million: 2, output_cost_per_million: 8 },
+  'gpt-4.1-mini': { input_cost_per_million: 0.4, output_cost_per_million: 1.6 },
+  'gpt-4.1-nano': { input_cost_per_million: 0.1, output_cost_per_million: 0.4 },
+  'gpt-4-turbo': { input_cost_per_million: 10, output_cost_per_million: 30 },
+  'gpt-4': { input_cost_per_million: 30, output_cost_per_million: 60 },
+  'gpt-3.5-turbo': { input_cost_per_million: 0.5, output_cost_per_million: 1.5 },
+  'text-embedding-3-small': { input_cost_per_million: 0.02, output_cost_per_million: 0 },
+  'text-embedding-3-large': { input_cost_per_million: 0.13, output_cost_per_million: 0 },
+  'text-embedding-ada-002': { input_cost_per_million: 0.1, output_cost_per_million: 0 },
+};
+
+// Unknown models are charged at the old flat estimate ($0.01 per 1000 tokens)
+const FALLBACK_PRICING: Rates = { input_cost_per_million: 10, output_cost_per_million: 10 };
+
+// Longest built-in model name that prefixes the given one (e.g. dated snapshots like gpt-4o-2024-08-06)
+function findDefaultPricing(model: string): Rates | null {
+  const match = Object.keys(DEFAULT_MODEL_PRICING)
+    .filter(name => model === name || model.startsWith(`${name}-`))
+    .sort((a, b) => b.length - a.length)[0];
+  
+  return match ? DEFAULT_MODEL_PRICING[match] : null;
+}
+
+// Resolve rates: tenant catalog (exact provider first) → built-in defaults → flat fallback
+export async function getModelPricing(
+  tenantId: string,
+  provider: string,
+  model: string
+): Promise<Rates> {
+  const result = await pool.query(
+    `SELECT input_cost_per_million, output_cost_per_million FROM model_pricing
+     WHERE tenant_id = $1 AND model = $2 AND is_active = true
+     ORDER BY (LOWER(provider) = LOWER($3)) DESC, updated_at DESC
+     LIMIT 1`,
+    [tenantId, model, provider]
+  );
+  
+  if (result.rows.length > 0) {
+    return result.rows[0];
+  }
+  
+  return findDefaultPricing(model) || FALLBACK_PRICING;
+}
+
+export function computeCost(rates: Rates, inputTokens: number, outputTokens: number): number {
+  return (inputTokens * rates.input_cost_per_million + outputTokens * rates.output_cost_per_million) / 1_000_000;
+}
+
+// Set while a dry run is in progress; usage is still priced but nothing is written or charged
+const usageSuppression = new AsyncLocalStorage<boolean>();
+
+export function withoutUsageRecording<T>(fn: () => Promise<T>): Promise<T> {
+  return usageSuppression.run(true, fn);
+}
+
+// Price a model call, append it to usage_events and charge the agent's daily counter; returns the cost
+export async function recordUsage(usage: {
+  tenantId: string;
+  agentId?: string | null;
+  userId?: string | null;
+  operation: UsageOperation;
+  provider: string;
+  model: string;
+  inputTokens: number;
+  outputTokens: number;
+}): Promise<number> {
+  try {
+    const rates = await getModelPricing(usage.tenantId, usage.provider, usage.model);
+    const cost = computeCost(rates, usage.inputTokens, usage.outputTokens);
+    
+    if (usageSuppression.getStore()) {
+      return cost;
+    }
+    
+    const occurredAt = new Date();
+    
+    await pool.query(
+      `INSERT INTO usage_events (tenant_id, agent_id, user_id, operation, provider, model, input_tokens, output_tokens, cost, created_at)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)`,
+      [
+        usage.tenantId,
+        usage.agentId || null,
+        usage.userId || null,
+        usage.operation,
+        usage.provider,
+        usage.model,
+        usage.inputTokens,
+        usage.outputTokens,
+        cost,
+        occurredAt,
+      ]
+    );
+    
+    if (usage.agentId) {
+      await chargeAgentCost(usage.agentId, cost, occurredAt);
+    }
+    
+    return cost;
+  } catch (error) {
+    console.error('Error recording usage:', error);
+    // Don't throw - accounting should not break the main flow
+    return 0;
+  }
+}
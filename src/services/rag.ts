@@ -5,7 +5,9 @@ import pdfParse from 'pdf-parse';
 import OpenAI from 'openai';
 import { pool } from '../db/index.js';
 import { chunkText, cosineSimilarity } from '../utils/index.js';
-import { RAGEvidence } from '../types/index.js';
+import { recordUsage } from './pricing.js';
+import { collectionAccessCondition, canManageCollections } from './acl.js';
+import { RAGEvidence, UsageOperation } from '../types/index.js';
 
 const openai = new OpenAI({
   apiKey: process.env.OPENAI_API_KEY,
@@ -39,14 +41,28 @@ export async function extractText(filePath: string, mimeType: string): Promise<s
   }
 }
 
-// Generate embeddings for text
-export async function generateEmbedding(text: string): Promise<number[]> {
+// Generate embeddings for text (usage context, when given, is priced and recorded)
+export async function generateEmbedding(
+  text: string,
+  usage?: { tenantId: string; agentId?: string; userId?: string; operation: UsageOperation }
+): Promise<number[]> {
   try {
+    const model = process.env.EMBEDDING_MODEL || 'text-embedding-3-small';
     const response = await openai.embeddings.create({
-      model: process.env.EMBEDDING_MODEL || 'text-embedding-3-small',
+      model,
       input: text.slice(0, 8000), // Limit input size
     });
     
+    if (usage) {
+      await recordUsage({
+        ...usage,
+        provider: 'openai',
+        model,
+        inputTokens: response.usage?.prompt_tokens || 0,
+        outputTokens: 0,
+      });
+    }
+    
     return response.data[0].embedding;
   } catch (error) {
     console.error('Error generating embedding:', error);
@@ -102,7 +118,7 @@ export async function processDocument(documentId: string): Promise<void> {
       const chunk = chunks[i];
       
       try {
-        const embedding = await generateEmbedding(chunk);
+        const embedding = await generateEmbedding(chunk, { tenantId: doc.tenant_id, operation: 'document_embedding' });
         
         await client.query(
           `INSERT INTO embeddings (document_id, chunk_index, chunk_text, embedding)
@@ -140,27 +156,42 @@ export async function processDocument(documentId: string): Promise<void> {
   }
 }
 
+// Collections an agent may search for this user: linked or global, and visible to the user
+async function getSearchableCollections(agentId: string, tenantId: string, userId?: string): Promise<string[]> {
+  const params: any[] = [tenantId, agentId];
+  let accessFilter = '';
+  
+  // Restricted collections must not leak through an agent to users who can't see them
+  if (userId && !(await canManageCollections(userId, tenantId))) {
+    params.push(userId);
+    accessFilter = ` AND ${collectionAccessCondition(`$${params.length}`)}`;
+  }
+  
+  const result = await pool.query(
+    `SELECT DISTINCT c.id 
+     FROM collections c
+     LEFT JOIN agent_collections ac ON c.id = ac.collection_id
+     WHERE c.tenant_id = $1 AND (ac.agent_id = $2 OR c.is_global = true)${accessFilter}`,
+    params
+  );
+  
+  return result.rows.map(r => r.id);
+}
+
 // Retrieve relevant context for a query
 export async function retrieveContext(
   query: string,
   agentId: string,
   tenantId: string,
-  topK: number = 5
+  topK: number = 5,
+  userId?: string
 ): Promise<{ context: string; evidence: RAGEvidence[] }> {
   try {
     // Generate query embedding
-    const queryEmbedding = await generateEmbedding(query);
+    const queryEmbedding = await generateEmbedding(query, { tenantId, agentId, operation: 'rag_query' });
     
     // Get collections linked to this agent + global collections
-    const collectionsResult = await pool.query(
-      `SELECT DISTINCT c.id 
-       FROM collections c
-       LEFT JOIN agent_collections ac ON c.id = ac.collection_id
-       WHERE c.tenant_id = $1 AND (ac.agent_id = $2 OR c.is_global = true)`,
-      [tenantId, agentId]
-    );
-    
-    const collectionIds = collectionsResult.rows.map(r => r.id);
+    const collectionIds = await getSearchableCollections(agentId, tenantId, userId);
     
     if (collectionIds.length === 0) {
       console.log('RAG: No collections found for agent');
@@ -172,7 +203,7 @@ export async function retrieveContext(
       `SELECT e.*, d.name as document_name, d.version as document_version
        FROM embeddings e
        JOIN documents d ON e.document_id = d.id
-       WHERE d.collection_id = ANY($1) AND d.status = 'completed'`,
+       WHERE d.collection_id = ANY($1) AND d.status = 'completed' AND e.quarantined_at IS NULL`,
       [collectionIds]
     );
     
@@ -241,7 +272,8 @@ export async function retrieveContextWithPgVector(
   query: string,
   agentId: string,
   tenantId: string,
-  topK: number = 5
+  topK: number = 5,
+  userId?: string
 ): Promise<{ context: string; evidence: RAGEvidence[] }> {
   try {
     // Check if pgvector is available
@@ -251,22 +283,14 @@ export async function retrieveContextWithPgVector(
     
     if (pgvectorCheck.rows.length === 0) {
       // Fallback to cosine similarity in JavaScript
-      return retrieveContext(query, agentId, tenantId, topK);
+      return retrieveContext(query, agentId, tenantId, topK, userId);
     }
     
     // Generate query embedding
-    const queryEmbedding = await generateEmbedding(query);
+    const queryEmbedding = await generateEmbedding(query, { tenantId, agentId, operation: 'rag_query' });
     
     // Get collections linked to this agent + global collections
-    const collectionsResult = await pool.query(
-      `SELECT DISTINCT c.id 
-       FROM collections c
-       LEFT JOIN agent_collections ac ON c.id = ac.collection_id
-       WHERE c.tenant_id = $1 AND (ac.agent_id = $2 OR c.is_global = true)`,
-      [tenantId, agentId]
-    );
-    
-    const collectionIds = collectionsResult.rows.map(r => r.id);
+    const collectionIds = await getSearchableCollections(agentId, tenantId, userId);
     
     if (collectionIds.length === 0) {
       return { context: '', evidence: [] };
@@ -278,7 +302,7 @@ export async function retrieveContextWithPgVector(
               1 - (e.embedding::vector <=> $1::vector) as similarity
        FROM embeddings e
        JOIN documents d ON e.document_id = d.id
-       WHERE d.collection_id = ANY($2) AND d.status = 'completed'
+       WHERE d.collection_id = ANY($2) AND d.status = 'completed' AND e.quarantined_at IS NULL
        ORDER BY e.embedding::vector <=> $1::vector
        LIMIT $3`,
       [JSON.stringify(queryEmbedding), collectionIds, topK]
@@ -308,6 +332,6 @@ export async function retrieveContextWithPgVector(
   } catch (error) {
     console.error('Error with pgvector retrieval:', error);
     // Fallback to JavaScript implementation
-    return retrieveContext(query, agentId, tenantId, topK);
+    return retrieveContext(query, agentId, tenantId, topK, userId);
   }
 }
@@ -0,0 +1,160 @@
+import { pool } from '../db/index.js';
+import { logDecision } from './logging.js';
+import { truncateText } from '../utils/index.js';
+import { GuardrailFinding, RAGEvidence, ReviewItem } from '../types/index.js';
+
+// Delivered to the conversation in place of an answer a reviewer rejected
+export const REJECTED_ANSWER_MESSAGE = 'A reviewer did not approve an answer to this request. Please contact an administrator if you need further help.';
+
+// Raised when a review item cannot be resolved
+export class ReviewError extends Error {
+  constructor(message: string, public status: 400 | 404 | 409 = 400) {
+    super(message);
+    this.name = 'ReviewError';
+  }
+}
+
+// Hold a drafted answer until a reviewer approves or rejects it; returns the review item id
+export async function createReviewItem(item: {
+  tenantId: string;
+  agentId: string;
+  userId: string;
+  conversationId: string;
+  message: string;
+  draftResponse: string;
+  reason: string;
+  evidence: RAGEvidence[];
+  findings: GuardrailFinding[];
+  tokensUsed: number;
+  agentVersionId: string | null;
+  messageId: string;
+}): Promise<string> {
+  const result = await pool.query(
+    `INSERT INTO review_items (tenant_id, agent_id, user_id, conversation_id, message, draft_response, reason, evidence, findings, tokens_used, agent_version_id, message_id)
+     VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12)
+     RETURNING id`,
+    [
+      item.tenantId, item.agentId, item.userId, item.conversationId, item.message, item.draftResponse,
+      item.reason, JSON.stringify(item.evidence), JSON.stringify(item.findings), item.tokensUsed, item.agentVersionId,
+      item.messageId,
+    ]
+  );
+  
+  return result.rows[0].id;
+}
+
+// Resolve a pending item and write the answer (or the rejection notice) into the conversation's placeholder message
+async function resolveReview(
+  reviewId: string,
+  tenantId: string,
+  reviewerId: string,
+  status: 'approved' | 'rejected',
+  note: string | undefined,
+  finalResponse: (item: ReviewItem) => string
+): Promise<ReviewItem> {
+  const client = await pool.connect();
+  
+  try {
+    await client.query('BEGIN');
+    
+    const current = await client.query(
+      'SELECT * FROM review_items WHERE id = $1 AND tenant_id = $2 FOR UPDATE',
+      [reviewId, tenantId]
+    );
+    
+    if (current.rows.length === 0) {
+      throw new ReviewError('Review item not found', 404);
+    }
+    
+    const item = current.rows[0] as ReviewItem;
+    if (item.status !== 'pending') {
+      throw new ReviewError(`Review item was already ${item.status}`, 409);
+    }
+    
+    const response = finalResponse(item);
+    const edited = status === 'approved' && response !== item.draft_response;
+    
+    const tokensUsed = status === 'approved' ? item.tokens_used : 0;
+    const evidence = JSON.stringify(status === 'approved' ? item.evidence : []);
+    
+    await client.query(
+      'UPDATE chat_messages SET content = $1, tokens_used = $2, evidence = $3 WHERE id = $4',
+      [response, tokensUsed, evidence, item.message_id]
+    );
+    
+    await client.query(
+      'UPDATE conversations SET updated_at = NOW() WHERE id = $1 AND tenant_id = $2',
+      [item.conversation_id, tenantId]
+    );
+    
+    const updated = await client.query(
+      `UPDATE review_items
+       SET status = $1, final_response = $2, edited = $3, review_note = $4, reviewed_by = $5, reviewed_at = NOW()
+       WHERE id = $6
+       RETURNING *`,
+      [status, response, edited, note || null, reviewerId, reviewId]
+    );
+    
+    await client.query('COMMIT');
+    
+    return updated.rows[0];
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
+  }
+}
+
+// Release the draft (or the reviewer's edited version) to the user; logged as a modified decision
+export async function approveReview(
+  reviewId: string,
+  tenantId: string,
+  reviewerId: string,
+  edits: { response?: string; note?: string } = {}
+): Promise<ReviewItem> {
+  const item = await resolveReview(
+    reviewId, tenantId, reviewerId, 'approved', edits.note,
+    current => edits.response ?? current.draft_response
+  );
+  
+  await logDecision(
+    tenantId, item.user_id, item.agent_id, 'chat', 'modified',
+    item.edited ? 'Held answer edited and approved by reviewer' : 'Held answer approved by reviewer',
+    truncateText(item.message, 200),
+    truncateText(item.final_response!, 200),
+    {
+      reviewId: item.id,
+      reviewerId,
+      edited: item.edited,
+      draftPreview: item.edited ? truncateText(item.draft_response, 200) : undefined,
+      reviewNote: item.review_note || undefined,
+    },
+    undefined,
+    item.agent_version_id
+  );
+  
+  return item;
+}
+
+// Withhold the draft; the user is told a reviewer declined to answer
+export async function rejectReview(
+  reviewId: string,
+  tenantId: string,
+  reviewerId: string,
+  note?: string
+): Promise<ReviewItem> {
+  const item = await resolveReview(reviewId, tenantId, reviewerId, 'rejected', note, () => REJECTED_ANSWER_MESSAGE);
+  
+  await logDecision(
+    tenantId, item.user_id, item.agent_id, 'chat', 'blocked',
+    'Held answer rejected by reviewer',
+    truncateText(item.message, 200),
+    undefined,
+    { reviewId: item.id, reviewerId, reviewNote: item.review_note || undefined },
+    undefined,
+    item.agent_version_id
+  );
+  
+  return item;
+}
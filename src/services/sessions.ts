@@ -0,0 +1,151 @@
+import jwt from 'jsonwebtoken';
+import { v4 as uuidv4 } from 'uuid';
+import { pool } from '../db/index.js';
+import { generateToken, hashToken } from '../utils/index.js';
+import { JWTPayload, UserRole } from '../types/index.js';
+
+// Raised when a refresh token cannot be exchanged
+export class SessionError extends Error {
+  constructor(message: string, public status: 401 | 403 = 401) {
+    super(message);
+    this.name = 'SessionError';
+  }
+}
+
+export interface SessionTokens {
+  token: string;
+  refreshToken: string;
+  expiresIn: string;
+  sessionId: string;
+}
+
+function refreshTtlMs(): number {
+  return parseInt(process.env.REFRESH_TOKEN_TTL_DAYS || '30') * 24 * 60 * 60 * 1000;
+}
+
+function signAccessToken(payload: JWTPayload): { token: string; expiresIn: string } {
+  const expiresIn = process.env.JWT_EXPIRES_IN || '15m';
+  const token = jwt.sign(payload, process.env.JWT_SECRET!, { expiresIn } as jwt.SignOptions);
+  return { token, expiresIn };
+}
+
+// Start a new session for a user and issue its first access/refresh token pair
+export async function createSession(
+  user: { id: string; email: string; role: UserRole; tenant_id: string },
+  meta: { userAgent?: string; ipAddress?: string } = {}
+): Promise<SessionTokens> {
+  const sessionId = uuidv4();
+  const refreshToken = generateToken();
+  
+  await pool.query(
+    `INSERT INTO sessions (id, tenant_id, user_id, refresh_token_hash, user_agent, ip_address, expires_at)
+     VALUES ($1, $2, $3, $4, $5, $6, $7)`,
+    [
+      sessionId, user.tenant_id, user.id, hashToken(refreshToken),
+      meta.userAgent || null, meta.ipAddress || null, new Date(Date.now() + refreshTtlMs())
+    ]
+  );
+  
+  const { token, expiresIn } = signAccessToken({
+    userId: user.id,
+    email: user.email,
+    role: user.role,
+    tenantId: user.tenant_id,
+    sessionId,
+  });
+  
+  return { token, refreshToken, expiresIn, sessionId };
+}
+
+// Exchange a refresh token for a new pair. The refresh token rotates on every use;
+// presenting the previous one again means it leaked, so the session is revoked.
+export async function rotateSession(refreshToken: string): Promise<SessionTokens> {
+  const tokenHash = hashToken(refreshToken);
+  
+  const result = await pool.query(
+    `SELECT s.*, u.email, u.role, u.is_active as user_active, t.is_active as tenant_active
+     FROM sessions s
+     JOIN users u ON s.user_id = u.id
+     JOIN tenants t ON s.tenant_id = t.id
+     WHERE s.refresh_token_hash = $1 OR s.previous_token_hash = $1`,
+    [tokenHash]
+  );
+  
+  const session = result.rows[0];
+  
+  if (!session || session.revoked_at || new Date(session.expires_at) <= new Date()) {
+    throw new SessionError('Invalid or expired refresh token');
+  }
+  
+  if (session.refresh_token_hash !== tokenHash) {
+    await revokeSession(session.id, 'refresh_token_reuse');
+    throw new SessionError('Invalid or expired refresh token');
+  }
+  
+  if (!session.user_active) {
+    await revokeSession(session.id, 'user_deactivated');
+    throw new SessionError('Invalid or expired refresh token');
+  }
+  
+  if (!session.tenant_active) {
+    throw new SessionError('Tenant is suspended', 403);
+  }
+  
+  const nextRefreshToken = generateToken();
+  
+  // Conditional on the current hash so two concurrent refreshes can't both succeed
+  const updated = await pool.query(
+    `UPDATE sessions
+     SET previous_token_hash = refresh_token_hash, refresh_token_hash = $1, last_used_at = NOW()
+     WHERE id = $2 AND refresh_token_hash = $3 AND revoked_at IS NULL`,
+    [hashToken(nextRefreshToken), session.id, tokenHash]
+  );
+  
+  if (updated.rowCount === 0) {
+    throw new SessionError('Invalid or expired refresh token');
+  }
+  
+  const { token, expiresIn } = signAccessToken({
+    userId: session.user_id,
+    email: session.email,
+    role: session.role,
+    tenantId: session.tenant_id,
+    sessionId: session.id,
+  });
+  
+  return { token, refreshToken: nextRefreshToken, expiresIn, sessionId: session.id };
+}
+
+export async function revokeSession(sessionId: string, reason: string): Promise<boolean> {
+  const result = await pool.query(
+    'UPDATE sessions SET revoked_at = NOW(), revoked_reason = $1 WHERE id = $2 AND revoked_at IS NULL',
+    [reason, sessionId]
+  );
+  return (result.rowCount ?? 0) > 0;
+}
+
+// Revoke every active session of a user, optionally keeping the caller's own; returns the count
+export async function revokeUserSessions(
+  userId: string,
+  reason: string,
+  exceptSessionId?: string
+): Promise<number> {
+  const result = await pool.query(
+    `UPDATE sessions SET revoked_at = NOW(), revoked_reason = $1
+     WHERE user_id = $2 AND revoked_at IS NULL AND id IS DISTINCT FROM $3`,
+    [reason, userId, exceptSessionId || null]
+  );
+  return result.rowCount ?? 0;
+}
+
+// Active sessions of a user (most recently used first)
+export async function listUserSessions(userId: string): Promise<any[]> {
+  const result = await pool.query(
+    `SELECT id, user_agent, ip_address, created_at, last_used_at, expires_at
+     FROM sessions
+     WHERE user_id = $1 AND revoked_at IS NULL AND expires_at > NOW()
+     ORDER BY COALESCE(last_used_at, created_at) DESC`,
+    [userId]
+  );
+  return result.rows;
+}
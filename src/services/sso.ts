@@ -0,0 +1,325 @@
+import crypto from 'crypto';
+import bcrypt from 'bcrypt';
+import jwt from 'jsonwebtoken';
+import { v4 as uuidv4 } from 'uuid';
+import { pool } from '../db/index.js';
+import { decrypt, generateToken } from '../utils/index.js';
+import { revokeUserSessions } from './sessions.js';
+import { SsoProvider, UserRole } from '../types/index.js';
+
+const STATE_TTL_MS = 10 * 60 * 1000;
+const METADATA_TTL_MS = 60 * 60 * 1000;
+const ID_TOKEN_ALGORITHMS: jwt.Algorithm[] = [
+  'RS256', 'RS384', 'RS512', 'PS256', 'PS384', 'PS512', 'ES256', 'ES384', 'ES512', 'HS256', 'HS384', 'HS512',
+];
+
+interface OidcDiscovery {
+  issuer: string;
+  authorization_endpoint: string;
+  token_endpoint: string;
+  jwks_uri: string;
+  userinfo_endpoint?: string;
+}
+
+// Raised when an SSO login cannot be started or completed
+export class SsoError extends Error {
+  constructor(message: string, public status: 400 | 401 | 403 | 404 = 400) {
+    super(message);
+    this.name = 'SsoError';
+  }
+}
+
+const discoveryCache = new Map<string, { value: OidcDiscovery; fetchedAt: number }>();
+const jwksCache = new Map<string, { keys: any[]; fetchedAt: number }>();
+
+async function fetchJson(url: string, init?: RequestInit): Promise<any> {
+  const response = await fetch(url, init);
+  if (!response.ok) {
+    throw new SsoError(`Identity provider request failed (${response.status})`, 401);
+  }
+  return response.json();
+}
+
+async function discover(issuer: string): Promise<OidcDiscovery> {
+  const cached = discoveryCache.get(issuer);
+  if (cached && Date.now() - cached.fetchedAt < METADATA_TTL_MS) {
+    return cached.value;
+  }
+  
+  const value = await fetchJson(`${issuer.replace(/\/$/, '')}/.well-known/openid-configuration`);
+  discoveryCache.set(issuer, { value, fetchedAt: Date.now() });
+  return value;
+}
+
+// Find the signing key by kid, refetching the JWKS once in case the IdP rotated keys
+async function getSigningKey(jwksUri: string, kid?: string): Promise<crypto.KeyObject> {
+  const find = (keys: any[]) => keys.find(k => (kid ? k.kid === kid : k.use !== 'enc'));
+  
+  const cached = jwksCache.get(jwksUri);
+  let jwk = cached && Date.now() - cached.fetchedAt < METADATA_TTL_MS ? find(cached.keys) : undefined;
+  
+  if (!jwk) {
+    const { keys = [] } = await fetchJson(jwksUri);
+    jwksCache.set(jwksUri, { keys, fetchedAt: Date.now() });
+    jwk = find(keys);
+  }
+  
+  if (!jwk) {
+    throw new SsoError('ID token signing key not found', 401);
+  }
+  
+  return crypto.createPublicKey({ key: jwk, format: 'jwk' });
+}
+
+async function verifyIdToken(
+  idToken: string,
+  provider: SsoProvider,
+  metadata: OidcDiscovery,
+  nonce: string
+): Promise<Record<string, any>> {
+  const decoded = jwt.decode(idToken, { complete: true });
+  if (!decoded || typeof decoded.payload === 'string') {
+    throw new SsoError('Invalid ID token', 401);
+  }
+  
+  const alg = decoded.header.alg as jwt.Algorithm;
+  if (!ID_TOKEN_ALGORITHMS.includes(alg)) {
+    throw new SsoError('Invalid ID token', 401);
+  }
+  
+  // HMAC-signed ID tokens use the client secret as the key (OIDC Core 10.1)
+  const key = alg.startsWith('HS')
+    ? decrypt(provider.client_secret_encrypted)
+    : await getSigningKey(metadata.jwks_uri, decoded.header.kid);
+  
+  let claims: Record<string, any>;
+  try {
+    claims = jwt.verify(idToken, key, {
+      algorithms: [alg],
+      issuer: metadata.issuer,
+      audience: provider.client_id,
+    }) as Record<string, any>;
+  } catch (error) {
+    throw new SsoError('Invalid ID token', 401);
+  }
+  
+  if (claims.nonce !== nonce) {
+    throw new SsoError('Invalid ID token', 401);
+  }
+  
+  return claims;
+}
+
+// The most privileged role whose claim value the user carries, else the default
+function mapRole(claims: Record<string, any>, provider: SsoProvider): UserRole {
+  if (!provider.role_claim) {
+    return provider.default_role;
+  }
+  
+  const raw = claims[provider.role_claim];
+  const values: string[] = Array.isArray(raw) ? raw.map(String) : raw !== undefined ? [String(raw)] : [];
+  const roles = values.map(v => provider.role_mapping[v]).filter(Boolean);
+  
+  if (roles.includes('tenant_admin')) return 'tenant_admin';
+  if (roles.includes('user')) return 'user';
+  return provider.default_role;
+}
+
+// Active SSO configuration for a tenant by slug
+async function getProviderBySlug(tenantSlug: string): Promise<SsoProvider> {
+  const result = await pool.query(
+    `SELECT p.* FROM sso_providers p
+     JOIN tenants t ON p.tenant_id = t.id
+     WHERE t.slug = $1 AND t.is_active = true AND p.is_active = true`,
+    [tenantSlug]
+  );
+  
+  if (result.rows.length === 0) {
+    throw new SsoError('SSO is not configured for this tenant', 404);
+  }
+  
+  return result.rows[0];
+}
+
+// Build the IdP authorization URL (authorization code flow with PKCE) and remember the state
+export async function startSsoLogin(tenantSlug: string): Promise<{ authorizationUrl: string; state: string }> {
+  const provider = await getProviderBySlug(tenantSlug);
+  const metadata = await discover(provider.issuer);
+  
+  const state = generateToken();
+  const nonce = generateToken();
+  const codeVerifier = generateToken(48);
+  const codeChallenge = crypto.createHash('sha256').update(codeVerifier).digest('base64url');
+  
+  await pool.query('DELETE FROM sso_login_states WHERE expires_at < NOW()');
+  await pool.query(
+    `INSERT INTO sso_login_states (state, tenant_id, nonce, code_verifier, expires_at)
+     VALUES ($1, $2, $3, $4, $5)`,
+    [state, provider.tenant_id, nonce, codeVerifier, new Date(Date.now() + STATE_TTL_MS)]
+  );
+  
+  const url = new URL(metadata.authorization_endpoint);
+  url.searchParams.set('response_type', 'code');
+  url.searchParams.set('client_id', provider.client_id);
+  url.searchParams.set('redirect_uri', provider.redirect_uri);
+  url.searchParams.set('scope', provider.scopes);
+  url.searchParams.set('state', state);
+  url.searchParams.set('nonce', nonce);
+  url.searchParams.set('code_challenge', codeChallenge);
+  url.searchParams.set('code_challenge_method', 'S256');
+  
+  return { authorizationUrl: url.toString(), state };
+}
+
+// Exchange the authorization code, verify the ID token and return the (possibly new) user
+export async function completeSsoLogin(code: string, state: string): Promise<any> {
+  const stateResult = await pool.query(
+    'DELETE FROM sso_login_states WHERE state = $1 RETURNING *',
+    [state]
+  );
+  
+  const pending = stateResult.rows[0];
+  if (!pending || new Date(pending.expires_at) <= new Date()) {
+    throw new SsoError('Invalid or expired SSO state');
+  }
+  
+  const providerResult = await pool.query(
+    `SELECT p.* FROM sso_providers p
+     JOIN tenants t ON p.tenant_id = t.id
+     WHERE p.tenant_id = $1 AND p.is_active = true AND t.is_active = true`,
+    [pending.tenant_id]
+  );
+  
+  if (providerResult.rows.length === 0) {
+    throw new SsoError('SSO is not configured for this tenant', 404);
+  }
+  
+  const provider = providerResult.rows[0] as SsoProvider;
+  const metadata = await discover(provider.issuer);
+  
+  const tokens = await fetchJson(metadata.token_endpoint, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+    body: new URLSearchParams({
+      grant_type: 'authorization_code',
+      code,
+      redirect_uri: provider.redirect_uri,
+      client_id: provider.client_id,
+      client_secret: decrypt(provider.client_secret_encrypted),
+      code_verifier: pending.code_verifier,
+    }),
+  });
+  
+  if (!tokens.id_token) {
+    throw new SsoError('Identity provider did not return an ID token', 401);
+  }
+  
+  let claims = await verifyIdToken(tokens.id_token, provider, metadata, pending.nonce);
+  
+  // Some IdPs only put the email in userinfo
+  if (!claims.email && metadata.userinfo_endpoint && tokens.access_token) {
+    const userinfo = await fetchJson(metadata.userinfo_endpoint, {
+      headers: { Authorization: `Bearer ${tokens.access_token}` },
+    });
+    if (userinfo.sub === claims.sub) {
+      claims = { ...userinfo, ...claims };
+    }
+  }
+  
+  const subject = typeof claims.sub === 'string' && claims.sub ? claims.sub : null;
+  if (!subject) {
+    throw new SsoError('Invalid ID token', 401);
+  }
+  
+  const email = typeof claims.email === 'string' ? claims.email.toLowerCase() : null;
+  if (!email) {
+    throw new SsoError('Identity provider did not return an email address', 403);
+  }
+  
+  if (claims.email_verified === false) {
+    throw new SsoError('Email address is not verified', 403);
+  }
+  
+  const domain = email.split('@')[1];
+  if (provider.allowed_domains.length > 0 && !provider.allowed_domains.map(d => d.toLowerCase()).includes(domain)) {
+    throw new SsoError('Email domain is not allowed for this tenant', 403);
+  }
+  
+  const role = mapRole(claims, provider);
+  
+  // Accounts are bound to the IdP identity (issuer, sub); the email only links an account on its first SSO login
+  const bound = await pool.query(
+    `SELECT u.*, t.slug as tenant_slug FROM users u JOIN tenants t ON u.tenant_id = t.id
+     WHERE u.sso_issuer = $1 AND u.sso_subject = $2`,
+    [metadata.issuer, subject]
+  );
+  
+  const existing = bound.rows.length > 0 ? bound : await pool.query(
+    `SELECT u.*, t.slug as tenant_slug FROM users u JOIN tenants t ON u.tenant_id = t.id
+     WHERE LOWER(u.email) = $1`,
+    [email]
+  );
+  
+  if (existing.rows.length > 0) {
+    const user = existing.rows[0];
+    
+    if (user.tenant_id !== provider.tenant_id) {
+      throw new SsoError('This account belongs to a different tenant', 403);
+    }
+    
+    // A tenant's IdP must never vouch for a platform administrator
+    if (user.role === 'master_admin') {
+      throw new SsoError('SSO is not available for master admin accounts', 403);
+    }
+    
+    if (!user.is_active) {
+      throw new SsoError('Account is deactivated', 403);
+    }
+    
+    if (!user.sso_subject) {
+      if (claims.email_verified !== true) {
+        throw new SsoError('Email address must be verified to link an existing account', 403);
+      }
+      
+      // Signing in through the IdP would skip the account's own second factor
+      if (user.mfa_enabled) {
+        throw new SsoError('This account uses two-factor authentication and cannot be linked to SSO', 403);
+      }
+      
+      await pool.query(
+        'UPDATE users SET sso_issuer = $1, sso_subject = $2, updated_at = NOW() WHERE id = $3',
+        [metadata.issuer, subject, user.id]
+      );
+      user.sso_issuer = metadata.issuer;
+      user.sso_subject = subject;
+    } else if (user.sso_issuer !== metadata.issuer || user.sso_subject !== subject) {
+      throw new SsoError('This account is linked to a different identity', 403);
+    }
+    
+    // Keep the role in sync with the IdP when a claim mapping is configured
+    if (provider.role_claim && user.role !== role) {
+      await pool.query('UPDATE users SET role = $1, updated_at = NOW() WHERE id = $2', [role, user.id]);
+      await revokeUserSessions(user.id, 'role_change');
+      user.role = role;
+    }
+    
+    return user;
+  }
+  
+  if (!provider.auto_provision) {
+    throw new SsoError('No account exists for this user', 403);
+  }
+  
+  // Just-in-time provisioning; the random password can only be replaced through a reset
+  const userId = uuidv4();
+  const passwordHash = await bcrypt.hash(generateToken(), 12);
+  
+  const created = await pool.query(
+    `INSERT INTO users (id, tenant_id, email, password_hash, role, is_approved, is_active, sso_issuer, sso_subject)
+     VALUES ($1, $2, $3, $4, $5, true, true, $6, $7)
+     RETURNING *, (SELECT slug FROM tenants WHERE id = $2) as tenant_slug`,
+    [userId, provider.tenant_id, email, passwordHash, role, metadata.issuer, subject]
+  );
+  
+  return created.rows[0];
+}
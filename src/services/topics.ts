@@ -0,0 +1,184 @@
+import { generateEmbedding } from './rag.js';
+import { cosineSimilarity } from '../utils/index.js';
+import { Agent, TopicMatch, TopicRule } from '../types/index.js';
+
+const DEFAULT_TOPIC_THRESHOLD = parseFloat(process.env.TOPIC_SIMILARITY_THRESHOLD || '0.45');
+const MAX_CACHED_TOPICS = 1000;
+
+// Topic descriptions rarely change, so their embeddings are cached by text
+const topicEmbeddingCache = new Map<string, number[]>();
+
+export interface TopicCheckResult {
+  allowed: boolean;
+  reason?: string;
+  match?: TopicMatch;
+}
+
+function normalizeTopic(topic: string | TopicRule): TopicRule {
+  return typeof topic === 'string' ? { name: topic } : topic;
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// Keywords match whole words only, so "rapist" does not match "therapist"
+function matchRules(message: string, rule: TopicRule): 'keyword' | 'pattern' | null {
+  for (const keyword of rule.keywords || []) {
+    if (new RegExp(`(?<![\\p{L}\\p{N}_])${escapeRegExp(keyword)}(?![\\p{L}\\p{N}_])`, 'iu').test(message)) {
+      return 'keyword';
+    }
+  }
+  
+  for (const pattern of rule.patterns || []) {
+    try {
+      if (new RegExp(pattern, 'i').test(message)) {
+        return 'pattern';
+      }
+    } catch {
+      // Patterns are validated on save; skip anything stored before that
+    }
+  }
+  
+  return null;
+}
+
+async function getTopicEmbedding(
+  rule: TopicRule,
+  usage: { tenantId: string; agentId: string }
+): Promise<number[]> {
+  const text = rule.description ? `${rule.name}: ${rule.description}` : rule.name;
+  
+  const cached = topicEmbeddingCache.get(text);
+  if (cached) {
+    return cached;
+  }
+  
+  const embedding = await generateEmbedding(text, { ...usage, operation: 'topic_check' });
+  
+  if (topicEmbeddingCache.size >= MAX_CACHED_TOPICS) {
+    topicEmbeddingCache.delete(topicEmbeddingCache.keys().next().value!);
+  }
+  topicEmbeddingCache.set(text, embedding);
+  
+  return embedding;
+}
+
+// Score every rule against the message, highest similarity first
+async function scoreTopics(
+  messageEmbedding: number[],
+  rules: TopicRule[],
+  list: TopicMatch['list'],
+  usage: { tenantId: string; agentId: string }
+): Promise<TopicMatch[]> {
+  const matches: TopicMatch[] = [];
+  
+  for (const rule of rules) {
+    const topicEmbedding = await getTopicEmbedding(rule, usage);
+    matches.push({
+      topic: rule.name,
+      list,
+      method: 'semantic',
+      score: cosineSimilarity(messageEmbedding, topicEmbedding),
+      threshold: rule.threshold ?? DEFAULT_TOPIC_THRESHOLD,
+    });
+  }
+  
+  return matches.sort((a, b) => b.score - a.score);
+}
+
+// Keyword/regex rules first, then similarity against each forbidden topic
+async function findForbiddenTopic(
+  text: string,
+  forbidden: TopicRule[],
+  embed: () => Promise<number[]>,
+  usage: { tenantId: string; agentId: string }
+): Promise<TopicMatch | undefined> {
+  for (const rule of forbidden) {
+    const method = matchRules(text, rule);
+    if (method) {
+      return { topic: rule.name, list: 'forbidden', method, score: 1 };
+    }
+  }
+  
+  if (forbidden.length === 0) {
+    return undefined;
+  }
+  
+  const scores = await scoreTopics(await embed(), forbidden, 'forbidden', usage);
+  return scores.find(m => m.score >= m.threshold!);
+}
+
+// Check generated text against the agent's forbidden topics
+export async function checkForbiddenTopics(
+  text: string,
+  agent: Agent,
+  userId: string
+): Promise<TopicMatch | undefined> {
+  const usage = { tenantId: agent.tenant_id, agentId: agent.id };
+  const forbidden = (agent.forbidden_topics || []).map(normalizeTopic);
+  
+  return findForbiddenTopic(
+    text,
+    forbidden,
+    () => generateEmbedding(text, { ...usage, userId, operation: 'topic_check' }),
+    usage
+  );
+}
+
+// Check a message against the agent's forbidden and allowed topics.
+// Keyword/regex rules decide first; otherwise the message embedding is compared to each topic.
+export async function checkTopics(
+  message: string,
+  agent: Agent,
+  userId: string
+): Promise<TopicCheckResult> {
+  const forbidden = (agent.forbidden_topics || []).map(normalizeTopic);
+  const allowed = (agent.allowed_topics || []).map(normalizeTopic);
+  
+  if (forbidden.length === 0 && allowed.length === 0) {
+    return { allowed: true };
+  }
+  
+  const usage = { tenantId: agent.tenant_id, agentId: agent.id };
+  
+  // Embed the message at most once, and only if a similarity check is needed
+  let messageEmbedding: number[] | undefined;
+  const embed = async () => {
+    messageEmbedding ??= await generateEmbedding(message, { ...usage, userId, operation: 'topic_check' });
+    return messageEmbedding;
+  };
+  
+  const forbiddenMatch = await findForbiddenTopic(message, forbidden, embed, usage);
+  if (forbiddenMatch) {
+    return {
+      allowed: false,
+      reason: `Message matches forbidden topic: "${forbiddenMatch.topic}"`,
+      match: forbiddenMatch,
+    };
+  }
+  
+  if (allowed.length === 0) {
+    return { allowed: true };
+  }
+  
+  for (const rule of allowed) {
+    const method = matchRules(message, rule);
+    if (method) {
+      return { allowed: true, match: { topic: rule.name, list: 'allowed', method, score: 1 } };
+    }
+  }
+  
+  // If allowed topics are specified, the message must match at least one
+  const allowedScores = await scoreTopics(await embed(), allowed, 'allowed', usage);
+  const allowedMatch = allowedScores.find(m => m.score >= m.threshold!);
+  if (allowedMatch) {
+    return { allowed: true, match: allowedMatch };
+  }
+  
+  return {
+    allowed: false,
+    reason: 'Message does not match any allowed topics',
+    match: allowedScores[0],
+  };
+}
@@ -0,0 +1,211 @@
+import { PoolClient } from 'pg';
+import { pool } from '../db/index.js';
+
+// Add spend to an agent's archived total for one day
+async function archiveDailyUsage(
+  client: PoolClient,
+  agent: { tenant_id: string; id: string; cost_limit_daily: number },
+  usageDate: string,
+  cost: number
+): Promise<void> {
+  await client.query(
+    `INSERT INTO agent_daily_usage (tenant_id, agent_id, usage_date, cost, cost_limit)
+     VALUES ($1, $2, $3, $4, $5)
+     ON CONFLICT (agent_id, usage_date)
+     DO UPDATE SET cost = agent_daily_usage.cost + EXCLUDED.cost, cost_limit = EXCLUDED.cost_limit, updated_at = NOW()`,
+    [agent.tenant_id, agent.id, usageDate, cost, agent.cost_limit_daily]
+  );
+}
+
+// Archive yesterday's (tenant-local) agent spend into agent_daily_usage and zero the counters.
+// Returns the number of agents rolled over.
+export async function rollOverDailyCosts(): Promise<number> {
+  const client = await pool.connect();
+  
+  try {
+    await client.query('BEGIN');
+    
+    // Lock agents whose counter belongs to a day that has ended in their tenant's timezone
+    const dueResult = await client.query(
+      `SELECT a.id, a.tenant_id, a.cost_used_today, a.cost_limit_daily, a.cost_period_date::text AS cost_period_date,
+              (NOW() AT TIME ZONE t.timezone)::date::text AS today
+       FROM agents a
+       JOIN tenants t ON a.tenant_id = t.id
+       WHERE a.cost_period_date < (NOW() AT TIME ZONE t.timezone)::date
+       FOR UPDATE OF a`
+    );
+    
+    for (const agent of dueResult.rows) {
+      await archiveDailyUsage(client, agent, agent.cost_period_date, agent.cost_used_today);
+      
+      await client.query(
+        'UPDATE agents SET cost_used_today = 0, cost_period_date = $1, updated_at = NOW() WHERE id = $2',
+        [agent.today, agent.id]
+      );
+    }
+    
+    await client.query('COMMIT');
+    return dueResult.rows.length;
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
+  }
+}
+
+// Manual reset: archive what was spent so far today, then zero the counter
+export async function resetAgentCost(agentId: string, tenantId: string): Promise<boolean> {
+  const client = await pool.connect();
+  
+  try {
+    await client.query('BEGIN');
+    
+    const agentResult = await client.query(
+      'SELECT id, tenant_id, cost_used_today, cost_limit_daily, cost_period_date::text AS cost_period_date FROM agents WHERE id = $1 AND tenant_id = $2 FOR UPDATE',
+      [agentId, tenantId]
+    );
+    
+    if (agentResult.rows.length === 0) {
+      await client.query('ROLLBACK');
+      return false;
+    }
+    
+    const agent = agentResult.rows[0];
+    
+    await archiveDailyUsage(client, agent, agent.cost_period_date, agent.cost_used_today);
+    
+    await client.query(
+      'UPDATE agents SET cost_used_today = 0, updated_at = NOW() WHERE id = $1',
+      [agentId]
+    );
+    
+    await client.query('COMMIT');
+    return true;
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
+  }
+}
+
+// Charge a model call to the tenant-local day it happened on. The counter is rolled over first when
+// that day is newer, and a call from a day that was already rolled over goes straight to the archive.
+export async function chargeAgentCost(agentId: string, cost: number, occurredAt: Date): Promise<void> {
+  const client = await pool.connect();
+  
+  try {
+    await client.query('BEGIN');
+    
+    const agentResult = await client.query(
+      `SELECT a.id, a.tenant_id, a.cost_used_today, a.cost_limit_daily, a.cost_period_date::text AS cost_period_date,
+              ($2::timestamptz AT TIME ZONE t.timezone)::date::text AS usage_date,
+              (NOW() AT TIME ZONE t.timezone)::date::text AS today
+       FROM agents a
+       JOIN tenants t ON a.tenant_id = t.id
+       WHERE a.id = $1
+       FOR UPDATE OF a`,
+      [agentId, occurredAt]
+    );
+    
+    const agent = agentResult.rows[0];
+    
+    if (agent) {
+      // ISO dates compare correctly as strings. A period ahead of the tenant's calendar (a server-date
+      // default, a timezone change) is the current day, so the charge isn't hidden in the archive.
+      const periodDate = agent.cost_period_date > agent.today ? agent.today : agent.cost_period_date;
+      
+      if (agent.usage_date > periodDate) {
+        await archiveDailyUsage(client, agent, periodDate, agent.cost_used_today);
+        await client.query(
+          'UPDATE agents SET cost_used_today = $1, cost_period_date = $2, updated_at = NOW() WHERE id = $3',
+          [cost, agent.usage_date, agentId]
+        );
+      } else if (agent.usage_date < periodDate) {
+        await archiveDailyUsage(client, agent, agent.usage_date, cost);
+      } else {
+        await client.query(
+          'UPDATE agents SET cost_used_today = cost_used_today + $1, cost_period_date = $2, updated_at = NOW() WHERE id = $3',
+          [cost, periodDate, agentId]
+        );
+      }
+    }
+    
+    await client.query('COMMIT');
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
+  }
+}
+
+// Spend that counts toward the agent's daily limit now; a counter from a day that has ended counts as zero
+export async function getAgentCostToday(agentId: string): Promise<number> {
+  const result = await pool.query(
+    `SELECT CASE WHEN a.cost_period_date < (NOW() AT TIME ZONE t.timezone)::date THEN 0 ELSE a.cost_used_today END AS cost
+     FROM agents a
+     JOIN tenants t ON a.tenant_id = t.id
+     WHERE a.id = $1`,
+    [agentId]
+  );
+  return result.rows[0]?.cost ?? 0;
+}
+
+// Get archived daily spend for an agent (most recent first)
+export async function getAgentDailyUsage(
+  agentId: string,
+  tenantId: string,
+  filters: { startDate?: string; endDate?: string; limit?: number } = {}
+): Promise<any[]> {
+  let query = `
+    SELECT usage_date::text AS usage_date, cost, cost_limit
+    FROM agent_daily_usage
+    WHERE agent_id = $1 AND tenant_id = $2
+  `;
+  const params: any[] = [agentId, tenantId];
+  let paramIndex = 3;
+  
+  if (filters.startDate) {
+    query += ` AND usage_date >= $${paramIndex++}`;
+    params.push(filters.startDate);
+  }
+  
+  if (filters.endDate) {
+    query += ` AND usage_date <= $${paramIndex++}`;
+    params.push(filters.endDate);
+  }
+  
+  query += ' ORDER BY usage_date DESC';
+  
+  if (filters.limit) {
+    query += ` LIMIT $${paramIndex++}`;
+    params.push(filters.limit);
+  }
+  
+  const result = await pool.query(query, params);
+  return result.rows;
+}
+
+// Run the rollover now and then periodically
+export function startCostRolloverScheduler(): NodeJS.Timeout {
+  const intervalMs = parseInt(process.env.COST_ROLLOVER_INTERVAL_MS || '60000');
+  
+  const run = () => {
+    rollOverDailyCosts()
+      .then(count => {
+        if (count > 0) {
+          console.log(`Cost rollover: archived daily usage for ${count} agent(s)`);
+        }
+      })
+      .catch(error => {
+        console.error('Cost rollover failed:', error);
+      });
+  };
+  
+  run();
+  const timer = setInterval(run, intervalMs);
+  timer.unref();
+  return timer;
+}
@@ -4,6 +4,15 @@ export type UserRole = 'master_admin' | 'tenant_admin' | 'user';
 // Agent Modes
 export type AgentMode = 'INTERNAL' | 'HYBRID' | 'FREE';
 
+// Agent/collection access: everyone in the tenant, or only the allow-list
+export type AccessMode = 'tenant' | 'restricted';
+
+// When an agent's answers are held for human review: never, when guardrails blocked or changed them, or always
+export type ReviewMode = 'off' | 'flagged' | 'always';
+
+// Who an allow-list entry refers to
+export type AccessSubjectType = 'user' | 'group';
+
 // Document Status
 export type DocumentStatus = 'pending' | 'processing' | 'completed' | 'failed';
 
@@ -16,6 +25,15 @@ export interface User {
   tenant_id: string;
   is_approved: boolean;
   is_active: boolean;
+  invitation_id?: string;
+  mfa_enabled: boolean;
+  mfa_secret_encrypted?: string;
+  mfa_last_step?: number;
+  failed_login_attempts: number;
+  locked_until?: Date;
+  custom_role_id?: string;
+  sso_issuer?: string;
+  sso_subject?: string;
   created_at: Date;
   updated_at: Date;
 }
@@ -25,11 +43,106 @@ export interface Tenant {
   id: string;
   name: string;
   slug: string;
+  timezone: string;
+  require_admin_mfa: boolean;
+  password_policy: Partial<PasswordPolicy>;
+  pii_policy: Partial<PiiPolicy>;
   is_active: boolean;
   created_at: Date;
   updated_at: Date;
 }
 
+// Password rules a tenant can tighten (merged over the defaults)
+export interface PasswordPolicy {
+  min_length: number;
+  require_uppercase: boolean;
+  require_lowercase: boolean;
+  require_number: boolean;
+  require_symbol: boolean;
+  disallow_email: boolean;
+}
+
+// Topic guardrail: matched by keyword/regex rules or by embedding similarity to its description
+export interface TopicRule {
+  name: string;
+  description?: string;
+  threshold?: number;
+  keywords?: string[];
+  patterns?: string[];
+}
+
+// Which topic rule decided a message, recorded in decision log metadata
+export interface TopicMatch {
+  topic: string;
+  list: 'allowed' | 'forbidden';
+  method: 'keyword' | 'pattern' | 'semantic';
+  score: number;
+  threshold?: number;
+}
+
+// PII kinds the detector recognises
+export type PiiType = 'email' | 'phone' | 'credit_card' | 'iban' | 'ssn' | 'cpf' | 'cnpj' | 'ip_address';
+
+// Tenant-defined PII pattern, reported under its own name
+export interface PiiCustomPattern {
+  name: string;
+  pattern: string;
+}
+
+// How a tenant's PII is masked before prompts leave the platform and in decision logs
+export interface PiiPolicy {
+  mask_prompts: boolean;
+  rehydrate_responses: boolean;
+  mask_logs: boolean;
+  types: PiiType[];
+  custom_patterns: PiiCustomPattern[];
+}
+
+// What an output check does when it fires
+export type GuardrailAction = 'off' | 'block' | 'redact' | 'annotate';
+
+export interface DenyPattern {
+  pattern: string;
+  label?: string;
+  action: Exclude<GuardrailAction, 'off'>;
+}
+
+// Post-generation checks on model responses (merged over the defaults)
+export interface OutputGuardrails {
+  forbidden_topics: Exclude<GuardrailAction, 'redact'>;
+  pii: GuardrailAction;
+  pii_types: PiiType[];
+  deny_patterns: DenyPattern[];
+  citations: Exclude<GuardrailAction, 'redact'>; // INTERNAL mode only
+}
+
+// One output check that fired
+export interface GuardrailFinding {
+  check: 'forbidden_topic' | 'pii' | 'deny_pattern' | 'citation';
+  action: Exclude<GuardrailAction, 'off'>;
+  detail: string;
+  count?: number;
+  score?: number;
+}
+
+// Prompt-injection handling for an agent (merged over the defaults)
+export interface InjectionGuard {
+  input_action: 'off' | 'flag' | 'block';
+  chunk_action: 'off' | 'flag' | 'drop' | 'quarantine';
+  threshold: number;
+  classifier_model: string | null;
+}
+
+// A user message or retrieved chunk scored as a likely injection, recorded in decision log metadata
+export interface InjectionDetection {
+  source: 'input' | 'chunk';
+  score: number;
+  signals: string[];
+  action: 'flagged' | 'blocked' | 'dropped' | 'quarantined';
+  document_id?: string;
+  chunk_index?: number;
+}
+
 // Agent Interface
 export interface Agent {
   id: string;
@@ -40,17 +153,56 @@ export interface Agent {
   model: string;
   temperature: number;
   mode: AgentMode;
-  allowed_topics: string[];
-  forbidden_topics: string[];
+  allowed_topics: (string | TopicRule)[];
+  forbidden_topics: (string | TopicRule)[];
   cost_limit_daily: number;
   cost_used_today: number;
+  cost_period_date: string;
   kill_switch: boolean;
   enable_rag: boolean;
+  memory_token_budget: number;
+  access_mode: AccessMode;
+  output_guardrails: Partial<OutputGuardrails>;
+  injection_guard: Partial<InjectionGuard>;
+  review_mode: ReviewMode;
+  active_version_id?: string;
+  // Only the fields changed since the draft was started; applied over the live configuration on publish
+  draft_config?: Partial<AgentConfig> | null;
   is_active: boolean;
   created_at: Date;
   updated_at: Date;
 }
 
+// Agent settings captured by each version (cost limits and the kill switch are operational, not versioned)
+export interface AgentConfig {
+  name: string;
+  description: string | null;
+  system_prompt: string | null;
+  model: string;
+  temperature: number;
+  mode: AgentMode;
+  allowed_topics: (string | TopicRule)[];
+  forbidden_topics: (string | TopicRule)[];
+  enable_rag: boolean;
+  memory_token_budget: number;
+  output_guardrails: Partial<OutputGuardrails>;
+  injection_guard: Partial<InjectionGuard>;
+  review_mode: ReviewMode;
+  collection_ids: string[];
+}
+
+// Agent Version Interface (immutable once published)
+export interface AgentVersion {
+  id: string;
+  agent_id: string;
+  tenant_id: string;
+  version: number;
+  config: AgentConfig;
+  note?: string;
+  created_by?: string;
+  created_at: Date;
+}
+
 // Collection Interface
 export interface Collection {
   id: string;
@@ -58,6 +210,18 @@ export interface Collection {
   name: string;
   description: string;
   is_global: boolean;
+  access_mode: AccessMode;
+  created_at: Date;
+  updated_at: Date;
+}
+
+// User Group Interface
+export interface UserGroup {
+  id: string;
+  tenant_id: string;
+  name: string;
+  description?: string;
+  created_by?: string;
   created_at: Date;
   updated_at: Date;
 }
@@ -102,6 +266,240 @@ export interface LLMProvider {
   updated_at: Date;
 }
 
+// Model Pricing Interface (USD per 1M tokens)
+export interface ModelPricing {
+  id: string;
+  tenant_id: string;
+  provider: string;
+  model: string;
+  input_cost_per_million: number;
+  output_cost_per_million: number;
+  is_active: boolean;
+  created_at: Date;
+  updated_at: Date;
+}
+
+// Usage Operations (billable model calls)
+export type UsageOperation = 'chat' | 'chat_document' | 'rag_query' | 'document_embedding' | 'summary' | 'title' | 'topic_check' | 'injection_check';
+
+// Usage Event Interface (Append-Only)
+export interface UsageEvent {
+  id: string;
+  tenant_id: string;
+  agent_id?: string;
+  user_id?: string;
+  operation: UsageOperation;
+  provider: string;
+  model: string;
+  input_tokens: number;
+  output_tokens: number;
+  cost: number;
+  created_at: Date;
+}
+
+// Agent Daily Usage Interface
+export interface AgentDailyUsage {
+  id: string;
+  tenant_id: string;
+  agent_id: string;
+  usage_date: string;
+  cost: number;
+  cost_limit: number;
+  created_at: Date;
+  updated_at: Date;
+}
+
+// Budget Scopes and Periods
+export type BudgetScope = 'tenant' | 'user' | 'group';
+export type BudgetPeriod = 'daily' | 'monthly';
+
+// Budget Interface
+export interface Budget {
+  id: string;
+  tenant_id: string;
+  scope: BudgetScope;
+  subject_id?: string;
+  period: BudgetPeriod;
+  soft_limit?: number;
+  hard_limit?: number;
+  is_active: boolean;
+  created_at: Date;
+  updated_at: Date;
+}
+
+// Invitation Interface
+export interface Invitation {
+  id: string;
+  tenant_id: string;
+  token_hash: string;
+  email?: string;
+  role: UserRole;
+  auto_approve: boolean;
+  max_uses: number;
+  use_count: number;
+  expires_at: Date;
+  revoked_at?: Date;
+  created_by?: string;
+  created_at: Date;
+}
+
+// Session Interface (one per login; the refresh token rotates on every use)
+export interface Session {
+  id: string;
+  tenant_id: string;
+  user_id: string;
+  refresh_token_hash: string;
+  previous_token_hash?: string;
+  user_agent?: string;
+  ip_address?: string;
+  expires_at: Date;
+  last_used_at?: Date;
+  revoked_at?: Date;
+  revoked_reason?: string;
+  created_at: Date;
+}
+
+// Actions a role can be granted (see PERMISSION_CATALOG)
+export type Permission =
+  | 'agents:write'
+  | 'collections:write'
+  | 'documents:upload'
+  | 'documents:manage'
+  | 'users:read'
+  | 'users:manage'
+  | 'users:change_role'
+  | 'users:delete'
+  | 'invitations:manage'
+  | 'roles:manage'
+  | 'logs:read'
+  | 'audit:read'
+  | 'usage:read'
+  | 'providers:manage'
+  | 'pricing:manage'
+  | 'budgets:manage'
+  | 'api_keys:manage'
+  | 'sso:manage'
+  | 'security:manage'
+  | 'policies:manage'
+  | 'reviews:manage'
+  | 'tenants:manage';
+
+// Policy rule conditions; a rule matches when every listed condition holds
+export interface PolicyConditions {
+  roles?: UserRole[];
+  groups?: string[];
+  time_window?: { days?: number[]; start: string; end: string }; // tenant-local, HH:MM, 0 = Sunday
+  topics?: string[];
+  evidence_score?: { min?: number; max?: number };
+  budget_state?: ('ok' | 'soft_limit')[];
+}
+
+// allow/block/require_approval end evaluation of a document; the others accumulate
+export type PolicyAction =
+  | { type: 'allow' }
+  | { type: 'block'; message?: string }
+  | { type: 'require_approval'; message?: string }
+  | { type: 'downgrade_model'; model: string }
+  | { type: 'add_disclaimer'; text: string };
+
+export interface PolicyRule {
+  id: string;
+  description?: string;
+  enabled: boolean;
+  when: PolicyConditions;
+  action: PolicyAction;
+}
+
+// Declarative governance document (validated by policyDocumentSchema)
+export interface PolicyDocument {
+  schema_version: 1;
+  default_action: 'allow' | 'block';
+  rules: PolicyRule[];
+}
+
+// One stored version of a tenant-wide (agent_id null) or per-agent policy
+export interface Policy {
+  id: string;
+  tenant_id: string;
+  agent_id: string | null;
+  version: number;
+  document: PolicyDocument;
+  is_active: boolean;
+  created_by?: string;
+  created_at: Date;
+}
+
+export interface PolicyTraceEntry {
+  policy_id: string;
+  scope: 'tenant' | 'agent';
+  version: number;
+  rule: string;
+  matched: boolean;
+  conditions: Record<string, boolean>;
+  action?: PolicyAction['type'];
+}
+
+// Result of evaluating the active policies, stored with its trace in decision log metadata
+export interface PolicyOutcome {
+  decision: 'allow' | 'block' | 'require_approval';
+  rule?: string;
+  message?: string;
+  model?: string;
+  disclaimers: string[];
+  trace: PolicyTraceEntry[];
+}
+
+// Role definition: built-in roles have no tenant, custom roles belong to one tenant
+export interface Role {
+  id: string;
+  tenant_id?: string;
+  name: string;
+  description?: string;
+  permissions: Permission[];
+  is_builtin: boolean;
+  created_by?: string;
+  created_at: Date;
+  updated_at: Date;
+}
+
+// Operations an API key can be granted
+export type ApiKeyScope = 'chat' | 'documents:upload' | 'agents:read';
+
+// API Key Interface (an empty agent_ids list means all agents)
+export interface ApiKey {
+  id: string;
+  tenant_id: string;
+  name: string;
+  key_prefix: string;
+  key_hash: string;
+  scopes: ApiKeyScope[];
+  agent_ids: string[];
+  created_by: string;
+  expires_at?: Date;
+  last_used_at?: Date;
+  revoked_at?: Date;
+  created_at: Date;
+}
+
+// SSO Provider Interface (OpenID Connect, one per tenant)
+export interface SsoProvider {
+  id: string;
+  tenant_id: string;
+  issuer: string;
+  client_id: string;
+  client_secret_encrypted: string;
+  redirect_uri: string;
+  scopes: string;
+  allowed_domains: string[];
+  role_claim?: string;
+  role_mapping: Record<string, UserRole>;
+  default_role: UserRole;
+  auto_provision: boolean;
+  is_active: boolean;
+  created_at: Date;
+  updated_at: Date;
+}
+
 // Chat Message Interface
 export interface ChatMessage {
   id: string;
@@ -114,9 +512,49 @@ export interface ChatMessage {
   tokens_used: number;
   latency_ms: number;
   evidence?: RAGEvidence[];
+  agent_version_id?: string;
   created_at: Date;
 }
 
+// Review Item Interface (a drafted answer held until a reviewer approves or rejects it)
+export interface ReviewItem {
+  id: string;
+  tenant_id: string;
+  agent_id: string;
+  user_id: string;
+  conversation_id: string;
+  message: string;
+  draft_response: string;
+  reason: string;
+  evidence: RAGEvidence[];
+  findings: GuardrailFinding[];
+  tokens_used: number;
+  agent_version_id?: string;
+  // Placeholder assistant message the resolved answer is written into
+  message_id: string;
+  status: 'pending' | 'approved' | 'rejected';
+  final_response?: string;
+  edited: boolean;
+  review_note?: string;
+  reviewed_by?: string;
+  reviewed_at?: Date;
+  created_at: Date;
+}
+
+// Conversation Interface
+export interface Conversation {
+  id: string;
+  tenant_id: string;
+  user_id: string;
+  agent_id: string;
+  title?: string;
+  summary?: string;
+  summarized_until?: Date;
+  is_active: boolean;
+  created_at: Date;
+  updated_at: Date;
+}
+
 // RAG Evidence Interface
 export interface RAGEvidence {
   document_id: string;
@@ -139,6 +577,8 @@ export interface DecisionLog {
   input_preview: string;
   output_preview?: string;
   metadata: Record<string, any>;
+  api_key_id?: string;
+  agent_version_id?: string;
   created_at: Date;
 }
 
@@ -162,6 +602,7 @@ export interface JWTPayload {
   email: string;
   role: UserRole;
   tenantId: string;
+  sessionId?: string;
 }
 
 // API Response
@@ -188,6 +629,34 @@ export interface ChatResponse {
   evidence?: RAGEvidence[];
   blocked?: boolean;
   blockReason?: string;
+  budgetWarnings?: string[];
+  guardrails?: GuardrailFinding[];
+  reviewId?: string;
+}
+
+// Chat Stream Event (sent over SSE)
+export type ChatStreamEvent =
+  | { type: 'token'; delta: string }
+  | { type: 'evidence'; evidence: RAGEvidence[] }
+  | { type: 'done'; conversationId: string; tokensUsed: number; latencyMs: number; budgetWarnings?: string[] }
+  | { type: 'blocked'; response: string; conversationId: string; blockReason?: string }
+  // Sent after the tokens when output guardrails changed the answer; replaces the streamed text
+  | { type: 'guardrail'; action: 'blocked' | 'modified'; response: string; findings: GuardrailFinding[] }
+  // The answer was held for human review; replaces anything streamed
+  | { type: 'review'; response: string; reviewId: string };
+
+// Outcome of one sample message in an agent dry run (no completion, nothing recorded)
+export interface SimulationResult {
+  message: string;
+  decision: 'allowed' | 'blocked' | 'review';
+  reason?: string;
+  response?: string;
+  evidence: { documentId: string; documentName: string; chunkIndex: number; similarity: number }[];
+  topicMatch?: TopicMatch;
+  injection?: InjectionDetection[];
+  policy?: PolicyOutcome;
+  model?: string;
+  budgetWarnings: string[];
 }
 
 // Express Request Extension
@@ -196,6 +665,9 @@ declare global {
     interface Request {
       user?: JWTPayload;
       tenantId?: string;
+      apiKey?: { id: string; name: string; scopes: ApiKeyScope[]; agentIds: string[] };
+      apiKeyScope?: ApiKeyScope;
+      permissions?: Permission[];
     }
   }
 }
@@ -57,6 +57,64 @@ export const registerSchema = z.object({
   email: z.string().email('Invalid email format'),
   password: z.string().min(8, 'Password must be at least 8 characters'),
   name: z.string().optional(),
+  inviteToken: z.string().min(1).optional(),
+  tenantSlug: z.string().min(1).optional(),
+});
+
+export const tenantSchema = z.object({
+  name: z.string().min(1, 'Name is required').max(255),
+  slug: z.string().min(1, 'Slug is required').max(100).regex(/^[a-z0-9]+(?:-[a-z0-9]+)*$/, 'Slug must be lowercase letters, numbers and hyphens'),
+  timezone: z.string().refine(isValidTimezone, 'Invalid timezone').default('UTC'),
+});
+
+// Optional first tenant admin created together with the tenant
+export const tenantCreateSchema = tenantSchema.extend({
+  admin: z.object({
+    email: z.string().email('Invalid email format'),
+    password: z.string().min(8, 'Password must be at least 8 characters'),
+  }).optional(),
+});
+
+const piiTypeSchema = z.enum(['email', 'phone', 'credit_card', 'iban', 'ssn', 'cpf', 'cnpj', 'ip_address']);
+
+const regexPatternSchema = z.string().min(1).max(500).refine(pattern => {
+  try {
+    new RegExp(pattern, 'i');
+    return true;
+  } catch {
+    return false;
+  }
+}, 'Invalid pattern');
+
+// A topic is either a plain name or a rule with a description, threshold and keyword/regex rules
+const topicSchema = z.union([
+  z.string().min(1, 'Topic is required').max(255),
+  z.object({
+    name: z.string().min(1, 'Topic name is required').max(255),
+    description: z.string().max(2000).optional(),
+    threshold: z.number().min(0).max(1).optional(),
+    keywords: z.array(z.string().min(1).max(255)).optional(),
+    patterns: z.array(regexPatternSchema).optional(),
+  }),
+]);
+
+export const outputGuardrailsSchema = z.object({
+  forbidden_topics: z.enum(['off', 'block', 'annotate']).optional(),
+  pii: z.enum(['off', 'block', 'redact', 'annotate']).optional(),
+  pii_types: z.array(piiTypeSchema).optional(),
+  deny_patterns: z.array(z.object({
+    pattern: regexPatternSchema,
+    label: z.string().max(255).optional(),
+    action: z.enum(['block', 'redact', 'annotate']).default('block'),
+  })).max(50).optional(),
+  citations: z.enum(['off', 'block', 'annotate']).optional(),
+});
+
+export const injectionGuardSchema = z.object({
+  input_action: z.enum(['off', 'flag', 'block']).optional(),
+  chunk_action: z.enum(['off', 'flag', 'drop', 'quarantine']).optional(),
+  threshold: z.number().min(0).max(1).optional(),
+  classifier_model: z.string().min(1).max(100).nullable().optional(),
 });
 
 export const agentSchema = z.object({
@@ -66,11 +124,100 @@ export const agentSchema = z.object({
   model: z.string().default('gpt-4o'),
   temperature: z.number().min(0).max(2).default(0.7),
   mode: z.enum(['INTERNAL', 'HYBRID', 'FREE']).default('HYBRID'),
-  allowed_topics: z.array(z.string()).default([]),
-  forbidden_topics: z.array(z.string()).default([]),
+  allowed_topics: z.array(topicSchema).default([]),
+  forbidden_topics: z.array(topicSchema).default([]),
   cost_limit_daily: z.number().min(0).default(10),
   kill_switch: z.boolean().default(false),
   enable_rag: z.boolean().default(true),
+  memory_token_budget: z.number().int().min(500).max(128000).default(4000),
+  output_guardrails: outputGuardrailsSchema.default({}),
+  injection_guard: injectionGuardSchema.default({}),
+  review_mode: z.enum(['off', 'flagged', 'always']).default('off'),
+});
+
+// Draft changes cover only the versioned settings
+export const agentDraftSchema = agentSchema
+  .pick({
+    name: true,
+    description: true,
+    system_prompt: true,
+    model: true,
+    temperature: true,
+    mode: true,
+    allowed_topics: true,
+    forbidden_topics: true,
+    enable_rag: true,
+    memory_token_budget: true,
+    output_guardrails: true,
+    injection_guard: true,
+    review_mode: true,
+  })
+  .partial()
+  .extend({
+    collection_ids: z.array(z.string().uuid('Invalid collection ID')).optional(),
+  });
+
+export const agentPublishSchema = z.object({
+  note: z.string().max(500).optional(),
+});
+
+const policyConditionsSchema = z.object({
+  roles: z.array(z.enum(['master_admin', 'tenant_admin', 'user'])).min(1).optional(),
+  groups: z.array(z.string().uuid('Invalid group ID')).min(1).optional(),
+  time_window: z.object({
+    days: z.array(z.number().int().min(0).max(6)).min(1).optional(),
+    start: z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, 'Time must be HH:MM'),
+    end: z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, 'Time must be HH:MM'),
+  }).optional(),
+  topics: z.array(z.string().min(1).max(255)).min(1).optional(),
+  evidence_score: z.object({
+    min: z.number().min(0).max(1).optional(),
+    max: z.number().min(0).max(1).optional(),
+  }).optional(),
+  budget_state: z.array(z.enum(['ok', 'soft_limit'])).min(1).optional(),
+});
+
+const policyActionSchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('allow') }),
+  z.object({ type: z.literal('block'), message: z.string().max(1000).optional() }),
+  z.object({ type: z.literal('require_approval'), message: z.string().max(1000).optional() }),
+  z.object({ type: z.literal('downgrade_model'), model: z.string().min(1).max(100) }),
+  z.object({ type: z.literal('add_disclaimer'), text: z.string().min(1).max(1000) }),
+]);
+
+export const policyDocumentSchema = z.object({
+  schema_version: z.literal(1),
+  default_action: z.enum(['allow', 'block']).default('allow'),
+  rules: z.array(z.object({
+    id: z.string().min(1, 'Rule ID is required').max(100),
+    description: z.string().max(500).optional(),
+    enabled: z.boolean().default(true),
+    when: policyConditionsSchema.default({}),
+    action: policyActionSchema,
+  })).max(100),
+}).refine(
+  doc => new Set(doc.rules.map(r => r.id)).size === doc.rules.length,
+  'Rule IDs must be unique'
+);
+
+export const policySchema = z.object({
+  agent_id: z.string().uuid('Invalid agent ID').nullable().default(null),
+  document: policyDocumentSchema,
+});
+
+export const accessListSchema = z.object({
+  access_mode: z.enum(['tenant', 'restricted']),
+  user_ids: z.array(z.string().uuid('Invalid user ID')).default([]),
+  group_ids: z.array(z.string().uuid('Invalid group ID')).default([]),
+});
+
+export const groupSchema = z.object({
+  name: z.string().min(1, 'Name is required').max(255),
+  description: z.string().max(1000).optional(),
+});
+
+export const groupMembersSchema = z.object({
+  user_ids: z.array(z.string().uuid('Invalid user ID')).min(1, 'At least one user is required'),
 });
 
 export const collectionSchema = z.object({
@@ -85,6 +232,24 @@ export const chatSchema = z.object({
   conversationId: z.string().uuid().optional(),
 });
 
+export const reviewApproveSchema = z.object({
+  response: z.string().min(1, 'Response cannot be empty').optional(),
+  note: z.string().max(2000).optional(),
+});
+
+export const reviewRejectSchema = z.object({
+  note: z.string().max(2000).optional(),
+});
+
+export const simulateSchema = z.object({
+  messages: z.array(z.string().min(1, 'Message is required')).min(1, 'At least one message is required').max(20, 'At most 20 messages per simulation'),
+  user_id: z.string().uuid('Invalid user ID').optional(),
+});
+
+export const conversationUpdateSchema = z.object({
+  title: z.string().trim().min(1, 'Title is required').max(255),
+});
+
 export const llmProviderSchema = z.object({
   name: z.string().min(1, 'Name is required'),
   base_url: z.string().url().optional().or(z.literal('')),
@@ -93,6 +258,93 @@ export const llmProviderSchema = z.object({
   is_default: z.boolean().default(false),
 });
 
+export const modelPricingSchema = z.object({
+  provider: z.string().min(1, 'Provider is required').max(100),
+  model: z.string().min(1, 'Model is required').max(100),
+  input_cost_per_million: z.number().min(0),
+  output_cost_per_million: z.number().min(0).default(0),
+  is_active: z.boolean().default(true),
+});
+
+export const budgetSchema = z.object({
+  scope: z.enum(['tenant', 'user', 'group']),
+  subject_id: z.string().uuid('Invalid subject ID').nullable().optional(),
+  period: z.enum(['daily', 'monthly']),
+  soft_limit: z.number().min(0).nullable().optional(),
+  hard_limit: z.number().min(0).nullable().optional(),
+  is_active: z.boolean().default(true),
+});
+
+export const invitationSchema = z.object({
+  email: z.string().email('Invalid email format').optional(),
+  role: z.enum(['user', 'tenant_admin']).default('user'),
+  auto_approve: z.boolean().default(true),
+  max_uses: z.number().int().min(1).max(1000).default(1),
+  expires_in_hours: z.number().int().min(1).max(24 * 90).default(72),
+});
+
+export const apiKeySchema = z.object({
+  name: z.string().min(1, 'Name is required').max(255),
+  scopes: z.array(z.enum(['chat', 'documents:upload', 'agents:read'])).min(1, 'At least one scope is required'),
+  agent_ids: z.array(z.string().uuid('Invalid agent ID')).default([]),
+  expires_in_days: z.number().int().min(1).max(3650).optional(),
+});
+
+export const ssoConfigSchema = z.object({
+  issuer: z.string().url('Invalid issuer URL'),
+  client_id: z.string().min(1, 'Client ID is required'),
+  client_secret: z.string().min(1, 'Client secret is required').optional(),
+  redirect_uri: z.string().url('Invalid redirect URI'),
+  scopes: z.string().default('openid email profile'),
+  allowed_domains: z.array(z.string().min(1)).default([]),
+  role_claim: z.string().min(1).nullable().optional(),
+  role_mapping: z.record(z.enum(['user', 'tenant_admin'])).default({}),
+  default_role: z.enum(['user', 'tenant_admin']).default('user'),
+  auto_provision: z.boolean().default(true),
+  is_active: z.boolean().default(true),
+});
+
+export const passwordPolicySchema = z.object({
+  min_length: z.number().int().min(8).max(128).optional(),
+  require_uppercase: z.boolean().optional(),
+  require_lowercase: z.boolean().optional(),
+  require_number: z.boolean().optional(),
+  require_symbol: z.boolean().optional(),
+  disallow_email: z.boolean().optional(),
+});
+
+export const piiPolicySchema = z.object({
+  mask_prompts: z.boolean().optional(),
+  rehydrate_responses: z.boolean().optional(),
+  mask_logs: z.boolean().optional(),
+  types: z.array(piiTypeSchema).optional(),
+  custom_patterns: z.array(z.object({
+    name: z.string().min(1, 'Pattern name is required').max(50),
+    pattern: regexPatternSchema,
+  })).max(50).optional(),
+});
+
+export const securityPolicySchema = z.object({
+  require_admin_mfa: z.boolean().optional(),
+  password_policy: passwordPolicySchema.optional(),
+  pii_policy: piiPolicySchema.optional(),
+});
+
+export const roleSchema = z.object({
+  name: z.string().min(1, 'Name is required').max(100),
+  description: z.string().max(1000).optional(),
+  permissions: z.array(z.string()).default([]),
+});
+
+export const forgotPasswordSchema = z.object({
+  email: z.string().email('Invalid email format'),
+});
+
+export const resetPasswordSchema = z.object({
+  token: z.string().min(1, 'Token is required'),
+  password: z.string().min(1, 'Password is required'),
+});
+
 // Helper functions
 export function cosineSimilarity(a: number[], b: number[]): number {
   if (a.length !== b.length) return 0;
@@ -158,3 +410,21 @@ export function truncateText(text: string, maxLength: number): string {
   if (text.length <= maxLength) return text;
   return text.slice(0, maxLength - 3) + '...';
 }
+
+export function isValidTimezone(timezone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// Random URL-safe token; only its hash should be persisted
+export function generateToken(bytes: number = 32): string {
+  return crypto.randomBytes(bytes).toString('base64url');
+}
+
+export function hashToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
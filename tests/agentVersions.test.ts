@@ -0,0 +1,244 @@
+import './helpers/env.js';
+import { describe, it, beforeEach, afterEach, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  AgentVersionError,
+  diffAgentConfigs,
+  discardAgentDraft,
+  publishAgentDraft,
+  recordAgentVersion,
+  rollbackAgentVersion,
+  saveAgentDraft,
+} from '../src/services/agentVersions.js';
+import { AgentConfig, AgentVersion } from '../src/types/index.js';
+import { fakeQueries, RecordedQuery, TRANSACTION_ROUTE } from './helpers/fakeDb.js';
+
+const TENANT_ID = '11111111-1111-1111-1111-111111111111';
+const OTHER_TENANT_ID = '22222222-2222-2222-2222-222222222222';
+const AGENT_ID = 'cccccccc-cccc-cccc-cccc-cccccccccccc';
+const ADMIN_ID = 'aaaaaaaa-aaaa-aaaa-aaaa-aaaaaaaaaaaa';
+
+const HANDBOOK = '10000000-0000-0000-0000-000000000001';
+const POLICIES = '10000000-0000-0000-0000-000000000002';
+const FOREIGN = '20000000-0000-0000-0000-000000000001';
+
+const COLLECTION_TENANTS: Record<string, string> = { [HANDBOOK]: TENANT_ID, [POLICIES]: TENANT_ID, [FOREIGN]: OTHER_TENANT_ID };
+
+let agent: Record<string, any>;
+let links: string[];
+let versions: AgentVersion[];
+let calls: RecordedQuery[];
+
+function ownedCollections(ids: string[], tenantId: string): string[] {
+  return ids.filter(id => COLLECTION_TENANTS[id] === tenantId);
+}
+
+function installDb() {
+  calls = fakeQueries([
+    TRANSACTION_ROUTE,
+    [/SELECT \* FROM agents WHERE id = \$1 AND tenant_id = \$2/, ([id, tenantId]) =>
+      (id === agent.id && tenantId === agent.tenant_id ? [{ ...agent }] : [])],
+    [/SELECT collection_id FROM agent_collections/, () => [...links].sort().map(collection_id => ({ collection_id }))],
+    [/SELECT id FROM collections WHERE id = ANY/, ([ids, tenantId]) => ownedCollections(ids, tenantId).map(id => ({ id }))],
+    [/UPDATE agents SET name = \$1/, params => {
+      const [name, description, system_prompt, model, temperature, mode, allowed, forbidden, enable_rag, memory_token_budget,
+        output_guardrails, injection_guard, review_mode] = params;
+      Object.assign(agent, {
+        name, description, system_prompt, model, temperature, mode, enable_rag, memory_token_budget, review_mode,
+        allowed_topics: JSON.parse(allowed),
+        forbidden_topics: JSON.parse(forbidden),
+        output_guardrails: JSON.parse(output_guardrails),
+        injection_guard: JSON.parse(injection_guard),
+      });
+    }],
+    [/DELETE FROM agent_collections/, () => {
+      links = [];
+    }],
+    [/INSERT INTO agent_collections/, ([, ids, tenantId]) => {
+      links = ownedCollections(ids, tenantId);
+    }],
+    [/pg_advisory_xact_lock/, () => []],
+    [/INSERT INTO agent_versions/, ([agentId, tenantId, config, note, createdBy]) => {
+      const version = {
+        id: `version-${versions.length + 1}`, agent_id: agentId, tenant_id: tenantId, version: versions.length + 1,
+        config: JSON.parse(config), note, created_by: createdBy, created_at: new Date(),
+      };
+      versions.push(version);
+      return [version];
+    }],
+    [/UPDATE agents SET active_version_id = \$1/, ([versionId]) => {
+      agent.active_version_id = versionId;
+    }],
+    [/UPDATE agents SET draft_config = \$1/, ([draft]) => {
+      agent.draft_config = JSON.parse(draft);
+    }],
+    [/UPDATE agents SET draft_config = NULL/, () => {
+      const hadDraft = !!agent.draft_config;
+      agent.draft_config = null;
+      return hadDraft ? [{ id: agent.id }] : [];
+    }],
+    [/SELECT \* FROM agent_versions WHERE agent_id = \$1 AND version = \$2/, ([, number]) =>
+      versions.filter(v => v.version === number)],
+  ]);
+}
+
+async function versionError(action: Promise<unknown>): Promise<AgentVersionError> {
+  const error = await action.then(() => null, e => e);
+  assert.ok(error instanceof AgentVersionError, `expected AgentVersionError, got ${error}`);
+  return error;
+}
+
+describe('diffAgentConfigs', () => {
+  it('lists changed fields in version order', () => {
+    const diff = diffAgentConfigs(
+      { name: 'Support', temperature: 0.7, collection_ids: [HANDBOOK] },
+      { name: 'Support', temperature: 0.2, collection_ids: [HANDBOOK, POLICIES], system_prompt: 'Be brief.' }
+    );
+    
+    assert.deepEqual(diff, [
+      { field: 'system_prompt', from: null, to: 'Be brief.' },
+      { field: 'temperature', from: 0.7, to: 0.2 },
+      { field: 'collection_ids', from: [HANDBOOK], to: [HANDBOOK, POLICIES] },
+    ]);
+  });
+  
+  it('ignores key order inside JSON settings and treats a missing field as null', () => {
+    assert.deepEqual(diffAgentConfigs(
+      { output_guardrails: { pii: 'redact', citations: 'annotate' }, description: null },
+      { output_guardrails: { citations: 'annotate', pii: 'redact' } }
+    ), []);
+  });
+});
+
+describe('agent versions', () => {
+  beforeEach(() => {
+    agent = {
+      id: AGENT_ID,
+      tenant_id: TENANT_ID,
+      is_active: true,
+      name: 'Support',
+      description: null,
+      system_prompt: 'Answer from the handbook.',
+      model: 'gpt-4o',
+      temperature: 0.7,
+      mode: 'INTERNAL',
+      allowed_topics: [],
+      forbidden_topics: [],
+      enable_rag: true,
+      memory_token_budget: 2000,
+      output_guardrails: {},
+      injection_guard: {},
+      review_mode: 'off',
+      draft_config: null,
+      active_version_id: null,
+    };
+    links = [HANDBOOK];
+    versions = [];
+    installDb();
+  });
+  
+  afterEach(() => {
+    mock.restoreAll();
+  });
+  
+  it('snapshots the live configuration, collections included', async () => {
+    const version = await recordAgentVersion(AGENT_ID, TENANT_ID, ADMIN_ID, 'Created');
+    
+    assert.equal(version.version, 1);
+    assert.equal(version.config.system_prompt, 'Answer from the handbook.');
+    assert.deepEqual(version.config.collection_ids, [HANDBOOK]);
+    assert.equal(agent.active_version_id, version.id);
+  });
+  
+  it('stages changes in the draft without touching the live agent', async () => {
+    await saveAgentDraft(AGENT_ID, TENANT_ID, { system_prompt: 'Answer briefly.' });
+    const draft = await saveAgentDraft(AGENT_ID, TENANT_ID, { collection_ids: [POLICIES, HANDBOOK, POLICIES] });
+    
+    assert.deepEqual(agent.draft_config, { system_prompt: 'Answer briefly.', collection_ids: [HANDBOOK, POLICIES] });
+    assert.equal(draft.config.temperature, 0.7);
+    assert.equal(agent.system_prompt, 'Answer from the handbook.');
+    assert.deepEqual(links, [HANDBOOK]);
+  });
+  
+  it('refuses a draft that links another tenant\'s collection', async () => {
+    const error = await versionError(saveAgentDraft(AGENT_ID, TENANT_ID, { collection_ids: [HANDBOOK, FOREIGN] }));
+    
+    assert.equal(error.status, 404);
+    assert.equal(agent.draft_config, null);
+  });
+  
+  it('publishes the draft over settings changed on the live agent since it was started', async () => {
+    await recordAgentVersion(AGENT_ID, TENANT_ID, ADMIN_ID);
+    await saveAgentDraft(AGENT_ID, TENANT_ID, { system_prompt: 'Answer briefly.', collection_ids: [POLICIES] });
+    agent.temperature = 0.2;
+    
+    const version = await publishAgentDraft(AGENT_ID, TENANT_ID, ADMIN_ID, 'Shorter answers');
+    
+    assert.equal(version.version, 2);
+    assert.equal(version.note, 'Shorter answers');
+    assert.equal(agent.system_prompt, 'Answer briefly.');
+    assert.equal(agent.temperature, 0.2);
+    assert.deepEqual(links, [POLICIES]);
+    assert.equal(agent.active_version_id, version.id);
+    assert.equal(agent.draft_config, null);
+  });
+  
+  it('refuses to publish without a draft', async () => {
+    const error = await versionError(publishAgentDraft(AGENT_ID, TENANT_ID, ADMIN_ID));
+    
+    assert.equal(error.status, 400);
+    assert.deepEqual(versions, []);
+  });
+  
+  it('rolls back to an earlier version and keeps the pending draft', async () => {
+    const first = await recordAgentVersion(AGENT_ID, TENANT_ID, ADMIN_ID);
+    await saveAgentDraft(AGENT_ID, TENANT_ID, { system_prompt: 'Answer briefly.', collection_ids: [POLICIES] });
+    await publishAgentDraft(AGENT_ID, TENANT_ID, ADMIN_ID);
+    await saveAgentDraft(AGENT_ID, TENANT_ID, { temperature: 0 });
+    
+    const restored = await rollbackAgentVersion(AGENT_ID, TENANT_ID, 1);
+    
+    assert.equal(restored.id, first.id);
+    assert.equal(agent.system_prompt, 'Answer from the handbook.');
+    assert.deepEqual(links, [HANDBOOK]);
+    assert.equal(agent.active_version_id, first.id);
+    assert.deepEqual(agent.draft_config, { temperature: 0 });
+    assert.equal(versions.length, 2);
+  });
+  
+  it('keeps current values for fields a restored version predates', async () => {
+    const { review_mode: _reviewMode, ...oldConfig } = (await recordAgentVersion(AGENT_ID, TENANT_ID, ADMIN_ID)).config;
+    versions[0].config = oldConfig as AgentConfig;
+    agent.review_mode = 'always';
+    
+    await rollbackAgentVersion(AGENT_ID, TENANT_ID, 1);
+    
+    assert.equal(agent.review_mode, 'always');
+  });
+  
+  it('links only the tenant\'s collections when restoring a version', async () => {
+    await recordAgentVersion(AGENT_ID, TENANT_ID, ADMIN_ID);
+    versions[0].config.collection_ids = [HANDBOOK, FOREIGN];
+    
+    await rollbackAgentVersion(AGENT_ID, TENANT_ID, 1);
+    
+    assert.deepEqual(links, [HANDBOOK]);
+    const link = calls.filter(c => /INSERT INTO agent_collections/.test(c.sql)).at(-1)!;
+    assert.match(link.sql, /FROM collections WHERE id = ANY\(\$2\) AND tenant_id = \$3/);
+    assert.equal(link.params[2], TENANT_ID);
+  });
+  
+  it('reports unknown versions and agents of other tenants as not found', async () => {
+    assert.equal((await versionError(rollbackAgentVersion(AGENT_ID, TENANT_ID, 7))).status, 404);
+    assert.equal((await versionError(saveAgentDraft(AGENT_ID, OTHER_TENANT_ID, { temperature: 0 }))).status, 404);
+    assert.equal(agent.draft_config, null);
+  });
+  
+  it('discards a pending draft', async () => {
+    await saveAgentDraft(AGENT_ID, TENANT_ID, { temperature: 0 });
+    
+    assert.equal(await discardAgentDraft(AGENT_ID, TENANT_ID), true);
+    assert.equal(agent.draft_config, null);
+    assert.equal(await discardAgentDraft(AGENT_ID, TENANT_ID), false);
+  });
+});
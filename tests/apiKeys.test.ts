@@ -0,0 +1,138 @@
+import './helpers/env.js';
+import { describe, it, beforeEach, afterEach, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { Request, Response } from 'express';
+import { allowApiKey, apiKeyAllowsAgent, authenticate } from '../src/middleware/auth.js';
+import { hashToken } from '../src/utils/index.js';
+import { ApiKeyScope } from '../src/types/index.js';
+import { fakeQueries } from './helpers/fakeDb.js';
+
+const TENANT_ID = '11111111-1111-1111-1111-111111111111';
+const ADMIN_ID = 'aaaaaaaa-aaaa-aaaa-aaaa-aaaaaaaaaaaa';
+const AGENT_ID = 'cccccccc-cccc-cccc-cccc-cccccccccccc';
+const OTHER_AGENT_ID = 'dddddddd-dddd-dddd-dddd-dddddddddddd';
+const KEY = 'ork_test-key-0123456789';
+
+let apiKey: Record<string, any>;
+
+function installDb() {
+  fakeQueries([
+    [/FROM api_keys k/, ([hash]) => (hash === hashToken(KEY) ? [apiKey] : [])],
+    [/UPDATE api_keys SET last_used_at/, () => []],
+  ]);
+}
+
+// Runs allowApiKey (when the route accepts keys) and authenticate the way a route chain would
+async function callWith(headers: Record<string, string>, scope?: ApiKeyScope) {
+  const outcome: { status?: number; error?: string; req?: Request } = {};
+  const res = {
+    status(code: number) {
+      outcome.status = code;
+      return this;
+    },
+    json(body: any) {
+      outcome.error = body.error;
+      return this;
+    },
+  } as unknown as Response;
+  const req = { headers } as Request;
+  
+  if (scope) {
+    allowApiKey(scope)(req, res, () => {});
+  }
+  await authenticate(req, res, () => {
+    outcome.req = req;
+  });
+  return outcome;
+}
+
+describe('API key authentication', () => {
+  beforeEach(() => {
+    apiKey = {
+      id: 'key-1',
+      name: 'CI',
+      tenant_id: TENANT_ID,
+      created_by: ADMIN_ID,
+      email: 'admin@acme.test',
+      role: 'tenant_admin',
+      scopes: ['chat'],
+      agent_ids: [],
+      revoked_at: null,
+      expires_at: null,
+      user_active: true,
+      tenant_active: true,
+    };
+    installDb();
+  });
+  
+  afterEach(() => {
+    mock.restoreAll();
+  });
+  
+  it('acts as the creating admin on an endpoint that accepts the key\'s scope', async () => {
+    const { status, req } = await callWith({ 'x-api-key': KEY }, 'chat');
+    
+    assert.equal(status, undefined);
+    assert.equal(req!.user!.userId, ADMIN_ID);
+    assert.equal(req!.tenantId, TENANT_ID);
+    assert.deepEqual(req!.apiKey!.scopes, ['chat']);
+  });
+  
+  it('accepts the key as a bearer token', async () => {
+    const { req } = await callWith({ authorization: `Bearer ${KEY}` }, 'chat');
+    
+    assert.equal(req!.apiKey!.id, 'key-1');
+  });
+  
+  it('is refused on endpoints that do not accept API keys', async () => {
+    const { status, req } = await callWith({ 'x-api-key': KEY });
+    
+    assert.equal(status, 403);
+    assert.equal(req, undefined);
+  });
+  
+  it('is refused without the scope the endpoint requires', async () => {
+    const { status, error } = await callWith({ 'x-api-key': KEY }, 'documents:upload');
+    
+    assert.equal(status, 403);
+    assert.match(error!, /scope/);
+  });
+  
+  it('is refused once revoked or expired, or when its creator is deactivated', async () => {
+    apiKey.revoked_at = new Date();
+    assert.equal((await callWith({ 'x-api-key': KEY }, 'chat')).status, 401);
+    
+    apiKey.revoked_at = null;
+    apiKey.expires_at = new Date(Date.now() - 1000);
+    assert.equal((await callWith({ 'x-api-key': KEY }, 'chat')).status, 401);
+    
+    apiKey.expires_at = null;
+    apiKey.user_active = false;
+    assert.equal((await callWith({ 'x-api-key': KEY }, 'chat')).status, 401);
+  });
+  
+  it('is refused for a suspended tenant', async () => {
+    apiKey.tenant_active = false;
+    
+    assert.equal((await callWith({ 'x-api-key': KEY }, 'chat')).status, 403);
+  });
+  
+  it('rejects unknown keys', async () => {
+    assert.equal((await callWith({ 'x-api-key': 'ork_unknown' }, 'chat')).status, 401);
+  });
+  
+  it('limits a key restricted to specific agents to those agents', async () => {
+    apiKey.agent_ids = [AGENT_ID];
+    const { req } = await callWith({ 'x-api-key': KEY }, 'chat');
+    
+    assert.equal(apiKeyAllowsAgent(req!, AGENT_ID), true);
+    assert.equal(apiKeyAllowsAgent(req!, OTHER_AGENT_ID), false);
+  });
+  
+  it('allows every agent to unrestricted keys and to user sessions', async () => {
+    const { req } = await callWith({ 'x-api-key': KEY }, 'chat');
+    
+    assert.equal(apiKeyAllowsAgent(req!, OTHER_AGENT_ID), true);
+    assert.equal(apiKeyAllowsAgent({} as Request, OTHER_AGENT_ID), true);
+  });
+});
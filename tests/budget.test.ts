@@ -0,0 +1,119 @@
+import './helpers/env.js';
+import { describe, it, beforeEach, afterEach, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { checkBudgets, getApplicableBudgets } from '../src/services/budget.js';
+import { chatWithDocument } from '../src/services/chat.js';
+import { Budget } from '../src/types/index.js';
+import { fakeQueries, RecordedQuery } from './helpers/fakeDb.js';
+
+const TENANT_ID = '11111111-1111-1111-1111-111111111111';
+const USER_ID = 'aaaaaaaa-aaaa-aaaa-aaaa-aaaaaaaaaaaa';
+const GROUP_ID = 'bbbbbbbb-bbbb-bbbb-bbbb-bbbbbbbbbbbb';
+const AGENT_ID = 'cccccccc-cccc-cccc-cccc-cccccccccccc';
+
+let budgets: Partial<Budget>[];
+let spend: { tenant: number; user: number; group: number };
+let agentCostToday: number;
+let calls: RecordedQuery[];
+
+function budget(id: string, fields: Partial<Budget>): Partial<Budget> {
+  return { id, tenant_id: TENANT_ID, period: 'daily', is_active: true, ...fields };
+}
+
+// Spend is reported per filter: the user's own events, a group's members, or the whole tenant
+function periodSpend(_params: any[], sql: string) {
+  if (/ue\.user_id = \$3/.test(sql)) return [{ spend: String(spend.user) }];
+  if (/group_id = \$3/.test(sql)) return [{ spend: String(spend.group) }];
+  return [{ spend: String(spend.tenant) }];
+}
+
+function installDb() {
+  calls = fakeQueries([
+    [/FROM budgets/, () => budgets],
+    [/FROM usage_events ue/, periodSpend],
+    [/SELECT \* FROM agents WHERE id = \$1/, () => [{ id: AGENT_ID, tenant_id: TENANT_ID, kill_switch: false, cost_limit_daily: 10 }]],
+    [/AS allowed\s+FROM agents a/, () => [{ allowed: true }]],
+    [/SELECT CASE WHEN a\.cost_period_date/, () => [{ cost: agentCostToday }]],
+    [/SELECT pii_policy FROM tenants/, () => [{ pii_policy: {} }]],
+    [/INSERT INTO decision_logs/, () => []],
+  ]);
+}
+
+describe('budgets', () => {
+  beforeEach(() => {
+    budgets = [];
+    spend = { tenant: 0, user: 0, group: 0 };
+    agentCostToday = 0;
+    installDb();
+  });
+  
+  afterEach(() => {
+    mock.restoreAll();
+  });
+  
+  it('lets a user-specific budget replace the default user budget for its period', async () => {
+    budgets = [
+      budget('default', { scope: 'user', hard_limit: 5 }),
+      budget('alice', { scope: 'user', subject_id: USER_ID, hard_limit: 50 }),
+      budget('default-monthly', { scope: 'user', period: 'monthly', hard_limit: 100 }),
+    ];
+    
+    const applicable = await getApplicableBudgets(TENANT_ID, USER_ID);
+    
+    assert.deepEqual(applicable.map(b => b.id), ['alice', 'default-monthly']);
+  });
+  
+  it('blocks once the spend of a budget\'s subject reaches its hard limit', async () => {
+    budgets = [budget('group', { scope: 'group', subject_id: GROUP_ID, hard_limit: 20 })];
+    spend = { tenant: 100, user: 0, group: 20 };
+    
+    const check = await checkBudgets(TENANT_ID, USER_ID);
+    
+    assert.equal(check.allowed, false);
+    assert.equal(check.reason, 'Group daily budget exceeded ($20.0000 of $20.00)');
+  });
+  
+  it('only warns at a soft limit', async () => {
+    budgets = [
+      budget('tenant', { scope: 'tenant', soft_limit: 50, hard_limit: 200 }),
+      budget('alice', { scope: 'user', subject_id: USER_ID, soft_limit: 5 }),
+    ];
+    spend = { tenant: 60, user: 1, group: 0 };
+    
+    assert.deepEqual(await checkBudgets(TENANT_ID, USER_ID), {
+      allowed: true,
+      warnings: ['Tenant daily budget soft limit reached ($60.0000 of $50.00)'],
+    });
+  });
+  
+  describe('document chats', () => {
+    async function chatOnDocument() {
+      return chatWithDocument('Summarize this', 'Quarterly report', AGENT_ID, USER_ID, TENANT_ID);
+    }
+    
+    function loggedDecision() {
+      return calls.find(c => /INSERT INTO decision_logs/.test(c.sql))!.params;
+    }
+    
+    it('are refused once the agent reached its daily cost limit', async () => {
+      agentCostToday = 10;
+      
+      const response = await chatOnDocument();
+      
+      assert.equal(response.blocked, true);
+      assert.equal(response.blockReason, 'Daily cost limit exceeded');
+      assert.deepEqual(loggedDecision().slice(3, 6), ['chat_document', 'blocked', 'Daily cost limit exceeded']);
+    });
+    
+    it('are refused once a hard budget is exhausted', async () => {
+      budgets = [budget('tenant', { scope: 'tenant', hard_limit: 100 })];
+      spend.tenant = 150;
+      
+      const response = await chatOnDocument();
+      
+      assert.equal(response.blocked, true);
+      assert.match(response.blockReason!, /Tenant daily budget exceeded/);
+      assert.ok(!calls.some(c => /INSERT INTO usage_events/.test(c.sql)));
+    });
+  });
+});
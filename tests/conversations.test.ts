@@ -0,0 +1,177 @@
+import './helpers/env.js';
+import { describe, it, before, after, beforeEach, afterEach, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import http from 'http';
+import { AddressInfo } from 'net';
+import express from 'express';
+import jwt from 'jsonwebtoken';
+import chatRoutes from '../src/routes/chat.js';
+import { assertConversationAccess, ConversationAccessError } from '../src/services/conversations.js';
+import { fakeQueries, RecordedQuery } from './helpers/fakeDb.js';
+
+const TENANT_ID = '11111111-1111-1111-1111-111111111111';
+const OTHER_TENANT_ID = '22222222-2222-2222-2222-222222222222';
+const USER_ID = 'aaaaaaaa-aaaa-aaaa-aaaa-aaaaaaaaaaaa';
+const OTHER_USER_ID = 'bbbbbbbb-bbbb-bbbb-bbbb-bbbbbbbbbbbb';
+const AGENT_ID = 'cccccccc-cccc-cccc-cccc-cccccccccccc';
+const OTHER_AGENT_ID = 'dddddddd-dddd-dddd-dddd-dddddddddddd';
+
+const OWN_CONVERSATION = '00000000-0000-0000-0000-000000000001';
+const OTHER_USERS_CONVERSATION = '00000000-0000-0000-0000-000000000002';
+const OTHER_TENANTS_CONVERSATION = '00000000-0000-0000-0000-000000000003';
+const OTHER_AGENTS_CONVERSATION = '00000000-0000-0000-0000-000000000004';
+const LEGACY_CONVERSATION = '00000000-0000-0000-0000-000000000005';
+const UNKNOWN_CONVERSATION = '00000000-0000-0000-0000-0000000000ff';
+
+let conversations: { id: string; tenant_id: string; user_id: string; agent_id: string; title: string; is_active: boolean }[];
+let legacyMessages: { conversation_id: string; tenant_id: string; user_id: string; agent_id: string }[];
+let calls: RecordedQuery[];
+
+function installDb() {
+  conversations = [
+    { id: OWN_CONVERSATION, tenant_id: TENANT_ID, user_id: USER_ID, agent_id: AGENT_ID, title: 'Mine', is_active: true },
+    { id: OTHER_USERS_CONVERSATION, tenant_id: TENANT_ID, user_id: OTHER_USER_ID, agent_id: AGENT_ID, title: 'Theirs', is_active: true },
+    { id: OTHER_TENANTS_CONVERSATION, tenant_id: OTHER_TENANT_ID, user_id: USER_ID, agent_id: AGENT_ID, title: 'Elsewhere', is_active: true },
+    { id: OTHER_AGENTS_CONVERSATION, tenant_id: TENANT_ID, user_id: USER_ID, agent_id: OTHER_AGENT_ID, title: 'Other agent', is_active: true },
+  ];
+  legacyMessages = [
+    { conversation_id: LEGACY_CONVERSATION, tenant_id: TENANT_ID, user_id: OTHER_USER_ID, agent_id: AGENT_ID },
+  ];
+  
+  // Conversation updates only touch rows matching id, user and tenant, as the routes' WHERE clauses do
+  const updateOwned = (changes: Partial<(typeof conversations)[number]>) => ([id, userId, tenantId]: any[]) =>
+    conversations
+      .filter(c => c.id === id && c.user_id === userId && c.tenant_id === tenantId)
+      .map(c => Object.assign(c, changes))
+      .map(c => ({ id: c.id }));
+  
+  calls = fakeQueries([
+    [/FROM sessions s/, () => [{ revoked_at: null, expires_at: new Date(Date.now() + 60_000), user_active: true, tenant_active: true }]],
+    [/SELECT is_approved FROM users/, () => [{ is_approved: true }]],
+    [/SELECT \* FROM agents WHERE id = \$1 AND tenant_id = \$2/, ([id, tenantId]) =>
+      tenantId === TENANT_ID ? [{ id, tenant_id: TENANT_ID, is_active: true }] : []],
+    [/FROM conversations WHERE id = \$1$/, ([id]) => conversations.filter(c => c.id === id)],
+    [/FROM chat_messages WHERE conversation_id = \$1 ORDER BY/, ([id]) => legacyMessages.filter(m => m.conversation_id === id)],
+    [/UPDATE conversations SET title = \$1/, ([title, ...rest]) => updateOwned({ title })(rest)],
+    [/UPDATE conversations SET is_active = false/, updateOwned({ is_active: false })],
+    [/UPDATE conversations SET is_active = true/, updateOwned({ is_active: true })],
+  ]);
+}
+
+describe('assertConversationAccess', () => {
+  beforeEach(installDb);
+  afterEach(() => mock.restoreAll());
+  
+  it('accepts the owner continuing with the same agent', async () => {
+    await assertConversationAccess(OWN_CONVERSATION, TENANT_ID, USER_ID, AGENT_ID);
+  });
+  
+  it('reports another user\'s conversation as not found', async () => {
+    await assert.rejects(
+      assertConversationAccess(OTHER_USERS_CONVERSATION, TENANT_ID, USER_ID, AGENT_ID),
+      (error: unknown) => error instanceof ConversationAccessError && error.status === 404
+    );
+  });
+  
+  it('reports another tenant\'s conversation as not found', async () => {
+    await assert.rejects(
+      assertConversationAccess(OTHER_TENANTS_CONVERSATION, TENANT_ID, USER_ID, AGENT_ID),
+      (error: unknown) => error instanceof ConversationAccessError && error.status === 404
+    );
+  });
+  
+  it('rejects continuing a conversation with a different agent', async () => {
+    await assert.rejects(
+      assertConversationAccess(OTHER_AGENTS_CONVERSATION, TENANT_ID, USER_ID, AGENT_ID),
+      (error: unknown) => error instanceof ConversationAccessError && error.status === 409
+    );
+  });
+  
+  it('checks ownership of conversations that only exist as messages', async () => {
+    await assert.rejects(
+      assertConversationAccess(LEGACY_CONVERSATION, TENANT_ID, USER_ID, AGENT_ID),
+      (error: unknown) => error instanceof ConversationAccessError && error.status === 404
+    );
+  });
+  
+  it('accepts an unknown id so clients can start a conversation with their own UUID', async () => {
+    await assertConversationAccess(UNKNOWN_CONVERSATION, TENANT_ID, USER_ID, AGENT_ID);
+    
+    // Both the conversations table and the legacy messages were consulted before accepting
+    assert.ok(calls.some(c => /FROM conversations WHERE id = \$1$/.test(c.sql)));
+    assert.ok(calls.some(c => /FROM chat_messages WHERE conversation_id = \$1/.test(c.sql)));
+  });
+});
+
+describe('conversation routes', () => {
+  const server = http.createServer(express().use(express.json()).use('/api/chat', chatRoutes));
+  let baseUrl = '';
+  
+  const token = (userId: string, tenantId: string) =>
+    jwt.sign({ userId, email: 'user@acme.test', role: 'user', tenantId, sessionId: 'session' }, process.env.JWT_SECRET!);
+  
+  const request = (method: string, path: string, body?: unknown, auth = token(USER_ID, TENANT_ID)) =>
+    fetch(`${baseUrl}${path}`, {
+      method,
+      headers: { Authorization: `Bearer ${auth}`, 'Content-Type': 'application/json' },
+      body: body === undefined ? undefined : JSON.stringify(body),
+    });
+  
+  before(async () => {
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+  
+  after(() => {
+    server.close();
+  });
+  
+  beforeEach(installDb);
+  afterEach(() => mock.restoreAll());
+  
+  it('renames, archives and unarchives the caller\'s own conversation', async () => {
+    assert.equal((await request('PATCH', `/api/chat/conversations/${OWN_CONVERSATION}`, { title: 'Renamed' })).status, 200);
+    assert.equal((await request('POST', `/api/chat/conversations/${OWN_CONVERSATION}/archive`)).status, 200);
+    assert.equal(conversations[0].is_active, false);
+    assert.equal((await request('POST', `/api/chat/conversations/${OWN_CONVERSATION}/unarchive`)).status, 200);
+    assert.equal(conversations[0].title, 'Renamed');
+    assert.equal(conversations[0].is_active, true);
+  });
+  
+  for (const [label, conversationId] of [
+    ['another user', OTHER_USERS_CONVERSATION],
+    ['another tenant', OTHER_TENANTS_CONVERSATION],
+  ]) {
+    it(`returns 404 when renaming or archiving a conversation of ${label}`, async () => {
+      const responses = await Promise.all([
+        request('PATCH', `/api/chat/conversations/${conversationId}`, { title: 'Hijacked' }),
+        request('POST', `/api/chat/conversations/${conversationId}/archive`),
+        request('POST', `/api/chat/conversations/${conversationId}/unarchive`),
+      ]);
+      
+      assert.deepEqual(responses.map(r => r.status), [404, 404, 404]);
+      assert.ok(conversations.every(c => c.title !== 'Hijacked' && c.is_active));
+    });
+    
+    it(`returns 404 when chatting into a conversation of ${label}`, async () => {
+      const response = await request('POST', '/api/chat', { message: 'hello', agentId: AGENT_ID, conversationId });
+      
+      assert.equal(response.status, 404);
+      assert.equal((await response.json()).error, 'Conversation not found');
+    });
+  }
+  
+  it('returns 409 when continuing a conversation with a different agent', async () => {
+    const response = await request('POST', '/api/chat', { message: 'hello', agentId: AGENT_ID, conversationId: OTHER_AGENTS_CONVERSATION });
+    
+    assert.equal(response.status, 409);
+  });
+  
+  it('scopes conversation updates to the tenant and user in the caller\'s token', async () => {
+    const response = await request('POST', `/api/chat/conversations/${OTHER_TENANTS_CONVERSATION}/archive`);
+    
+    assert.equal(response.status, 404);
+    const update = calls.find(c => /UPDATE conversations SET is_active = false/.test(c.sql))!;
+    assert.deepEqual(update.params, [OTHER_TENANTS_CONVERSATION, USER_ID, TENANT_ID]);
+  });
+});
@@ -0,0 +1,168 @@
+import './helpers/env.js';
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { canStreamOutput, checkOutput } from '../src/services/guardrails.js';
+import { createPiiVault, maskPii, rehydratePii, DEFAULT_PII_POLICY } from '../src/services/pii.js';
+import { Agent, OutputGuardrails, RAGEvidence } from '../src/types/index.js';
+
+const USER_ID = 'aaaaaaaa-aaaa-aaaa-aaaa-aaaaaaaaaaaa';
+
+function agentWith(guardrails: Partial<OutputGuardrails>, fields: Partial<Agent> = {}): Agent {
+  return {
+    id: 'cccccccc-cccc-cccc-cccc-cccccccccccc',
+    tenant_id: '11111111-1111-1111-1111-111111111111',
+    name: 'Support',
+    mode: 'INTERNAL',
+    allowed_topics: [],
+    forbidden_topics: [],
+    output_guardrails: guardrails,
+    ...fields,
+  } as unknown as Agent;
+}
+
+const EVIDENCE = [{ document_name: 'Refund Policy.pdf' }] as RAGEvidence[];
+
+describe('checkOutput', () => {
+  it('allows everything when no check is enabled', async () => {
+    const output = await checkOutput('Write to jane@example.com', agentWith({}), EVIDENCE, USER_ID);
+    
+    assert.equal(output.action, 'allowed');
+    assert.equal(output.response, 'Write to jane@example.com');
+    assert.deepEqual(output.findings, []);
+  });
+  
+  it('redacts PII of the configured types only', async () => {
+    const output = await checkOutput(
+      'Mail jane@example.com from 10.0.0.1',
+      agentWith({ pii: 'redact', pii_types: ['email'] }),
+      [], USER_ID
+    );
+    
+    assert.equal(output.action, 'modified');
+    assert.equal(output.response, 'Mail [REDACTED_EMAIL] from 10.0.0.1');
+    assert.deepEqual(output.findings, [{ check: 'pii', action: 'redact', detail: 'email', count: 1 }]);
+  });
+  
+  it('replaces the whole answer when a check blocks', async () => {
+    const output = await checkOutput('Mail jane@example.com', agentWith({ pii: 'block' }), [], USER_ID);
+    
+    assert.equal(output.action, 'blocked');
+    assert.doesNotMatch(output.response, /jane@example\.com/);
+    assert.match(output.reason!, /personal data \(email\)/);
+  });
+  
+  it('applies deny patterns before the PII check', async () => {
+    const output = await checkOutput(
+      'Project Falcon ships Friday',
+      agentWith({ deny_patterns: [{ pattern: 'falcon', action: 'redact', label: 'codename' }] }),
+      [], USER_ID
+    );
+    
+    assert.equal(output.response, 'Project [REDACTED] ships Friday');
+    assert.deepEqual(output.findings, [{ check: 'deny_pattern', action: 'redact', detail: 'codename', count: 1 }]);
+  });
+  
+  it('checks the answer against forbidden topics only when enabled', async () => {
+    const forbidden_topics = [{ name: 'Competitors', keywords: ['Globex'] }];
+    
+    const off = await checkOutput('Globex is cheaper.', agentWith({}, { forbidden_topics }), [], USER_ID);
+    assert.equal(off.action, 'allowed');
+    
+    const annotated = await checkOutput('Globex is cheaper.', agentWith({ forbidden_topics: 'annotate' }, { forbidden_topics }), [], USER_ID);
+    assert.equal(annotated.action, 'modified');
+    assert.match(annotated.response, /^Globex is cheaper\.\n\n---\n_Note: This answer touches on a restricted topic \(Competitors\)\._$/);
+    
+    const blocked = await checkOutput('Globex is cheaper.', agentWith({ forbidden_topics: 'block' }, { forbidden_topics }), [], USER_ID);
+    assert.equal(blocked.action, 'blocked');
+    assert.equal(blocked.reason, 'Response matches forbidden topic: "Competitors"');
+  });
+  
+  it('blocks on a deny pattern and reports every finding', async () => {
+    const output = await checkOutput(
+      'Project Falcon: mail jane@example.com',
+      agentWith({ pii: 'annotate', deny_patterns: [{ pattern: 'falcon', action: 'block', label: 'codename' }] }),
+      [], USER_ID
+    );
+    
+    assert.equal(output.action, 'blocked');
+    assert.doesNotMatch(output.response, /Falcon/);
+    assert.equal(output.reason, 'Response matches deny-list entry: "codename"; Response contains personal data (email)');
+  });
+  
+  it('annotates without changing the answer', async () => {
+    const output = await checkOutput(
+      'Mail jane@example.com about the merger',
+      agentWith({ pii: 'annotate', deny_patterns: [{ pattern: 'merger', action: 'annotate' }] }),
+      [], USER_ID
+    );
+    
+    assert.equal(output.action, 'modified');
+    assert.ok(output.response.startsWith('Mail jane@example.com about the merger\n\n---\n'));
+    assert.match(output.response, /_Note: This answer contains content flagged by policy \(merger\)\._/);
+    assert.match(output.response, /_Note: This answer may contain personal data\._/);
+  });
+  
+  it('annotates uncited INTERNAL answers and accepts a cited one', async () => {
+    const agent = agentWith({ citations: 'annotate' });
+    
+    const uncited = await checkOutput('Refunds take 5 days.', agent, EVIDENCE, USER_ID);
+    assert.equal(uncited.action, 'modified');
+    assert.match(uncited.response, /does not cite a source document/);
+    
+    const cited = await checkOutput('Per the Refund Policy, refunds take 5 days.', agent, EVIDENCE, USER_ID);
+    assert.equal(cited.action, 'allowed');
+  });
+  
+  it('checks citations only for INTERNAL agents answering from evidence', async () => {
+    const block = { citations: 'block' as const };
+    
+    assert.equal((await checkOutput('Refunds take 5 days.', agentWith(block), EVIDENCE, USER_ID)).action, 'blocked');
+    assert.equal((await checkOutput('Refunds take 5 days.', agentWith(block), [], USER_ID)).action, 'allowed');
+    assert.equal((await checkOutput('Refunds take 5 days.', agentWith(block, { mode: 'FREE' }), EVIDENCE, USER_ID)).action, 'allowed');
+  });
+  
+  describe('with a PII-masked answer', () => {
+    function maskedAnswer() {
+      const vault = createPiiVault();
+      const masked = maskPii('Contact jane@example.com for refunds.', vault, { ...DEFAULT_PII_POLICY, mask_prompts: true });
+      return { masked, rehydrate: (text: string) => rehydratePii(text, vault) };
+    }
+    
+    it('redacts values that came back through placeholders', async () => {
+      const { masked, rehydrate } = maskedAnswer();
+      assert.equal(masked, 'Contact [EMAIL_1] for refunds.');
+      
+      const output = await checkOutput(masked, agentWith({ pii: 'redact' }), [], USER_ID, rehydrate);
+      
+      assert.equal(output.action, 'modified');
+      assert.equal(output.response, 'Contact [REDACTED_EMAIL] for refunds.');
+    });
+    
+    it('blocks values that came back through placeholders', async () => {
+      const { masked, rehydrate } = maskedAnswer();
+      
+      const output = await checkOutput(masked, agentWith({ pii: 'block' }), [], USER_ID, rehydrate);
+      
+      assert.equal(output.action, 'blocked');
+      assert.doesNotMatch(output.response, /jane@example\.com/);
+    });
+    
+    it('re-hydrates the answer when the PII check is off', async () => {
+      const { masked, rehydrate } = maskedAnswer();
+      
+      const output = await checkOutput(masked, agentWith({}), [], USER_ID, rehydrate);
+      
+      assert.equal(output.action, 'allowed');
+      assert.equal(output.response, 'Contact jane@example.com for refunds.');
+    });
+  });
+});
+
+describe('canStreamOutput', () => {
+  it('streams only when no check can block or redact', () => {
+    assert.equal(canStreamOutput(agentWith({})), true);
+    assert.equal(canStreamOutput(agentWith({ pii: 'annotate', citations: 'annotate' })), true);
+    assert.equal(canStreamOutput(agentWith({ pii: 'redact' })), false);
+    assert.equal(canStreamOutput(agentWith({ deny_patterns: [{ pattern: 'x', action: 'block' }] })), false);
+  });
+});
@@ -0,0 +1,4 @@
+// Imported first by every test so modules that read configuration at load time see it
+process.env.JWT_SECRET ||= 'test-jwt-secret';
+process.env.ENCRYPTION_KEY ||= 'test-encryption-key-0123456789abcdef';
+process.env.OPENAI_API_KEY ||= 'test-openai-key';
@@ -0,0 +1,32 @@
+import { mock } from 'node:test';
+import { pool } from '../../src/db/index.js';
+
+export type QueryHandler = (params: any[], sql: string) => any[] | void;
+
+export interface RecordedQuery {
+  sql: string;
+  params: any[];
+}
+
+// Replace pool.query (and pooled clients) with handlers matched by SQL pattern; returns the recorded queries
+export function fakeQueries(routes: [RegExp, QueryHandler][]): RecordedQuery[] {
+  const calls: RecordedQuery[] = [];
+  
+  const query = async (sql: string, params: any[] = []) => {
+    calls.push({ sql, params });
+    const route = routes.find(([pattern]) => pattern.test(sql));
+    if (!route) {
+      throw new Error(`Unexpected query: ${sql.trim().split('\n')[0]}`);
+    }
+    const rows = route[1](params, sql) || [];
+    return { rows, rowCount: rows.length };
+  };
+  
+  mock.method(pool, 'query', query);
+  mock.method(pool, 'connect', async () => ({ query, release: () => {} }));
+  
+  return calls;
+}
+
+// Route for transaction control statements issued through pooled clients
+export const TRANSACTION_ROUTE: [RegExp, QueryHandler] = [/^(BEGIN|COMMIT|ROLLBACK)$/, () => []];
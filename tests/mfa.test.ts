@@ -0,0 +1,141 @@
+import './helpers/env.js';
+import { describe, it, beforeEach, afterEach, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  generateRecoveryCodes,
+  signMfaToken,
+  useRecoveryCode,
+  verifyMfaToken,
+  verifyTotp,
+  verifyUserTotp,
+} from '../src/services/mfa.js';
+import { encrypt } from '../src/utils/index.js';
+import { fakeQueries } from './helpers/fakeDb.js';
+
+// RFC 6238 appendix B: the ASCII secret "12345678901234567890", last six digits of the SHA-1 codes
+const RFC_SECRET = 'GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ';
+const RFC_VECTORS: [number, string][] = [
+  [59, '287082'],
+  [1111111109, '081804'],
+  [1234567890, '005924'],
+];
+
+const USER_ID = 'aaaaaaaa-aaaa-aaaa-aaaa-aaaaaaaaaaaa';
+
+function at(seconds: number) {
+  mock.method(Date, 'now', () => seconds * 1000);
+}
+
+describe('verifyTotp', () => {
+  afterEach(() => {
+    mock.restoreAll();
+  });
+  
+  it('accepts the RFC 6238 test vectors and returns the time step', () => {
+    for (const [seconds, code] of RFC_VECTORS) {
+      at(seconds);
+      assert.equal(verifyTotp(RFC_SECRET, code), Math.floor(seconds / 30), `code at ${seconds}s`);
+      mock.restoreAll();
+    }
+  });
+  
+  it('allows one step of clock drift either way, and no more', () => {
+    at(59 + 30);
+    assert.equal(verifyTotp(RFC_SECRET, '287082'), 1);
+    
+    at(59 + 60);
+    assert.equal(verifyTotp(RFC_SECRET, '287082'), null);
+  });
+  
+  it('rejects wrong and malformed codes', () => {
+    at(59);
+    assert.equal(verifyTotp(RFC_SECRET, '287083'), null);
+    assert.equal(verifyTotp(RFC_SECRET, '28708'), null);
+    assert.equal(verifyTotp(RFC_SECRET, '28708a'), null);
+  });
+});
+
+describe('verifyUserTotp', () => {
+  let user: { mfa_secret_encrypted: string | null; mfa_last_step: number | null };
+  
+  beforeEach(() => {
+    user = { mfa_secret_encrypted: encrypt(RFC_SECRET), mfa_last_step: null };
+    fakeQueries([
+      [/SELECT mfa_secret_encrypted FROM users/, () => [user]],
+      [/UPDATE users SET mfa_last_step = \$1/, ([step]) => {
+        if (user.mfa_last_step !== null && user.mfa_last_step >= step) return [];
+        user.mfa_last_step = step;
+        return [{ id: USER_ID }];
+      }],
+    ]);
+  });
+  
+  afterEach(() => {
+    mock.restoreAll();
+  });
+  
+  it('accepts a code once and rejects its replay', async () => {
+    at(59);
+    
+    assert.equal(await verifyUserTotp(USER_ID, '287082'), true);
+    assert.equal(user.mfa_last_step, 1);
+    assert.equal(await verifyUserTotp(USER_ID, '287082'), false);
+  });
+  
+  it('rejects an older code after a newer one was used', async () => {
+    // Step 1's code is still inside the drift window, but step 2 was already used
+    at(59 + 30);
+    user.mfa_last_step = 2;
+    assert.equal(await verifyUserTotp(USER_ID, '287082'), false);
+  });
+  
+  it('rejects every code for a user without a secret', async () => {
+    at(59);
+    user.mfa_secret_encrypted = null;
+    
+    assert.equal(await verifyUserTotp(USER_ID, '287082'), false);
+  });
+});
+
+describe('recovery codes', () => {
+  let stored: { code_hash: string; used: boolean }[];
+  
+  beforeEach(() => {
+    stored = [];
+    fakeQueries([
+      [/DELETE FROM mfa_recovery_codes/, () => {
+        stored = [];
+      }],
+      [/INSERT INTO mfa_recovery_codes/, ([, hash]) => {
+        stored.push({ code_hash: hash, used: false });
+      }],
+      [/UPDATE mfa_recovery_codes SET used_at/, ([, hash]) =>
+        stored.filter(c => c.code_hash === hash && !c.used).map(c => Object.assign(c, { used: true }))],
+    ]);
+  });
+  
+  afterEach(() => {
+    mock.restoreAll();
+  });
+  
+  it('stores only hashes and accepts each code once, ignoring case and spacing', async () => {
+    const codes = await generateRecoveryCodes(USER_ID);
+    
+    assert.equal(codes.length, 10);
+    assert.ok(stored.every(c => !codes.includes(c.code_hash)));
+    
+    assert.equal(await useRecoveryCode(USER_ID, ` ${codes[0].toUpperCase()} `), true);
+    assert.equal(await useRecoveryCode(USER_ID, codes[0]), false);
+    assert.equal(await useRecoveryCode(USER_ID, codes[1]), true);
+  });
+});
+
+describe('MFA tokens', () => {
+  it('only verify for the purpose they were issued for', () => {
+    const token = signMfaToken(USER_ID, 'mfa_enroll');
+    
+    assert.equal(verifyMfaToken(token, 'mfa_enroll'), USER_ID);
+    assert.equal(verifyMfaToken(token, 'mfa_verify'), null);
+    assert.equal(verifyMfaToken('garbage', 'mfa_enroll'), null);
+  });
+});
@@ -0,0 +1,224 @@
+import './helpers/env.js';
+import { describe, it, before, after, beforeEach, afterEach, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { getNotifier, Notification, registerNotifier } from '../src/services/notifier.js';
+import {
+  DEFAULT_PASSWORD_POLICY,
+  isLockedOut,
+  recordFailedLogin,
+  resetPassword,
+  sendPasswordReset,
+  validatePassword,
+} from '../src/services/passwords.js';
+import { hashToken } from '../src/utils/index.js';
+import { fakeQueries, RecordedQuery } from './helpers/fakeDb.js';
+
+const USER = { id: 'aaaaaaaa-aaaa-aaaa-aaaa-aaaaaaaaaaaa', email: 'alice@acme.test' };
+const TENANT_ID = '11111111-1111-1111-1111-111111111111';
+
+describe('validatePassword', () => {
+  const strict = {
+    ...DEFAULT_PASSWORD_POLICY,
+    min_length: 10,
+    require_uppercase: true,
+    require_lowercase: true,
+    require_number: true,
+    require_symbol: true,
+  };
+  
+  it('applies each rule of the policy', () => {
+    assert.match(validatePassword('Short1!', strict)!, /at least 10/);
+    assert.match(validatePassword('lowercase1!x', strict)!, /uppercase/);
+    assert.match(validatePassword('UPPERCASE1!X', strict)!, /lowercase/);
+    assert.match(validatePassword('NoNumbers!!x', strict)!, /number/);
+    assert.match(validatePassword('NoSymbols123', strict)!, /symbol/);
+    assert.equal(validatePassword('Good-Passw0rd', strict), null);
+  });
+  
+  it('refuses passwords that contain the local part of the email', () => {
+    assert.match(validatePassword('xxAlice2024', DEFAULT_PASSWORD_POLICY, USER.email)!, /email/);
+    assert.equal(validatePassword('xxAlice2024', { ...DEFAULT_PASSWORD_POLICY, disallow_email: false }, USER.email), null);
+  });
+});
+
+describe('account lockout', () => {
+  let attempts: number;
+  let calls: RecordedQuery[];
+  
+  beforeEach(() => {
+    attempts = 0;
+    calls = fakeQueries([
+      [/SET failed_login_attempts = failed_login_attempts \+ 1/, () => [{ failed_login_attempts: ++attempts }]],
+      [/SET locked_until = NOW\(\) \+ make_interval/, () => []],
+    ]);
+  });
+  
+  afterEach(() => {
+    mock.restoreAll();
+  });
+  
+  function lockoutSeconds(): number[] {
+    return calls.filter(c => /make_interval/.test(c.sql)).map(c => c.params[0]);
+  }
+  
+  it('locks after the threshold and doubles the lockout with each further failure, up to an hour', async () => {
+    for (let i = 0; i < 4; i++) {
+      await recordFailedLogin(USER.id);
+    }
+    assert.deepEqual(lockoutSeconds(), []);
+    
+    for (let i = 0; i < 3; i++) {
+      await recordFailedLogin(USER.id);
+    }
+    assert.deepEqual(lockoutSeconds(), [60, 120, 240]);
+    
+    attempts = 20;
+    await recordFailedLogin(USER.id);
+    assert.equal(lockoutSeconds().at(-1), 3600);
+  });
+  
+  it('treats only a future locked_until as locked', () => {
+    assert.equal(isLockedOut({ locked_until: new Date(Date.now() + 60_000) }), true);
+    assert.equal(isLockedOut({ locked_until: new Date(Date.now() - 60_000) }), false);
+    assert.equal(isLockedOut({ locked_until: null }), false);
+  });
+});
+
+describe('password reset', () => {
+  let sent: Notification[];
+  let tokens: { id: string; user_id: string; token_hash: string; used: boolean; expires_at: Date }[];
+  let user: { password_hash: string; failed_login_attempts: number; locked_until: Date | null };
+  let calls: RecordedQuery[];
+  let previousNotifier: string | undefined;
+  
+  before(() => {
+    previousNotifier = process.env.NOTIFIER;
+    process.env.NOTIFIER = 'test';
+    registerNotifier('test', { send: async notification => { sent.push(notification); } });
+  });
+  
+  after(() => {
+    if (previousNotifier === undefined) {
+      delete process.env.NOTIFIER;
+    } else {
+      process.env.NOTIFIER = previousNotifier;
+    }
+  });
+  
+  beforeEach(() => {
+    sent = [];
+    tokens = [];
+    user = { password_hash: 'old', failed_login_attempts: 7, locked_until: new Date(Date.now() + 60_000) };
+    calls = fakeQueries([
+      [/UPDATE password_reset_tokens SET used_at = NOW\(\) WHERE user_id = \$1/, ([userId]) =>
+        tokens.filter(t => t.user_id === userId && !t.used).map(t => Object.assign(t, { used: true }))],
+      [/INSERT INTO password_reset_tokens/, ([userId, hash, expiresAt]) => {
+        tokens.push({ id: `reset-${tokens.length + 1}`, user_id: userId, token_hash: hash, used: false, expires_at: expiresAt });
+      }],
+      [/FROM password_reset_tokens r/, ([hash]) =>
+        tokens
+          .filter(t => t.token_hash === hash && !t.used && t.expires_at > new Date())
+          .map(t => ({ id: t.id, user_id: t.user_id, email: USER.email, tenant_id: TENANT_ID }))],
+      [/SELECT password_policy FROM tenants/, () => [{ password_policy: {} }]],
+      [/UPDATE password_reset_tokens SET used_at = NOW\(\) WHERE id = \$1/, ([id]) =>
+        tokens.filter(t => t.id === id && !t.used).map(t => Object.assign(t, { used: true }))],
+      [/UPDATE users SET password_hash = \$1/, ([hash]) => {
+        Object.assign(user, { password_hash: hash, failed_login_attempts: 0, locked_until: null });
+      }],
+      [/UPDATE sessions SET revoked_at/, () => []],
+    ]);
+  });
+  
+  afterEach(() => {
+    mock.restoreAll();
+  });
+  
+  function tokenFromLink(): string {
+    const link = sent.at(-1)!.text.match(/token=([^\s]+)/)![1];
+    return decodeURIComponent(link);
+  }
+  
+  it('sends a link whose token is stored only as a hash and invalidates earlier links', async () => {
+    await sendPasswordReset(USER);
+    const first = tokenFromLink();
+    await sendPasswordReset(USER);
+    const second = tokenFromLink();
+    
+    assert.equal(sent.length, 2);
+    assert.equal(sent[0].to, USER.email);
+    assert.deepEqual(tokens.map(t => t.token_hash), [hashToken(first), hashToken(second)]);
+    assert.deepEqual(tokens.map(t => t.used), [true, false]);
+    
+    assert.match((await resetPassword(first, 'a-new-password'))!, /Invalid or expired/);
+  });
+  
+  it('sets the new password once, clears the lockout and signs out every session', async () => {
+    await sendPasswordReset(USER);
+    const token = tokenFromLink();
+    
+    assert.equal(await resetPassword(token, 'a-new-password'), null);
+    assert.notEqual(user.password_hash, 'old');
+    assert.equal(user.failed_login_attempts, 0);
+    assert.equal(user.locked_until, null);
+    assert.ok(calls.some(c => /UPDATE sessions SET revoked_at/.test(c.sql) && c.params[0] === 'password_reset'));
+    
+    assert.match((await resetPassword(token, 'another-password'))!, /Invalid or expired/);
+  });
+  
+  it('keeps the token usable when the new password breaks the policy', async () => {
+    await sendPasswordReset(USER);
+    const token = tokenFromLink();
+    
+    assert.match((await resetPassword(token, 'short'))!, /at least 8/);
+    assert.equal(tokens[0].used, false);
+    assert.equal(user.password_hash, 'old');
+  });
+  
+  it('refuses expired tokens', async () => {
+    await sendPasswordReset(USER);
+    tokens[0].expires_at = new Date(Date.now() - 1000);
+    
+    assert.match((await resetPassword(tokenFromLink(), 'a-new-password'))!, /Invalid or expired/);
+  });
+});
+
+describe('getNotifier', () => {
+  let env: { NODE_ENV?: string; NOTIFIER?: string };
+  
+  beforeEach(() => {
+    env = { NODE_ENV: process.env.NODE_ENV, NOTIFIER: process.env.NOTIFIER };
+  });
+  
+  afterEach(() => {
+    for (const [key, value] of Object.entries(env)) {
+      if (value === undefined) {
+        delete process.env[key];
+      } else {
+        process.env[key] = value;
+      }
+    }
+  });
+  
+  it('falls back to the console outside production', () => {
+    delete process.env.NODE_ENV;
+    delete process.env.NOTIFIER;
+    
+    assert.ok(getNotifier());
+  });
+  
+  it('requires a registered, non-development notifier in production', () => {
+    process.env.NODE_ENV = 'production';
+    
+    delete process.env.NOTIFIER;
+    assert.throws(() => getNotifier(), /must be set/);
+    
+    process.env.NOTIFIER = 'console';
+    assert.throws(() => getNotifier(), /not allowed in production/);
+    
+    process.env.NOTIFIER = 'file';
+    assert.throws(() => getNotifier(), /not allowed in production/);
+    
+    process.env.NOTIFIER = 'missing';
+    assert.throws(() => getNotifier(), /Unknown notifier/);
+  });
+});
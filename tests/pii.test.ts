@@ -0,0 +1,90 @@
+import './helpers/env.js';
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  createPiiRehydrator,
+  createPiiVault,
+  DEFAULT_PII_POLICY,
+  detectPii,
+  maskPii,
+  redactPii,
+  rehydratePii,
+} from '../src/services/pii.js';
+
+const MASKING = { ...DEFAULT_PII_POLICY, mask_prompts: true };
+
+function typesIn(text: string, types = DEFAULT_PII_POLICY.types) {
+  return detectPii(text, types).map(m => [m.type, m.value]);
+}
+
+describe('detectPii', () => {
+  it('reports identifiers only when their check digits are valid', () => {
+    assert.deepEqual(typesIn('CPF 529.982.247-25', ['cpf']), [['cpf', '529.982.247-25']]);
+    assert.deepEqual(typesIn('CPF 529.982.247-26', ['cpf']), []);
+    
+    assert.deepEqual(typesIn('CNPJ 11.222.333/0001-81', ['cnpj']), [['cnpj', '11.222.333/0001-81']]);
+    assert.deepEqual(typesIn('CNPJ 11.222.333/0001-82', ['cnpj']), []);
+    
+    assert.deepEqual(typesIn('IBAN GB82 WEST 1234 5698 7654 32', ['iban']), [['iban', 'GB82 WEST 1234 5698 7654 32']]);
+    assert.deepEqual(typesIn('IBAN GB82 WEST 1234 5698 7654 33', ['iban']), []);
+    
+    assert.deepEqual(typesIn('Card 4111 1111 1111 1111', ['credit_card']), [['credit_card', '4111 1111 1111 1111']]);
+    assert.deepEqual(typesIn('Card 4111 1111 1111 1112', ['credit_card']), []);
+  });
+  
+  it('reports each span once, under the first type that claims it, in text order', () => {
+    assert.deepEqual(typesIn('Server 10.0.0.1, owner jane@example.com, CNPJ 11222333000181'), [
+      ['ip_address', '10.0.0.1'],
+      ['email', 'jane@example.com'],
+      ['cnpj', '11222333000181'],
+    ]);
+  });
+  
+  it('checks only the requested types', () => {
+    assert.deepEqual(typesIn('jane@example.com from 10.0.0.1', ['ip_address']), [['ip_address', '10.0.0.1']]);
+  });
+});
+
+describe('redactPii', () => {
+  it('labels built-in and custom matches', () => {
+    const { text, matches } = redactPii(
+      'Badge EMP-12345 belongs to jane@example.com',
+      DEFAULT_PII_POLICY.types,
+      [{ name: 'employee id', pattern: 'EMP-\\d{5}' }]
+    );
+    
+    assert.equal(text, 'Badge [REDACTED_EMPLOYEE_ID] belongs to [REDACTED_EMAIL]');
+    assert.equal(matches.length, 2);
+  });
+});
+
+describe('masking', () => {
+  it('numbers placeholders per type and reuses one for a repeated value', () => {
+    const vault = createPiiVault();
+    
+    const masked = maskPii('From jane@example.com to joe@example.com, cc jane@example.com', vault, MASKING);
+    
+    assert.equal(masked, 'From [EMAIL_1] to [EMAIL_2], cc [EMAIL_1]');
+    assert.equal(maskPii('Reply to joe@example.com', vault, MASKING), 'Reply to [EMAIL_2]');
+  });
+  
+  it('restores the values of known placeholders only', () => {
+    const vault = createPiiVault();
+    maskPii('Mail jane@example.com', vault, MASKING);
+    
+    assert.equal(rehydratePii('Sent to [EMAIL_1], not [EMAIL_9]', vault), 'Sent to jane@example.com, not [EMAIL_9]');
+    assert.equal(rehydratePii('Sent to [EMAIL_1]', createPiiVault()), 'Sent to [EMAIL_1]');
+  });
+  
+  it('re-hydrates a stream whose placeholders are split across chunks', () => {
+    const vault = createPiiVault();
+    maskPii('Mail jane@example.com', vault, MASKING);
+    const rehydrator = createPiiRehydrator(vault);
+    
+    const chunks = ['Write to [EM', 'AIL', '_1] today', ' [see notes'];
+    const streamed = chunks.map(chunk => rehydrator.push(chunk));
+    
+    assert.deepEqual(streamed, ['Write to ', '', 'jane@example.com today', ' ']);
+    assert.equal(rehydrator.flush(), '[see notes');
+  });
+});
@@ -0,0 +1,154 @@
+import './helpers/env.js';
+import { describe, it, afterEach, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { createPolicyVersion, evaluatePolicies, PolicyError, PolicyFacts } from '../src/services/policy.js';
+import { Policy, PolicyRule } from '../src/types/index.js';
+import { fakeQueries, TRANSACTION_ROUTE } from './helpers/fakeDb.js';
+
+const TENANT_ID = '11111111-1111-1111-1111-111111111111';
+const AGENT_ID = 'cccccccc-cccc-cccc-cccc-cccccccccccc';
+const GROUP_ID = 'bbbbbbbb-bbbb-bbbb-bbbb-bbbbbbbbbbbb';
+
+// Monday 2026-10-19, 17:00 in São Paulo (UTC-3)
+const FACTS: PolicyFacts = {
+  role: 'user',
+  groupIds: [GROUP_ID],
+  timezone: 'America/Sao_Paulo',
+  now: new Date('2026-10-19T20:00:00Z'),
+  topic: 'Payroll',
+  evidenceScore: 0.8,
+  budgetState: 'ok',
+};
+
+function rule(id: string, when: PolicyRule['when'], action: PolicyRule['action'], enabled = true): PolicyRule {
+  return { id, enabled, when, action };
+}
+
+function policy(agentId: string | null, rules: PolicyRule[], defaultAction: 'allow' | 'block' = 'allow'): Policy {
+  return {
+    id: agentId ? 'agent-policy' : 'tenant-policy',
+    tenant_id: TENANT_ID,
+    agent_id: agentId,
+    version: 3,
+    document: { schema_version: 1, default_action: defaultAction, rules },
+    is_active: true,
+    created_at: new Date(),
+  };
+}
+
+describe('evaluatePolicies', () => {
+  it('allows when there is no policy', () => {
+    assert.deepEqual(evaluatePolicies([], FACTS), { decision: 'allow', disclaimers: [], trace: [] });
+  });
+  
+  it('requires every listed condition to hold and traces each one', () => {
+    const outcome = evaluatePolicies([
+      policy(null, [
+        rule('payroll-for-admins', { topics: ['payroll'], roles: ['tenant_admin'] }, { type: 'block' }),
+        rule('payroll-for-group', { topics: ['payroll'], groups: [GROUP_ID] }, { type: 'require_approval', message: 'HR reviews payroll answers' }),
+      ]),
+    ], FACTS);
+    
+    assert.equal(outcome.decision, 'require_approval');
+    assert.equal(outcome.rule, 'tenant:payroll-for-group');
+    assert.equal(outcome.message, 'HR reviews payroll answers');
+    assert.deepEqual(outcome.trace.map(t => [t.rule, t.matched, t.conditions]), [
+      ['payroll-for-admins', false, { topics: true, roles: false }],
+      ['payroll-for-group', true, { topics: true, groups: true }],
+    ]);
+  });
+  
+  it('keeps accumulated actions and stops the document at the first allow', () => {
+    const outcome = evaluatePolicies([
+      policy(null, [
+        rule('cheap-model', {}, { type: 'downgrade_model', model: 'gpt-4o-mini' }),
+        rule('disclaimer', {}, { type: 'add_disclaimer', text: 'Not legal advice.' }),
+        rule('allow-all', {}, { type: 'allow' }),
+        rule('never-reached', {}, { type: 'block' }),
+      ]),
+    ], FACTS);
+    
+    assert.equal(outcome.decision, 'allow');
+    assert.equal(outcome.model, 'gpt-4o-mini');
+    assert.deepEqual(outcome.disclaimers, ['Not legal advice.']);
+    assert.deepEqual(outcome.trace.map(t => t.rule), ['cheap-model', 'disclaimer', 'allow-all']);
+  });
+  
+  it('skips disabled rules', () => {
+    const outcome = evaluatePolicies([policy(null, [rule('off', {}, { type: 'block' }, false)])], FACTS);
+    
+    assert.equal(outcome.decision, 'allow');
+    assert.deepEqual(outcome.trace, []);
+  });
+  
+  it('compares time windows in the tenant\'s timezone, including windows past midnight', () => {
+    const businessHours = (timezone: string, days?: number[]) => evaluatePolicies([
+      policy(null, [rule('hours', { time_window: { start: '09:00', end: '18:00', days } }, { type: 'block' })]),
+    ], { ...FACTS, timezone }).decision;
+    
+    assert.equal(businessHours('America/Sao_Paulo'), 'block');
+    assert.equal(businessHours('UTC'), 'allow');
+    assert.equal(businessHours('America/Sao_Paulo', [0, 6]), 'allow');
+    
+    const overnight = evaluatePolicies([
+      policy(null, [rule('night', { time_window: { start: '22:00', end: '06:00' } }, { type: 'block' })]),
+    ], { ...FACTS, now: new Date('2026-10-20T04:30:00Z') });
+    assert.equal(overnight.decision, 'block');
+  });
+  
+  it('never matches an evidence score condition without retrieved evidence', () => {
+    const lowEvidence = [policy(null, [rule('low-evidence', { evidence_score: { max: 0.5 } }, { type: 'require_approval' })])];
+    
+    assert.equal(evaluatePolicies(lowEvidence, { ...FACTS, evidenceScore: 0.3 }).decision, 'require_approval');
+    assert.equal(evaluatePolicies(lowEvidence, { ...FACTS, evidenceScore: null }).decision, 'allow');
+  });
+  
+  it('applies the default action when no rule ends the document', () => {
+    const outcome = evaluatePolicies([policy(AGENT_ID, [rule('admins', { roles: ['tenant_admin'] }, { type: 'allow' })], 'block')], FACTS);
+    
+    assert.equal(outcome.decision, 'block');
+    assert.equal(outcome.rule, 'agent:default');
+    assert.deepEqual(outcome.trace.at(-1), {
+      policy_id: 'agent-policy', scope: 'agent', version: 3, rule: 'default', matched: true, conditions: {}, action: 'block',
+    });
+  });
+  
+  it('lets a block win over an approval requirement from either policy', () => {
+    const approve = policy(null, [rule('review', {}, { type: 'require_approval' })]);
+    const block = policy(AGENT_ID, [rule('soft-limit', { budget_state: ['soft_limit'] }, { type: 'block', message: 'Budget nearly spent' })]);
+    
+    const outcome = evaluatePolicies([approve, block], { ...FACTS, budgetState: 'soft_limit' });
+    
+    assert.equal(outcome.decision, 'block');
+    assert.equal(outcome.rule, 'agent:soft-limit');
+    assert.equal(outcome.message, 'Budget nearly spent');
+  });
+  
+  it('does not evaluate the agent policy after the tenant policy blocks', () => {
+    const outcome = evaluatePolicies([
+      policy(null, [rule('block-all', {}, { type: 'block' })]),
+      policy(AGENT_ID, [rule('cheap-model', {}, { type: 'downgrade_model', model: 'gpt-4o-mini' })]),
+    ], FACTS);
+    
+    assert.equal(outcome.rule, 'tenant:block-all');
+    assert.equal(outcome.model, undefined);
+    assert.deepEqual(outcome.trace.map(t => t.scope), ['tenant']);
+  });
+});
+
+describe('createPolicyVersion', () => {
+  afterEach(() => {
+    mock.restoreAll();
+  });
+  
+  it('refuses an agent of another tenant and writes nothing', async () => {
+    const calls = fakeQueries([TRANSACTION_ROUTE, [/SELECT id FROM agents/, () => []]]);
+    
+    const error = await createPolicyVersion(TENANT_ID, AGENT_ID, { schema_version: 1, default_action: 'allow', rules: [] }, 'admin')
+      .then(() => null, e => e);
+    
+    assert.ok(error instanceof PolicyError);
+    assert.equal(error.status, 404);
+    assert.deepEqual(calls.map(c => c.sql.split(' ')[0]), ['BEGIN', 'SELECT', 'ROLLBACK']);
+  });
+});
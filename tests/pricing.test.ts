@@ -0,0 +1,123 @@
+import './helpers/env.js';
+import { describe, it, beforeEach, afterEach, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { computeCost, getModelPricing, recordUsage, withoutUsageRecording } from '../src/services/pricing.js';
+import { fakeQueries, RecordedQuery, TRANSACTION_ROUTE } from './helpers/fakeDb.js';
+
+const TENANT_ID = '11111111-1111-1111-1111-111111111111';
+const AGENT_ID = 'cccccccc-cccc-cccc-cccc-cccccccccccc';
+
+describe('model pricing', () => {
+  let catalog: { input_cost_per_million: number; output_cost_per_million: number }[];
+  
+  beforeEach(() => {
+    catalog = [];
+    fakeQueries([[/FROM model_pricing/, () => catalog]]);
+  });
+  
+  afterEach(() => {
+    mock.restoreAll();
+  });
+  
+  it('prefers the tenant catalog over the built-in prices', async () => {
+    catalog = [{ input_cost_per_million: 1, output_cost_per_million: 2 }];
+    
+    assert.deepEqual(await getModelPricing(TENANT_ID, 'openai', 'gpt-4o'), catalog[0]);
+  });
+  
+  it('prices dated snapshots by the longest matching built-in model', async () => {
+    assert.deepEqual(await getModelPricing(TENANT_ID, 'openai', 'gpt-4o-mini-2024-07-18'), {
+      input_cost_per_million: 0.15,
+      output_cost_per_million: 0.6,
+    });
+    assert.deepEqual(await getModelPricing(TENANT_ID, 'openai', 'gpt-4o-2024-08-06'), {
+      input_cost_per_million: 2.5,
+      output_cost_per_million: 10,
+    });
+  });
+  
+  it('falls back to the flat estimate for unknown models', async () => {
+    assert.deepEqual(await getModelPricing(TENANT_ID, 'local', 'llama-3'), {
+      input_cost_per_million: 10,
+      output_cost_per_million: 10,
+    });
+  });
+  
+  it('charges input and output tokens at their own rates', () => {
+    assert.equal(computeCost({ input_cost_per_million: 2.5, output_cost_per_million: 10 }, 1_000_000, 500_000), 7.5);
+    assert.equal(computeCost({ input_cost_per_million: 0.02, output_cost_per_million: 0 }, 1000, 0), 0.00002);
+  });
+});
+
+describe('recordUsage', () => {
+  let calls: RecordedQuery[];
+  
+  const usage = {
+    tenantId: TENANT_ID,
+    agentId: AGENT_ID,
+    operation: 'chat' as const,
+    provider: 'openai',
+    model: 'gpt-4o',
+    inputTokens: 1000,
+    outputTokens: 200,
+  };
+  
+  beforeEach(() => {
+    calls = fakeQueries([
+      [/FROM model_pricing/, () => []],
+      [/INSERT INTO usage_events/, () => []],
+      TRANSACTION_ROUTE,
+      [/FROM agents a/, () => [{
+        id: AGENT_ID,
+        tenant_id: TENANT_ID,
+        cost_used_today: 0.5,
+        cost_limit_daily: 10,
+        cost_period_date: '2026-10-19',
+        usage_date: '2026-10-19',
+        today: '2026-10-19',
+      }]],
+      [/UPDATE agents SET cost_used_today = cost_used_today \+ \$1/, () => []],
+    ]);
+  });
+  
+  afterEach(() => {
+    mock.restoreAll();
+  });
+  
+  it('records the priced event and charges the agent the same amount', async () => {
+    const cost = await recordUsage(usage);
+    
+    assert.equal(cost, 0.0045);
+    
+    const event = calls.find(c => /INSERT INTO usage_events/.test(c.sql))!;
+    assert.equal(event.params[8], cost);
+    
+    const charge = calls.find(c => /SET cost_used_today = cost_used_today \+ \$1/.test(c.sql))!;
+    assert.deepEqual(charge.params, [cost, '2026-10-19', AGENT_ID]);
+    
+    // The charge is bucketed by the time the event was recorded at
+    assert.equal(calls.find(c => /FROM agents a/.test(c.sql))!.params[1], event.params[9]);
+  });
+  
+  it('charges no agent for usage outside an agent', async () => {
+    await recordUsage({ ...usage, agentId: null });
+    
+    assert.ok(calls.some(c => /INSERT INTO usage_events/.test(c.sql)));
+    assert.ok(!calls.some(c => /agents/.test(c.sql)));
+  });
+  
+  it('prices but neither records nor charges during a dry run', async () => {
+    const cost = await withoutUsageRecording(() => recordUsage(usage));
+    
+    assert.equal(cost, 0.0045);
+    assert.deepEqual(calls.map(c => c.sql).filter(sql => !/FROM model_pricing/.test(sql)), []);
+  });
+  
+  it('returns zero instead of failing the caller when accounting breaks', async () => {
+    mock.restoreAll();
+    fakeQueries([[/FROM model_pricing/, () => { throw new Error('connection lost'); }]]);
+    mock.method(console, 'error', () => {});
+    
+    assert.equal(await recordUsage(usage), 0);
+  });
+});
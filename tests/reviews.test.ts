@@ -0,0 +1,121 @@
+import './helpers/env.js';
+import { describe, it, beforeEach, afterEach, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { approveReview, rejectReview, REJECTED_ANSWER_MESSAGE, ReviewError } from '../src/services/reviews.js';
+import { fakeQueries, RecordedQuery, TRANSACTION_ROUTE } from './helpers/fakeDb.js';
+
+const TENANT_ID = '11111111-1111-1111-1111-111111111111';
+const REVIEWER_ID = 'eeeeeeee-eeee-eeee-eeee-eeeeeeeeeeee';
+const REVIEW_ID = 'ffffffff-ffff-ffff-ffff-ffffffffffff';
+
+let item: Record<string, any>;
+let message: { content: string; tokens_used: number; evidence: string };
+let calls: RecordedQuery[];
+
+function installDb() {
+  calls = fakeQueries([
+    TRANSACTION_ROUTE,
+    [/SELECT \* FROM review_items/, ([id, tenantId]) => (id === item.id && tenantId === item.tenant_id ? [{ ...item }] : [])],
+    [/UPDATE chat_messages SET content = \$1/, ([content, tokensUsed, evidence, id]) => {
+      if (id === item.message_id) {
+        message = { content, tokens_used: tokensUsed, evidence };
+      }
+    }],
+    [/UPDATE conversations SET updated_at/, () => []],
+    [/UPDATE review_items/, ([status, finalResponse, edited, note, reviewer]) => {
+      Object.assign(item, { status, final_response: finalResponse, edited, review_note: note, reviewed_by: reviewer });
+      return [{ ...item }];
+    }],
+    [/SELECT pii_policy FROM tenants/, () => [{ pii_policy: {} }]],
+    [/INSERT INTO decision_logs/, () => []],
+  ]);
+}
+
+async function reviewError(resolve: Promise<unknown>): Promise<ReviewError> {
+  const error = await resolve.then(() => null, e => e);
+  assert.ok(error instanceof ReviewError, `expected ReviewError, got ${error}`);
+  return error;
+}
+
+function loggedDecision() {
+  return calls.find(c => /INSERT INTO decision_logs/.test(c.sql))!.params;
+}
+
+describe('reviews', () => {
+  beforeEach(() => {
+    item = {
+      id: REVIEW_ID,
+      tenant_id: TENANT_ID,
+      agent_id: 'cccccccc-cccc-cccc-cccc-cccccccccccc',
+      user_id: 'aaaaaaaa-aaaa-aaaa-aaaa-aaaaaaaaaaaa',
+      conversation_id: '99999999-9999-9999-9999-999999999999',
+      message_id: '88888888-8888-8888-8888-888888888888',
+      message: 'What is the refund window?',
+      draft_response: 'Refunds are accepted within 30 days.',
+      evidence: [{ document_name: 'Refund Policy.pdf' }],
+      tokens_used: 120,
+      status: 'pending',
+      agent_version_id: '77777777-7777-7777-7777-777777777777',
+    };
+    message = { content: 'This answer is waiting for review.', tokens_used: 0, evidence: '[]' };
+    installDb();
+  });
+  
+  afterEach(() => {
+    mock.restoreAll();
+  });
+  
+  it('delivers the approved draft into the placeholder message', async () => {
+    const approved = await approveReview(REVIEW_ID, TENANT_ID, REVIEWER_ID);
+    
+    assert.equal(approved.status, 'approved');
+    assert.equal(approved.edited, false);
+    assert.deepEqual(message, {
+      content: 'Refunds are accepted within 30 days.',
+      tokens_used: 120,
+      evidence: JSON.stringify(item.evidence),
+    });
+    assert.deepEqual(loggedDecision().slice(3, 6), ['chat', 'modified', 'Held answer approved by reviewer']);
+    assert.equal(loggedDecision()[10], item.agent_version_id);
+  });
+  
+  it('delivers a reviewer\'s edit and logs the original draft', async () => {
+    const approved = await approveReview(REVIEW_ID, TENANT_ID, REVIEWER_ID, {
+      response: 'Refunds are accepted within 14 days.',
+      note: 'Policy changed',
+    });
+    
+    assert.equal(approved.edited, true);
+    assert.equal(approved.review_note, 'Policy changed');
+    assert.equal(message.content, 'Refunds are accepted within 14 days.');
+    
+    const metadata = JSON.parse(loggedDecision()[8]);
+    assert.equal(metadata.draftPreview, 'Refunds are accepted within 30 days.');
+  });
+  
+  it('replaces a rejected draft with the rejection notice and drops its evidence', async () => {
+    const rejected = await rejectReview(REVIEW_ID, TENANT_ID, REVIEWER_ID, 'Not sourced');
+    
+    assert.equal(rejected.status, 'rejected');
+    assert.deepEqual(message, { content: REJECTED_ANSWER_MESSAGE, tokens_used: 0, evidence: '[]' });
+    assert.deepEqual(loggedDecision().slice(3, 6), ['chat', 'blocked', 'Held answer rejected by reviewer']);
+    assert.equal(loggedDecision()[7], null);
+  });
+  
+  it('resolves an item only once', async () => {
+    await rejectReview(REVIEW_ID, TENANT_ID, REVIEWER_ID);
+    
+    const error = await reviewError(approveReview(REVIEW_ID, TENANT_ID, REVIEWER_ID));
+    assert.equal(error.status, 409);
+    assert.equal(error.message, 'Review item was already rejected');
+    assert.equal(message.content, REJECTED_ANSWER_MESSAGE);
+    assert.equal(calls.at(-1)!.sql, 'ROLLBACK');
+  });
+  
+  it('does not find items of another tenant', async () => {
+    const error = await reviewError(approveReview(REVIEW_ID, '22222222-2222-2222-2222-222222222222', REVIEWER_ID));
+    
+    assert.equal(error.status, 404);
+    assert.equal(item.status, 'pending');
+  });
+});
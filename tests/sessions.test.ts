@@ -0,0 +1,188 @@
+import './helpers/env.js';
+import { describe, it, beforeEach, afterEach, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import jwt from 'jsonwebtoken';
+import { Request, Response } from 'express';
+import { authenticate } from '../src/middleware/auth.js';
+import { createSession, revokeUserSessions, rotateSession, SessionError } from '../src/services/sessions.js';
+import { hashToken } from '../src/utils/index.js';
+import { fakeQueries } from './helpers/fakeDb.js';
+
+const TENANT_ID = '11111111-1111-1111-1111-111111111111';
+const USER = { id: 'aaaaaaaa-aaaa-aaaa-aaaa-aaaaaaaaaaaa', email: 'alice@acme.test', role: 'user' as const, tenant_id: TENANT_ID };
+
+interface SessionRow {
+  id: string;
+  tenant_id: string;
+  user_id: string;
+  refresh_token_hash: string;
+  previous_token_hash: string | null;
+  expires_at: Date;
+  revoked_at: Date | null;
+  revoked_reason: string | null;
+}
+
+let sessions: SessionRow[];
+let userActive: boolean;
+let tenantActive: boolean;
+
+// Mirrors the joins the session queries make against users and tenants
+function withAccount(s: SessionRow) {
+  return { ...s, email: USER.email, role: USER.role, user_active: userActive, tenant_active: tenantActive };
+}
+
+function installDb() {
+  fakeQueries([
+    [/INSERT INTO sessions/, ([id, tenantId, userId, hash, , , expiresAt]) => {
+      sessions.push({
+        id, tenant_id: tenantId, user_id: userId, refresh_token_hash: hash, previous_token_hash: null,
+        expires_at: expiresAt, revoked_at: null, revoked_reason: null,
+      });
+    }],
+    [/WHERE s\.refresh_token_hash = \$1 OR s\.previous_token_hash = \$1/, ([hash]) =>
+      sessions.filter(s => s.refresh_token_hash === hash || s.previous_token_hash === hash).map(withAccount)],
+    [/SET previous_token_hash = refresh_token_hash/, ([next, id, current]) =>
+      sessions
+        .filter(s => s.id === id && s.refresh_token_hash === current && !s.revoked_at)
+        .map(s => Object.assign(s, { previous_token_hash: s.refresh_token_hash, refresh_token_hash: next }))],
+    [/WHERE id = \$2 AND revoked_at IS NULL$/, ([reason, id]) =>
+      sessions
+        .filter(s => s.id === id && !s.revoked_at)
+        .map(s => Object.assign(s, { revoked_at: new Date(), revoked_reason: reason }))],
+    [/WHERE user_id = \$2 AND revoked_at IS NULL AND id IS DISTINCT FROM \$3/, ([reason, userId, except]) =>
+      sessions
+        .filter(s => s.user_id === userId && !s.revoked_at && s.id !== except)
+        .map(s => Object.assign(s, { revoked_at: new Date(), revoked_reason: reason }))],
+    [/WHERE s\.id = \$1 AND s\.user_id = \$2/, ([id, userId]) =>
+      sessions.filter(s => s.id === id && s.user_id === userId).map(withAccount)],
+  ]);
+}
+
+async function refreshError(refreshToken: string): Promise<SessionError> {
+  const error = await rotateSession(refreshToken).then(() => null, e => e);
+  assert.ok(error instanceof SessionError, `expected SessionError, got ${error}`);
+  return error;
+}
+
+describe('sessions', () => {
+  beforeEach(() => {
+    sessions = [];
+    userActive = true;
+    tenantActive = true;
+    installDb();
+  });
+  
+  afterEach(() => {
+    mock.restoreAll();
+  });
+  
+  it('stores only the hash of the refresh token and puts the session id in the access token', async () => {
+    const tokens = await createSession(USER);
+    
+    assert.equal(sessions.length, 1);
+    assert.equal(sessions[0].refresh_token_hash, hashToken(tokens.refreshToken));
+    assert.notEqual(sessions[0].refresh_token_hash, tokens.refreshToken);
+    
+    const payload = jwt.verify(tokens.token, process.env.JWT_SECRET!) as any;
+    assert.equal(payload.sessionId, tokens.sessionId);
+    assert.equal(payload.userId, USER.id);
+  });
+  
+  it('rotates the refresh token on every exchange', async () => {
+    const first = await createSession(USER);
+    const second = await rotateSession(first.refreshToken);
+    
+    assert.equal(second.sessionId, first.sessionId);
+    assert.notEqual(second.refreshToken, first.refreshToken);
+    
+    const third = await rotateSession(second.refreshToken);
+    assert.equal(third.sessionId, first.sessionId);
+  });
+  
+  it('revokes the session when a rotated-out refresh token is presented again', async () => {
+    const first = await createSession(USER);
+    const second = await rotateSession(first.refreshToken);
+    
+    await refreshError(first.refreshToken);
+    assert.equal(sessions[0].revoked_reason, 'refresh_token_reuse');
+    
+    // The legitimate holder of the newer token is signed out too
+    await refreshError(second.refreshToken);
+  });
+  
+  it('refuses expired and unknown refresh tokens', async () => {
+    const tokens = await createSession(USER);
+    sessions[0].expires_at = new Date(Date.now() - 1000);
+    
+    await refreshError(tokens.refreshToken);
+    await refreshError('not-a-token');
+  });
+  
+  it('revokes the session of a deactivated user', async () => {
+    const tokens = await createSession(USER);
+    userActive = false;
+    
+    await refreshError(tokens.refreshToken);
+    assert.equal(sessions[0].revoked_reason, 'user_deactivated');
+  });
+  
+  it('refuses to refresh for a suspended tenant without revoking', async () => {
+    const tokens = await createSession(USER);
+    tenantActive = false;
+    
+    const error = await refreshError(tokens.refreshToken);
+    assert.equal(error.status, 403);
+    assert.equal(sessions[0].revoked_at, null);
+  });
+  
+  it('revokes every session of a user except the one kept', async () => {
+    const kept = await createSession(USER);
+    await createSession(USER);
+    await createSession(USER);
+    
+    const count = await revokeUserSessions(USER.id, 'password_change', kept.sessionId);
+    
+    assert.equal(count, 2);
+    assert.deepEqual(sessions.filter(s => !s.revoked_at).map(s => s.id), [kept.sessionId]);
+  });
+  
+  describe('authenticate', () => {
+    async function authenticateWith(token: string): Promise<{ status?: number; passed: boolean }> {
+      const outcome: { status?: number; passed: boolean } = { passed: false };
+      const res = {
+        status(code: number) {
+          outcome.status = code;
+          return this;
+        },
+        json() {
+          return this;
+        },
+      } as unknown as Response;
+      const req = { headers: { authorization: `Bearer ${token}` } } as Request;
+      
+      await authenticate(req, res, () => {
+        outcome.passed = true;
+      });
+      return outcome;
+    }
+    
+    it('accepts an access token while its session is active', async () => {
+      const tokens = await createSession(USER);
+      
+      assert.deepEqual(await authenticateWith(tokens.token), { passed: true });
+    });
+    
+    it('rejects an unexpired access token once its session is revoked', async () => {
+      const tokens = await createSession(USER);
+      await revokeUserSessions(USER.id, 'admin_revoke');
+      
+      assert.deepEqual(await authenticateWith(tokens.token), { status: 401, passed: false });
+    });
+    
+    it('rejects access tokens that carry no session id', async () => {
+      const legacy = jwt.sign({ userId: USER.id, email: USER.email, role: USER.role, tenantId: TENANT_ID }, process.env.JWT_SECRET!);
+      
+      assert.deepEqual(await authenticateWith(legacy), { status: 401, passed: false });
+    });
+  });
+});
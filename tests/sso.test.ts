@@ -0,0 +1,282 @@
+import './helpers/env.js';
+import { describe, it, before, after, beforeEach, afterEach, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import crypto from 'crypto';
+import http from 'http';
+import { AddressInfo } from 'net';
+import express from 'express';
+import jwt from 'jsonwebtoken';
+import authRoutes from '../src/routes/auth.js';
+import { verifyMfaToken } from '../src/services/mfa.js';
+import { completeSsoLogin, SsoError } from '../src/services/sso.js';
+import { encrypt } from '../src/utils/index.js';
+import { fakeQueries, RecordedQuery } from './helpers/fakeDb.js';
+
+const TENANT_ID = '11111111-1111-1111-1111-111111111111';
+const OTHER_TENANT_ID = '22222222-2222-2222-2222-222222222222';
+const NONCE = 'test-nonce';
+
+// Minimal OpenID provider: discovery, JWKS and a token endpoint that signs whatever claims the test sets
+const { privateKey, publicKey } = crypto.generateKeyPairSync('rsa', { modulusLength: 2048 });
+const jwk = { ...publicKey.export({ format: 'jwk' }), kid: 'test-key', use: 'sig', alg: 'RS256' };
+let issuer = '';
+let idTokenClaims: Record<string, any> = {};
+
+const idp = http.createServer((req, res) => {
+  res.setHeader('Content-Type', 'application/json');
+  
+  if (req.url === '/.well-known/openid-configuration') {
+    return res.end(JSON.stringify({
+      issuer,
+      authorization_endpoint: `${issuer}/authorize`,
+      token_endpoint: `${issuer}/token`,
+      jwks_uri: `${issuer}/jwks`,
+    }));
+  }
+  
+  if (req.url === '/jwks') {
+    return res.end(JSON.stringify({ keys: [jwk] }));
+  }
+  
+  if (req.url === '/token' && req.method === 'POST') {
+    const idToken = jwt.sign({ nonce: NONCE, ...idTokenClaims }, privateKey, {
+      algorithm: 'RS256',
+      keyid: 'test-key',
+      issuer,
+      audience: 'test-client',
+      expiresIn: '5m',
+    });
+    return res.end(JSON.stringify({ id_token: idToken, access_token: 'access' }));
+  }
+  
+  res.statusCode = 404;
+  res.end('{}');
+});
+
+let users: any[];
+let requireAdminMfa = false;
+let calls: RecordedQuery[];
+
+function withSlug(user: any) {
+  return { ...user, tenant_slug: user.tenant_id === TENANT_ID ? 'acme' : 'other' };
+}
+
+function installDb() {
+  calls = fakeQueries([
+    [/DELETE FROM sso_login_states/, () => [{
+      state: 'state', tenant_id: TENANT_ID, nonce: NONCE, code_verifier: 'verifier',
+      expires_at: new Date(Date.now() + 60_000),
+    }]],
+    [/FROM sso_providers/, () => [{
+      id: 'provider', tenant_id: TENANT_ID, issuer, client_id: 'test-client',
+      client_secret_encrypted: encrypt('test-secret'), redirect_uri: 'https://app.test/callback',
+      scopes: 'openid email', allowed_domains: [], role_mapping: {}, default_role: 'user',
+      auto_provision: true, is_active: true,
+    }]],
+    [/WHERE u\.sso_issuer = \$1 AND u\.sso_subject = \$2/, ([iss, sub]) =>
+      users.filter(u => u.sso_issuer === iss && u.sso_subject === sub).map(withSlug)],
+    [/WHERE LOWER\(u\.email\) = \$1/, ([email]) =>
+      users.filter(u => u.email.toLowerCase() === email).map(withSlug)],
+    [/UPDATE users SET sso_issuer/, ([iss, sub, id]) => {
+      Object.assign(users.find(u => u.id === id), { sso_issuer: iss, sso_subject: sub });
+    }],
+    [/INSERT INTO users/, ([id, tenantId, email, , role, iss, sub]) => {
+      const user = { id, tenant_id: tenantId, email, role, is_active: true, mfa_enabled: false, sso_issuer: iss, sso_subject: sub };
+      users.push(user);
+      return [withSlug(user)];
+    }],
+    [/SELECT require_admin_mfa FROM tenants/, () => [{ require_admin_mfa: requireAdminMfa }]],
+  ]);
+}
+
+function account(overrides: Record<string, any>) {
+  return {
+    id: crypto.randomUUID(),
+    tenant_id: TENANT_ID,
+    email: 'someone@acme.test',
+    role: 'user',
+    is_active: true,
+    mfa_enabled: false,
+    sso_issuer: null,
+    sso_subject: null,
+    ...overrides,
+  };
+}
+
+async function rejection(promise: Promise<unknown>, status: number): Promise<string> {
+  const error = await promise.then(() => null, e => e);
+  assert.ok(error instanceof SsoError, `expected SsoError, got ${error}`);
+  assert.equal(error.status, status);
+  return error.message;
+}
+
+function linkQueries() {
+  return calls.filter(c => /UPDATE users SET sso_issuer/.test(c.sql));
+}
+
+describe('completeSsoLogin', () => {
+  before(async () => {
+    await new Promise<void>(resolve => idp.listen(0, '127.0.0.1', resolve));
+    issuer = `http://127.0.0.1:${(idp.address() as AddressInfo).port}`;
+  });
+  
+  after(() => {
+    idp.close();
+  });
+  
+  beforeEach(() => {
+    users = [];
+    installDb();
+  });
+  
+  afterEach(() => {
+    mock.restoreAll();
+  });
+  
+  it('provisions a new account bound to the issuer and subject', async () => {
+    idTokenClaims = { sub: 'sub-new', email: 'New@Acme.test', email_verified: true };
+    
+    const user = await completeSsoLogin('code', 'state');
+    
+    assert.equal(user.email, 'new@acme.test');
+    assert.equal(user.sso_issuer, issuer);
+    assert.equal(user.sso_subject, 'sub-new');
+    assert.equal(users.length, 1);
+  });
+  
+  it('links an existing account by verified email on first login, then matches by subject', async () => {
+    users.push(account({ id: 'alice', email: 'alice@acme.test' }));
+    idTokenClaims = { sub: 'sub-alice', email: 'alice@acme.test', email_verified: true };
+    
+    const first = await completeSsoLogin('code', 'state');
+    assert.equal(first.id, 'alice');
+    assert.equal(users[0].sso_subject, 'sub-alice');
+    
+    // The IdP later reports a different email for the same subject
+    idTokenClaims = { sub: 'sub-alice', email: 'alice.renamed@acme.test', email_verified: true };
+    const second = await completeSsoLogin('code', 'state');
+    assert.equal(second.id, 'alice');
+    assert.equal(users.length, 1);
+  });
+  
+  it('refuses a master admin even when the IdP asserts a matching verified email', async () => {
+    users.push(account({ id: 'root', email: 'root@acme.test', role: 'master_admin' }));
+    idTokenClaims = { sub: 'attacker', email: 'root@acme.test', email_verified: true };
+    
+    const message = await rejection(completeSsoLogin('code', 'state'), 403);
+    
+    assert.match(message, /master admin/);
+    assert.equal(linkQueries().length, 0);
+    assert.equal(users[0].sso_subject, null);
+  });
+  
+  it('refuses a master admin already bound to the presented identity', async () => {
+    users.push(account({ id: 'root', role: 'master_admin', sso_issuer: issuer, sso_subject: 'sub-root' }));
+    idTokenClaims = { sub: 'sub-root', email: 'someone@acme.test', email_verified: true };
+    
+    await rejection(completeSsoLogin('code', 'state'), 403);
+  });
+  
+  it('refuses an identity whose email belongs to an account bound to another subject', async () => {
+    users.push(account({ id: 'bob', email: 'bob@acme.test', sso_issuer: issuer, sso_subject: 'sub-bob' }));
+    idTokenClaims = { sub: 'attacker', email: 'bob@acme.test', email_verified: true };
+    
+    const message = await rejection(completeSsoLogin('code', 'state'), 403);
+    
+    assert.match(message, /different identity/);
+    assert.equal(users[0].sso_subject, 'sub-bob');
+  });
+  
+  it('refuses to link an account protected by two-factor authentication', async () => {
+    users.push(account({ id: 'carol', email: 'carol@acme.test', role: 'tenant_admin', mfa_enabled: true }));
+    idTokenClaims = { sub: 'sub-carol', email: 'carol@acme.test', email_verified: true };
+    
+    await rejection(completeSsoLogin('code', 'state'), 403);
+    
+    assert.equal(linkQueries().length, 0);
+  });
+  
+  it('refuses to link an account when the IdP does not assert the email is verified', async () => {
+    users.push(account({ id: 'dave', email: 'dave@acme.test' }));
+    idTokenClaims = { sub: 'sub-dave', email: 'dave@acme.test' };
+    
+    await rejection(completeSsoLogin('code', 'state'), 403);
+    
+    assert.equal(linkQueries().length, 0);
+  });
+  
+  it('refuses an account that belongs to another tenant', async () => {
+    users.push(account({ id: 'erin', email: 'erin@acme.test', tenant_id: OTHER_TENANT_ID }));
+    idTokenClaims = { sub: 'sub-erin', email: 'erin@acme.test', email_verified: true };
+    
+    await rejection(completeSsoLogin('code', 'state'), 403);
+  });
+});
+
+describe('POST /api/auth/sso/callback', () => {
+  const app = express();
+  app.use(express.json());
+  app.use('/api/auth', authRoutes);
+  const server = http.createServer(app);
+  let baseUrl = '';
+  
+  before(async () => {
+    await new Promise<void>(resolve => idp.listen(0, '127.0.0.1', resolve));
+    issuer = `http://127.0.0.1:${(idp.address() as AddressInfo).port}`;
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+  
+  after(() => {
+    idp.close();
+    server.close();
+  });
+  
+  beforeEach(() => {
+    users = [];
+    requireAdminMfa = false;
+    installDb();
+  });
+  
+  afterEach(() => {
+    mock.restoreAll();
+  });
+  
+  async function callback() {
+    const response = await fetch(`${baseUrl}/api/auth/sso/callback`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ code: 'code', state: 'state' }),
+    });
+    return { status: response.status, body: await response.json() as any };
+  }
+  
+  function sessionInserts() {
+    return calls.filter(c => /INSERT INTO sessions/.test(c.sql));
+  }
+  
+  it('asks a bound account with 2FA for its code instead of issuing a session', async () => {
+    users.push(account({ id: 'frank', mfa_enabled: true, sso_issuer: issuer, sso_subject: 'sub-frank' }));
+    idTokenClaims = { sub: 'sub-frank', email: 'someone@acme.test', email_verified: true };
+    
+    const { status, body } = await callback();
+    
+    assert.equal(status, 200);
+    assert.equal(body.data.mfaRequired, true);
+    assert.equal(body.data.token, undefined);
+    assert.equal(verifyMfaToken(body.data.mfaToken, 'mfa_verify'), 'frank');
+    assert.equal(sessionInserts().length, 0);
+  });
+  
+  it('sends an admin to 2FA enrollment when the tenant requires it', async () => {
+    requireAdminMfa = true;
+    users.push(account({ id: 'grace', role: 'tenant_admin', sso_issuer: issuer, sso_subject: 'sub-grace' }));
+    idTokenClaims = { sub: 'sub-grace', email: 'someone@acme.test', email_verified: true };
+    
+    const { body } = await callback();
+    
+    assert.equal(body.data.mfaEnrollmentRequired, true);
+    assert.equal(verifyMfaToken(body.data.mfaToken, 'mfa_enroll'), 'grace');
+    assert.equal(sessionInserts().length, 0);
+  });
+});
@@ -0,0 +1,133 @@
+import './helpers/env.js';
+import { describe, it, beforeEach, afterEach, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import OpenAI from 'openai';
+import { checkForbiddenTopics, checkTopics } from '../src/services/topics.js';
+import { Agent, TopicRule } from '../src/types/index.js';
+import { fakeQueries, TRANSACTION_ROUTE } from './helpers/fakeDb.js';
+
+const USER_ID = 'aaaaaaaa-aaaa-aaaa-aaaa-aaaaaaaaaaaa';
+
+// One axis per subject, so similarity is 1 within a subject and 0 across subjects (or with unrelated text)
+const SUBJECTS = [/refund|billing|invoice/i, /diagnos|medic|symptom/i, /salary|payroll/i, /violen|weapon/i];
+
+function embed(text: string): number[] {
+  return SUBJECTS.map(subject => (subject.test(text) ? 1 : 0));
+}
+
+let embedded: string[];
+
+function agentWith(topics: { allowed?: (string | TopicRule)[]; forbidden?: (string | TopicRule)[] }): Agent {
+  return {
+    id: 'cccccccc-cccc-cccc-cccc-cccccccccccc',
+    tenant_id: '11111111-1111-1111-1111-111111111111',
+    allowed_topics: topics.allowed || [],
+    forbidden_topics: topics.forbidden || [],
+  } as unknown as Agent;
+}
+
+describe('checkTopics', () => {
+  beforeEach(() => {
+    embedded = [];
+    mock.method(OpenAI.Embeddings.prototype, 'create', async ({ input }: { input: string }) => {
+      embedded.push(input);
+      return { data: [{ embedding: embed(input) }], usage: { prompt_tokens: 1 } };
+    });
+    // Embedding usage is recorded against an agent that isn't in the fake database
+    fakeQueries([
+      [/FROM model_pricing/, () => []],
+      [/INSERT INTO usage_events/, () => []],
+      TRANSACTION_ROUTE,
+      [/FROM agents a/, () => []],
+    ]);
+  });
+  
+  afterEach(() => {
+    mock.restoreAll();
+  });
+  
+  it('allows everything without embedding when the agent has no topics', async () => {
+    assert.deepEqual(await checkTopics('Anything at all', agentWith({}), USER_ID), { allowed: true });
+    assert.deepEqual(embedded, []);
+  });
+  
+  it('blocks on a forbidden keyword or pattern without embedding the message', async () => {
+    const agent = agentWith({
+      forbidden: [
+        { name: 'Competitors', keywords: ['Globex'] },
+        { name: 'Card numbers', patterns: ['\\b\\d{4}[ -]?\\d{4}[ -]?\\d{4}[ -]?\\d{4}\\b'] },
+      ],
+    });
+    
+    const keyword = await checkTopics('How do we compare to globex?', agent, USER_ID);
+    assert.equal(keyword.allowed, false);
+    assert.deepEqual(keyword.match, { topic: 'Competitors', list: 'forbidden', method: 'keyword', score: 1 });
+    
+    const pattern = await checkTopics('My card is 4111 1111 1111 1111', agent, USER_ID);
+    assert.equal(pattern.match!.method, 'pattern');
+    
+    assert.deepEqual(embedded, []);
+  });
+  
+  it('matches keywords as whole words only', async () => {
+    const agent = agentWith({ forbidden: [{ name: 'Violence', keywords: ['rapist'] }] });
+    
+    assert.equal((await checkTopics('Can I see a therapist?', agent, USER_ID)).allowed, true);
+    assert.equal((await checkTopics('Report a rapist', agent, USER_ID)).allowed, false);
+  });
+  
+  it('blocks a message close to a forbidden topic', async () => {
+    const agent = agentWith({ forbidden: [{ name: 'Medical advice', description: 'diagnosis of symptoms' }] });
+    
+    const result = await checkTopics('What medicine should I take?', agent, USER_ID);
+    
+    assert.equal(result.allowed, false);
+    assert.equal(result.reason, 'Message matches forbidden topic: "Medical advice"');
+    assert.equal(result.match!.method, 'semantic');
+  });
+  
+  it('requires a message to match one of the allowed topics', async () => {
+    const agent = agentWith({ allowed: ['Billing questions', { name: 'Payroll', keywords: ['payslip'] }] });
+    
+    const keyword = await checkTopics('Where is my payslip?', agent, USER_ID);
+    assert.equal(keyword.allowed, true);
+    assert.equal(keyword.match!.method, 'keyword');
+    
+    const semantic = await checkTopics('I need a refund', agent, USER_ID);
+    assert.equal(semantic.allowed, true);
+    assert.equal(semantic.match!.topic, 'Billing questions');
+    
+    const offTopic = await checkTopics('Tell me a joke', agent, USER_ID);
+    assert.equal(offTopic.allowed, false);
+    assert.equal(offTopic.reason, 'Message does not match any allowed topics');
+  });
+  
+  it('lets a forbidden topic win over an allowed one', async () => {
+    const agent = agentWith({ allowed: ['Billing questions'], forbidden: [{ name: 'Invoices', keywords: ['invoice'] }] });
+    
+    assert.equal((await checkTopics('Send me the invoice', agent, USER_ID)).allowed, false);
+  });
+  
+  it('embeds the message once and caches topic embeddings', async () => {
+    const agent = agentWith({ allowed: ['Salary bands'], forbidden: ['Symptom checks'] });
+    
+    await checkTopics('What are the billing options?', agent, USER_ID);
+    await checkTopics('What are the refund options?', agent, USER_ID);
+    
+    assert.deepEqual(embedded, [
+      'What are the billing options?',
+      'Symptom checks',
+      'Salary bands',
+      'What are the refund options?',
+    ]);
+  });
+});
+
+describe('checkForbiddenTopics', () => {
+  it('checks generated text against forbidden topics only', async () => {
+    const agent = agentWith({ allowed: ['Billing questions'], forbidden: [{ name: 'Competitors', keywords: ['Globex'] }] });
+    
+    assert.equal(await checkForbiddenTopics('Nothing to see here', agentWith({ allowed: ['Billing'] }), USER_ID), undefined);
+    assert.equal((await checkForbiddenTopics('Globex is cheaper', agent, USER_ID))!.topic, 'Competitors');
+  });
+});
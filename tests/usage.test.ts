@@ -0,0 +1,108 @@
+import './helpers/env.js';
+import { describe, it, beforeEach, afterEach, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { chargeAgentCost, getAgentCostToday, rollOverDailyCosts } from '../src/services/usage.js';
+import { fakeQueries, TRANSACTION_ROUTE } from './helpers/fakeDb.js';
+
+const TENANT_ID = '11111111-1111-1111-1111-111111111111';
+const AGENT_ID = 'cccccccc-cccc-cccc-cccc-cccccccccccc';
+
+interface AgentRow {
+  id: string;
+  tenant_id: string;
+  cost_used_today: number;
+  cost_limit_daily: number;
+  cost_period_date: string;
+}
+
+let agent: AgentRow;
+let archive: Map<string, number>;
+let today: string;
+let usageDate: string;
+
+// Keeps the agent's counter and its archive in memory; dates are already tenant-local
+function installDb() {
+  fakeQueries([
+    TRANSACTION_ROUTE,
+    [/WHERE a\.id = \$1\s+FOR UPDATE OF a/, () => [{ ...agent, usage_date: usageDate, today }]],
+    [/WHERE a\.cost_period_date < /, () => (agent.cost_period_date < today ? [{ ...agent, today }] : [])],
+    [/INSERT INTO agent_daily_usage/, ([, , date, cost]) => {
+      archive.set(date, (archive.get(date) ?? 0) + cost);
+    }],
+    [/SET cost_used_today = cost_used_today \+ \$1, cost_period_date = \$2/, ([cost, date]) => {
+      Object.assign(agent, { cost_used_today: agent.cost_used_today + cost, cost_period_date: date });
+    }],
+    [/SET cost_used_today = \$1, cost_period_date = \$2/, ([cost, date]) => {
+      Object.assign(agent, { cost_used_today: cost, cost_period_date: date });
+    }],
+    [/SET cost_used_today = 0, cost_period_date = \$1/, ([date]) => {
+      Object.assign(agent, { cost_used_today: 0, cost_period_date: date });
+    }],
+    [/SELECT CASE WHEN a\.cost_period_date < /, () => [{ cost: agent.cost_period_date < today ? 0 : agent.cost_used_today }]],
+  ]);
+}
+
+describe('daily agent cost', () => {
+  beforeEach(() => {
+    agent = { id: AGENT_ID, tenant_id: TENANT_ID, cost_used_today: 2, cost_limit_daily: 10, cost_period_date: '2026-10-19' };
+    archive = new Map();
+    today = '2026-10-19';
+    usageDate = '2026-10-19';
+    installDb();
+  });
+  
+  afterEach(() => {
+    mock.restoreAll();
+  });
+  
+  it('adds a call from the current day to the counter', async () => {
+    await chargeAgentCost(AGENT_ID, 0.5, new Date());
+    
+    assert.equal(agent.cost_used_today, 2.5);
+    assert.equal(archive.size, 0);
+  });
+  
+  it('archives the previous day before charging the first call of a new one', async () => {
+    today = usageDate = '2026-10-20';
+    
+    await chargeAgentCost(AGENT_ID, 0.5, new Date());
+    
+    assert.deepEqual(Object.fromEntries(archive), { '2026-10-19': 2 });
+    assert.deepEqual([agent.cost_used_today, agent.cost_period_date], [0.5, '2026-10-20']);
+  });
+  
+  it('charges a late call from a day already rolled over to that day\'s archive', async () => {
+    usageDate = '2026-10-18';
+    
+    await chargeAgentCost(AGENT_ID, 0.5, new Date());
+    
+    assert.deepEqual(Object.fromEntries(archive), { '2026-10-18': 0.5 });
+    assert.equal(agent.cost_used_today, 2);
+  });
+  
+  it('treats a period ahead of the tenant\'s calendar as today', async () => {
+    // e.g. started on the server's date, or the tenant moved to a timezone that is behind
+    agent.cost_period_date = '2026-10-20';
+    
+    await chargeAgentCost(AGENT_ID, 0.5, new Date());
+    
+    assert.equal(archive.size, 0);
+    assert.deepEqual([agent.cost_used_today, agent.cost_period_date], [2.5, '2026-10-19']);
+  });
+  
+  it('rolls over only counters whose day has ended', async () => {
+    assert.equal(await rollOverDailyCosts(), 0);
+    
+    today = '2026-10-20';
+    assert.equal(await rollOverDailyCosts(), 1);
+    assert.deepEqual(Object.fromEntries(archive), { '2026-10-19': 2 });
+    assert.deepEqual([agent.cost_used_today, agent.cost_period_date], [0, '2026-10-20']);
+  });
+  
+  it('counts an ended period as nothing spent today', async () => {
+    assert.equal(await getAgentCostToday(AGENT_ID), 2);
+    
+    today = '2026-10-20';
+    assert.equal(await getAgentCostToday(AGENT_ID), 0);
+  });
+});